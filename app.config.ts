@@ -19,6 +19,16 @@ const generateBuildTimestamp = (): string => {
 // Build timestamp generated at bundle time
 const BUILD_TIMESTAMP = generateBuildTimestamp()
 
+// ICE servers for the 'static' provider - a JSON array of { urls, username?, credential? }
+const parseIceServers = (json: string | undefined): unknown[] => {
+  if (!json) return []
+  const servers = JSON.parse(json)
+  if (!Array.isArray(servers)) {
+    throw new Error('EXPO_PUBLIC_ICE_SERVERS must be a JSON array of ICE servers')
+  }
+  return servers
+}
+
 export default ({ config }: ConfigContext): ExpoConfig => ({
   ...config,
   name: 'Help Her Take Photo',
@@ -65,7 +75,7 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
       NSLocalNetworkUsageDescription:
         "This app uses local network to connect with your partner's device",
       NSMicrophoneUsageDescription:
-        'This app may use microphone for video recording',
+        'Push-to-talk with your partner uses the microphone, only when you turn it on in Settings',
       NSFaceIDUsageDescription: 'Use Face ID for secure authentication',
       NSBonjourServices: ['_helphertakephoto._tcp'],
       UIBackgroundModes: ['fetch', 'remote-notification'],
@@ -105,7 +115,13 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
       'USE_FINGERPRINT',
       'RECEIVE_BOOT_COMPLETED',
       'POST_NOTIFICATIONS',
+      // LiveKit's audio session - routing push-to-talk to speaker or headset
+      'MODIFY_AUDIO_SETTINGS',
+      'BLUETOOTH_CONNECT',
+      'WAKE_LOCK',
     ],
+    // Added by the WebRTC config plugin, but only needed for screen sharing
+    blockedPermissions: ['android.permission.SYSTEM_ALERT_WINDOW'],
   },
   web: {
     favicon: './assets/favicon.png',
@@ -171,11 +187,43 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
     ['expo-secure-store'],
     'expo-router',
     'expo-audio',
+    // WebRTC (@livekit/react-native-webrtc) native setup, used by both the raw
+    // WebRTC and the LiveKit transport - the texts match infoPlist above
+    [
+      '@config-plugins/react-native-webrtc',
+      {
+        cameraPermission:
+          'This app needs camera access so you can take photos for your partner',
+        microphonePermission:
+          'Push-to-talk with your partner uses the microphone, only when you turn it on in Settings',
+      },
+    ],
+    [
+      '@livekit/react-native-expo-plugin',
+      {
+        android: {
+          audioType: 'communication',
+        },
+      },
+    ],
   ],
   extra: {
     // Dynamic build info - generated at bundle time
     buildTimestamp: BUILD_TIMESTAMP,
     buildDate: new Date().toISOString().split('T')[0],
+    // Where TURN servers come from: 'metered', 'static' or 'coturn' (self-hosted,
+    // credentials minted by the turn-credentials edge function) - see src/config/ice.ts
+    ice: {
+      provider: process.env.EXPO_PUBLIC_ICE_PROVIDER || 'metered',
+      servers: parseIceServers(process.env.EXPO_PUBLIC_ICE_SERVERS),
+      publicFallback: process.env.EXPO_PUBLIC_ICE_PUBLIC_FALLBACK !== 'false',
+    },
+    // Which transport carries video and commands first ('webrtc' or 'livekit'), and
+    // whether to switch to the other when it can't connect - see src/config/transport.ts
+    transport: {
+      preferred: process.env.EXPO_PUBLIC_MEDIA_TRANSPORT || 'webrtc',
+      fallback: process.env.EXPO_PUBLIC_MEDIA_TRANSPORT_FALLBACK !== 'false',
+    },
     eas: {
       projectId: '8a43c382-0044-4ea0-a4f4-7eb45d70d42c',
     },
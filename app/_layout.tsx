@@ -48,6 +48,8 @@ import { logger } from '../src/services/logging'
 import { notificationService } from '../src/services/notifications'
 import { sessionLogger } from '../src/services/sessionLogger'
 import { connectionManager, type ConnectionEvent } from '../src/services/connectionManager'
+import { syncQueue } from '../src/services/syncQueue'
+import { sessionRecorder } from '../src/services/sessionRecorder'
 import { initErrorTracking, setUser as setErrorUser } from '../src/services/errorTracking'
 import { ensureAuthenticated } from '../src/services/supabase'
 import { AuthProvider } from '../src/contexts/AuthContext'
@@ -169,6 +171,12 @@ export default Sentry.wrap(function RootLayout() {
       
       // Initialize connection manager for network/lifecycle monitoring
       connectionManager.initialize()
+
+      // Replay writes made while offline, now and whenever the network comes back
+      syncQueue.initialize()
+
+      // Save a session recording cut short when the app was last killed
+      void sessionRecorder.restore()
       
       // Subscribe to connection events
       const unsubscribe = connectionManager.subscribe(handleConnectionEvent)
@@ -317,6 +325,12 @@ export default Sentry.wrap(function RootLayout() {
               title: t.gallery.title,
             }} 
           />
+          <Stack.Screen 
+            name="replay" 
+            options={{ 
+              title: t.replay.title,
+            }} 
+          />
           <Stack.Screen 
             name="profile" 
             options={{ 
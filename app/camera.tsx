@@ -39,17 +39,68 @@ import { useThemeStore } from '../src/stores/themeStore'
 import { useStatsStore } from '../src/stores/statsStore'
 import { Icon } from '../src/components/ui/Icon'
 import { CaptureButton } from '../src/components/CaptureButton'
+import { CountdownOverlay } from '../src/components/CountdownOverlay'
+import { GridOverlay } from '../src/components/GridOverlay'
+import { FramingGuidesOverlay } from '../src/components/FramingGuides'
+import { TransportVideoView, canRenderVideo } from '../src/components/TransportVideoView'
+import { resolveFireAt } from '../src/utils/countdown'
+import { cueDirection, magnitudeLevel, speakPrompt } from '../src/utils/directionCues'
 import { ConnectionDebugPanel } from '../src/components/ui/ConnectionDebugPanel'
 import { pairingApi, connectionHistoryApi, capturesApi } from '../src/services/api'
 import { sessionLogger, CAMERA_ERROR_MESSAGES, type CameraErrorType } from '../src/services/sessionLogger'
-import { webrtcService, webrtcAvailable } from '../src/services/webrtc'
-import { livekitService, isLiveKitAvailable } from '../src/services/livekit'
-import { useRealtimeCommands, Direction } from '../src/services/realtimeCommands'
+import { webrtcService } from '../src/services/webrtc'
+import { mediaTransport } from '../src/services/transport'
+import {
+  hasActiveVideo,
+  mediaVideoTracks,
+  NO_TRANSPORT_FEATURES,
+  type MediaHandle,
+  type TransportFeatures,
+} from '../src/services/mediaTransport'
+import {
+  useRealtimeCommands,
+  type DirectionCommand,
+  type CaptureRequestCommand,
+} from '../src/services/realtimeCommands'
+import {
+  createCommandDispatcher,
+  sendRemoteCommand,
+  type CommandDispatcherOptions,
+  type CommandOutcome,
+  type RawCommandHandler,
+} from '../src/services/commandDispatcher'
+import { CommandReceiveWindow } from '../src/services/commandReceiveWindow'
+import type { CameraControlState, CameraControlSupport, CameraStateSnapshot, CaptureResponse } from '../src/types'
+import { planCaptureSequence } from '../src/utils/captureSequence'
+import uuid from 'react-native-uuid'
+import {
+  CAMERA_COMMANDS,
+  DEFAULT_DIRECTION_MAGNITUDE,
+  MAX_CAMERA_LENSES,
+  validateRemoteCommand,
+  type Direction,
+  type RemoteCommand,
+  type FramingGuide,
+} from '../src/schemas/commands'
 import { cloudApi } from '../src/services/cloudApi'
+import { photoDelivery } from '../src/services/photoDelivery'
+import { sessionRecorder } from '../src/services/sessionRecorder'
+import { DEFAULT_CAMERA_CONTROLS, NO_CONTROL_SUPPORT } from '../src/services/cameraControls'
+import { useDeviceStatus } from '../src/hooks/useDeviceStatus'
+import { useLevelRoll } from '../src/hooks/useLevelRoll'
+import { useVoiceChannel } from '../src/hooks/useVoiceChannel'
+import { PushToTalkButton, PartnerVoiceBadge } from '../src/components/VoiceControls'
+import { MessageBanner } from '../src/components/QuickPhrases'
+import { ConnectionModeBadge } from '../src/components/ConnectionStatus'
+import { lanSession } from '../src/services/lanSession'
+import { useFrameStream } from '../src/hooks/useFrameStream'
 
-// LiveKit temporarily disabled - native packages conflict
-// Use WebRTC until LiveKit build issues are resolved
-const USE_LIVEKIT = false
+// Outcome of a capture, reported back to the director
+type CaptureResult = Omit<CaptureResponse, 'requestId'>
+
+type CaptureOptions = Parameters<typeof planCaptureSequence>[0]
+
+type CaptureBurstInfo = NonNullable<Parameters<typeof capturesApi.save>[0]['burst']>
 
 // Helper to get user-friendly error message
 function getCameraErrorMessage(error: Error | unknown): string {
@@ -59,28 +110,16 @@ function getCameraErrorMessage(error: Error | unknown): string {
   return CAMERA_ERROR_MESSAGES[errorName] || error.message || CAMERA_ERROR_MESSAGES.UnknownError
 }
 
-// Dynamically import RTCView
-let RTCView: any = null
-try {
-  const webrtc = require('react-native-webrtc')
-  RTCView = webrtc.RTCView
-} catch {
-  // WebRTC not available
-}
-
 const QUICK_CONNECT_KEY = 'quick_connect_mode'
 
-// Grid overlay component
-function GridOverlay() {
-  return (
-    <View style={styles.gridOverlay} pointerEvents="none">
-      <View style={[styles.gridLine, styles.gridLineH, { top: '33%' }]} />
-      <View style={[styles.gridLine, styles.gridLineH, { top: '66%' }]} />
-      <View style={[styles.gridLine, styles.gridLineV, { left: '33%' }]} />
-      <View style={[styles.gridLine, styles.gridLineV, { left: '66%' }]} />
-    </View>
-  )
-}
+/** camera_state is re-sent this often even when nothing changed */
+const CAMERA_STATE_HEARTBEAT_MS = 10000
+
+/** How often connection quality goes into the session recording */
+const QUALITY_SAMPLE_INTERVAL_MS = 15000
+
+/** Local Wi-Fi preview: one low-quality still this often, sent over UDP */
+const LAN_FRAME_INTERVAL_MS = 250
 
 // Quick action button with animated press feedback
 function QuickActionButton({ 
@@ -142,20 +181,46 @@ function EncouragementToast({ message, visible }: { message: string; visible: bo
   )
 }
 
-// Direction overlay - large, prominent arrows for camera positioning
-function DirectionOverlay({ direction, visible }: { direction: string | null; visible: boolean }) {
-  if (!visible || !direction) return null
-  
-  const directionConfig: Record<string, { icon: string; label: string; color: string }> = {
-    up: { icon: '⬆', label: 'TILT UP', color: '#4ECDC4' },
-    down: { icon: '⬇', label: 'TILT DOWN', color: '#FF6B6B' },
-    left: { icon: '⬅', label: 'PAN LEFT', color: '#FFE66D' },
-    right: { icon: '➡', label: 'PAN RIGHT', color: '#FFE66D' },
-    closer: { icon: '⊕', label: 'MOVE CLOSER', color: '#95E1D3' },
-    back: { icon: '⊖', label: 'STEP BACK', color: '#F38181' },
-  }
+// Direction overlay - large, prominent arrows for camera positioning, sized by how far to move
+interface DirectionPrompt {
+  direction: Direction
+  magnitude?: number
+}
+
+const DIRECTION_CONFIG: Record<Direction, { icon: string; color: string }> = {
+  up: { icon: '⬆', color: '#4ECDC4' },
+  down: { icon: '⬇', color: '#FF6B6B' },
+  left: { icon: '⬅', color: '#FFE66D' },
+  right: { icon: '➡', color: '#FFE66D' },
+  closer: { icon: '⊕', color: '#95E1D3' },
+  back: { icon: '⊖', color: '#F38181' },
+  tilt_up: { icon: '⤴', color: '#4ECDC4' },
+  tilt_down: { icon: '⤵', color: '#FF6B6B' },
+  rotate_cw: { icon: '↻', color: '#C3A6FF' },
+  rotate_ccw: { icon: '↺', color: '#C3A6FF' },
+  raise: { icon: '⤒', color: '#4ECDC4' },
+  lower: { icon: '⤓', color: '#FF6B6B' },
+}
+
+interface DirectionOverlayStrings {
+  directionLabels: Record<Direction, string>
+  directionFallback: string
+  directionAmount: { tiny: string; large: string }
+}
+
+function DirectionOverlay({ prompt, visible, strings }: {
+  prompt: DirectionPrompt | null
+  visible: boolean
+  /** Localized direction names and "a tiny bit" / "a lot" */
+  strings: DirectionOverlayStrings
+}) {
+  if (!visible || !prompt) return null
   
-  const config = directionConfig[direction] || { icon: '📍', label: 'ADJUST', color: '#FFF' }
+  const config = DIRECTION_CONFIG[prompt.direction] || { icon: '📍', color: '#FFF' }
+  const label = strings.directionLabels[prompt.direction] ?? strings.directionFallback
+  const magnitude = prompt.magnitude ?? DEFAULT_DIRECTION_MAGNITUDE
+  const level = magnitudeLevel(prompt.magnitude)
+  const amount = level === 'normal' ? null : strings.directionAmount[level]
   
   return (
     <Animated.View 
@@ -163,9 +228,14 @@ function DirectionOverlay({ direction, visible }: { direction: string | null; vi
       exiting={FadeOut.duration(200)}
       style={styles.directionOverlay}
     >
-      <View style={[styles.directionBox, { borderColor: config.color }]}>
+      {/* 0.7x for a nudge up to 1.3x for a big move */}
+      <View style={[styles.directionBox, { borderColor: config.color, transform: [{ scale: 0.7 + magnitude * 0.6 }] }]}>
         <Text style={[styles.directionIcon, { color: config.color }]}>{config.icon}</Text>
-        <Text style={[styles.directionLabel, { color: config.color }]}>{config.label}</Text>
+        <Text style={[styles.directionLabel, { color: config.color }]}>{label}</Text>
+        {amount && <Text style={[styles.directionAmount, { color: config.color }]}>{amount}</Text>}
+        <View style={styles.directionMagnitudeTrack}>
+          <View style={[styles.directionMagnitudeFill, { width: `${magnitude * 100}%`, backgroundColor: config.color }]} />
+        </View>
       </View>
     </Animated.View>
   )
@@ -284,7 +354,9 @@ function PermissionDenied({
 export default function CameraScreen() {
   const router = useRouter()
   const { colors } = useThemeStore()
-  const { isPaired, myDeviceId, pairedDeviceId, sessionId, clearPairing, partnerDisplayName, partnerAvatar, setPartnerPresence } = usePairingStore()
+  const { isPaired, myDeviceId, pairedDeviceId, sessionId, connectionMode, clearPairing, partnerDisplayName, partnerAvatar, setPartnerPresence } = usePairingStore()
+  // Local Wi-Fi only: no Supabase presence, Realtime or WebRTC - everything goes over lanSession
+  const isLan = connectionMode === 'lan'
   const partnerNameRef = useRef(partnerDisplayName)
   const partnerAvatarRef = useRef(partnerAvatar)
 
@@ -295,7 +367,7 @@ export default function CameraScreen() {
   }, [partnerDisplayName, partnerAvatar])
 
   const { settings, updateSettings } = useSettingsStore()
-  const { t } = useLanguageStore()
+  const { t, language } = useLanguageStore()
   const { incrementPhotos, incrementScoldingsSaved } = useStatsStore()
   const autoDisconnectingRef = useRef(false)
 
@@ -312,7 +384,7 @@ export default function CameraScreen() {
     })
 
     try {
-      webrtcService.destroy()
+      void mediaTransport.destroy()
 
       if (myDeviceId) {
         await connectionHistoryApi.disconnectAll(myDeviceId)
@@ -330,7 +402,7 @@ export default function CameraScreen() {
   // Presence should be tracked as soon as the device is paired (NOT gated by camera permissions),
   // otherwise the director will see partner_presence_offline and auto-disconnect.
   useEffect(() => {
-    if (!isPaired || !myDeviceId || !pairedDeviceId || !sessionId) return
+    if (!isPaired || !myDeviceId || !pairedDeviceId || !sessionId || isLan) return
 
     sessionLogger.info('presence_join_requested', {
       role: 'camera',
@@ -358,7 +430,7 @@ export default function CameraScreen() {
     return () => {
       void presenceSub.unsubscribe()
     }
-  }, [disconnectAndUnpair, isPaired, myDeviceId, pairedDeviceId, sessionId])
+  }, [disconnectAndUnpair, isPaired, isLan, myDeviceId, pairedDeviceId, sessionId])
   
   const cameraRef = useRef<CameraView>(null)
   const [permission, requestPermission] = useCameraPermissions()
@@ -370,15 +442,23 @@ export default function CameraScreen() {
   // We only start sharing once Presence confirms partner is online (or user explicitly retries).
   const [isSharing, setIsSharing] = useState(false)
   const [isConnected, setIsConnected] = useState(false)
-  const [localStream, setLocalStream] = useState<any>(null)
-  const [usingLiveKit, setUsingLiveKit] = useState(USE_LIVEKIT && isLiveKitAvailable)
+  const [localMedia, setLocalMedia] = useState<MediaHandle | null>(null)
+  // What the transport carrying the session supports (voice, controls, stream presets)
+  const [transportFeatures, setTransportFeatures] = useState<TransportFeatures>(NO_TRANSPORT_FEATURES)
   const [photoCount, setPhotoCount] = useState(0)
   const [cameraReady, setCameraReady] = useState(false)
+  // Mirrors cameraReady for code that waits on it across renders (the capture swap)
+  const cameraReadyRef = useRef(false)
+  const updateCameraReady = (ready: boolean) => {
+    cameraReadyRef.current = ready
+    setCameraReady(ready)
+  }
   const [showEncouragement, setShowEncouragement] = useState(false)
   const [encouragement, setEncouragement] = useState('')
   const [lastCommand, setLastCommand] = useState<string | null>(null)
-  const [currentDirection, setCurrentDirection] = useState<string | null>(null)
+  const [currentDirection, setCurrentDirection] = useState<DirectionPrompt | null>(null)
   const [showDirection, setShowDirection] = useState(false)
+  const [directorMessage, setDirectorMessage] = useState<{ id: string; text: string } | null>(null)
   const [isLoadingPermission, setIsLoadingPermission] = useState(true)
   const [webrtcState, setWebrtcState] = useState<string>('idle')
   const [partnerOnline, setPartnerOnline] = useState<boolean | null>(null)
@@ -400,20 +480,108 @@ export default function CameraScreen() {
   
   const encouragements = t.camera.encouragements
 
+  // Each command id runs once, whichever path (WebRTC or Realtime) delivers it first
+  const receiveWindowRef = useRef(new CommandReceiveWindow())
+  // Dispatcher for the Realtime path - set up alongside the WebRTC one
+  const realtimeDispatchRef = useRef<RawCommandHandler | null>(null)
+  // Latest handleRemoteCommand. Every command path goes through this, since their
+  // callbacks are set up once and would otherwise see the first render's state
+  const handleRemoteCommandRef = useRef<((command: RemoteCommand) => Promise<void | CommandOutcome>) | null>(null)
+
+  // Director-triggered self-timer. One countdown at a time.
+  const [countdownFireAt, setCountdownFireAt] = useState<number | null>(null)
+  // Framing guides drawn by the director
+  const [guides, setGuides] = useState<FramingGuide[]>([])
+  // Manual controls set by the director - `supported` is filled in per preview source
+  const [controls, setControls] = useState<CameraControlState>(DEFAULT_CAMERA_CONTROLS)
+  // Battery / storage / orientation for the director's camera_state
+  const { status: deviceStatus, refreshStorage } = useDeviceStatus()
+  // Photographer's roll for the director's level - whole degrees keep camera_state quiet
+  const levelRoll = useLevelRoll(isConnected && settings.showGrid && settings.compositionOverlay === 'level', 1)
+  // Push-to-talk back to the director (opt-in in settings)
+  const voice = useVoiceChannel({
+    enabled: settings.pushToTalk,
+    active: isConnected && transportFeatures.voice && !isLan,
+    send: (command) => sendToDirector(command),
+  })
+  const countdownRef = useRef<{
+    countdownId: string
+    timer: ReturnType<typeof setTimeout>
+    cancel: () => void
+  } | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (countdownRef.current) clearTimeout(countdownRef.current.timer)
+    }
+  }, [])
+
   // Use Supabase Realtime as fallback/enhancement for WebRTC commands
   // This provides instant direction commands even if WebRTC data channel has issues
-  const handleRealtimeCommand = useCallback((command: { direction: Direction }) => {
-    sessionLogger.info('realtime_direction_received', { direction: command.direction })
-    setCurrentDirection(command.direction)
+  const handleRealtimeCommand = useCallback((command: DirectionCommand) => {
+    sessionLogger.info('realtime_direction_received', {
+      direction: command.direction,
+      magnitude: command.magnitude,
+      commandId: command.commandId,
+    })
+
+    const data = { direction: command.direction, magnitude: command.magnitude, id: command.commandId }
+
+    const dispatch = realtimeDispatchRef.current
+    if (dispatch) {
+      dispatch('direction', data)
+      return
+    }
+
+    // No WebRTC session to ack over yet - just show it, still de-duplicated
+    const result = validateRemoteCommand('direction', data)
+    if (!result.success || result.data?.type !== 'direction') {
+      sessionLogger.warn('realtime_direction_invalid', { direction: command.direction, error: result.error })
+      return
+    }
+    if (command.commandId && receiveWindowRef.current.check(command.commandId, 'realtime') !== 'new') {
+      return
+    }
+    sessionRecorder.recordCommand({ ...result.data, id: command.commandId })
+    const { direction, magnitude } = result.data
+    setCurrentDirection({ direction, magnitude })
     setShowDirection(true)
-    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning)
+    cueDirection(direction, magnitude)
     setTimeout(() => setShowDirection(false), 2500)
   }, [])
 
-  const { isConnected: realtimeConnected } = useRealtimeCommands(
-    isPaired ? sessionId ?? undefined : undefined,
+  // Capture requests over Realtime run the same pipeline as the WebRTC `capture` command
+  const handleRealtimeCapture = (request: CaptureRequestCommand) => {
+    sessionLogger.info('realtime_capture_received', { requestId: request.requestId })
+
+    const data = {
+      id: request.requestId,
+      mode: request.mode,
+      frames: request.frames,
+      intervalMs: request.intervalMs,
+    }
+
+    const dispatch = realtimeDispatchRef.current
+    if (dispatch) {
+      dispatch('capture', data)
+      return
+    }
+
+    const result = validateRemoteCommand('capture', data)
+    if (!result.success || !result.data) {
+      sessionLogger.warn('realtime_capture_invalid', { requestId: request.requestId, error: result.error })
+      return
+    }
+    if (receiveWindowRef.current.check(request.requestId, 'realtime') !== 'new') return
+    // Failures are already reported back through the capture response
+    handleRemoteCommandRef.current?.(result.data).catch(() => {})
+  }
+
+  const { isConnected: realtimeConnected, sendCaptureResponse } = useRealtimeCommands(
+    isPaired && !isLan ? sessionId ?? undefined : undefined,
     'camera',
-    handleRealtimeCommand
+    handleRealtimeCommand,
+    { onCaptureRequest: handleRealtimeCapture }
   )
 
   // IMPORTANT: This hook must be defined BEFORE any conditional returns
@@ -433,7 +601,7 @@ export default function CameraScreen() {
         role: 'photographer',
         isPaired,
         pairedDeviceId: pairedDeviceId?.substring(0, 8),
-        webrtcAvailable,
+        transportAvailable: mediaTransport.isAvailable(),
         screenMounted: true,
       })
       
@@ -483,9 +651,8 @@ export default function CameraScreen() {
         }
         
         // Pause local video tracks (saves battery, keeps connection alive)
-        const localStream = webrtcService.getLocalStream()
-        if (localStream) {
-          const videoTracks = localStream.getVideoTracks?.() ?? []
+        const videoTracks = mediaVideoTracks(mediaTransport.getLocalMedia())
+        if (videoTracks.length > 0) {
           videoTracks.forEach((track: { enabled: boolean }) => {
             track.enabled = false
           })
@@ -496,9 +663,8 @@ export default function CameraScreen() {
       // App coming to foreground - resume and potentially reconnect
       if (nextState === 'active' && prevState !== 'active') {
         // Resume local video tracks first (quick operation)
-        const localStream = webrtcService.getLocalStream()
-        if (localStream) {
-          const videoTracks = localStream.getVideoTracks?.() ?? []
+        const videoTracks = mediaVideoTracks(mediaTransport.getLocalMedia())
+        if (videoTracks.length > 0) {
           videoTracks.forEach((track: { enabled: boolean }) => {
             track.enabled = true
           })
@@ -514,7 +680,7 @@ export default function CameraScreen() {
           
           setIsReconnecting(true)
           
-          // Small delay to let system stabilize, then reinit WebRTC
+          // Small delay to let system stabilize, then reinit the transport
           setTimeout(async () => {
             if (!isPaired || !myDeviceId || !pairedDeviceId || !sessionId) {
               setIsReconnecting(false)
@@ -523,10 +689,10 @@ export default function CameraScreen() {
             
             try {
               // Destroy and reinit to get fresh connection
-              await webrtcService.destroy()
+              await mediaTransport.destroy()
               await new Promise(resolve => setTimeout(resolve, 500))
               
-              await webrtcService.init(
+              await mediaTransport.init(
                 myDeviceId,
                 pairedDeviceId,
                 sessionId,
@@ -565,14 +731,14 @@ export default function CameraScreen() {
 
   // Auto-start sharing only when we know the partner is online.
   useEffect(() => {
-    if (!isPaired) return
-    if (!webrtcAvailable) return
+    if (!isPaired || isLan) return
+    if (!mediaTransport.isAvailable()) return
     if (!permission?.granted) return
     if (cameraError) return
     if (partnerOnline !== true) return
     if (isSharing) return
     setIsSharing(true)
-  }, [cameraError, isPaired, isSharing, partnerOnline, permission?.granted])
+  }, [cameraError, isPaired, isLan, isSharing, partnerOnline, permission?.granted])
 
   // Initialize WebRTC when paired AND permission is granted AND sharing is requested.
   // IMPORTANT:
@@ -582,10 +748,10 @@ export default function CameraScreen() {
   useEffect(() => {
     if (!isPaired || !myDeviceId || !pairedDeviceId || !sessionId) return
     if (!permission?.granted) return
-    if (!isSharing) return
+    if (!isSharing || isLan) return
     
-    // Check if WebRTC is available
-    if (!webrtcAvailable) {
+    // Check if a video transport is available
+    if (!mediaTransport.isAvailable()) {
       sessionLogger.warn('webrtc_not_available_camera', { 
         isPaired, 
         hasPermission: permission?.granted 
@@ -627,13 +793,9 @@ export default function CameraScreen() {
     // ANDROID FIX: Add timeout to prevent indefinite hang on camera init
     const INIT_TIMEOUT_MS = 15000 // 15 second timeout
     let initTimedOut = false
-    const canUseLiveKit = USE_LIVEKIT && isLiveKitAvailable
-    const streamingMethod = canUseLiveKit ? 'livekit' : 'webrtc'
-    setUsingLiveKit(canUseLiveKit)
-
     const initWebRTC = async () => {
       sessionLogger.info('photographer_calling_video_init', {
-        method: streamingMethod,
+        method: mediaTransport.kind,
         myDeviceId: myDeviceId?.substring(0, 8),
         pairedDeviceId: pairedDeviceId?.substring(0, 8),
         isMounted,
@@ -649,117 +811,111 @@ export default function CameraScreen() {
           reason: 'timeout',
           timeoutMs: INIT_TIMEOUT_MS,
           role: 'photographer',
-          note: 'WebRTC init did not complete in time - may indicate native crash',
+          note: 'Video init did not complete in time - may indicate native crash',
         })
         sessionLogger.flush()
         if (isMounted) {
           setCameraError(CAMERA_ERROR_MESSAGES.TimeoutError)
           setIsSharing(false)
           // Attempt cleanup in case init is stuck
-          if (canUseLiveKit) {
-            void livekitService.destroy().catch(() => {})
-          } else {
-            void webrtcService.destroy().catch(() => {})
-          }
+          void mediaTransport.destroy().catch(() => {})
         }
       }, INIT_TIMEOUT_MS)
       
       try {
-        // Command handler for both LiveKit and WebRTC
-        const handleCommand = (command: string, data?: Record<string, unknown>) => {
-          if (!isMounted) return
-          sessionLogger.info('command_received', { command, data })
-          
-          // Handle role switch command - auto-navigate to director mode
-          if (command === 'switch_role' && data?.newRole === 'director') {
-            sessionLogger.info('switch_role_received', { newRole: 'director' })
-            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning)
-            setShowSwitchToast(true)
-            setTimeout(async () => {
-              if (canUseLiveKit) {
-                await livekitService.destroy()
-              } else {
-                await webrtcService.destroy()
-              }
-              router.replace('/viewer')
-            }, 1500)
-            return
-          }
-          
-          setLastCommand(command)
-          handleRemoteCommand(command, data)
-          setTimeout(() => setLastCommand(null), 2000)
-        }
-
-        if (canUseLiveKit) {
-          // Use LiveKit (more reliable)
-          await livekitService.init(
-            myDeviceId,
-            pairedDeviceId,
-            sessionId,
-            'camera',
-            {
-              onConnectionStateChange: (state) => {
-                if (!isMounted) return
-                sessionLogger.info('photographer_livekit_state', { connectionState: state })
-                setWebrtcState(state)
-                setIsConnected(state === 'connected')
-                if (state === 'disconnected') {
-                  sessionLogger.warn('photographer_connection_lost', { state })
-                }
-              },
-              onError: (error) => {
-                if (!isMounted) return
-                sessionLogger.error('photographer_livekit_error', error)
-                setIsConnected(false)
-              },
+        // Command handler for every transport - validated by the shared dispatcher.
+        // The Realtime backup path gets its own dispatcher sharing the same receive window.
+        const dispatcherOptions: CommandDispatcherOptions = {
+          role: 'camera',
+          accepts: CAMERA_COMMANDS,
+          receiveWindow: receiveWindowRef.current,
+          sendReply: (command, data) => mediaTransport.sendCommand(command, data),
+          onCommand: (command) => {
+            if (!isMounted) return
+            sessionLogger.info('command_received', { command })
+
+            // Handle role switch command - auto-navigate to director mode
+            if (command.type === 'switch_role') {
+              if (command.newRole !== 'director') return
+              sessionLogger.info('switch_role_received', { newRole: 'director' })
+              Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning)
+              setShowSwitchToast(true)
+              setTimeout(async () => {
+                await mediaTransport.destroy()
+                router.replace('/viewer')
+              }, 1500)
+              return
             }
-          )
-          livekitService.onCommand(handleCommand)
-        } else {
-          // Fall back to WebRTC
-          await webrtcService.init(
-            myDeviceId,
-            pairedDeviceId,
-            sessionId,
-            'camera',
-            {
-              onConnectionStateChange: (state) => {
-                if (!isMounted) {
-                  sessionLogger.info('photographer_state_after_unmount', { state })
-                  return
-                }
-                sessionLogger.info('photographer_webrtc_state', { 
-                  connectionState: state,
-                  role: 'camera',
-                })
-                setWebrtcState(state)
-                setIsConnected(state === 'connected')
-                
-                // Track connection state for background/foreground reconnection
-                if (state === 'connected') {
-                  wasConnectedRef.current = true
-                }
-                
-                // If connection failed or disconnected, notify user
-                if (state === 'failed' || state === 'disconnected') {
-                  sessionLogger.warn('photographer_connection_lost', { state })
-                  // Do NOT unpair on transient WebRTC failures; Presence handles real disconnects.
+
+            // Director could not handle something we sent - nothing to execute
+            if (command.type === 'unsupported') return
+
+            setLastCommand(command.type)
+            setTimeout(() => setLastCommand(null), 2000)
+            return handleRemoteCommandRef.current?.(command)
+          },
+        }
+        const handleCommand = createCommandDispatcher({
+          ...dispatcherOptions,
+          path: mediaTransport.kind,
+        })
+        realtimeDispatchRef.current = createCommandDispatcher({ ...dispatcherOptions, path: 'realtime' })
+
+        await mediaTransport.init(
+          myDeviceId,
+          pairedDeviceId,
+          sessionId,
+          'camera',
+          {
+            onConnectionStateChange: (state) => {
+              if (!isMounted) {
+                sessionLogger.info('photographer_state_after_unmount', { state })
+                return
+              }
+              sessionLogger.info('photographer_transport_state', { 
+                connectionState: state,
+                kind: mediaTransport.kind,
+              })
+              setWebrtcState(state)
+              setIsConnected(state === 'connected')
+              
+              // Track connection state for background/foreground reconnection
+              if (state === 'connected') {
+                wasConnectedRef.current = true
+                // After a fallback the new transport has its own camera track
+                const media = mediaTransport.getLocalMedia()
+                if (media && hasActiveVideo(media)) {
+                  setLocalMedia(media)
+                  setStreamReady(true)
                 }
-              },
-              onError: (error) => {
-                if (!isMounted) return
-                sessionLogger.error('photographer_webrtc_error', error, {
-                  role: 'camera',
-                  myDeviceId,
-                  pairedDeviceId,
-                })
-                setIsConnected(false)
-                // Do NOT unpair on transient WebRTC errors; Presence handles real disconnects.
-              },
-            }
-          )
-        } // End of else block (WebRTC fallback)
+              }
+              
+              // If connection failed or disconnected, notify user
+              if (state === 'failed' || state === 'disconnected') {
+                sessionLogger.warn('photographer_connection_lost', { state })
+                // Do NOT unpair on transient transport failures; Presence handles real disconnects.
+              }
+            },
+            onError: (error) => {
+              if (!isMounted) return
+              sessionLogger.error('photographer_transport_error', error, {
+                kind: mediaTransport.kind,
+                myDeviceId,
+                pairedDeviceId,
+              })
+              setIsConnected(false)
+              // Do NOT unpair on transient transport errors; Presence handles real disconnects.
+            },
+            onTransportChange: (kind) => {
+              if (!isMounted) return
+              sessionLogger.info('photographer_transport_changed', { kind })
+              // The previous transport's camera track is gone - the new one brings its own
+              setLocalMedia(null)
+              setStreamReady(false)
+              setTransportFeatures(mediaTransport.features)
+            },
+          }
+        )
         
         // Clear timeout on successful init
         clearTimeout(timeoutId)
@@ -772,84 +928,68 @@ export default function CameraScreen() {
           return
         }
 
-        sessionLogger.info('photographer_webrtc_init_returned', { isMounted })
+        sessionLogger.info('photographer_webrtc_init_returned', { isMounted, kind: mediaTransport.kind })
         
         // Check if still mounted after async init
         if (!isMounted) {
           sessionLogger.warn('photographer_unmounted_after_init', {
-            message: 'Component unmounted during WebRTC init'
+            message: 'Component unmounted during video init'
           })
           return
         }
 
-        // Command listener already attached in handler above for LiveKit
-        if (!canUseLiveKit) {
-          webrtcService.onCommand(handleCommand)
-        }
-        sessionLogger.info('photographer_command_listener_attached', { method: streamingMethod })
+        setTransportFeatures(mediaTransport.features)
+        mediaTransport.onCommand(handleCommand)
+        sessionLogger.info('photographer_command_listener_attached', { method: mediaTransport.kind })
         
-        // For LiveKit, camera is managed by the service
-        // For WebRTC, get local stream for preview AFTER init completes
-        if (canUseLiveKit) {
-          // LiveKit manages the camera internally
-          setStreamReady(true)
-          setCameraError(null)
-          sessionLogger.info('livekit_camera_ready', {
-            role: 'photographer',
-          })
-        } else {
-          // WebRTC - get local stream for preview
-          const stream = webrtcService.getLocalStream()
-          if (stream && isMounted) {
-            // Validate stream has active video tracks before rendering
-            const videoTracks = stream.getVideoTracks()
-            const hasActiveVideo = videoTracks.length > 0 && videoTracks.some(
-              (track: { readyState: string; enabled: boolean }) => track.readyState === 'live' && track.enabled
-            )
-            
-            if (hasActiveVideo) {
-              setLocalStream(stream)
-              setStreamReady(true)
-              setCameraError(null)
-              sessionLogger.logCamera('stream_ready', {
-                trackCount: stream.getTracks().length,
-                videoTracks: videoTracks.length,
-                streamId: stream.id?.substring(0, 8),
-                hasActiveVideo,
-                role: 'photographer',
-                trackDetails: videoTracks.map((t: { readyState: string; enabled: boolean; id?: string; label?: string }) => ({
-                  readyState: t.readyState,
-                  enabled: t.enabled,
-                  id: t.id?.substring(0, 8),
-                  label: t.label,
-                })),
-              })
-            } else {
-              sessionLogger.logCamera('stream_failed', {
-                reason: 'no_active_video_tracks',
-                trackCount: stream.getTracks().length,
-                videoTracksCount: videoTracks.length,
-                trackStates: videoTracks.map((t: { readyState: string; enabled: boolean; id?: string }) => ({
-                  readyState: t.readyState,
-                  enabled: t.enabled,
-                  id: t.id?.substring(0, 8),
-                })),
-                role: 'photographer',
-              })
-              setCameraError(CAMERA_ERROR_MESSAGES.StreamError)
-              setIsSharing(false)
-              void webrtcService.destroy()
-            }
-          } else if (!stream) {
+        // Get the local camera track for preview AFTER init completes
+        const media = mediaTransport.getLocalMedia()
+        if (media && isMounted) {
+          // Validate the track is live before rendering
+          const videoTracks = mediaVideoTracks(media)
+          const activeVideo = hasActiveVideo(media)
+          
+          if (activeVideo) {
+            setLocalMedia(media)
+            setStreamReady(true)
+            setCameraError(null)
+            sessionLogger.logCamera('stream_ready', {
+              kind: media.kind,
+              videoTracks: videoTracks.length,
+              hasActiveVideo: activeVideo,
+              role: 'photographer',
+              trackDetails: videoTracks.map((t: { readyState: string; enabled: boolean; id?: string; label?: string }) => ({
+                readyState: t.readyState,
+                enabled: t.enabled,
+                id: t.id?.substring(0, 8),
+                label: t.label,
+              })),
+            })
+          } else {
             sessionLogger.logCamera('stream_failed', {
-              reason: 'no_stream_returned',
-              isMounted,
+              reason: 'no_active_video_tracks',
+              kind: media.kind,
+              videoTracksCount: videoTracks.length,
+              trackStates: videoTracks.map((t: { readyState: string; enabled: boolean; id?: string }) => ({
+                readyState: t.readyState,
+                enabled: t.enabled,
+                id: t.id?.substring(0, 8),
+              })),
               role: 'photographer',
             })
             setCameraError(CAMERA_ERROR_MESSAGES.StreamError)
             setIsSharing(false)
-            void webrtcService.destroy()
+            void mediaTransport.destroy()
           }
+        } else if (!media) {
+          sessionLogger.logCamera('stream_failed', {
+            reason: 'no_stream_returned',
+            isMounted,
+            role: 'photographer',
+          })
+          setCameraError(CAMERA_ERROR_MESSAGES.StreamError)
+          setIsSharing(false)
+          void mediaTransport.destroy()
         }
       } catch (error) {
         // Clear timeout on error
@@ -873,11 +1013,7 @@ export default function CameraScreen() {
         setIsConnected(false)
         setIsSharing(false)
         setCameraError(userMessage)
-        if (canUseLiveKit) {
-          void livekitService.destroy()
-        } else {
-          void webrtcService.destroy()
-        }
+        void mediaTransport.destroy()
       }
     }
     
@@ -897,56 +1033,419 @@ export default function CameraScreen() {
 
     return () => {
       isMounted = false
+      realtimeDispatchRef.current = null
       if (initDelayId) {
         clearTimeout(initDelayId)
         initDelayId = null
       }
       sessionLogger.info('webrtc_cleanup', { 
         reason: 'component_unmount',
-        hadLocalStream: !!localStream,
+        hadLocalStream: !!localMedia,
       })
       // Reset stream state on cleanup
       setStreamReady(false)
       // Best-effort cleanup; don't set state here (avoids effect loops).
-      if (usingLiveKit) {
-        void livekitService.destroy()
-      } else {
-        void webrtcService.destroy()
+      void mediaTransport.destroy()
+    }
+  }, [isPaired, myDeviceId, pairedDeviceId, sessionId, permission?.granted, isSharing, isLan])
+
+  // Local Wi-Fi only: find the director on the network and take commands over UDP
+  useEffect(() => {
+    if (!isLan || !isPaired || !myDeviceId || !pairedDeviceId || !sessionId) return
+    let isMounted = true
+
+    sessionLogger.info('starting_lan_as_photographer', {
+      myDeviceId: myDeviceId.substring(0, 8),
+      pairedDeviceId: pairedDeviceId.substring(0, 8),
+    })
+
+    const handleCommand = createCommandDispatcher({
+      role: 'camera',
+      accepts: CAMERA_COMMANDS,
+      receiveWindow: receiveWindowRef.current,
+      sendReply: lanSession.sendCommand,
+      path: 'lan',
+      onCommand: (command) => {
+        if (!isMounted) return
+        sessionLogger.info('command_received', { command })
+
+        if (command.type === 'switch_role') {
+          if (command.newRole !== 'director') return
+          sessionLogger.info('switch_role_received', { newRole: 'director' })
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning)
+          setShowSwitchToast(true)
+          setTimeout(() => {
+            lanSession.stop()
+            router.replace('/viewer')
+          }, 1500)
+          return
+        }
+
+        if (command.type === 'unsupported') return
+
+        setLastCommand(command.type)
+        setTimeout(() => setLastCommand(null), 2000)
+        return handleRemoteCommandRef.current?.(command)
+      },
+    })
+
+    lanSession.start({
+      myDeviceId,
+      partnerDeviceId: pairedDeviceId,
+      sessionId,
+      role: 'camera',
+      onCommand: handleCommand,
+      onPeerChange: (online) => {
+        if (!isMounted) return
+        setPartnerPresence(online)
+        setPartnerOnline(online)
+        setWebrtcState(online ? 'connected' : 'disconnected')
+        setIsConnected(online)
+      },
+    }).catch((error) => {
+      sessionLogger.error('lan_session_start_failed', error)
+    })
+
+    return () => {
+      isMounted = false
+      lanSession.stop()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLan, isPaired, myDeviceId, pairedDeviceId, sessionId])
+
+  // Local Wi-Fi preview: the director gets low-quality stills from the expo camera
+  const { startStreaming, stopStreaming, sendCameraFrame } = useFrameStream()
+  const sendCameraFrameRef = useRef(sendCameraFrame)
+  sendCameraFrameRef.current = sendCameraFrame
+  const capturingRef = useRef(false)
+
+  useEffect(() => {
+    if (!isLan || !isConnected || !cameraReady) return
+    startStreaming()
+
+    let grabbing = false
+    const interval = setInterval(async () => {
+      // Never compete with a real capture for the camera
+      if (grabbing || capturingRef.current || !cameraRef.current) return
+      grabbing = true
+      try {
+        const frame = await cameraRef.current.takePictureAsync({
+          base64: true,
+          quality: 0.2,
+          skipProcessing: true,
+          shutterSound: false,
+        })
+        if (frame?.base64) sendCameraFrameRef.current(frame.base64, frame.width, frame.height)
+      } catch {
+        // A dropped preview frame isn't worth surfacing
+      } finally {
+        grabbing = false
       }
+    }, LAN_FRAME_INTERVAL_MS)
+
+    return () => {
+      clearInterval(interval)
+      stopStreaming()
     }
-  }, [isPaired, myDeviceId, pairedDeviceId, sessionId, permission?.granted, isSharing, usingLiveKit])
+  }, [isLan, isConnected, cameraReady, startStreaming, stopStreaming])
 
-  // Handle commands from director
-  const handleRemoteCommand = (command: string, data?: Record<string, unknown>) => {
-    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning)
+  // Handle commands from director (already validated by the command dispatcher).
+  // Resolves when the command has run, rejects if it failed - the dispatcher turns that into acks.
+  const handleRemoteCommand = async (command: RemoteCommand): Promise<void | CommandOutcome> => {
+    sessionRecorder.recordCommand(command)
+
+    // Zoom and voice state stream in - don't buzz for every message.
+    // Directions and captures get their own cues below; stream quality is silent.
+    if (!['zoom', 'voice', 'direction', 'capture', 'stream_quality'].includes(command.type)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning)
+    }
     
-    switch (command) {
-      case 'capture':
-        handleCapture()
+    switch (command.type) {
+      case 'capture': {
+        cueDirection('hold')
+        const result = await handleCapture({
+          mode: command.mode,
+          frames: command.frames,
+          intervalMs: command.intervalMs,
+        })
+        // Report the outcome (and the saved capture's id) over Realtime - the WebRTC
+        // session is torn down during capture, so acks over it may not get through
+        if (command.id && myDeviceId) {
+          void sendCaptureResponse({ requestId: command.id, ...result }, myDeviceId)
+        }
+        if (!result.success) {
+          throw new Error(result.error ?? 'Capture failed')
+        }
         break
-      case 'flip':
-        toggleCameraFacing()
+      }
+      case 'flip': {
+        // Older directors send no target - toggle for them
+        const next = command.facing ?? (facing === 'back' ? 'front' : 'back')
+        if (next !== facing) {
+          setFacing(next)
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
+        }
         setShowEncouragement(true)
-        setEncouragement('Camera flipped')
+        setEncouragement(next === 'front' ? 'Front camera' : 'Back camera')
         setTimeout(() => setShowEncouragement(false), 1500)
         break
-      case 'flash':
-        toggleFlash()
+      }
+      case 'flash': {
+        const next = command.mode ?? (flashMode === 'off' ? 'on' : 'off')
+        if (next !== flashMode) {
+          setFlashMode(next)
+          Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
+        }
+        // Toast from the mode just set, not the pre-command state
         setShowEncouragement(true)
-        setEncouragement(flashMode === 'off' ? 'Flash ON' : 'Flash OFF')
+        setEncouragement(`Flash ${next.toUpperCase()}`)
         setTimeout(() => setShowEncouragement(false), 1500)
         break
+      }
       case 'direction':
-        // Show large prominent direction overlay
-        const dir = data?.direction as string
-        setCurrentDirection(dir)
+        // Show large prominent direction overlay, and cue it for a photographer not looking at the screen
+        setCurrentDirection({ direction: command.direction, magnitude: command.magnitude })
         setShowDirection(true)
+        cueDirection(command.direction, command.magnitude)
         // Auto-hide after 2.5 seconds
         setTimeout(() => setShowDirection(false), 2500)
         break
+      case 'countdown_start':
+        return runCountdown(command)
+      case 'countdown_cancel':
+        cancelCountdown(command.countdownId, 'director')
+        break
+      case 'guides':
+        setGuides(command.guides)
+        break
+      case 'overlay':
+        await updateSettings({
+          showGrid: command.visible,
+          compositionOverlay: command.overlay,
+          ...(command.spiralRotation !== undefined && { spiralRotation: command.spiralRotation }),
+        })
+        break
+      case 'zoom':
+      case 'lens':
+        await applyCameraControl(command)
+        break
+      case 'voice':
+        voice.handleVoiceCommand(command)
+        break
+      case 'stream_quality':
+        await webrtcService.setStreamProfile(command.quality, command.preference)
+        break
+      case 'message': {
+        // Presets arrive as keys and are read in this phone's language
+        const text = command.phrase ? t.phrases.presets[command.phrase] : command.text ?? ''
+        setDirectorMessage({ id: command.id ?? String(Date.now()), text })
+        if (settings.spokenDirections) speakPrompt(text, language)
+        break
+      }
+    }
+  }
+
+  const dismissDirectorMessage = useCallback(() => setDirectorMessage(null), [])
+
+  // The live stream's track while it is the preview, otherwise expo-camera
+  const isStreamPreview = () => !!(isPaired && localMedia && canRenderVideo(localMedia.kind) && streamReady)
+
+  // Which manual controls the current preview source can apply. Only expo-camera's
+  // preview can - the streaming track has no zoom or lens control (see cameraControls.ts).
+  const getControlSupport = (): CameraControlSupport => {
+    if (isStreamPreview()) return NO_CONTROL_SUPPORT
+    return {
+      zoom: true,
+      lens: Platform.OS === 'ios' && facing === 'back' && controls.availableLenses.length > 1,
+    }
+  }
+
+  // Apply a manual control from the director. Unsupported controls fail the command;
+  // the camera_state report tells the director what is actually in effect.
+  const applyCameraControl = async (
+    command: Extract<RemoteCommand, { type: 'zoom' | 'lens' }>
+  ) => {
+    const support = getControlSupport()
+    let next: Partial<CameraControlState>
+    let isSupported: boolean
+
+    switch (command.type) {
+      case 'zoom':
+        next = { zoom: command.zoom }
+        isSupported = support.zoom
+        break
+      case 'lens':
+        // Zoom is relative to the lens, so start the new one wide
+        next = { lens: command.lens, zoom: 0 }
+        isSupported = support.lens && controls.availableLenses.includes(command.lens)
+        break
+    }
+
+    if (!isSupported) {
+      throw new Error(`${command.type} is not supported by this camera`)
     }
+
+    // CameraView's zoom and selectedLens props follow `controls`
+    setControls(current => ({ ...current, ...next }))
+    if (command.type !== 'zoom') {
+      sessionLogger.info('camera_control_applied', { control: command.type, ...next })
+    }
+  }
+
+  // Reply commands (countdown cancel, guide clear) go back over the live transport
+  const sendToDirector = (command: RemoteCommand) => sendRemoteCommand(
+    (name, data) => {
+      if (isLan) return lanSession.sendCommand(name, data)
+      return mediaTransport.sendCommand(name, data)
+    },
+    command
+  )
+
+  // Snapshot of what the camera is doing - the director renders its toggles from it
+  const cameraState: CameraStateSnapshot = {
+    ...controls,
+    supported: getControlSupport(),
+    facing,
+    flashMode,
+    grid: {
+      visible: settings.showGrid,
+      overlay: settings.compositionOverlay,
+      spiralRotation: settings.spiralRotation,
+    },
+    ...deviceStatus,
+    roll: levelRoll,
+  }
+  const cameraStateKey = JSON.stringify(cameraState)
+  const cameraStateKeyRef = useRef(cameraStateKey)
+  cameraStateKeyRef.current = cameraStateKey
+
+  const sendCameraState = (key: string) => {
+    sendToDirector({ type: 'camera_state', state: JSON.parse(key) })
+      .catch((error) => sessionLogger.warn('camera_state_send_failed', { errorMessage: (error as Error)?.message }))
   }
 
+  // Publish on every change...
+  useEffect(() => {
+    if (!isConnected) return
+    sendCameraState(cameraStateKey)
+    // sendToDirector only changes with the transport, which isConnected already tracks
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [cameraStateKey, isConnected])
+
+  // ...and on a heartbeat, so a director that missed an update (or just joined) catches up
+  useEffect(() => {
+    if (!isConnected) return
+    const interval = setInterval(() => sendCameraState(cameraStateKeyRef.current), CAMERA_STATE_HEARTBEAT_MS)
+    return () => clearInterval(interval)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isConnected])
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Session recording - timeline for the replay screen, saved when the session ends
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!isPaired || !sessionId || !myDeviceId) return
+    sessionRecorder.start({
+      sessionId,
+      cameraDeviceId: myDeviceId,
+      viewerDeviceId: pairedDeviceId ?? undefined,
+    })
+    return () => {
+      void sessionRecorder.finish()
+    }
+  }, [isPaired, sessionId, myDeviceId, pairedDeviceId])
+
+  // Drops and recoveries of the live connection
+  const recordedConnectionRef = useRef({ connected: false, everConnected: false })
+  useEffect(() => {
+    const recorded = recordedConnectionRef.current
+    if (isConnected && !recorded.connected) {
+      if (recorded.everConnected) sessionRecorder.recordReconnect()
+      recorded.connected = true
+      recorded.everConnected = true
+    } else if (!isConnected && recorded.connected) {
+      recorded.connected = false
+      // webrtcState is set alongside isConnected, so it is the state that dropped us
+      sessionRecorder.recordDisconnect(webrtcState)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isConnected])
+
+  // Connection quality samples while the WebRTC stream is up
+  useEffect(() => {
+    if (!isConnected || !transportFeatures.streamProfile || isLan) return
+    const interval = setInterval(() => {
+      webrtcService.getQualitySample()
+        .then(sample => {
+          if (sample) sessionRecorder.recordQuality(sample)
+        })
+        .catch(() => {})
+    }, QUALITY_SAMPLE_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [isConnected, transportFeatures, isLan])
+
+  const clearGuides = () => {
+    setGuides([])
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
+    sessionLogger.info('guides_cleared', { by: 'photographer' })
+    sendToDirector({ type: 'guides', guides: [] })
+      .catch((error) => sessionLogger.error('guides_clear_send_failed', error))
+  }
+
+  // Count down against the director's start timestamp, then capture.
+  // Resolves once the photo is taken, or with 'cancelled' if the countdown is
+  // called off - a cancel is an outcome, not a failed capture.
+  const runCountdown = (command: Extract<RemoteCommand, { type: 'countdown_start' }>) => {
+    cancelCountdown(undefined, 'replaced')
+
+    const fireAt = resolveFireAt(command.startAt, command.seconds)
+    sessionLogger.info('countdown_started', {
+      countdownId: command.countdownId,
+      seconds: command.seconds,
+      fireInMs: fireAt - Date.now(),
+    })
+    setCountdownFireAt(fireAt)
+
+    return new Promise<void | CommandOutcome>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        countdownRef.current = null
+        setCountdownFireAt(null)
+        // Capture response is keyed by the countdown command's id
+        const capture = handleRemoteCommandRef.current?.({
+          type: 'capture',
+          id: command.id,
+          mode: command.mode,
+          frames: command.frames,
+          intervalMs: command.intervalMs,
+        })
+        Promise.resolve(capture).then(resolve, reject)
+      }, Math.max(0, fireAt - Date.now()))
+
+      countdownRef.current = { countdownId: command.countdownId, timer, cancel: () => resolve('cancelled') }
+    })
+  }
+
+  // Stop the running countdown. Cancelling here also tells the director.
+  const cancelCountdown = (countdownId: string | undefined, by: 'photographer' | 'director' | 'replaced') => {
+    const current = countdownRef.current
+    if (!current || (countdownId && current.countdownId !== countdownId)) return
+
+    clearTimeout(current.timer)
+    countdownRef.current = null
+    setCountdownFireAt(null)
+    current.cancel()
+    sessionLogger.info('countdown_cancelled', { countdownId: current.countdownId, by })
+
+    if (by === 'photographer') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium)
+      sendToDirector({ type: 'countdown_cancel', countdownId: current.countdownId })
+        .catch((error) => sessionLogger.error('countdown_cancel_send_failed', error))
+    }
+  }
+
+  handleRemoteCommandRef.current = handleRemoteCommand
+
   // Quick Connect cleanup
   useEffect(() => {
     return () => {
@@ -1021,18 +1520,104 @@ export default function CameraScreen() {
     )
   }
 
-  const handleCapture = async () => {
+  /** Save one frame to the phone's media library - null without permission */
+  const saveToLibrary = async (uri: string, burst?: CaptureBurstInfo) => {
+    sessionLogger.info('capture_saving_to_library', { autoSave: true, burstIndex: burst?.index })
+    const mediaPermission = await MediaLibrary.requestPermissionsAsync()
+    if (mediaPermission.status !== 'granted') {
+      sessionLogger.logCamera('permission_denied', { 
+        type: 'media_library',
+        action: 'save_photo',
+      })
+      return null
+    }
+
+    const asset = await MediaLibrary.createAssetAsync(uri)
+    sessionLogger.info('capture_saved_to_library', { 
+      assetUri: asset?.uri?.substring(0, 50),
+      success: true,
+    })
+    return asset
+  }
+
+  /**
+   * Save one frame to the media library (when auto-save is on) and the captures
+   * table, and send it on to the paired director either way
+   */
+  const savePhoto = async (
+    photo: { uri: string; width?: number; height?: number },
+    burst?: CaptureBurstInfo
+  ): Promise<{ savedPath?: string; captureId?: string }> => {
+    const asset = settings.autoSave ? await saveToLibrary(photo.uri, burst) : null
+    const savedPath = asset?.uri
+
+    // Record it in the captures table for the gallery - a paired director gets the
+    // photo even when this phone keeps nothing in its own library
+    const deliver = !!pairedDeviceId
+    if (!myDeviceId || (!asset && !deliver)) return { savedPath }
+    try {
+      const { capture, queued, error } = await capturesApi.save({
+        cameraDeviceId: myDeviceId,
+        viewerDeviceId: pairedDeviceId || undefined,
+        sessionId: sessionId || undefined,
+        storagePath: savedPath ?? photo.uri,
+        capturedBy: 'camera',
+        width: photo.width,
+        height: photo.height,
+        burst,
+      })
+      
+      if (capture) {
+        sessionLogger.info('capture_saved_to_supabase', {
+          captureId: capture.id?.substring(0, 8),
+          storagePath: (savedPath ?? photo.uri).substring(0, 50),
+          burstId: burst?.id?.substring(0, 8),
+        })
+        // Send the photo on to the director's gallery - a row saved offline is
+        // delivered once the sync queue has written it
+        if (queued) {
+          sessionLogger.info('capture_queued_offline', { captureId: capture.id.substring(0, 8) })
+        }
+        if (deliver) {
+          photoDelivery.enqueue({
+            captureId: capture.id,
+            deviceId: myDeviceId,
+            uri: photo.uri,
+            priority: !burst || burst.isBestFrame,
+          })
+        }
+        return { savedPath, captureId: capture.id }
+      }
+      if (error) {
+        sessionLogger.error('capture_supabase_save_failed', new Error(error))
+      }
+    } catch (err) {
+      sessionLogger.error('capture_supabase_save_error', err as Error)
+    }
+    return { savedPath }
+  }
+
+  /**
+   * Take a photo - or a burst of frames grouped under one burst id.
+   * Never throws - the outcome is reported in the result.
+   */
+  const handleCapture = async (options: CaptureOptions = {}): Promise<CaptureResult> => {
     const captureStartTime = Date.now()
+    const plan = planCaptureSequence(options)
+    const burstId = plan.frames.length > 1 ? (uuid.v4() as string) : undefined
+    capturingRef.current = true
     
     sessionLogger.logCamera('capture_start', {
       isPaired,
       isConnected,
       hasCameraRef: !!cameraRef.current,
-      hasLocalStream: !!localStream,
+      hasLocalStream: !!localMedia,
       webrtcPreview: useWebRTCPreview,
       cameraReady,
       facing,
       captureStartTime,
+      mode: plan.mode,
+      frames: plan.frames.length,
     })
 
     if (useWebRTCPreview) {
@@ -1040,9 +1625,11 @@ export default function CameraScreen() {
       // take a photo via expo-camera, then resume WebRTC.
       sessionLogger.info('capture_webrtc_pause_start')
       try {
-        void webrtcService.destroy()
+        void mediaTransport.destroy()
       } catch {}
-      setLocalStream(null)
+      // The CameraView mounts fresh - wait for its own onCameraReady
+      updateCameraReady(false)
+      setLocalMedia(null)
       setStreamReady(false)
       setIsConnected(false)
       setIsSharing(false)
@@ -1052,105 +1639,111 @@ export default function CameraScreen() {
 
       // Wait for camera to become ready (max 3s)
       const start = Date.now()
-      while (!cameraReady && Date.now() - start < 3000) {
+      while (!cameraReadyRef.current && Date.now() - start < 3000) {
         // eslint-disable-next-line no-await-in-loop
         await new Promise<void>((resolve) => setTimeout(resolve, 100))
       }
 
-      sessionLogger.info('capture_webrtc_pause_done', { cameraReady })
+      sessionLogger.info('capture_webrtc_pause_done', { cameraReady: cameraReadyRef.current })
     }
 
     try {
       if (!cameraRef.current) {
         sessionLogger.logCamera('capture_failed', {
           reason: 'no_camera_ref',
-          cameraReady,
+          cameraReady: cameraReadyRef.current,
           useWebRTCPreview,
         })
         Alert.alert('Camera not ready', 'Please wait a second and try again.')
-        return
+        return { success: false, error: 'Camera not ready' }
       }
 
-      sessionLogger.logCamera('capture_start', { phase: 'taking_picture' })
-      const photo = await cameraRef.current.takePictureAsync({
-        quality: 0.9,
-        exif: false,
-        skipProcessing: false,
-      })
+      let best: { savedPath?: string; captureId?: string } = {}
+      let taken = 0
 
-      const captureEndTime = Date.now()
-      sessionLogger.logCamera('capture_success', {
-        uri: photo?.uri?.substring(0, 50),
-        width: (photo as any)?.width,
-        height: (photo as any)?.height,
-        captureDurationMs: captureEndTime - captureStartTime,
-      })
+      for (const frame of plan.frames) {
+        if (frame.delayMs > 0) {
+          // eslint-disable-next-line no-await-in-loop
+          await new Promise<void>((resolve) => setTimeout(resolve, frame.delayMs))
+        }
+        if (!cameraRef.current) break
 
-      // Save if enabled
-      if (settings.autoSave && photo?.uri) {
-        sessionLogger.info('capture_saving_to_library', { autoSave: true })
-        const permission = await MediaLibrary.requestPermissionsAsync()
-        if (permission.status === 'granted') {
-          const asset = await MediaLibrary.createAssetAsync(photo.uri)
-          sessionLogger.info('capture_saved_to_library', { 
-            assetUri: asset?.uri?.substring(0, 50),
-            success: true,
+        try {
+          sessionLogger.logCamera('capture_start', { phase: 'taking_picture', frame: frame.index })
+          // eslint-disable-next-line no-await-in-loop
+          const photo = await cameraRef.current.takePictureAsync({
+            quality: 0.9,
+            exif: false,
+            skipProcessing: false,
           })
-          
-          // Also save to Supabase captures table for gallery
-          if (myDeviceId) {
-            try {
-              const { capture, error } = await capturesApi.save({
-                cameraDeviceId: myDeviceId,
-                viewerDeviceId: pairedDeviceId || undefined,
-                sessionId: sessionId || undefined,
-                storagePath: asset.uri,
-                capturedBy: 'camera',
-                width: (photo as any)?.width,
-                height: (photo as any)?.height,
-              })
-              
-              if (capture) {
-                sessionLogger.info('capture_saved_to_supabase', {
-                  captureId: capture.id?.substring(0, 8),
-                  storagePath: asset.uri?.substring(0, 50),
-                })
-              } else if (error) {
-                sessionLogger.error('capture_supabase_save_failed', new Error(error))
-              }
-            } catch (err) {
-              sessionLogger.error('capture_supabase_save_error', err as Error)
+          taken++
+
+          sessionLogger.logCamera('capture_success', {
+            uri: photo?.uri?.substring(0, 50),
+            width: photo?.width,
+            height: photo?.height,
+            frame: frame.index,
+            captureDurationMs: Date.now() - captureStartTime,
+          })
+
+          if (photo?.uri) {
+            // eslint-disable-next-line no-await-in-loop
+            const saved = await savePhoto(photo, burstId ? {
+              id: burstId,
+              index: frame.index,
+              isBestFrame: frame.index === plan.defaultBestIndex,
+            } : undefined)
+            if (taken === 1 || frame.index === plan.defaultBestIndex) {
+              best = { savedPath: saved.savedPath ?? photo.uri, captureId: saved.captureId }
             }
           }
-        } else {
-          sessionLogger.logCamera('permission_denied', { 
-            type: 'media_library',
-            action: 'save_photo',
+        } catch (frameError) {
+          // Keep the frames we already have - only fail if nothing was captured
+          if (taken === 0) throw frameError
+          sessionLogger.warn('capture_burst_frame_failed', {
+            frame: frame.index,
+            taken,
+            errorMessage: (frameError as Error)?.message,
           })
+          break
         }
       }
 
+      if (taken === 0) {
+        throw new Error('No frames captured')
+      }
+      const captureEndTime = Date.now()
+
       // Update UI + stats ONLY on success
       setPhotoCount(prev => prev + 1)
+      refreshStorage()
       await incrementPhotos()
       await incrementScoldingsSaved(1)
       showRandomEncouragement()
       sessionLogger.logPerformance('photo_capture', captureEndTime - captureStartTime, true, {
         photoCount: photoCount + 1,
+        mode: plan.mode,
+        frames: taken,
       })
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
+      // Every capture is on the timeline - keyed on this phone, whether or not a captures row was saved
+      sessionRecorder.recordCapture(burstId ?? (uuid.v4() as string), taken, best.captureId)
+      return { success: true, ...best, burstId, frameCount: taken }
     } catch (error) {
       sessionLogger.logCamera('capture_failed', {
         errorName: (error as Error)?.name,
         errorMessage: (error as Error)?.message,
         errorStack: (error as Error)?.stack?.substring(0, 300),
-        cameraReady,
+        cameraReady: cameraReadyRef.current,
         hasCameraRef: !!cameraRef.current,
       })
-      Alert.alert('Capture failed', getCameraErrorMessage(error))
+      const message = getCameraErrorMessage(error)
+      Alert.alert('Capture failed', message)
+      return { success: false, error: message }
     } finally {
+      capturingRef.current = false
       // Resume WebRTC after capture if we're paired
-      if (isPaired && myDeviceId && pairedDeviceId && sessionId && permission?.granted && webrtcAvailable) {
+      if (!isLan && isPaired && myDeviceId && pairedDeviceId && sessionId && permission?.granted && mediaTransport.isAvailable()) {
         sessionLogger.info('capture_webrtc_resume_requested')
         // Trigger re-init by requesting sharing again.
         setIsSharing(true)
@@ -1179,8 +1772,12 @@ export default function CameraScreen() {
           style: 'destructive',
           onPress: async () => {
             sessionLogger.info('manual_disconnect')
-            webrtcService.destroy()
-            if (myDeviceId) {
+            if (isLan) {
+              lanSession.stop()
+            } else {
+              void mediaTransport.destroy()
+            }
+            if (myDeviceId && !isLan) {
               await pairingApi.unpair(myDeviceId)
             }
             clearPairing()
@@ -1192,13 +1789,13 @@ export default function CameraScreen() {
   }
 
   // Determine which camera view to show
-  // If paired + WebRTC available + has local stream with active video → show RTCView
+  // If paired + has the transport's local track with active video → show it (RTCView or LiveKit VideoView)
   // If paired but WebRTC is initializing (no stream yet) → show loading placeholder
   // Otherwise → show expo-camera CameraView
   // 
   // ANDROID FIX: Ensure stream is validated before rendering RTCView to avoid blank screen
-  const useWebRTCPreview = isPaired && webrtcAvailable && localStream && RTCView && streamReady
-  const webrtcIsInitializing = isPaired && webrtcAvailable && !localStream && isSharing && !cameraError
+  const useWebRTCPreview = isPaired && localMedia && canRenderVideo(localMedia.kind) && streamReady
+  const webrtcIsInitializing = isPaired && !isLan && mediaTransport.isAvailable() && !localMedia && isSharing && !cameraError
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
@@ -1218,18 +1815,16 @@ export default function CameraScreen() {
       {/* Camera preview */}
       <View style={styles.cameraPreview}>
         {useWebRTCPreview ? (
-          // WebRTC local stream preview (when paired and stream ready)
+          // Local preview from the media transport's camera track (when paired and stream ready)
           // Key prop forces re-render when stream changes - fixes blank screen
           // ANDROID FIX: 
           // - zOrder={1} brings RTCView to front (0 can render behind other views)
           // - Explicit width/height prevents 0-dimension crash on Android
           // - Added wrapper View with flex:1 to ensure proper layout
           <View style={styles.rtcViewWrapper}>
-            <RTCView
-              key={localStream?.id || 'local-stream'}
-              streamURL={localStream.toURL()}
+            <TransportVideoView
+              media={localMedia}
               style={styles.rtcView}
-              objectFit="cover"
               mirror={facing === 'front'}
               zOrder={1}
             />
@@ -1260,12 +1855,12 @@ export default function CameraScreen() {
                   reason: 'user_retry',
                   previousError: cameraError,
                   isPaired,
-                  webrtcAvailable,
+                  transportAvailable: mediaTransport.isAvailable(),
                 })
                 setCameraError(null)
-                setCameraReady(false)
+                updateCameraReady(false)
                 setStreamReady(false)
-                if (isPaired && webrtcAvailable) {
+                if (isPaired && mediaTransport.isAvailable() && !isLan) {
                   setIsSharing(true)
                 }
               }}
@@ -1298,8 +1893,17 @@ export default function CameraScreen() {
             style={StyleSheet.absoluteFill}
             facing={facing}
             flash={flashMode}
+            zoom={controls.zoom}
+            selectedLens={facing === 'back' ? controls.lens ?? undefined : undefined}
+            onAvailableLensesChanged={({ lenses }) => {
+              setControls(current => ({
+                ...current,
+                availableLenses: lenses.slice(0, MAX_CAMERA_LENSES),
+                lens: current.lens && lenses.includes(current.lens) ? current.lens : null,
+              }))
+            }}
             onCameraReady={() => {
-              setCameraReady(true)
+              updateCameraReady(true)
               setCameraError(null)
               sessionLogger.logCamera('ready', {
                 facing,
@@ -1323,7 +1927,36 @@ export default function CameraScreen() {
           />
         )}
         
-        {settings.showGrid && <GridOverlay />}
+        <GridOverlay
+          visible={settings.showGrid}
+          type={settings.compositionOverlay}
+          spiralRotation={settings.spiralRotation}
+        />
+        <FramingGuidesOverlay guides={guides} />
+        {voice.partner.enabled && (
+          <View style={styles.partnerVoiceBadge} pointerEvents="none">
+            <PartnerVoiceBadge name={partnerDisplayName || 'Partner'} state={voice.partner} />
+          </View>
+        )}
+        {settings.pushToTalk && isConnected && transportFeatures.voice && !isLan && (
+          <PushToTalkButton
+            ready={voice.isReady}
+            talking={voice.isTalking}
+            onTalkStart={voice.startTalking}
+            onTalkEnd={voice.stopTalking}
+            style={styles.pushToTalkButton}
+          />
+        )}
+        {guides.length > 0 && (
+          <Pressable
+            style={styles.clearGuidesButton}
+            onPress={clearGuides}
+            accessibilityLabel="Clear framing guides"
+            accessibilityRole="button"
+          >
+            <Text style={styles.clearGuidesText}>✕ Guides</Text>
+          </Pressable>
+        )}
         
         {/* Status bar with long-press hint */}
         <Pressable 
@@ -1366,7 +1999,17 @@ export default function CameraScreen() {
         )}
         
         <EncouragementToast message={encouragement} visible={showEncouragement} />
-        <DirectionOverlay direction={currentDirection} visible={showDirection} />
+        <MessageBanner
+          message={directorMessage}
+          title={t.phrases.fromDirector}
+          dismissHint={t.phrases.dismiss}
+          onDismiss={dismissDirectorMessage}
+        />
+        <DirectionOverlay prompt={currentDirection} visible={showDirection} strings={t.camera} />
+        <CountdownOverlay
+          fireAt={countdownFireAt}
+          onCancel={() => cancelCountdown(undefined, 'photographer')}
+        />
         <SwitchRoleToast visible={showSwitchToast} partnerName={partnerDisplayName || 'Partner'} />
       </View>
 
@@ -1385,6 +2028,7 @@ export default function CameraScreen() {
                 {isReconnecting ? 'RECONNECTING...' : isConnected ? 'STREAMING TO PARTNER' : '⏳ Connecting...'}
               </Text>
             </View>
+            <ConnectionModeBadge mode={connectionMode} label={t.lan[connectionMode]} />
             {isConnected && (
               <Text style={styles.streamingHint}>
                 Camera is being shared
@@ -1394,7 +2038,7 @@ export default function CameraScreen() {
         )}
 
         <View style={styles.captureRow}>
-          <CaptureButton onPress={handleCapture} isSharing={isSharing} />
+          <CaptureButton onPress={() => handleCapture()} isSharing={isSharing} />
         </View>
 
         {/* Minimal quick actions - essential controls */}
@@ -1446,9 +2090,12 @@ export default function CameraScreen() {
               ;(async () => {
                 try {
                   // Notify partner to switch to photographer before we switch
-                  await webrtcService.sendCommand('switch_role', { newRole: 'photographer' })
+                  await sendRemoteCommand(
+                    (command, data) => mediaTransport.sendCommand(command, data),
+                    { type: 'switch_role', newRole: 'photographer' }
+                  )
                   sessionLogger.info('switch_role_command_sent', { partnerNewRole: 'photographer' })
-                  await webrtcService.destroy()
+                  await mediaTransport.destroy()
                 } finally {
                   router.replace('/viewer')
                 }
@@ -1472,7 +2119,7 @@ export default function CameraScreen() {
             webrtcState={webrtcState}
             isConnected={isConnected}
             isSharing={isSharing}
-            hasLocalStream={!!localStream}
+            hasLocalStream={!!localMedia}
             cameraError={cameraError}
             streamReady={streamReady}
             cameraReady={cameraReady}
@@ -1664,26 +2311,34 @@ const styles = StyleSheet.create({
     width: '100%',
     height: '100%',
   },
-  gridOverlay: {
+  clearGuidesButton: {
     position: 'absolute',
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
+    top: 56,
+    right: 16,
+    zIndex: 13,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
   },
-  gridLine: {
-    position: 'absolute',
-    backgroundColor: 'rgba(255,255,255,0.2)',
+  clearGuidesText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
   },
-  gridLineH: {
+  partnerVoiceBadge: {
+    position: 'absolute',
+    top: 56,
     left: 0,
     right: 0,
-    height: 1,
+    alignItems: 'center',
+    zIndex: 13,
   },
-  gridLineV: {
-    top: 0,
-    bottom: 0,
-    width: 1,
+  pushToTalkButton: {
+    position: 'absolute',
+    right: 16,
+    bottom: 140,
+    zIndex: 13,
   },
   statusBar: {
     position: 'absolute',
@@ -1822,6 +2477,23 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 1, height: 1 },
     textShadowRadius: 4,
   },
+  directionAmount: {
+    marginTop: 6,
+    fontSize: 14,
+    fontWeight: '700',
+    letterSpacing: 2,
+  },
+  directionMagnitudeTrack: {
+    width: 120,
+    height: 4,
+    marginTop: 14,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+    overflow: 'hidden',
+  },
+  directionMagnitudeFill: {
+    height: '100%',
+  },
   // Switch role toast
   switchToast: {
     position: 'absolute',
@@ -1851,6 +2523,7 @@ const styles = StyleSheet.create({
   connectionIndicator: {
     alignItems: 'center',
     paddingVertical: 8,
+    gap: 6,
   },
   liveIndicator: {
     flexDirection: 'row',
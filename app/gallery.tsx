@@ -22,6 +22,7 @@ import {
   RefreshControl,
   useWindowDimensions,
   ActivityIndicator,
+  ScrollView,
 } from 'react-native'
 import { FlashList, ListRenderItemInfo } from '@shopify/flash-list'
 import { Image } from 'expo-image'
@@ -50,12 +51,15 @@ import { Icon } from '../src/components/ui/Icon'
 import { ZenLoader } from '../src/components/ui/ZenLoader'
 import { ZenEmptyState } from '../src/components/ui/ZenEmptyState'
 import { capturesApi } from '../src/services/api'
+import { supabase, type Capture } from '../src/services/supabase'
 import { sessionLogger } from '../src/services/sessionLogger'
 import { cloudApi, AIAnalysisResult } from '../src/services/cloudApi'
 import { useRouter } from 'expo-router'
 
 const COLUMN_COUNT = 3
 const GAP = 3
+/** A received photo still not uploaded after this long is shown as not delivered */
+const DELIVERY_TIMEOUT_MS = 5 * 60 * 1000
 
 interface Photo {
   id: string
@@ -64,6 +68,193 @@ interface Photo {
   timestamp: Date
   cloudUrl?: string
   hasAnalysis?: boolean
+  sessionId?: string
+  /** Taken by the paired camera and still uploading */
+  pending?: boolean
+  /** Taken by the paired camera, but the upload failed or never arrived */
+  deliveryFailed?: boolean
+  /** Set when this photo stands in for a burst in the grid */
+  burst?: {
+    id: string
+    frameCount: number
+  }
+}
+
+function captureToPhoto(capture: Capture, myDeviceId?: string | null): Photo {
+  // The partner's storage_path is a file on their phone - received photos are shown from the cloud
+  const received = !!myDeviceId && capture.camera_device_id !== myDeviceId
+  const timestamp = capture.created_at ? new Date(capture.created_at) : new Date()
+  const overdue = Date.now() - timestamp.getTime() > DELIVERY_TIMEOUT_MS
+  const deliveryFailed = received && !capture.cloud_url && (capture.cloud_status === 'failed' || overdue)
+  return {
+    id: capture.id,
+    uri: received
+      ? capture.cloud_url || capture.cloud_thumbnail_url || ''
+      : capture.storage_path || capture.thumbnail_path || capture.cloud_url || '',
+    byMe: myDeviceId ? !received : capture.captured_by === 'camera',
+    timestamp,
+    cloudUrl: capture.cloud_url,
+    sessionId: capture.session_id,
+    pending: received && !capture.cloud_url && !deliveryFailed,
+    deliveryFailed,
+  }
+}
+
+/**
+ * Transform captures to Photo format, collapsing each burst into its best frame
+ * (or its first frame if none is marked yet)
+ */
+function capturesToPhotos(captures: Capture[], myDeviceId?: string | null): Photo[] {
+  const bursts = new Map<string, Capture[]>()
+  for (const capture of captures) {
+    if (!capture.burst_id) continue
+    const frames = bursts.get(capture.burst_id) ?? []
+    frames.push(capture)
+    bursts.set(capture.burst_id, frames)
+  }
+
+  const photos: Photo[] = []
+  const seenBursts = new Set<string>()
+  for (const capture of captures) {
+    if (!capture.burst_id) {
+      photos.push(captureToPhoto(capture, myDeviceId))
+      continue
+    }
+    if (seenBursts.has(capture.burst_id)) continue
+    seenBursts.add(capture.burst_id)
+
+    const frames = bursts.get(capture.burst_id) ?? [capture]
+    const best = frames.find(f => f.is_best_frame)
+      ?? [...frames].sort((a, b) => (a.burst_index ?? 0) - (b.burst_index ?? 0))[0]
+    photos.push({
+      ...captureToPhoto(best, myDeviceId),
+      burst: {
+        id: capture.burst_id,
+        frameCount: frames.length,
+      },
+    })
+  }
+  return photos
+}
+
+/**
+ * Best-frame picker for a burst
+ */
+function BurstPicker({
+  photo,
+  onClose,
+  onPicked,
+}: {
+  photo: Photo
+  onClose: () => void
+  onPicked: (best: Photo) => void
+}) {
+  const [frames, setFrames] = useState<Capture[]>([])
+  const [selectedId, setSelectedId] = useState(photo.id)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const burstId = photo.burst?.id
+
+  useEffect(() => {
+    if (!burstId) return
+    capturesApi.getBurst(burstId).then(({ captures, error }) => {
+      if (error) sessionLogger.error('burst_load_failed', new Error(error))
+      setFrames(captures)
+      setIsLoading(false)
+    })
+  }, [burstId])
+
+  const selected = frames.find(f => f.id === selectedId)
+
+  const handleUseFrame = async () => {
+    if (!burstId || !selected) return
+    if (selected.id === photo.id) {
+      onClose()
+      return
+    }
+
+    setIsSaving(true)
+    const { success, error } = await capturesApi.setBestFrame(burstId, selected.id)
+    setIsSaving(false)
+
+    if (!success) {
+      sessionLogger.error('burst_set_best_failed', new Error(error || 'Unknown'))
+      Alert.alert('Error', error || 'Could not save best frame')
+      return
+    }
+
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
+    sessionLogger.info('burst_best_frame_picked', { burstId, captureId: selected.id })
+    onPicked({ ...captureToPhoto(selected), burst: photo.burst })
+  }
+
+  return (
+    <Modal visible animationType="fade" transparent onRequestClose={onClose}>
+      <View style={styles.viewerContainer}>
+        <View style={styles.viewerHeader}>
+          <Pressable 
+            style={styles.closeButton} 
+            onPress={onClose}
+            hitSlop={{ top: 12, bottom: 12, left: 12, right: 12 }}
+            accessibilityLabel="Close best frame picker"
+            accessibilityRole="button"
+          >
+            <Icon name="close" size={20} color="#FFFFFF" />
+          </Pressable>
+        </View>
+
+        <View style={styles.imageContainer}>
+          {isLoading ? (
+            <ActivityIndicator size="large" color="#FFFFFF" />
+          ) : (
+            <Image
+              source={selected?.storage_path || photo.uri}
+              style={styles.fullImage}
+              contentFit="contain"
+            />
+          )}
+        </View>
+
+        <View style={styles.viewerFooter}>
+          <Text style={styles.photoInfo}>
+            Burst · {frames.length || photo.burst?.frameCount} frames
+          </Text>
+
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.burstStrip}
+          >
+            {frames.map((frame, index) => (
+              <Pressable
+                key={frame.id}
+                onPress={() => {
+                  Haptics.selectionAsync()
+                  setSelectedId(frame.id)
+                }}
+                style={[styles.burstFrame, frame.id === selectedId && styles.burstFrameSelected]}
+                accessibilityLabel={`Frame ${index + 1}${frame.id === selectedId ? ', selected' : ''}`}
+                accessibilityRole="button"
+              >
+                <Image source={frame.storage_path || ''} style={styles.thumbnail} contentFit="cover" />
+              </Pressable>
+            ))}
+          </ScrollView>
+
+          <View style={styles.viewerActions}>
+            <ActionButton
+              label="Use as best"
+              icon="star"
+              onPress={handleUseFrame}
+              loading={isSaving}
+              disabled={!selected}
+              accessibilityHint="Show this frame for the burst in your gallery"
+            />
+          </View>
+        </View>
+      </View>
+    </Modal>
+  )
 }
 
 /**
@@ -192,6 +383,7 @@ function PhotoViewer({
   onDownload,
   onCloudUpload,
   onAnalyze,
+  onPickBest,
   isUploading,
   isAnalyzing,
   analysisResult,
@@ -199,6 +391,7 @@ function PhotoViewer({
 }: { 
   photo: Photo
   onClose: () => void
+  onPickBest: () => void
   onShare: () => void
   onDelete: () => void
   onDownload: () => void
@@ -210,6 +403,7 @@ function PhotoViewer({
   t: typeof import('../src/i18n/translations').translations.en
 }) {
   const [showAnalysis, setShowAnalysis] = useState(false)
+  const currentSessionId = usePairingStore((state) => state.sessionId)
   const scale = useSharedValue(1)
   const translateX = useSharedValue(0)
   const translateY = useSharedValue(0)
@@ -347,6 +541,8 @@ function PhotoViewer({
           >
             {photo.byMe ? t.gallery.byYou : t.gallery.byPartner} · {photo.timestamp.toLocaleDateString()}
             {photo.cloudUrl && ' · ☁️ Backed up'}
+            {photo.sessionId && photo.sessionId === currentSessionId && ' · This session'}
+            {photo.burst && ` · ${photo.burst.frameCount} frames`}
           </Text>
           
           {/* Primary Actions Row */}
@@ -376,6 +572,14 @@ function PhotoViewer({
 
           {/* Secondary Actions Row */}
           <View style={[styles.viewerActions, { marginTop: 8 }]} accessibilityRole="toolbar">
+            {photo.burst && (
+              <ActionButton 
+                label="Best" 
+                icon="star" 
+                onPress={onPickBest}
+                accessibilityHint="Pick the best frame of this burst"
+              />
+            )}
             <ActionButton 
               label={t.gallery.download} 
               icon="image" 
@@ -471,6 +675,7 @@ export default function GalleryScreen() {
   const { stats } = useStatsStore()
   const { width: screenWidth, height: screenHeight } = useWindowDimensions()
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null)
+  const [pickingBurst, setPickingBurst] = useState<Photo | null>(null)
   const [refreshing, setRefreshing] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
 
@@ -591,7 +796,10 @@ export default function GalleryScreen() {
 
     try {
       sessionLogger.info('gallery_loading_photos', { deviceId: myDeviceId })
-      const { captures, error } = await capturesApi.getByDevice(myDeviceId, { limit: 100 })
+      const { captures, error } = await capturesApi.getByDevice(myDeviceId, {
+        limit: 100,
+        includeReceived: true,
+      })
       
       if (error) {
         sessionLogger.error('gallery_load_failed', new Error(error))
@@ -599,13 +807,7 @@ export default function GalleryScreen() {
         return
       }
 
-      // Transform captures to Photo format
-      const loadedPhotos: Photo[] = captures.map(capture => ({
-        id: capture.id,
-        uri: capture.storage_path || capture.thumbnail_path || '',
-        byMe: capture.captured_by === 'camera',
-        timestamp: capture.created_at ? new Date(capture.created_at) : new Date(),
-      }))
+      const loadedPhotos = capturesToPhotos(captures, myDeviceId)
 
       setPhotos(loadedPhotos)
       sessionLogger.info('gallery_photos_loaded', { count: loadedPhotos.length })
@@ -621,6 +823,41 @@ export default function GalleryScreen() {
     loadPhotos()
   }, [loadPhotos])
 
+  // Photos the paired camera takes show up live - first as a pending tile, then uploaded.
+  // Reloading (debounced) keeps burst collapsing in one place.
+  useEffect(() => {
+    if (!myDeviceId) return
+
+    let reloadTimeout: ReturnType<typeof setTimeout> | null = null
+    const channel = capturesApi.subscribeToReceived(myDeviceId, (capture) => {
+      sessionLogger.info('gallery_capture_received', {
+        captureId: capture.id.substring(0, 8),
+        cloudStatus: capture.cloud_status,
+        sessionId: capture.session_id?.substring(0, 8),
+      })
+      if (reloadTimeout) clearTimeout(reloadTimeout)
+      reloadTimeout = setTimeout(() => {
+        void loadPhotos()
+      }, 500)
+    })
+
+    return () => {
+      if (reloadTimeout) clearTimeout(reloadTimeout)
+      void supabase.removeChannel(channel)
+    }
+  }, [myDeviceId, loadPhotos])
+
+  // A pending tile turns into "not delivered" once its upload is overdue
+  useEffect(() => {
+    const pending = photos.filter(photo => photo.pending)
+    if (pending.length === 0) return
+    const nextDeadline = Math.min(...pending.map(photo => photo.timestamp.getTime() + DELIVERY_TIMEOUT_MS))
+    const timeout = setTimeout(() => {
+      void loadPhotos()
+    }, Math.max(0, nextDeadline - Date.now()) + 1000)
+    return () => clearTimeout(timeout)
+  }, [photos, loadPhotos])
+
   // Show all photos
   const filteredPhotos = photos
 
@@ -862,7 +1099,8 @@ export default function GalleryScreen() {
     try {
       const { captures } = await capturesApi.getByDevice(myDeviceId, { 
         limit: PAGE_SIZE, 
-        offset: (page + 1) * PAGE_SIZE 
+        offset: (page + 1) * PAGE_SIZE,
+        includeReceived: true,
       })
       
       if (captures.length < PAGE_SIZE) {
@@ -870,12 +1108,7 @@ export default function GalleryScreen() {
       }
       
       if (captures.length > 0) {
-        const newPhotos: Photo[] = captures.map(capture => ({
-          id: capture.id,
-          uri: capture.storage_path || capture.thumbnail_path || '',
-          byMe: capture.captured_by === 'camera',
-          timestamp: capture.created_at ? new Date(capture.created_at) : new Date(),
-        }))
+        const newPhotos = capturesToPhotos(captures, myDeviceId)
         
         setPhotos(prev => [...prev, ...newPhotos])
         setPage(prev => prev + 1)
@@ -902,7 +1135,7 @@ export default function GalleryScreen() {
           setSelectedPhoto(item)
           Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
         }}
-        accessibilityLabel={`Photo ${index + 1}${item.byMe ? ', taken by you' : ', taken by partner'}`}
+        accessibilityLabel={`Photo ${index + 1}${item.byMe ? ', taken by you' : ', taken by partner'}${item.burst ? `, burst of ${item.burst.frameCount}` : ''}`}
         accessibilityHint="Double tap to view full size"
         accessibilityRole="image"
       >
@@ -922,9 +1155,26 @@ export default function GalleryScreen() {
             <Icon name="user" size={10} color={colors.primaryText} />
           </View>
         )}
+        {item.burst && (
+          <View style={styles.burstBadge} accessibilityElementsHidden>
+            <Text style={styles.burstBadgeText}>×{item.burst.frameCount}</Text>
+          </View>
+        )}
+        {item.pending && (
+          <View style={styles.pendingOverlay} accessibilityElementsHidden>
+            <ActivityIndicator size="small" color="#FFFFFF" />
+            <Text style={styles.pendingText}>{t.gallery.syncing}</Text>
+          </View>
+        )}
+        {item.deliveryFailed && (
+          <View style={styles.pendingOverlay} accessibilityElementsHidden>
+            <Icon name="close" size={16} color="#FFFFFF" />
+            <Text style={styles.pendingText}>{t.gallery.notDelivered}</Text>
+          </View>
+        )}
       </Pressable>
     </Animated.View>
-  ), [colors, photoSize])
+  ), [colors, photoSize, t.gallery.syncing, t.gallery.notDelivered])
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
@@ -987,6 +1237,7 @@ export default function GalleryScreen() {
           onDownload={handleDownload}
           onCloudUpload={handleCloudUpload}
           onAnalyze={handleAnalyze}
+          onPickBest={() => setPickingBurst(selectedPhoto)}
           isUploading={isUploading}
           isAnalyzing={isAnalyzing}
           analysisResult={analysisResult}
@@ -994,6 +1245,18 @@ export default function GalleryScreen() {
         />
       )}
 
+      {pickingBurst && (
+        <BurstPicker
+          photo={pickingBurst}
+          onClose={() => setPickingBurst(null)}
+          onPicked={(best) => {
+            setPhotos(prev => prev.map(p => p.burst?.id === best.burst?.id ? best : p))
+            setSelectedPhoto(best)
+            setPickingBurst(null)
+          }}
+        />
+      )}
+
       {/* Undo Toast for delete actions */}
       <UndoToast
         visible={undoState.visible}
@@ -1048,6 +1311,48 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  pendingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.35)',
+    gap: 4,
+  },
+  pendingText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  burstBadge: {
+    position: 'absolute',
+    bottom: 6,
+    right: 6,
+    borderRadius: 4,
+    paddingHorizontal: 5,
+    paddingVertical: 2,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  burstBadgeText: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  burstStrip: {
+    gap: 6,
+    paddingHorizontal: 4,
+    marginBottom: 12,
+  },
+  burstFrame: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+    overflow: 'hidden',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  burstFrameSelected: {
+    borderColor: '#FFFFFF',
+  },
   zenLoadingContainer: {
     flex: 1,
     justifyContent: 'center',
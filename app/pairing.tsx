@@ -15,6 +15,7 @@ import {
   RefreshControl,
   Keyboard,
   Alert,
+  Switch,
   useWindowDimensions,
 } from 'react-native'
 import { useRouter } from 'expo-router'
@@ -36,6 +37,8 @@ import { useLanguageStore } from '../src/stores/languageStore'
 import { useStatsStore } from '../src/stores/statsStore'
 import { useThemeStore } from '../src/stores/themeStore'
 import { pairingApi, profileApi } from '../src/services/api'
+import { lanSession, type LanPartner, type LanPairError, type LanPairingHost } from '../src/services/lanSession'
+import { ConnectionModeBadge } from '../src/components/ConnectionStatus'
 import { Icon } from '../src/components/ui/Icon'
 import { ZenLoader } from '../src/components/ui/ZenLoader'
 import { sessionLogger } from '../src/services/sessionLogger'
@@ -379,6 +382,7 @@ export default function PairingScreen() {
     sessionId,
     isPaired,
     hasSetupProfile,
+    connectionMode,
     setMyDeviceId,
     setMyDisplayName,
     setMyAvatar,
@@ -386,12 +390,19 @@ export default function PairingScreen() {
     setSessionId,
     setPartnerInfo,
     setHasSetupProfile,
+    setConnectionMode,
     clearPairing,
   } = usePairingStore()
   const { t } = useLanguageStore()
   const { incrementSessions } = useStatsStore()
   
   const [mode, setMode] = useState<'select' | 'showCode' | 'enterCode'>('select')
+  // Pair over local Wi-Fi only - no Supabase involved
+  const [lanOnly, setLanOnly] = useState(connectionMode === 'lan')
+  // Phones showing a LAN code, and the one the user says is their partner's
+  const [lanHosts, setLanHosts] = useState<LanPairingHost[]>([])
+  const [lanHost, setLanHost] = useState<LanPairingHost | null>(null)
+  const [lanSearch, setLanSearch] = useState(0)
   const [code, setCode] = useState('')
   const [inputCode, setInputCode] = useState('')
   const [loading, setLoading] = useState(false)
@@ -420,16 +431,34 @@ export default function PairingScreen() {
     init()
   }, [myDeviceId, setMyDeviceId, hasSetupProfile, myDisplayName])
 
-  // Fetch partner profile when paired
+  // Fetch partner profile when paired (LAN partners send theirs while pairing)
   useEffect(() => {
-    if (isPaired && pairedDeviceId && !partnerDisplayName) {
+    if (isPaired && pairedDeviceId && !partnerDisplayName && connectionMode === 'cloud') {
       profileApi.get(pairedDeviceId).then(({ profile }) => {
         if (profile) {
           setPartnerInfo(profile.display_name, profile.avatar_emoji)
         }
       })
     }
-  }, [isPaired, pairedDeviceId, partnerDisplayName, setPartnerInfo])
+  }, [isPaired, pairedDeviceId, partnerDisplayName, connectionMode, setPartnerInfo])
+
+  // Stop advertising / looking for a LAN code when leaving the screen
+  useEffect(() => {
+    return () => lanSession.cancelPairing()
+  }, [])
+
+  // List the phones showing a LAN code while this one is entering one
+  useEffect(() => {
+    if (mode !== 'enterCode' || !lanOnly || !myDeviceId) return
+    lanSession.findPairingHosts(
+      { deviceId: myDeviceId, displayName: myDisplayName ?? undefined, avatar: myAvatar },
+      setLanHosts
+    )
+    return () => {
+      setLanHosts([])
+      lanSession.cancelPairing()
+    }
+  }, [mode, lanOnly, myDeviceId, myDisplayName, myAvatar, lanSearch])
 
   const getDeviceId = useCallback(async (): Promise<string> => {
     if (myDeviceId) return myDeviceId
@@ -450,6 +479,26 @@ export default function PairingScreen() {
     await profileApi.upsert(deviceId, name, avatar)
   }
 
+  // Paired over local Wi-Fi - either side
+  const completeLanPairing = async (partner: LanPartner) => {
+    await setConnectionMode('lan')
+    await setPairedDeviceId(partner.deviceId)
+    await setSessionId(partner.sessionId)
+    setPartnerInfo(partner.displayName ?? null, partner.avatar)
+
+    incrementSessions()
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
+    router.replace('/')
+  }
+
+  const lanErrorMessage = (error?: LanPairError) => {
+    switch (error) {
+      case 'wrong_code': return t.lan.wrongCode
+      case 'locked': return t.lan.locked
+      default: return t.lan.notFound
+    }
+  }
+
   // Generate pairing code
   const generateCode = async () => {
     const deviceId = await getDeviceId()
@@ -457,6 +506,19 @@ export default function PairingScreen() {
     setError('')
     
     try {
+      if (lanOnly) {
+        sessionLogger.info('creating_lan_pairing_code', { deviceId })
+        const lanCode = await lanSession.hostPairing(
+          { deviceId, displayName: myDisplayName ?? undefined, avatar: myAvatar },
+          completeLanPairing
+        )
+        setCode(lanCode)
+        setMode('showCode')
+        setExpiresIn(300)
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
+        return
+      }
+
       sessionLogger.info('creating_pairing_code', { deviceId })
       const result = await withTimeout(pairingApi.createPairing(deviceId), 10000)
       
@@ -483,6 +545,10 @@ export default function PairingScreen() {
       setError(`Enter all ${CODE_LENGTH} digits`)
       return
     }
+    if (lanOnly && !lanHost) {
+      setError(t.lan.pickPhone)
+      return
+    }
     
     const deviceId = await getDeviceId()
     setLoading(true)
@@ -490,6 +556,25 @@ export default function PairingScreen() {
     Keyboard.dismiss()
     
     try {
+      if (lanOnly) {
+        sessionLogger.info('joining_lan_pairing', { deviceId })
+        const { partner, error: lanError } = await lanSession.joinPairing(
+          { deviceId, displayName: myDisplayName ?? undefined, avatar: myAvatar },
+          lanHost!,
+          inputCode
+        )
+        if (partner) {
+          await completeLanPairing(partner)
+        } else {
+          setError(lanErrorMessage(lanError))
+          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error)
+          // Joining stopped the search - look again for another try
+          setLanHost(null)
+          setLanSearch(search => search + 1)
+        }
+        return
+      }
+
       sessionLogger.info('joining_pairing', { code: inputCode, deviceId })
       const result = await withTimeout(pairingApi.joinPairing(deviceId, inputCode), 10000)
       
@@ -518,9 +603,9 @@ export default function PairingScreen() {
     }
   }
 
-  // Check for partner joining
+  // Check for partner joining (LAN pairing hears about it directly)
   useEffect(() => {
-    if (mode !== 'showCode' || !code || !myDeviceId) return
+    if (mode !== 'showCode' || !code || !myDeviceId || lanOnly) return
     
     const interval = setInterval(async () => {
       try {
@@ -544,7 +629,7 @@ export default function PairingScreen() {
     }, 2000)
 
     return () => clearInterval(interval)
-  }, [mode, code, myDeviceId, setPairedDeviceId, setSessionId, setPartnerInfo, incrementSessions, router])
+  }, [mode, code, myDeviceId, lanOnly, setPairedDeviceId, setSessionId, setPartnerInfo, incrementSessions, router])
 
   // Countdown
   useEffect(() => {
@@ -552,6 +637,7 @@ export default function PairingScreen() {
     const interval = setInterval(() => {
       setExpiresIn(prev => {
         if (prev <= 1) {
+          lanSession.cancelPairing()
           setMode('select')
           setCode('')
           return 300
@@ -572,7 +658,7 @@ export default function PairingScreen() {
           text: 'Disconnect',
           style: 'destructive',
           onPress: async () => {
-            if (myDeviceId) await pairingApi.unpair(myDeviceId)
+            if (myDeviceId && connectionMode === 'cloud') await pairingApi.unpair(myDeviceId)
             await clearPairing()
             Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning)
           },
@@ -582,13 +668,18 @@ export default function PairingScreen() {
   }
 
   const goBack = () => {
+    lanSession.cancelPairing()
     setMode('select')
     setCode('')
     setInputCode('')
+    setLanHost(null)
     setError('')
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
   }
 
+  // Over LAN the user also has to say which phone is their partner's
+  const canJoin = inputCode.length === CODE_LENGTH && (!lanOnly || lanHost !== null)
+
   const formatTime = (s: number) => `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, '0')}`
 
   // Loading state
@@ -621,6 +712,7 @@ export default function PairingScreen() {
           {/* Header */}
           <View style={styles.header}>
             {/* Intentionally no in-screen back button (avoids duplicate back buttons with Stack header). */}
+            <ConnectionModeBadge mode={connectionMode} label={t.lan[connectionMode]} />
           </View>
           
           <ConnectedStatus
@@ -705,6 +797,26 @@ export default function PairingScreen() {
               </Pressable>
             </Animated.View>
 
+            <Animated.View
+              entering={FadeInUp.delay(160).duration(300)}
+              style={[styles.lanToggle, { backgroundColor: colors.surface, borderColor: colors.border }]}
+            >
+              <View style={styles.lanToggleText}>
+                <Text style={[styles.lanToggleTitle, { color: colors.text }]}>📶 {t.lan.toggle}</Text>
+                <Text style={[styles.lanToggleDesc, { color: colors.textMuted }]}>{t.lan.toggleDesc}</Text>
+              </View>
+              <Switch
+                value={lanOnly}
+                onValueChange={(value) => {
+                  setLanOnly(value)
+                  setError('')
+                  Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
+                }}
+                trackColor={{ false: colors.border, true: colors.success }}
+                accessibilityLabel={t.lan.toggle}
+              />
+            </Animated.View>
+
             {error && (
               <Animated.View entering={FadeIn} style={[styles.errorBox, { backgroundColor: '#DC262620' }]}>
                 <Text style={styles.errorText}>{error}</Text>
@@ -723,9 +835,14 @@ export default function PairingScreen() {
             <View style={styles.waitingInfo}>
               <ZenLoader variant="dots" size="small" />
               <Text style={[styles.waitingText, { color: colors.textMuted }]}>
-                Waiting for partner...
+                {lanOnly ? t.lan.searching : 'Waiting for partner...'}
               </Text>
             </View>
+            {lanOnly && (
+              <View style={styles.lanBadge}>
+                <ConnectionModeBadge mode="lan" label={t.lan.lan} />
+              </View>
+            )}
             
             <View style={styles.expiry}>
               <Text style={[styles.expiryLabel, { color: colors.textMuted }]}>Expires in</Text>
@@ -746,13 +863,47 @@ export default function PairingScreen() {
             </Text>
             
             <CodeInput value={inputCode} onChange={setInputCode} onSubmit={joinWithCode} colors={colors} />
+            {lanOnly && (
+              <View style={styles.lanBadge}>
+                <ConnectionModeBadge mode="lan" label={t.lan.lan} />
+              </View>
+            )}
+            {lanOnly && (
+              <View style={styles.lanHosts}>
+                <Text style={[styles.lanHostsTitle, { color: colors.textMuted }]}>{t.lan.pickPhone}</Text>
+                {lanHosts.length === 0 ? (
+                  <View style={styles.waitingInfo}>
+                    <ZenLoader variant="dots" size="small" />
+                    <Text style={[styles.waitingText, { color: colors.textMuted }]}>{t.lan.lookingForPhones}</Text>
+                  </View>
+                ) : lanHosts.map(host => {
+                  const selected = host.deviceId === lanHost?.deviceId
+                  return (
+                    <Pressable
+                      key={host.deviceId}
+                      style={[styles.lanHost, { backgroundColor: colors.surface, borderColor: selected ? colors.primary : colors.border }]}
+                      onPress={() => {
+                        setLanHost(host)
+                        setError('')
+                        Haptics.selectionAsync()
+                      }}
+                      accessibilityRole="radio"
+                      accessibilityState={{ selected }}
+                    >
+                      <Text style={styles.lanHostAvatar}>{host.avatar ?? '📱'}</Text>
+                      <Text style={[styles.lanHostName, { color: colors.text }]}>{host.displayName ?? t.lan.unnamedPhone}</Text>
+                    </Pressable>
+                  )
+                })}
+              </View>
+            )}
             
             {error && <Text style={styles.errorText}>{error}</Text>}
             
             <Pressable
-              style={[styles.submitBtn, { backgroundColor: inputCode.length === CODE_LENGTH ? colors.primary : colors.textMuted, opacity: inputCode.length === CODE_LENGTH ? 1 : 0.5 }]}
+              style={[styles.submitBtn, { backgroundColor: canJoin ? colors.primary : colors.textMuted, opacity: canJoin ? 1 : 0.5 }]}
               onPress={joinWithCode}
-              disabled={loading || inputCode.length < CODE_LENGTH}
+              disabled={loading || !canJoin}
             >
               {loading ? (
                 <ActivityIndicator color={colors.primaryText} />
@@ -826,6 +977,16 @@ const styles = StyleSheet.create({
   orLine: { flex: 1, height: 1 },
   orText: { paddingHorizontal: 20, fontSize: 13, fontWeight: '400' },  // Zen: lighter
   errorBox: { padding: 14, borderRadius: 12, marginTop: 20 },
+  lanToggle: { flexDirection: 'row', alignItems: 'center', padding: 18, borderRadius: 16, borderWidth: 1, gap: 12, marginTop: 8 },
+  lanToggleText: { flex: 1 },
+  lanToggleTitle: { fontSize: 15, fontWeight: '500', marginBottom: 4 },
+  lanToggleDesc: { fontSize: 13, lineHeight: 19 },
+  lanBadge: { marginBottom: 24 },
+  lanHosts: { alignSelf: 'stretch', marginBottom: 24 },
+  lanHostsTitle: { fontSize: 12, fontWeight: '500', textTransform: 'uppercase', letterSpacing: 0.8, marginBottom: 12, textAlign: 'center' },
+  lanHost: { flexDirection: 'row', alignItems: 'center', padding: 14, borderRadius: 14, borderWidth: 1.5, gap: 12, marginBottom: 10 },
+  lanHostAvatar: { fontSize: 24 },
+  lanHostName: { flex: 1, fontSize: 15, fontWeight: '500' },
   errorText: { color: '#C17B7B', fontSize: 14, fontWeight: '500', textAlign: 'center' },  // Zen: muted error color
 
   // Code Section - Zen: focused, calm waiting
@@ -214,6 +214,7 @@ export default function ProfileScreen() {
             label={t.profile.sessions}
             icon="link"
             index={2}
+            onPress={() => router.push('/replay')}
           />
         </View>
 
@@ -232,6 +233,14 @@ export default function ProfileScreen() {
               <Text style={[styles.quickActionLabel, { color: colors.text }]}>Gallery</Text>
             </Pressable>
             
+            <Pressable 
+              style={[styles.quickActionCard, { backgroundColor: colors.surface, borderColor: colors.border }]}
+              onPress={() => router.push('/replay')}
+            >
+              <Icon name="refresh" size={24} color={colors.text} />
+              <Text style={[styles.quickActionLabel, { color: colors.text }]}>Replays</Text>
+            </Pressable>
+            
             <Pressable 
               style={[styles.quickActionCard, { backgroundColor: colors.surface, borderColor: colors.border }]}
               onPress={() => router.push('/settings')}
@@ -0,0 +1,667 @@
+/**
+ * Session Replay - scrub through a recorded session
+ *
+ * Lists the sessions this device took part in (as camera or director). Opening
+ * one loads its timeline: drag along it to see what was directed when, with
+ * the photos taken placed where they happened.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { ScrollView, View, Text, Pressable, StyleSheet, PanResponder, type LayoutChangeEvent } from 'react-native'
+import { SafeAreaView } from 'react-native-safe-area-context'
+import Animated, { FadeIn, FadeInUp } from 'react-native-reanimated'
+import { Image } from 'expo-image'
+import * as Haptics from 'expo-haptics'
+import { useThemeStore } from '../src/stores/themeStore'
+import { useLanguageStore } from '../src/stores/languageStore'
+import { usePairingStore } from '../src/stores/pairingStore'
+import { sessionRecordingsApi, capturesApi } from '../src/services/api'
+import type { Capture, SessionRecording } from '../src/services/supabase'
+import type { SessionTimelineEvent } from '../src/types'
+import type { Direction, QuickPhrase } from '../src/schemas/commands'
+import { magnitudeLevel } from '../src/utils/directionCues'
+import { ZenLoader } from '../src/components/ui/ZenLoader'
+import { ZenEmptyState } from '../src/components/ui/ZenEmptyState'
+import { Icon } from '../src/components/ui/Icon'
+
+type Translations = ReturnType<typeof useLanguageStore.getState>['t']
+
+/** Playback runs this many times faster than the session did */
+const PLAYBACK_SPEED = 10
+const PLAYBACK_TICK_MS = 100
+
+const MARKER_COLORS: Record<Exclude<SessionTimelineEvent['type'], 'quality'>, string> = {
+  command: '#4ECDC4',
+  capture: '#FFD93D',
+  disconnect: '#FF6B6B',
+  reconnect: '#6BCB77',
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function formatClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+/** Session length in ms - the recorded end if there is one */
+function recordingDuration(recording: SessionRecording): number {
+  const start = Date.parse(recording.started_at)
+  const end = recording.ended_at ? Date.parse(recording.ended_at) : start + recording.duration_seconds * 1000
+  return Math.max(1000, end - start)
+}
+
+/** One line describing a timeline event, in the app's language */
+function describeEvent(event: SessionTimelineEvent, t: Translations): string {
+  switch (event.type) {
+    case 'command': {
+      const { command } = event.data
+      if (command === 'direction') {
+        const name = t.viewer.directions[event.data.direction as Direction] ?? String(event.data.direction)
+        const magnitude = typeof event.data.magnitude === 'number' ? event.data.magnitude : undefined
+        const level = magnitudeLevel(magnitude)
+        return level === 'normal' ? name : `${name}, ${t.viewer.directionAmount[level]}`
+      }
+      if (command === 'message') {
+        const phrase = event.data.phrase as QuickPhrase | undefined
+        const text = phrase ? t.phrases.presets[phrase] ?? phrase : String(event.data.text ?? '')
+        return `💬 "${text}"`
+      }
+      return t.replay.commandNames[command as keyof Translations['replay']['commandNames']] ?? command
+    }
+    case 'capture':
+      return event.data.frameCount
+        ? `📸 ${t.replay.captured} ×${event.data.frameCount}`
+        : `📸 ${t.replay.captured}`
+    case 'disconnect':
+      return `⚠️ ${t.replay.disconnected}`
+    case 'reconnect':
+      return `🔗 ${t.replay.reconnected}`
+    case 'quality':
+      return `${t.replay.quality} ${event.data.score}/10`
+  }
+}
+
+/** The photographer sees their local copy; the director sees the uploaded one */
+function captureUri(capture: Capture, myDeviceId: string | null): string {
+  if (capture.camera_device_id === myDeviceId) {
+    return capture.thumbnail_path || capture.storage_path || capture.cloud_thumbnail_url || capture.cloud_url || ''
+  }
+  return capture.cloud_thumbnail_url || capture.cloud_url || ''
+}
+
+interface TimelineEntry {
+  event: SessionTimelineEvent
+  /** ms since the session started */
+  offset: number
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Timeline scrubber
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface TimelineScrubberProps {
+  entries: TimelineEntry[]
+  photoUris: Record<string, string>
+  duration: number
+  position: number
+  onScrub: (position: number) => void
+  trackColor: string
+  thumbColor: string
+  hint: string
+}
+
+function TimelineScrubber({ entries, photoUris, duration, position, onScrub, trackColor, thumbColor, hint }: TimelineScrubberProps) {
+  const [width, setWidth] = useState(0)
+
+  // PanResponder is created once - read the latest values through a ref
+  const stateRef = useRef({ width, duration, onScrub, grantX: 0 })
+  stateRef.current.width = width
+  stateRef.current.duration = duration
+  stateRef.current.onScrub = onScrub
+
+  const panResponder = useMemo(() => {
+    const scrubTo = (x: number) => {
+      const { width: trackWidth, duration: total } = stateRef.current
+      if (trackWidth <= 0) return
+      const ratio = Math.min(1, Math.max(0, x / trackWidth))
+      stateRef.current.onScrub(ratio * total)
+    }
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: (event) => {
+        stateRef.current.grantX = event.nativeEvent.locationX
+        scrubTo(event.nativeEvent.locationX)
+      },
+      onPanResponderMove: (_, gesture) => scrubTo(stateRef.current.grantX + gesture.dx),
+    })
+  }, [])
+
+  const toX = (offset: number) => (width * offset) / duration
+
+  return (
+    <View
+      style={styles.scrubber}
+      onLayout={(event: LayoutChangeEvent) => setWidth(event.nativeEvent.layout.width)}
+      accessibilityRole="adjustable"
+      accessibilityLabel={formatClock(position)}
+      accessibilityHint={hint}
+      {...panResponder.panHandlers}
+    >
+      {/* Photos sit above the rail where they were taken */}
+      <View style={styles.photoLane} pointerEvents="none">
+        {entries.map((entry, index) => {
+          if (entry.event.type !== 'capture') return null
+          const { captureId } = entry.event.data
+          const uri = captureId ? photoUris[captureId] : undefined
+          return (
+            <View key={index} style={[styles.photoMarker, { left: toX(entry.offset) - 14, borderColor: MARKER_COLORS.capture }]}>
+              {uri ? <Image source={{ uri }} style={styles.photoMarkerImage} contentFit="cover" /> : null}
+            </View>
+          )
+        })}
+      </View>
+
+      <View style={[styles.rail, { backgroundColor: trackColor }]} pointerEvents="none">
+        <View style={[styles.railFill, { width: toX(position), backgroundColor: thumbColor }]} />
+        {entries.map((entry, index) => entry.event.type === 'quality' ? null : (
+          <View
+            key={index}
+            style={[styles.tick, { left: toX(entry.offset) - 1, backgroundColor: MARKER_COLORS[entry.event.type] }]}
+          />
+        ))}
+      </View>
+
+      <View
+        style={[styles.playhead, { left: toX(position) - 8, backgroundColor: thumbColor }]}
+        pointerEvents="none"
+      />
+    </View>
+  )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Replay of one recording
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface RecordingReplayProps {
+  recording: SessionRecording
+  photoUris: Record<string, string>
+}
+
+function RecordingReplay({ recording, photoUris }: RecordingReplayProps) {
+  const { colors } = useThemeStore()
+  const { t } = useLanguageStore()
+  const [position, setPosition] = useState(0)
+  const [playing, setPlaying] = useState(false)
+
+  const duration = recordingDuration(recording)
+  const entries = useMemo<TimelineEntry[]>(() => {
+    const start = Date.parse(recording.started_at)
+    return recording.events.map(event => ({
+      event,
+      offset: Math.min(duration, Math.max(0, Date.parse(event.timestamp) - start)),
+    }))
+  }, [recording, duration])
+
+  // Playback - stops by itself at the end
+  useEffect(() => {
+    if (!playing) return
+    const timer = setInterval(() => {
+      setPosition(current => {
+        const next = current + PLAYBACK_TICK_MS * PLAYBACK_SPEED
+        if (next >= duration) {
+          setPlaying(false)
+          return duration
+        }
+        return next
+      })
+    }, PLAYBACK_TICK_MS)
+    return () => clearInterval(timer)
+  }, [playing, duration])
+
+  const handleScrub = useCallback((next: number) => {
+    setPlaying(false)
+    setPosition(next)
+  }, [])
+
+  const togglePlay = () => {
+    Haptics.selectionAsync()
+    if (!playing && position >= duration) setPosition(0)
+    setPlaying(!playing)
+  }
+
+  // What was happening at the playhead: the latest event, photo and quality sample up to it
+  const reached = entries.filter(entry => entry.offset <= position)
+  const currentEvent = [...reached].reverse().find(entry => entry.event.type !== 'quality')
+  const currentCapture = [...reached].reverse().find(entry => entry.event.type === 'capture')
+  const currentQuality = [...reached].reverse().find(entry => entry.event.type === 'quality')
+  const currentCaptureId = currentCapture?.event.type === 'capture' ? currentCapture.event.data.captureId : undefined
+  const currentPhoto = currentCaptureId ? photoUris[currentCaptureId] : undefined
+  const listed = entries.filter(entry => entry.event.type !== 'quality')
+
+  return (
+    <View>
+      {/* Stats */}
+      <View style={[styles.statsRow, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        {[
+          { label: t.replay.duration, value: formatClock(duration) },
+          { label: t.replay.commands, value: String(recording.total_commands) },
+          { label: t.replay.photos, value: String(recording.total_photos) },
+          { label: t.replay.quality, value: recording.avg_connection_quality != null ? `${recording.avg_connection_quality}/10` : '–' },
+          { label: t.replay.disconnects, value: String(recording.disconnection_count) },
+        ].map(stat => (
+          <View key={stat.label} style={styles.stat}>
+            <Text style={[styles.statValue, { color: colors.text }]}>{stat.value}</Text>
+            <Text style={[styles.statLabel, { color: colors.textMuted }]}>{stat.label}</Text>
+          </View>
+        ))}
+      </View>
+
+      {/* The moment under the playhead */}
+      <View style={[styles.moment, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        {currentPhoto ? (
+          <Image source={{ uri: currentPhoto }} style={styles.momentPhoto} contentFit="cover" transition={150} />
+        ) : (
+          <View style={[styles.momentPhoto, styles.momentPhotoEmpty, { backgroundColor: colors.surfaceAlt }]}>
+            <Icon name="camera" size={28} color={colors.textMuted} />
+          </View>
+        )}
+        <View style={styles.momentInfo}>
+          <Text style={[styles.momentClock, { color: colors.text }]}>
+            {formatClock(position)} / {formatClock(duration)}
+          </Text>
+          <Text style={[styles.momentEvent, { color: colors.textSecondary }]} numberOfLines={2}>
+            {currentEvent ? describeEvent(currentEvent.event, t) : t.replay.nothingYet}
+          </Text>
+          {currentQuality && (
+            <Text style={[styles.momentQuality, { color: colors.textMuted }]}>
+              {describeEvent(currentQuality.event, t)}
+            </Text>
+          )}
+        </View>
+      </View>
+
+      {/* Timeline */}
+      <View style={styles.timelineRow}>
+        <Pressable
+          style={[styles.playButton, { backgroundColor: colors.primary }]}
+          onPress={togglePlay}
+          accessibilityLabel={playing ? t.replay.pause : t.replay.play}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.playText, { color: colors.primaryText }]}>{playing ? '❚❚' : '▶'}</Text>
+        </Pressable>
+        <View style={styles.timelineTrack}>
+          <TimelineScrubber
+            entries={entries}
+            photoUris={photoUris}
+            duration={duration}
+            position={position}
+            onScrub={handleScrub}
+            trackColor={colors.border}
+            thumbColor={colors.primary}
+            hint={t.replay.scrubHint}
+          />
+        </View>
+      </View>
+
+      {/* Event list - tap to jump */}
+      <View style={[styles.eventList, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+        {listed.map((entry, index) => {
+          const past = entry.offset <= position
+          return (
+            <Pressable
+              key={index}
+              style={[styles.eventRow, index > 0 && { borderTopColor: colors.border, borderTopWidth: StyleSheet.hairlineWidth }]}
+              onPress={() => handleScrub(entry.offset)}
+              accessibilityRole="button"
+            >
+              <View style={[styles.eventDot, { backgroundColor: entry.event.type === 'quality' ? colors.border : MARKER_COLORS[entry.event.type] }]} />
+              <Text style={[styles.eventTime, { color: colors.textMuted }]}>{formatClock(entry.offset)}</Text>
+              <Text style={[styles.eventText, { color: past ? colors.text : colors.textMuted }]} numberOfLines={1}>
+                {describeEvent(entry.event, t)}
+              </Text>
+            </Pressable>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Screen
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export default function ReplayScreen() {
+  const { colors } = useThemeStore()
+  const { t } = useLanguageStore()
+  const myDeviceId = usePairingStore((state) => state.myDeviceId)
+
+  const [recordings, setRecordings] = useState<SessionRecording[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<SessionRecording | null>(null)
+  const [photoUris, setPhotoUris] = useState<Record<string, string>>({})
+  const [opening, setOpening] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!myDeviceId) {
+      setLoading(false)
+      return
+    }
+    let cancelled = false
+    sessionRecordingsApi.getByDevice(myDeviceId).then(({ recordings: rows }) => {
+      if (cancelled) return
+      setRecordings(rows)
+      setLoading(false)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [myDeviceId])
+
+  const openRecording = async (id: string) => {
+    Haptics.selectionAsync()
+    setOpening(true)
+    setError(null)
+
+    const { recording } = await sessionRecordingsApi.get(id)
+    if (!recording) {
+      setError(t.replay.loadFailed)
+      setOpening(false)
+      return
+    }
+
+    const captureIds = (recording.events || []).flatMap(event =>
+      event.type === 'capture' && event.data.captureId ? [event.data.captureId] : []
+    )
+    const { captures } = await capturesApi.getByIds(captureIds)
+    const uris: Record<string, string> = {}
+    for (const capture of captures) {
+      const uri = captureUri(capture, myDeviceId)
+      if (uri) uris[capture.id] = uri
+    }
+
+    setPhotoUris(uris)
+    setSelected({ ...recording, events: recording.events || [] })
+    setOpening(false)
+  }
+
+  if (loading || opening) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered, { backgroundColor: colors.background }]} edges={['bottom']}>
+        <ZenLoader variant="breathe" size="large" message={t.common.loading} />
+      </SafeAreaView>
+    )
+  }
+
+  if (selected) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          <Pressable
+            style={styles.backRow}
+            onPress={() => setSelected(null)}
+            accessibilityRole="button"
+            accessibilityLabel={t.replay.back}
+          >
+            <Icon name="chevron-left" size={18} color={colors.textSecondary} />
+            <Text style={[styles.backText, { color: colors.textSecondary }]}>{t.replay.back}</Text>
+          </Pressable>
+          <Text style={[styles.detailTitle, { color: colors.text }]}>{formatDate(selected.started_at)}</Text>
+          <Animated.View entering={FadeIn.duration(300)}>
+            <RecordingReplay recording={selected} photoUris={photoUris} />
+          </Animated.View>
+        </ScrollView>
+      </SafeAreaView>
+    )
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={['bottom']}>
+      {recordings.length === 0 ? (
+        <ZenEmptyState icon="camera" title={t.replay.empty} description={t.replay.emptyDesc} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContent} showsVerticalScrollIndicator={false}>
+          {error && <Text style={[styles.error, { color: colors.error }]}>{error}</Text>}
+          {recordings.map((recording, index) => (
+            <Animated.View key={recording.id} entering={FadeInUp.delay(Math.min(index, 10) * 50).duration(300)}>
+              <Pressable
+                style={[styles.recordingRow, { backgroundColor: colors.surface, borderColor: colors.border }]}
+                onPress={() => openRecording(recording.id)}
+                accessibilityRole="button"
+                accessibilityLabel={formatDate(recording.started_at)}
+              >
+                <View style={styles.recordingInfo}>
+                  <Text style={[styles.recordingDate, { color: colors.text }]}>{formatDate(recording.started_at)}</Text>
+                  <Text style={[styles.recordingMeta, { color: colors.textMuted }]}>
+                    {formatClock(recordingDuration(recording))} · {recording.total_commands} {t.replay.commands} · {recording.total_photos} {t.replay.photos}
+                  </Text>
+                </View>
+                <Icon name="chevron-right" size={18} color={colors.textMuted} />
+              </Pressable>
+            </Animated.View>
+          ))}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  error: {
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  recordingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  recordingInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  recordingDate: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  recordingMeta: {
+    fontSize: 12,
+  },
+  backRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  backText: {
+    fontSize: 14,
+  },
+  detailTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginBottom: 6,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  statLabel: {
+    fontSize: 10,
+    marginTop: 2,
+  },
+  moment: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 12,
+    marginTop: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  momentPhoto: {
+    width: 96,
+    height: 128,
+    borderRadius: 8,
+  },
+  momentPhotoEmpty: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  momentInfo: {
+    flex: 1,
+    justifyContent: 'center',
+    gap: 6,
+  },
+  momentClock: {
+    fontSize: 22,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+  },
+  momentEvent: {
+    fontSize: 15,
+  },
+  momentQuality: {
+    fontSize: 12,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 12,
+    marginTop: 12,
+  },
+  playButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  timelineTrack: {
+    flex: 1,
+  },
+  scrubber: {
+    height: 72,
+    justifyContent: 'flex-end',
+  },
+  photoLane: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    height: 36,
+  },
+  photoMarker: {
+    position: 'absolute',
+    top: 4,
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+    borderWidth: 2,
+    overflow: 'hidden',
+  },
+  photoMarkerImage: {
+    width: '100%',
+    height: '100%',
+  },
+  rail: {
+    height: 8,
+    marginBottom: 16,
+    borderRadius: 4,
+  },
+  railFill: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: 0,
+    borderRadius: 4,
+    opacity: 0.35,
+  },
+  tick: {
+    position: 'absolute',
+    top: -4,
+    width: 2,
+    height: 16,
+    borderRadius: 1,
+  },
+  playhead: {
+    position: 'absolute',
+    bottom: 12,
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+  },
+  eventList: {
+    marginTop: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  eventDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  eventTime: {
+    width: 44,
+    fontSize: 12,
+    fontVariant: ['tabular-nums'],
+  },
+  eventText: {
+    flex: 1,
+    fontSize: 14,
+  },
+})
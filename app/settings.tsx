@@ -19,6 +19,7 @@ import {
   ScrollView,
   Linking,
   Alert,
+  TextInput,
 } from 'react-native'
 import { useRouter } from 'expo-router'
 import { SafeAreaView } from 'react-native-safe-area-context'
@@ -31,7 +32,7 @@ import Animated, {
   withTiming, 
 } from 'react-native-reanimated'
 import * as Haptics from 'expo-haptics'
-import { useSettingsStore } from '../src/stores/settingsStore'
+import { useSettingsStore, MAX_CUSTOM_PHRASES } from '../src/stores/settingsStore'
 import { usePairingStore } from '../src/stores/pairingStore'
 import { useLanguageStore } from '../src/stores/languageStore'
 import { useThemeStore } from '../src/stores/themeStore'
@@ -42,7 +43,9 @@ import { fonts } from '../src/config/typography'
 import { profileApi, appVersionApi } from '../src/services/api'
 import { connectionManager } from '../src/services/connectionManager'
 import { sessionLogger } from '../src/services/sessionLogger'
+import { CODEC_POLICIES, type CodecPolicy } from '../src/services/sdp'
 import { getNativeVersion } from '../src/config/build'
+import { COMPOSITION_OVERLAYS, MAX_MESSAGE_LENGTH, SPIRAL_ROTATIONS, type CompositionOverlay } from '../src/schemas/commands'
 
 function SettingRow({ 
   label, 
@@ -161,6 +164,199 @@ function LanguageOption({
   )
 }
 
+// Composition overlay picker - shown under the grid toggle while the grid is on
+function OverlayPicker({
+  value,
+  onSelect,
+  onRotateSpiral,
+  spiralRotation,
+  labels,
+  title,
+  rotateLabel,
+}: {
+  value: CompositionOverlay
+  onSelect: (overlay: CompositionOverlay) => void
+  onRotateSpiral: () => void
+  spiralRotation: number
+  labels: Record<CompositionOverlay, string>
+  title: string
+  rotateLabel: string
+}) {
+  const { colors } = useThemeStore()
+
+  return (
+    <View style={styles.overlayPicker}>
+      <Text style={[styles.settingDesc, styles.overlayPickerTitle, { color: colors.textMuted }]}>{title}</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.overlayChips}
+        accessibilityRole="radiogroup"
+      >
+        {COMPOSITION_OVERLAYS.map(overlay => {
+          const selected = overlay === value
+          return (
+            <Pressable
+              key={overlay}
+              style={[
+                styles.overlayChip,
+                {
+                  backgroundColor: selected ? colors.primary : colors.surface,
+                  borderColor: selected ? colors.primary : colors.border,
+                },
+              ]}
+              onPress={() => onSelect(overlay)}
+              accessibilityLabel={`${labels[overlay]}${selected ? ', selected' : ''}`}
+              accessibilityRole="radio"
+              accessibilityState={{ selected }}
+            >
+              <Text style={[styles.overlayChipText, { color: selected ? colors.primaryText : colors.text }]}>
+                {labels[overlay]}
+              </Text>
+            </Pressable>
+          )
+        })}
+      </ScrollView>
+      {value === 'golden_spiral' && (
+        <Pressable
+          style={[styles.overlayChip, styles.rotateChip, { borderColor: colors.border }]}
+          onPress={onRotateSpiral}
+          accessibilityLabel={`${rotateLabel}, ${spiralRotation} degrees`}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.overlayChipText, { color: colors.text }]}>⟳ {rotateLabel} · {spiralRotation}°</Text>
+        </Pressable>
+      )}
+    </View>
+  )
+}
+
+// Video codec policy - one chip per codec, 'auto' first
+function CodecPicker({
+  value,
+  onSelect,
+  labels,
+  title,
+  description,
+}: {
+  value: CodecPolicy
+  onSelect: (policy: CodecPolicy) => void
+  labels: Record<CodecPolicy, string>
+  title: string
+  description: string
+}) {
+  const { colors } = useThemeStore()
+
+  return (
+    <View style={[styles.overlayPicker, styles.codecPicker]}>
+      <Text style={[styles.settingLabel, styles.overlayPickerTitle, { color: colors.text }]}>{title}</Text>
+      <Text style={[styles.settingDesc, styles.overlayPickerTitle, { color: colors.textMuted }]}>{description}</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.overlayChips}
+        accessibilityRole="radiogroup"
+      >
+        {CODEC_POLICIES.map(policy => {
+          const selected = policy === value
+          return (
+            <Pressable
+              key={policy}
+              style={[
+                styles.overlayChip,
+                {
+                  backgroundColor: selected ? colors.primary : colors.surface,
+                  borderColor: selected ? colors.primary : colors.border,
+                },
+              ]}
+              onPress={() => onSelect(policy)}
+              accessibilityLabel={`${labels[policy]}${selected ? ', selected' : ''}`}
+              accessibilityRole="radio"
+              accessibilityState={{ selected }}
+            >
+              <Text style={[styles.overlayChipText, { color: selected ? colors.primaryText : colors.text }]}>
+                {labels[policy]}
+              </Text>
+            </Pressable>
+          )
+        })}
+      </ScrollView>
+    </View>
+  )
+}
+
+// Director's own quick phrases - added to the end, removed with ×
+function CustomPhrasesEditor({
+  phrases,
+  onChange,
+  placeholder,
+  addLabel,
+}: {
+  phrases: string[]
+  onChange: (phrases: string[]) => void
+  placeholder: string
+  addLabel: string
+}) {
+  const { colors } = useThemeStore()
+  const [draft, setDraft] = useState('')
+  const canAdd = !!draft.trim() && phrases.length < MAX_CUSTOM_PHRASES
+
+  const handleAdd = () => {
+    const phrase = draft.trim()
+    if (!canAdd || phrases.includes(phrase)) return
+    Haptics.selectionAsync()
+    onChange([...phrases, phrase])
+    setDraft('')
+  }
+
+  return (
+    <View style={styles.phraseEditor}>
+      {phrases.length > 0 && (
+        <View style={styles.phraseChips}>
+          {phrases.map(phrase => (
+            <Pressable
+              key={phrase}
+              style={[styles.overlayChip, styles.phraseChip, { backgroundColor: colors.surface, borderColor: colors.border }]}
+              onPress={() => {
+                Haptics.selectionAsync()
+                onChange(phrases.filter(p => p !== phrase))
+              }}
+              accessibilityLabel={`Remove "${phrase}"`}
+              accessibilityRole="button"
+            >
+              <Text style={[styles.overlayChipText, { color: colors.text }]}>{phrase}</Text>
+              <Text style={[styles.overlayChipText, { color: colors.textMuted }]}>×</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+      <View style={styles.phraseInputRow}>
+        <TextInput
+          style={[styles.phraseInput, { color: colors.text, borderColor: colors.border }]}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder={placeholder}
+          placeholderTextColor={colors.textMuted}
+          maxLength={MAX_MESSAGE_LENGTH}
+          returnKeyType="done"
+          onSubmitEditing={handleAdd}
+          editable={phrases.length < MAX_CUSTOM_PHRASES}
+          accessibilityLabel={placeholder}
+        />
+        <Pressable
+          style={[styles.overlayChip, { backgroundColor: colors.primary, borderColor: colors.primary }, !canAdd && styles.phraseAddDisabled]}
+          onPress={handleAdd}
+          disabled={!canAdd}
+          accessibilityLabel={addLabel}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.overlayChipText, { color: colors.primaryText }]}>{addLabel}</Text>
+        </Pressable>
+      </View>
+    </View>
+  )
+}
+
 // Helper to format relative time
 function formatRelativeTime(dateStr: string): string {
   const date = new Date(dateStr)
@@ -566,6 +762,24 @@ export default function SettingsScreen() {
               onToggle={() => toggleSetting('showGrid')}
               index={0}
             />
+            {settings.showGrid && (
+              <OverlayPicker
+                value={settings.compositionOverlay}
+                spiralRotation={settings.spiralRotation}
+                onSelect={(overlay) => {
+                  Haptics.selectionAsync()
+                  updateSettings({ compositionOverlay: overlay })
+                }}
+                onRotateSpiral={() => {
+                  Haptics.selectionAsync()
+                  const next = SPIRAL_ROTATIONS[(SPIRAL_ROTATIONS.indexOf(settings.spiralRotation) + 1) % SPIRAL_ROTATIONS.length]
+                  updateSettings({ spiralRotation: next })
+                }}
+                labels={t.settings.overlays}
+                title={t.settings.overlayStyle}
+                rotateLabel={t.settings.rotateSpiral}
+              />
+            )}
             <View style={[styles.divider, { backgroundColor: colors.borderLight }]} />
             <SettingRow
               label={t.settings.flash}
@@ -588,6 +802,59 @@ export default function SettingsScreen() {
               onToggle={() => toggleSetting('autoSave')}
               index={3}
             />
+            <View style={[styles.divider, { backgroundColor: colors.borderLight }]} />
+            <SettingRow
+              label={t.settings.pushToTalk}
+              description={t.settings.pushToTalkDesc}
+              value={settings.pushToTalk}
+              onToggle={() => toggleSetting('pushToTalk')}
+              index={4}
+            />
+            <View style={[styles.divider, { backgroundColor: colors.borderLight }]} />
+            <SettingRow
+              label={t.settings.spokenDirections}
+              description={t.settings.spokenDirectionsDesc}
+              value={settings.spokenDirections}
+              onToggle={() => toggleSetting('spokenDirections')}
+              index={5}
+            />
+            <View style={[styles.divider, { backgroundColor: colors.borderLight }]} />
+            <SettingRow
+              label={t.settings.relayOnly}
+              description={t.settings.relayOnlyDesc}
+              value={settings.relayOnly}
+              onToggle={() => toggleSetting('relayOnly')}
+              index={6}
+            />
+            <View style={[styles.divider, { backgroundColor: colors.borderLight }]} />
+            <CodecPicker
+              value={settings.videoCodec}
+              onSelect={(videoCodec) => {
+                Haptics.selectionAsync()
+                updateSettings({ videoCodec })
+              }}
+              labels={t.settings.codecs}
+              title={t.settings.videoCodec}
+              description={t.settings.videoCodecDesc}
+            />
+          </View>
+        </Animated.View>
+
+        {/* Quick phrases */}
+        <Animated.View entering={FadeIn.delay(125).duration(200)} style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.textMuted }]}>
+            {t.settings.customPhrases.toUpperCase()}
+          </Text>
+          <View style={[styles.card, { backgroundColor: colors.surface, borderColor: colors.border }]}>
+            <Text style={[styles.settingDesc, styles.phraseEditorDesc, { color: colors.textMuted }]}>
+              {t.settings.customPhrasesDesc}
+            </Text>
+            <CustomPhrasesEditor
+              phrases={settings.customPhrases}
+              onChange={(customPhrases) => updateSettings({ customPhrases })}
+              placeholder={t.settings.phrasePlaceholder}
+              addLabel={t.settings.addPhrase}
+            />
           </View>
         </Animated.View>
 
@@ -986,6 +1253,73 @@ const styles = StyleSheet.create({
     height: 1,
     marginHorizontal: 16,
   },
+  overlayPicker: {
+    paddingBottom: 14,
+  },
+  overlayPickerTitle: {
+    marginTop: 0,
+    marginBottom: 8,
+    paddingHorizontal: 16,
+  },
+  codecPicker: {
+    paddingTop: 14,
+  },
+  overlayChips: {
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  overlayChip: {
+    borderWidth: 1.5,
+    borderRadius: 14,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  overlayChipText: {
+    fontFamily: fonts.medium,
+    fontSize: 14,
+  },
+  phraseEditor: {
+    gap: 10,
+    paddingBottom: 14,
+  },
+  phraseEditorDesc: {
+    paddingHorizontal: 16,
+    paddingTop: 14,
+    marginBottom: 10,
+  },
+  phraseChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  phraseChip: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  phraseInputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+  },
+  phraseInput: {
+    flex: 1,
+    borderWidth: 1.5,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontFamily: fonts.regular,
+    fontSize: 14,
+  },
+  phraseAddDisabled: {
+    opacity: 0.4,
+  },
+  rotateChip: {
+    alignSelf: 'flex-start',
+    marginTop: 10,
+    marginHorizontal: 16,
+  },
   languageValue: {
     flexDirection: 'row',
     alignItems: 'center',
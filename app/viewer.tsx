@@ -27,33 +27,61 @@ import Animated, {
 import * as Haptics from 'expo-haptics'
 import { usePairingStore } from '../src/stores/pairingStore'
 import { profileApi, connectionHistoryApi } from '../src/services/api'
-
-// Dynamically import video components
-let RTCView: any = null
-let LiveKitVideoView: any = null
-try {
-  const webrtc = require('react-native-webrtc')
-  RTCView = webrtc.RTCView
-} catch {
-  // WebRTC not available (Expo Go)
-}
-try {
-  const livekit = require('@livekit/react-native')
-  LiveKitVideoView = livekit.VideoView
-} catch {
-  // LiveKit not available
-}
 import { useLanguageStore } from '../src/stores/languageStore'
+import { useSettingsStore } from '../src/stores/settingsStore'
 import { pairingApi } from '../src/services/api'
 import { sessionLogger } from '../src/services/sessionLogger'
-import { webrtcService, webrtcAvailable } from '../src/services/webrtc'
-import { livekitService, isLiveKitAvailable } from '../src/services/livekit'
+import { mediaTransport } from '../src/services/transport'
+import {
+  mediaVideoTracks,
+  NO_TRANSPORT_FEATURES,
+  type MediaHandle,
+  type TransportFeatures,
+} from '../src/services/mediaTransport'
 import { useRealtimeCommands, Direction } from '../src/services/realtimeCommands'
+import { createCommandDispatcher, sendRemoteCommand, type CommandSender } from '../src/services/commandDispatcher'
+import { CommandAckTracker, type TrackedCommand, type CommandDeliveryStatus } from '../src/services/commandAcks'
+import {
+  DIRECTOR_COMMANDS,
+  CAPTURE_MODES,
+  COUNTDOWN_SECONDS,
+  createCommandId,
+  GUIDE_KINDS,
+  COMPOSITION_OVERLAYS,
+  SPIRAL_ROTATIONS,
+  type CompositionOverlay,
+  type SpiralRotation,
+  type CaptureMode,
+  type CountdownSeconds,
+  type FramingGuide,
+  type GuideKind,
+  type QuickPhrase,
+  type RemoteCommand,
+  type RemoteCommandPayload,
+} from '../src/schemas/commands'
+import type { CameraStateSnapshot, CaptureResponse } from '../src/types'
+import { CountdownOverlay } from '../src/components/CountdownOverlay'
+import { FramingGuidesOverlay, GUIDE_COLORS } from '../src/components/FramingGuides'
+import { GridOverlay } from '../src/components/GridOverlay'
+import { CameraControlsPanel } from '../src/components/CameraControlsPanel'
+import { PushToTalkButton, PartnerVoiceBadge } from '../src/components/VoiceControls'
+import { DirectionJoystick } from '../src/components/DirectionJoystick'
+import { QuickPhrasePalette } from '../src/components/QuickPhrases'
+import { useVoiceChannel } from '../src/hooks/useVoiceChannel'
+import { COUNTDOWN_LEAD_MS, resolveFireAt } from '../src/utils/countdown'
+import {
+  BURST_FRAME_OPTIONS,
+  BURST_INTERVAL_OPTIONS_MS,
+  DEFAULT_BURST_FRAMES,
+  DEFAULT_BURST_INTERVAL_MS,
+} from '../src/utils/captureSequence'
+import { magnitudeLevel } from '../src/utils/directionCues'
 import { cloudApi } from '../src/services/cloudApi'
-
-// LiveKit temporarily disabled - native packages conflict
-// Use WebRTC until LiveKit build issues are resolved
-const USE_LIVEKIT = false
+import { lanSession } from '../src/services/lanSession'
+import { useFrameStream } from '../src/hooks/useFrameStream'
+import { PreviewDisplay } from '../src/components/PreviewDisplay'
+import { TransportVideoView, canRenderVideo } from '../src/components/TransportVideoView'
+import { ConnectionModeBadge } from '../src/components/ConnectionStatus'
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window')
 
@@ -149,6 +177,139 @@ function SentIndicator({ message }: { message: string }) {
   )
 }
 
+/** Below these the status pill warns */
+const LOW_BATTERY_LEVEL = 0.15
+const LOW_STORAGE_MB = 500
+
+// Photographer's battery, free storage and orientation, from camera_state
+function CameraStatusText({ state }: { state: CameraStateSnapshot }) {
+  const parts: { text: string; warn: boolean }[] = []
+  if (state.batteryLevel !== null) {
+    parts.push({ text: `🔋 ${Math.round(state.batteryLevel * 100)}%`, warn: state.batteryLevel < LOW_BATTERY_LEVEL })
+  }
+  if (state.storageFreeMb !== null) {
+    const text = state.storageFreeMb >= 1024
+      ? `${(state.storageFreeMb / 1024).toFixed(1)} GB free`
+      : `${state.storageFreeMb} MB free`
+    parts.push({ text, warn: state.storageFreeMb < LOW_STORAGE_MB })
+  }
+  if (state.orientation) {
+    parts.push({ text: state.orientation === 'portrait' ? '▯ Portrait' : '▭ Landscape', warn: false })
+  }
+  if (parts.length === 0) return null
+
+  return (
+    <Text style={styles.partnerStatusText}>
+      {parts.map((part, index) => (
+        <Text key={part.text} style={part.warn && styles.partnerStatusWarn}>
+          {index > 0 ? ' · ' : ''}{part.text}
+        </Text>
+      ))}
+    </Text>
+  )
+}
+
+const CAPTURE_MODE_LABELS: Record<CaptureMode, string> = {
+  single: 'Single',
+  burst: 'Burst',
+}
+
+const CAPTURE_MODE_ICONS: Record<CaptureMode, string> = {
+  single: '◉',
+  burst: '⁞',
+}
+
+const GUIDE_TOOL_ICONS: Record<GuideKind, string> = {
+  circle: '◯',
+  arrow: '➚',
+  box: '▢',
+  horizon: '⎯',
+}
+
+const GUIDE_TOOL_LABELS: Record<GuideKind, string> = {
+  circle: 'Circle',
+  arrow: 'Arrow',
+  box: 'Target box',
+  horizon: 'Horizon line',
+}
+
+/** Live strokes are streamed at most this often - the finished stroke is always sent */
+const GUIDE_STREAM_INTERVAL_MS = 100
+
+/** Zoom is streamed at most this often while dragging - the release value is always sent */
+const ZOOM_STREAM_INTERVAL_MS = 100
+
+// Drawing tools for framing guides, shown over the video while drawing
+function GuideToolbar({
+  tool,
+  hasGuides,
+  onSelect,
+  onClear,
+}: {
+  tool: GuideKind
+  hasGuides: boolean
+  onSelect: (tool: GuideKind) => void
+  onClear: () => void
+}) {
+  return (
+    <Animated.View entering={FadeIn.duration(150)} exiting={FadeOut.duration(150)} style={styles.guideToolbar}>
+      {GUIDE_KINDS.map(kind => (
+        <Pressable
+          key={kind}
+          style={[styles.guideToolBtn, tool === kind && { borderColor: GUIDE_COLORS[kind] }]}
+          onPress={() => {
+            Haptics.selectionAsync()
+            onSelect(kind)
+          }}
+          accessibilityLabel={`Draw ${GUIDE_TOOL_LABELS[kind].toLowerCase()}`}
+          accessibilityState={{ selected: tool === kind }}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.guideToolIcon, { color: GUIDE_COLORS[kind] }]}>{GUIDE_TOOL_ICONS[kind]}</Text>
+        </Pressable>
+      ))}
+      <Pressable
+        style={[styles.guideToolBtn, !hasGuides && styles.guideToolBtnDisabled]}
+        onPress={onClear}
+        disabled={!hasGuides}
+        accessibilityLabel="Clear guides"
+        accessibilityRole="button"
+      >
+        <Text style={styles.guideToolIcon}>✕</Text>
+      </Pressable>
+    </Animated.View>
+  )
+}
+
+const DELIVERY_STATUS_COLORS: Record<CommandDeliveryStatus, string> = {
+  sending: 'rgba(255,255,255,0.5)',
+  sent: 'rgba(255,255,255,0.7)',
+  received: '#64B5F6',
+  executed: '#81C784',
+  failed: '#E57373',
+  cancelled: 'rgba(255,255,255,0.7)',
+  timeout: '#FFB74D',
+}
+
+// Per-command delivery status, newest first
+function CommandStatusList({ commands }: { commands: TrackedCommand[] }) {
+  const { t } = useLanguageStore()
+  if (commands.length === 0) return null
+  return (
+    <View style={styles.commandStatusList} pointerEvents="none">
+      {commands.slice(0, 3).map((cmd) => (
+        <View key={cmd.id} style={styles.commandStatusRow}>
+          <Text style={styles.commandStatusLabel} numberOfLines={1}>{cmd.label}</Text>
+          <Text style={[styles.commandStatusValue, { color: DELIVERY_STATUS_COLORS[cmd.status] }]}>
+            {t.viewer.deliveryStatus[cmd.status]}
+            {cmd.attempts > 1 && cmd.status !== 'executed' ? ` (×${cmd.attempts})` : ''}
+          </Text>
+        </View>
+      ))}
+    </View>
+  )
+}
+
 // Toast notification for role switch request
 function RoleSwitchToast({ visible, partnerName }: { visible: boolean; partnerName: string }) {
   if (!visible) return null
@@ -167,7 +328,9 @@ function RoleSwitchToast({ visible, partnerName }: { visible: boolean; partnerNa
 
 export default function ViewerScreen() {
   const router = useRouter()
-  const { isPaired, myDeviceId, pairedDeviceId, sessionId, clearPairing, partnerDisplayName, partnerAvatar, setPartnerInfo, setPartnerPresence } = usePairingStore()
+  const { isPaired, myDeviceId, pairedDeviceId, sessionId, connectionMode, clearPairing, partnerDisplayName, partnerAvatar, setPartnerInfo, setPartnerPresence } = usePairingStore()
+  // Local Wi-Fi only: no Supabase presence, Realtime or WebRTC - everything goes over lanSession
+  const isLan = connectionMode === 'lan'
   const { t } = useLanguageStore()
   const partnerNameRef = useRef(partnerDisplayName)
 
@@ -186,8 +349,12 @@ export default function ViewerScreen() {
           style: 'destructive',
           onPress: async () => {
             sessionLogger.info('manual_disconnect')
-            webrtcService.destroy()
-            if (myDeviceId) {
+            if (isLan) {
+              lanSession.stop()
+            } else {
+              void mediaTransport.destroy()
+            }
+            if (myDeviceId && !isLan) {
               await pairingApi.unpair(myDeviceId)
               await connectionHistoryApi.disconnectAll(myDeviceId)
             }
@@ -201,16 +368,44 @@ export default function ViewerScreen() {
   
   const [isConnected, setIsConnected] = useState(false)
   const [isReceiving, setIsReceiving] = useState(false)
-  const [remoteStream, setRemoteStream] = useState<any>(null)
-  const [remoteTrack, setRemoteTrack] = useState<any>(null) // LiveKit video track
+  const [remoteMedia, setRemoteMedia] = useState<MediaHandle | null>(null)
   const [connectionState, setConnectionState] = useState<string>('disconnected')
   const [webrtcError, setWebrtcError] = useState<string | null>(null)
   const [lastCommand, setLastCommand] = useState('')
   const [showSent, setShowSent] = useState(false)
+  const [trackedCommands, setTrackedCommands] = useState<TrackedCommand[]>([])
+  const [captureMode, setCaptureMode] = useState<CaptureMode>('single')
+  const [burstFrames, setBurstFrames] = useState<number>(DEFAULT_BURST_FRAMES)
+  const [burstIntervalMs, setBurstIntervalMs] = useState<number>(DEFAULT_BURST_INTERVAL_MS)
+  const [countdownSeconds, setCountdownSeconds] = useState<CountdownSeconds | null>(null)
+  const [countdown, setCountdown] = useState<{ countdownId: string; fireAt: number } | null>(null)
+  const [guides, setGuides] = useState<FramingGuide[]>([])
+  const [guideTool, setGuideTool] = useState<GuideKind | null>(null)
+  // Photographer's composition overlay - from the camera's snapshot, or as last set from here
+  const [remoteOverlay, setRemoteOverlay] = useState<{
+    visible: boolean
+    overlay: CompositionOverlay
+    spiralRotation: SpiralRotation
+  } | null>(null)
+  const lastGuidesSentRef = useRef(0)
+  // Camera's own state snapshot - toggles render from this, not from what we last sent
+  const [cameraState, setCameraState] = useState<CameraStateSnapshot | null>(null)
+  const [showCameraControls, setShowCameraControls] = useState(false)
+  const [showJoystick, setShowJoystick] = useState(false)
+  const [showPhrases, setShowPhrases] = useState(false)
+  const lastZoomSentRef = useRef(0)
   const [partnerOnline, setPartnerOnline] = useState<boolean | null>(null)
   const [showSwitchToast, setShowSwitchToast] = useState(false)
-  const [usingLiveKit, setUsingLiveKit] = useState(USE_LIVEKIT && isLiveKitAvailable)
+  // What the transport carrying the session supports (voice, stream presets)
+  const [transportFeatures, setTransportFeatures] = useState<TransportFeatures>(NO_TRANSPORT_FEATURES)
   const [isReconnecting, setIsReconnecting] = useState(false) // Track background/foreground reconnection
+  const { settings, updateSettings } = useSettingsStore()
+  // Push-to-talk to the photographer (opt-in in settings)
+  const voice = useVoiceChannel({
+    enabled: settings.pushToTalk,
+    active: isReceiving && transportFeatures.voice && !isLan,
+    send: (command) => sendCommand(command),
+  })
   
   // Track app state for background/foreground handling
   const appStateRef = useRef<AppStateStatus>(AppState.currentState)
@@ -224,11 +419,52 @@ export default function ViewerScreen() {
     }
   }, [isPaired])
   
+  // Delivery tracking for commands sent to the camera (acks + retry on timeout)
+  const ackTrackerRef = useRef<CommandAckTracker | null>(null)
+  if (!ackTrackerRef.current) {
+    ackTrackerRef.current = new CommandAckTracker({ onChange: setTrackedCommands })
+  }
+
+  useEffect(() => {
+    return () => {
+      ackTrackerRef.current?.destroy()
+    }
+  }, [])
+  
+  // Result of a capture request - arrives over Realtime, since the camera may tear down
+  // WebRTC while it takes the photo. The image itself is uploaded by the camera and
+  // shows up in the gallery.
+  const handleCaptureResponse = (response: CaptureResponse) => {
+    sessionLogger.info('capture_response_received', {
+      requestId: response.requestId,
+      success: response.success,
+      captureId: response.captureId?.substring(0, 8),
+      error: response.error,
+    })
+    ackTrackerRef.current?.handleAck(
+      response.requestId,
+      response.success ? 'executed' : 'failed',
+      response.error
+    )
+    const savedMessage = response.frameCount && response.frameCount > 1
+      ? `Burst saved (${response.frameCount} frames) · sending to Gallery`
+      : 'Photo saved · sending to Gallery'
+    setLastCommand(response.success ? savedMessage : `Capture failed${response.error ? `: ${response.error}` : ''}`)
+    setShowSent(true)
+    setTimeout(() => setShowSent(false), 2000)
+  }
+
   // Use Supabase Realtime as backup channel for sending commands
   // This ensures commands reach the camera even if WebRTC data channel has issues
-  const { sendDirection: sendRealtimeDirection, isConnected: realtimeConnected } = useRealtimeCommands(
-    isPaired ? sessionId ?? undefined : undefined,
-    'viewer'
+  const {
+    sendDirection: sendRealtimeDirection,
+    sendCapture: sendRealtimeCapture,
+    isConnected: realtimeConnected,
+  } = useRealtimeCommands(
+    isPaired && !isLan ? sessionId ?? undefined : undefined,
+    'viewer',
+    undefined,
+    { onCaptureResponse: handleCaptureResponse }
   )
   
   // Ref to track if we should poll for stream
@@ -278,7 +514,7 @@ export default function ViewerScreen() {
           
           setIsReconnecting(true)
           
-          // Small delay to let system stabilize, then reinit WebRTC
+          // Small delay to let system stabilize, then reinit the transport
           setTimeout(async () => {
             if (!isPaired || !myDeviceId || !pairedDeviceId || !sessionId) {
               setIsReconnecting(false)
@@ -287,19 +523,19 @@ export default function ViewerScreen() {
             
             try {
               // Destroy and reinit to get fresh connection
-              await webrtcService.destroy()
+              await mediaTransport.destroy()
               await new Promise(resolve => setTimeout(resolve, 500))
               
-              await webrtcService.init(
+              await mediaTransport.init(
                 myDeviceId,
                 pairedDeviceId,
                 sessionId,
                 'director',
                 {
-                  onRemoteStream: (stream) => {
-                    const videoTracks = stream?.getVideoTracks?.() ?? []
+                  onRemoteMedia: (media) => {
+                    const videoTracks = mediaVideoTracks(media)
                     if (videoTracks.length > 0) {
-                      setRemoteStream(stream)
+                      setRemoteMedia(media)
                       setIsReceiving(true)
                       setIsReconnecting(false)
                       wasReceivingRef.current = true
@@ -338,15 +574,24 @@ export default function ViewerScreen() {
     }
   }, [isPaired, myDeviceId, pairedDeviceId, sessionId, isReceiving, connectionState])
 
+  // The camera adapts its stream within our preset - send it whenever the stream (re)starts or it changes
+  useEffect(() => {
+    if (!isReceiving || !transportFeatures.streamProfile || isLan) return
+    const { streamQuality: quality, streamPreference: preference } = settings
+    void sendCommand({ type: 'stream_quality', quality, preference }).catch(() => {})
+    sessionLogger.info('stream_quality_sent', { quality, preference })
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isReceiving, transportFeatures, isLan, settings.streamQuality, settings.streamPreference])
+
   useEffect(() => {
-    if (isPaired && pairedDeviceId && !partnerDisplayName) {
+    if (isPaired && pairedDeviceId && !partnerDisplayName && !isLan) {
       profileApi.get(pairedDeviceId).then(({ profile }) => {
         if (profile) {
           setPartnerInfo(profile.display_name, profile.avatar_emoji)
         }
       }).catch(() => {})
     }
-  }, [isPaired, pairedDeviceId, partnerDisplayName, setPartnerInfo])
+  }, [isPaired, pairedDeviceId, partnerDisplayName, isLan, setPartnerInfo])
 
   // Periodic check for remote stream - workaround for callback not firing
   useEffect(() => {
@@ -354,16 +599,15 @@ export default function ViewerScreen() {
       sessionLogger.info('starting_stream_poll', { connectionState, isReceiving })
       
       streamCheckIntervalRef.current = setInterval(() => {
-        const stream = webrtcService.getRemoteStream()
-        if (stream) {
-          const videoTracks = stream.getVideoTracks?.() ?? []
+        const media = mediaTransport.getRemoteMedia()
+        if (media) {
+          const videoTracks = mediaVideoTracks(media)
           sessionLogger.info('poll_found_remote_stream', {
-            streamId: stream.id?.substring(0, 8),
+            kind: media.kind,
             videoTracks: videoTracks.length,
-            active: stream.active,
           })
           if (videoTracks.length > 0) {
-            setRemoteStream(stream)
+            setRemoteMedia(media)
             setIsReceiving(true)
             // Clear interval once stream is found
             if (streamCheckIntervalRef.current) {
@@ -383,23 +627,83 @@ export default function ViewerScreen() {
     }
   }, [connectionState, isReceiving])
 
+  // Commands from the camera, whichever transport delivered them (already validated)
+  const handleCameraCommand = (command: RemoteCommand) => {
+    if (command.type === 'ack') {
+      ackTrackerRef.current?.handleAck(command.commandId, command.status, command.error)
+      return
+    }
+
+    // Camera could not handle a command we sent - tell the user instead of failing silently
+    if (command.type === 'unsupported') {
+      if (command.commandId) {
+        ackTrackerRef.current?.handleUnsupported(command.commandId, command.reason)
+      }
+      setLastCommand(`Partner can't handle "${command.command}" - update needed`)
+      setShowSent(true)
+      setTimeout(() => setShowSent(false), 2500)
+      return
+    }
+
+    // Subject cancelled the self-timer on the camera
+    if (command.type === 'countdown_cancel') {
+      setCountdown(current => current?.countdownId === command.countdownId ? null : current)
+      setLastCommand('Countdown cancelled')
+      setShowSent(true)
+      setTimeout(() => setShowSent(false), 1500)
+      return
+    }
+
+    // Photographer cleared the guides on their side
+    if (command.type === 'guides') {
+      setGuides(command.guides)
+      if (command.guides.length === 0) {
+        setLastCommand('Partner cleared the guides')
+        setShowSent(true)
+        setTimeout(() => setShowSent(false), 1500)
+      }
+      return
+    }
+
+    if (command.type === 'voice') {
+      voice.handleVoiceCommand(command)
+      return
+    }
+
+    if (command.type === 'camera_state') {
+      setCameraState(command.state)
+      setRemoteOverlay(command.state.grid)
+      return
+    }
+
+    if (command.type === 'switch_role' && command.newRole === 'photographer') {
+      sessionLogger.info('switch_role_received', { newRole: 'photographer' })
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning)
+      setShowSwitchToast(true)
+      setTimeout(async () => {
+        if (isLan) {
+          lanSession.stop()
+        } else {
+          await mediaTransport.destroy()
+        }
+        router.replace('/camera')
+      }, 1500)
+    }
+  }
+  const handleCameraCommandRef = useRef(handleCameraCommand)
+  handleCameraCommandRef.current = handleCameraCommand
+
   useEffect(() => {
-    if (isPaired && myDeviceId && pairedDeviceId && sessionId) {
+    if (isPaired && myDeviceId && pairedDeviceId && sessionId && !isLan) {
       // Check if video streaming is available
-      const canUseLiveKit = USE_LIVEKIT && isLiveKitAvailable
-      const canUseWebRTC = webrtcAvailable
-      
-      if (!canUseLiveKit && !canUseWebRTC) {
+      if (!mediaTransport.isAvailable()) {
         setWebrtcError('Video streaming requires a development build.')
         setIsConnected(true)
         return
       }
-
-      const streamingMethod = canUseLiveKit ? 'livekit' : 'webrtc'
-      setUsingLiveKit(canUseLiveKit)
       
       sessionLogger.info('starting_video_as_director', { 
-        method: streamingMethod,
+        method: mediaTransport.kind,
         myDeviceId, 
         pairedDeviceId, 
         sessionId 
@@ -437,103 +741,67 @@ export default function ViewerScreen() {
       initDelayId = setTimeout(async () => {
         if (!isActive) return
         
-        // Command handler for both LiveKit and WebRTC
-        const handleCommand = (command: string, data?: Record<string, unknown>) => {
-          if (!isActive) return
-          if (command === 'switch_role' && data?.newRole === 'photographer') {
-            sessionLogger.info('switch_role_received', { newRole: 'photographer' })
-            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning)
-            setShowSwitchToast(true)
-            setTimeout(async () => {
-              if (canUseLiveKit) {
-                await livekitService.destroy()
-              } else {
-                await webrtcService.destroy()
-              }
-              router.replace('/camera')
-            }, 1500)
-          }
-        }
+        // Command handler for every transport - validated by the shared dispatcher
+        const handleCommand = createCommandDispatcher({
+          role: 'director',
+          accepts: DIRECTOR_COMMANDS,
+          sendReply: (command, data) => mediaTransport.sendCommand(command, data),
+          path: mediaTransport.kind,
+          onCommand: (command) => {
+            if (!isActive) return
+            handleCameraCommandRef.current(command)
+          },
+        })
         
-        if (canUseLiveKit) {
-          // Use LiveKit (more reliable)
-          try {
-            await livekitService.init(
-              myDeviceId,
-              pairedDeviceId,
-              sessionId,
-              'director',
-              {
-                onRemoteTrack: (track, participant) => {
-                  if (!isActive) return
-                  sessionLogger.info('director_livekit_track_received', {
-                    kind: track.kind,
-                    participantId: participant?.identity?.substring(0, 8),
-                  })
-                  setRemoteTrack(track)
-                  setIsReceiving(true)
-                },
-                onConnectionStateChange: (state) => {
-                  if (!isActive) return
-                  sessionLogger.info('director_livekit_state', { connectionState: state })
-                  setConnectionState(state)
-                  if (state === 'disconnected') {
-                    setIsReceiving(false)
-                  }
-                },
-                onError: (error) => {
-                  if (!isActive) return
-                  sessionLogger.error('director_livekit_error', error)
-                  setWebrtcError(error.message)
-                },
+        mediaTransport.init(
+          myDeviceId,
+          pairedDeviceId,
+          sessionId,
+          'director',
+          {
+            onRemoteMedia: (media) => {
+              if (!isActive) return
+              sessionLogger.info('director_remote_stream_received', {
+                kind: media.kind,
+                videoTrackCount: mediaVideoTracks(media).length,
+              })
+              setRemoteMedia(media)
+              setIsReceiving(true)
+              wasReceivingRef.current = true // Track for background/foreground reconnection
+            },
+            onConnectionStateChange: (state) => {
+              if (!isActive) return
+              sessionLogger.info('director_transport_state', { connectionState: state, kind: mediaTransport.kind })
+              setConnectionState(state)
+              if (state === 'failed' || state === 'disconnected') {
+                setIsReceiving(false)
               }
-            )
-            livekitService.onCommand(handleCommand)
-          } catch (error) {
-            sessionLogger.error('livekit_init_failed', error as Error)
-            setWebrtcError((error as Error).message)
+            },
+            onError: (error) => {
+              if (!isActive) return
+              sessionLogger.error('director_transport_error', error, { kind: mediaTransport.kind })
+              if (!error.message?.includes('wrong state')) {
+                setWebrtcError(error.message)
+              }
+            },
+            onTransportChange: (kind) => {
+              if (!isActive) return
+              sessionLogger.info('director_transport_changed', { kind })
+              // The new transport brings its own stream - and a previous error no longer applies
+              setRemoteMedia(null)
+              setIsReceiving(false)
+              setWebrtcError(null)
+              setTransportFeatures(mediaTransport.features)
+            },
           }
-        } else {
-          // Fall back to WebRTC
-          webrtcService.init(
-            myDeviceId,
-            pairedDeviceId,
-            sessionId,
-            'director',
-            {
-              onRemoteStream: (stream) => {
-                if (!isActive) return
-                const videoTracks = stream?.getVideoTracks?.() ?? []
-                sessionLogger.info('director_remote_stream_received', {
-                  trackCount: stream?.getTracks?.()?.length ?? 0,
-                  videoTrackCount: videoTracks.length,
-                  streamId: stream?.id?.substring(0, 8),
-                  streamActive: stream?.active,
-                })
-                setRemoteStream(stream)
-                setIsReceiving(true)
-                wasReceivingRef.current = true // Track for background/foreground reconnection
-              },
-              onConnectionStateChange: (state) => {
-                if (!isActive) return
-                sessionLogger.info('director_webrtc_state', { connectionState: state, role: 'director' })
-                setConnectionState(state)
-                if (state === 'failed' || state === 'disconnected') {
-                  setIsReceiving(false)
-                }
-              },
-              onError: (error) => {
-                if (!isActive) return
-                sessionLogger.error('director_webrtc_error', error, { role: 'director' })
-                if (!error.message?.includes('wrong state')) {
-                  setWebrtcError(error.message)
-                }
-              },
-            }
-          ).then(() => {
-            webrtcService.onCommand(handleCommand)
-          })
-        }
+        ).then(() => {
+          if (!isActive) return
+          setTransportFeatures(mediaTransport.features)
+          mediaTransport.onCommand(handleCommand)
+        }).catch((error) => {
+          sessionLogger.error('director_transport_init_failed', error as Error)
+          if (isActive) setWebrtcError((error as Error).message)
+        })
       }, 300)
 
       return () => {
@@ -543,69 +811,300 @@ export default function ViewerScreen() {
           clearInterval(streamCheckIntervalRef.current)
           streamCheckIntervalRef.current = null
         }
-        if (usingLiveKit) {
-          livekitService.destroy()
-        } else {
-          webrtcService.destroy()
-        }
+        void mediaTransport.destroy()
         setIsConnected(false)
         setIsReceiving(false)
-        setRemoteStream(null)
-        setRemoteTrack(null)
+        setRemoteMedia(null)
+        setTransportFeatures(NO_TRANSPORT_FEATURES)
         void presenceSub.unsubscribe()
       }
     }
-  }, [isPaired, myDeviceId, pairedDeviceId, sessionId, partnerDisplayName, partnerAvatar, setPartnerPresence, usingLiveKit])
-
-  // Send command via active service (LiveKit or WebRTC)
-  const sendCommand = async (command: string, data?: Record<string, unknown>) => {
-    if (usingLiveKit) {
-      await livekitService.sendCommand(command, data)
-    } else {
-      await webrtcService.sendCommand(command, data)
+  }, [isPaired, myDeviceId, pairedDeviceId, sessionId, partnerDisplayName, partnerAvatar, setPartnerPresence, isLan])
+
+  // Local Wi-Fi only: find the camera on the network, send commands over UDP
+  useEffect(() => {
+    if (!isLan || !isPaired || !myDeviceId || !pairedDeviceId || !sessionId) return
+    let isActive = true
+
+    sessionLogger.info('starting_lan_as_director', {
+      myDeviceId: myDeviceId.substring(0, 8),
+      pairedDeviceId: pairedDeviceId.substring(0, 8),
+    })
+    setIsConnected(true)
+    setConnectionState('connecting')
+
+    const handleCommand = createCommandDispatcher({
+      role: 'director',
+      accepts: DIRECTOR_COMMANDS,
+      sendReply: lanSession.sendCommand,
+      path: 'lan',
+      onCommand: (command) => {
+        if (!isActive) return
+        handleCameraCommandRef.current(command)
+      },
+    })
+
+    lanSession.start({
+      myDeviceId,
+      partnerDeviceId: pairedDeviceId,
+      sessionId,
+      role: 'viewer',
+      onCommand: handleCommand,
+      onPeerChange: (online) => {
+        if (!isActive) return
+        setPartnerPresence(online)
+        setPartnerOnline(online)
+        setConnectionState(online ? 'connected' : 'disconnected')
+        setIsReceiving(online)
+      },
+    }).catch((error) => {
+      sessionLogger.error('lan_session_start_failed', error)
+    })
+
+    return () => {
+      isActive = false
+      lanSession.stop()
+      setIsConnected(false)
+      setIsReceiving(false)
     }
+  }, [isLan, isPaired, myDeviceId, pairedDeviceId, sessionId, setPartnerPresence])
+
+  // Local Wi-Fi preview frames from the camera
+  const { currentFrame: lanFrame, frameRate: lanFrameRate, latency: lanLatency } = useFrameStream()
+
+  // Send command via LAN or whichever media transport carries the session
+  const sendRaw: CommandSender = (name, data) => {
+    if (isLan) return lanSession.sendCommand(name, data)
+    return mediaTransport.sendCommand(name, data)
+  }
+
+  const sendCommand = async (command: RemoteCommand) => {
+    await sendRemoteCommand(sendRaw, command)
+  }
+
+  // Send a camera command with an id and track its acks. Returns the command id.
+  const sendTrackedCommand = async (command: RemoteCommandPayload, label: string) => {
+    return ackTrackerRef.current?.send(sendRaw, command, label)
   }
 
-  const sendDirection = async (direction: keyof typeof t.viewer.directions) => {
-    setLastCommand(t.viewer.directions[direction])
+  // Without a magnitude (the D-pad) the camera treats it as a normal step
+  const sendDirection = async (direction: Direction, magnitude?: number) => {
+    const level = magnitudeLevel(magnitude)
+    const label = level === 'normal'
+      ? t.viewer.directions[direction]
+      : `${t.viewer.directions[direction]} · ${t.viewer.directionAmount[level]}`
+    setLastCommand(label)
     setShowSent(true)
     setTimeout(() => setShowSent(false), 1200)
     
     // Send via WebRTC data channel (primary)
-    await sendCommand('direction', { direction })
+    const commandId = await sendTrackedCommand({ type: 'direction', direction, magnitude }, label)
     
-    // Also send via Supabase Realtime (backup for reliability)
+    // Also send via Supabase Realtime (backup for reliability).
+    // Same command id, so the camera only shows whichever copy arrives first.
     if (myDeviceId) {
-      await sendRealtimeDirection(direction as Direction, myDeviceId)
+      await sendRealtimeDirection(direction, myDeviceId, commandId, magnitude)
     }
     
-    sessionLogger.info('direction_sent', { direction, realtimeConnected })
+    sessionLogger.info('direction_sent', { direction, magnitude, realtimeConnected })
+  }
+
+  // Preset phrases go by key so the photographer reads them in their own language
+  const handleSendPhrase = async (phrase: QuickPhrase) => {
+    const label = t.phrases.presets[phrase]
+    setLastCommand(`“${label}”`)
+    setShowSent(true)
+    setTimeout(() => setShowSent(false), 1200)
+    await sendTrackedCommand({ type: 'message', phrase }, label)
+    sessionLogger.info('message_sent', { phrase })
+  }
+
+  const handleSendText = async (text: string) => {
+    setLastCommand(`“${text}”`)
+    setShowSent(true)
+    setTimeout(() => setShowSent(false), 1200)
+    await sendTrackedCommand({ type: 'message', text }, text)
+    sessionLogger.info('message_sent', { length: text.length })
   }
 
   const handleTakePhoto = async () => {
-    setLastCommand('Capture')
+    if (countdownSeconds) {
+      await startCountdown(countdownSeconds)
+      return
+    }
+
+    const label = CAPTURE_MODE_LABELS[captureMode]
+    setLastCommand(captureMode === 'single' ? 'Capture' : label)
     setShowSent(true)
     setTimeout(() => setShowSent(false), 1500)
-    await sendCommand('capture')
-    sessionLogger.info('capture_command_sent')
+    const options = captureOptions()
+    const requestId = await sendTrackedCommand({ type: 'capture', ...options }, label)
+
+    // Same request over Realtime as a fallback transport - the camera runs it once
+    if (myDeviceId && requestId) {
+      await sendRealtimeCapture(myDeviceId, requestId, options)
+    }
+    sessionLogger.info('capture_command_sent', { requestId, ...options, realtimeConnected })
+  }
+
+  // Frame count and interval only apply to a burst
+  const captureOptions = () => captureMode === 'burst'
+    ? { mode: captureMode, frames: burstFrames, intervalMs: burstIntervalMs }
+    : { mode: captureMode }
+
+  // Self-timer: both devices count down from the same start timestamp
+  const startCountdown = async (seconds: CountdownSeconds) => {
+    const countdownId = createCommandId()
+    const startAt = Date.now() + COUNTDOWN_LEAD_MS
+    setCountdown({ countdownId, fireAt: resolveFireAt(startAt, seconds) })
+    await sendTrackedCommand(
+      { type: 'countdown_start', countdownId, seconds, startAt, ...captureOptions() },
+      `Timer ${seconds}s`
+    )
+    sessionLogger.info('countdown_command_sent', { countdownId, seconds, mode: captureMode })
+  }
+
+  const handleCancelCountdown = async () => {
+    if (!countdown) return
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium)
+    setCountdown(null)
+    await sendTrackedCommand({ type: 'countdown_cancel', countdownId: countdown.countdownId }, 'Cancel timer')
+    sessionLogger.info('countdown_cancel_sent', { countdownId: countdown.countdownId })
+  }
+
+  // Cycle off → 3s → 5s → 10s
+  const handleCycleCountdown = () => {
+    Haptics.selectionAsync()
+    setCountdownSeconds(current => {
+      const options: (CountdownSeconds | null)[] = [null, ...COUNTDOWN_SECONDS]
+      return options[(options.indexOf(current) + 1) % options.length]
+    })
+  }
+
+  // Cycle single → burst
+  const handleCycleCaptureMode = () => {
+    Haptics.selectionAsync()
+    setCaptureMode(mode => CAPTURE_MODES[(CAPTURE_MODES.indexOf(mode) + 1) % CAPTURE_MODES.length])
+  }
+
+  // Cycle 3 → 5 → 8 → 10 frames
+  const handleCycleBurstFrames = () => {
+    Haptics.selectionAsync()
+    setBurstFrames(current => {
+      const index = BURST_FRAME_OPTIONS.indexOf(current as typeof BURST_FRAME_OPTIONS[number])
+      return BURST_FRAME_OPTIONS[(index + 1) % BURST_FRAME_OPTIONS.length]
+    })
+  }
+
+  // Cycle 100 → 200 → 500 → 1000 ms between frames
+  const handleCycleBurstInterval = () => {
+    Haptics.selectionAsync()
+    setBurstIntervalMs(current => {
+      const index = BURST_INTERVAL_OPTIONS_MS.indexOf(current as typeof BURST_INTERVAL_OPTIONS_MS[number])
+      return BURST_INTERVAL_OPTIONS_MS[(index + 1) % BURST_INTERVAL_OPTIONS_MS.length]
+    })
+  }
+
+  // Stream guides while drawing; the finished stroke goes out tracked so it is retried if lost
+  const handleGuidesChange = (next: FramingGuide[], done: boolean) => {
+    setGuides(next)
+    const now = Date.now()
+    if (done) {
+      lastGuidesSentRef.current = now
+      void sendTrackedCommand({ type: 'guides', guides: next }, 'Guides')
+      sessionLogger.info('guides_sent', { count: next.length })
+    } else if (now - lastGuidesSentRef.current >= GUIDE_STREAM_INTERVAL_MS) {
+      lastGuidesSentRef.current = now
+      void sendCommand({ type: 'guides', guides: next })
+    }
+  }
+
+  const handleClearGuides = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
+    setGuides([])
+    void sendTrackedCommand({ type: 'guides', guides: [] }, 'Clear guides')
+    sessionLogger.info('guides_cleared', { by: 'director' })
+  }
+
+  // Switch the photographer's composition overlay and mirror it on our feed
+  const sendOverlay = (next: { visible: boolean; overlay: CompositionOverlay; spiralRotation: SpiralRotation }) => {
+    setRemoteOverlay(next)
+    void sendTrackedCommand({ type: 'overlay', ...next }, next.visible ? t.settings.overlays[next.overlay] : 'Overlay off')
+    sessionLogger.info('overlay_command_sent', next)
+  }
+
+  const handleCycleOverlay = () => {
+    Haptics.selectionAsync()
+    const current = remoteOverlay ?? { visible: false, overlay: COMPOSITION_OVERLAYS[0], spiralRotation: 0 }
+    const overlay = current.visible
+      ? COMPOSITION_OVERLAYS[(COMPOSITION_OVERLAYS.indexOf(current.overlay) + 1) % COMPOSITION_OVERLAYS.length]
+      : current.overlay
+    sendOverlay({ ...current, visible: true, overlay })
+  }
+
+  const handleToggleOverlay = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium)
+    const current = remoteOverlay ?? { visible: false, overlay: COMPOSITION_OVERLAYS[0], spiralRotation: 0 }
+    sendOverlay({ ...current, visible: !current.visible })
+  }
+
+  const handleRotateSpiral = () => {
+    if (!remoteOverlay) return
+    Haptics.selectionAsync()
+    const spiralRotation = SPIRAL_ROTATIONS[(SPIRAL_ROTATIONS.indexOf(remoteOverlay.spiralRotation) + 1) % SPIRAL_ROTATIONS.length]
+    sendOverlay({ ...remoteOverlay, spiralRotation })
+  }
+
+  const handleToggleDrawing = () => {
+    Haptics.selectionAsync()
+    setShowCameraControls(false)
+    setGuideTool(tool => (tool ? null : 'circle'))
   }
 
-  // Send flip camera command
+  const handleToggleCameraControls = () => {
+    Haptics.selectionAsync()
+    setGuideTool(null)
+    setShowCameraControls(shown => !shown)
+  }
+
+  // Stream zoom while dragging; the release value goes out tracked so it is retried if lost
+  const handleZoom = (zoom: number, done: boolean) => {
+    const now = Date.now()
+    if (done) {
+      lastZoomSentRef.current = now
+      void sendTrackedCommand({ type: 'zoom', zoom }, `Zoom ${Math.round(zoom * 100)}%`)
+      sessionLogger.info('zoom_sent', { zoom })
+    } else if (now - lastZoomSentRef.current >= ZOOM_STREAM_INTERVAL_MS) {
+      lastZoomSentRef.current = now
+      void sendCommand({ type: 'zoom', zoom })
+    }
+  }
+
+  const handleLens = (lens: string) => {
+    void sendTrackedCommand({ type: 'lens', lens }, `Lens: ${lens}`)
+    sessionLogger.info('lens_sent', { lens })
+  }
+
+  // Send flip camera command - to the other side of what the camera reports, if we know it
   const handleFlipCamera = async () => {
-    setLastCommand('Flip Camera')
+    const facing = cameraState ? (cameraState.facing === 'back' ? 'front' : 'back') : undefined
+    const label = facing ? `${facing === 'front' ? 'Front' : 'Back'} camera` : 'Flip Camera'
+    setLastCommand(label)
     setShowSent(true)
     setTimeout(() => setShowSent(false), 1200)
-    await sendCommand('flip')
-    sessionLogger.info('flip_command_sent')
+    await sendTrackedCommand({ type: 'flip', facing }, label)
+    sessionLogger.info('flip_command_sent', { facing })
   }
 
-  // Send flash toggle command
+  // Send flash command - explicit mode when the camera's state is known, toggle otherwise
   const handleToggleFlash = async () => {
-    setLastCommand('Toggle Flash')
+    const mode = cameraState ? (cameraState.flashMode === 'off' ? 'on' : 'off') : undefined
+    const label = mode ? `Flash ${mode.toUpperCase()}` : 'Toggle Flash'
+    setLastCommand(label)
     setShowSent(true)
     setTimeout(() => setShowSent(false), 1200)
-    await sendCommand('flash')
-    sessionLogger.info('flash_command_sent')
+    await sendTrackedCommand({ type: 'flash', mode }, label)
+    sessionLogger.info('flash_command_sent', { mode })
   }
 
   return (
@@ -619,25 +1118,13 @@ export default function ViewerScreen() {
                 <Text style={styles.waitingIcon}>!</Text>
                 <Text style={styles.waitingText}>{webrtcError}</Text>
               </View>
-            ) : isReceiving && usingLiveKit && remoteTrack && LiveKitVideoView ? (
+            ) : isLan && lanFrame && partnerOnline !== false ? (
               <View style={styles.videoWrapper}>
-                <LiveKitVideoView
-                  style={styles.video}
-                  videoTrack={remoteTrack}
-                  objectFit="cover"
-                  mirror={false}
-                />
+                <PreviewDisplay frame={lanFrame} showStats frameRate={lanFrameRate} latency={lanLatency} />
               </View>
-            ) : isReceiving && !usingLiveKit && remoteStream && RTCView ? (
+            ) : isReceiving && remoteMedia && canRenderVideo(remoteMedia.kind) ? (
               <View style={styles.videoWrapper}>
-                <RTCView
-                  key={remoteStream?.id || 'remote-stream'}
-                  streamURL={remoteStream.toURL()}
-                  style={styles.video}
-                  objectFit="cover"
-                  mirror={false}
-                  zOrder={1}
-                />
+                <TransportVideoView media={remoteMedia} style={styles.video} zOrder={1} />
               </View>
             ) : (
               <View style={styles.waitingContainer}>
@@ -705,17 +1192,138 @@ export default function ViewerScreen() {
               {isReconnecting ? 'RECONNECTING...' : isReceiving ? 'LIVE' : connectionState.toUpperCase()}
             </Text>
           </View>
+          {isPaired && (
+            <View style={styles.modeBadge}>
+              <ConnectionModeBadge mode={connectionMode} label={t.lan[connectionMode]} />
+            </View>
+          )}
+          {voice.partner.enabled && (
+            <View style={styles.partnerVoiceBadge}>
+              <PartnerVoiceBadge name={partnerDisplayName || 'Partner'} state={voice.partner} />
+            </View>
+          )}
         </View>
 
-        {/* Partner indicator */}
-        {isPaired && partnerDisplayName && (
+        {/* Push-to-talk - the photographer hears us only while this is held */}
+        {/* Quick phrases - banner on the photographer's screen */}
+        {isConnected && (
+          <Pressable
+            style={[styles.phrasesButton, showPhrases && styles.phrasesButtonActive]}
+            onPress={() => {
+              Haptics.selectionAsync()
+              setShowPhrases(shown => !shown)
+            }}
+            accessibilityLabel={showPhrases ? 'Hide quick phrases' : 'Show quick phrases'}
+            accessibilityHint="Send a phrase or message to the photographer's screen"
+            accessibilityRole="button"
+          >
+            <Text style={styles.phrasesButtonIcon}>💬</Text>
+            <Text style={styles.phrasesButtonLabel}>{t.phrases.button}</Text>
+          </Pressable>
+        )}
+        {showPhrases && isConnected && (
+          <QuickPhrasePalette
+            presetLabels={t.phrases.presets}
+            customPhrases={settings.customPhrases}
+            labels={t.phrases}
+            onPhrase={handleSendPhrase}
+            onText={handleSendText}
+            style={styles.phrasesPalette}
+          />
+        )}
+
+        {settings.pushToTalk && isReceiving && transportFeatures.voice && (
+          <PushToTalkButton
+            ready={voice.isReady}
+            talking={voice.isTalking}
+            onTalkStart={voice.startTalking}
+            onTalkEnd={voice.stopTalking}
+            style={styles.pushToTalkButton}
+          />
+        )}
+
+        {/* Partner indicator, with their phone's status once the camera reports it */}
+        {isPaired && (partnerDisplayName || cameraState) && (
           <View style={styles.partnerPill}>
-            <Text style={styles.partnerText}>{partnerDisplayName}</Text>
+            {partnerDisplayName && <Text style={styles.partnerText}>{partnerDisplayName}</Text>}
+            {cameraState && <CameraStatusText state={cameraState} />}
           </View>
         )}
 
+        {/* Photographer's composition overlay, as set from here */}
+        {remoteOverlay && (
+          <GridOverlay
+            visible={remoteOverlay.visible}
+            type={remoteOverlay.overlay}
+            spiralRotation={remoteOverlay.spiralRotation}
+            remoteRoll={cameraState?.roll ?? null}
+          />
+        )}
+
+        {/* Overlay switch - tap for the next overlay, long press to turn it off */}
+        {isConnected && (
+          <View style={styles.overlayControls}>
+            <Pressable
+              style={styles.overlayPill}
+              onPress={handleCycleOverlay}
+              onLongPress={handleToggleOverlay}
+              accessibilityLabel={`Photographer overlay: ${remoteOverlay?.visible ? t.settings.overlays[remoteOverlay.overlay] : 'off'}`}
+              accessibilityHint="Tap for the next overlay, long press to turn it off"
+              accessibilityRole="button"
+            >
+              <Text style={styles.overlayPillText}>
+                ⊞ {remoteOverlay?.visible ? t.settings.overlays[remoteOverlay.overlay] : 'Overlay'}
+              </Text>
+            </Pressable>
+            {remoteOverlay?.visible && remoteOverlay.overlay === 'golden_spiral' && (
+              <Pressable
+                style={styles.overlayPill}
+                onPress={handleRotateSpiral}
+                accessibilityLabel={`${t.settings.rotateSpiral}, ${remoteOverlay.spiralRotation} degrees`}
+                accessibilityRole="button"
+              >
+                <Text style={styles.overlayPillText}>⟳ {remoteOverlay.spiralRotation}°</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+
+        {/* Manual camera controls, from the camera's own report */}
+        {showCameraControls && isConnected && (
+          <CameraControlsPanel
+            state={cameraState}
+            onZoom={handleZoom}
+            onLens={handleLens}
+            streamQuality={settings.streamQuality}
+            streamPreference={settings.streamPreference}
+            onStreamQuality={(streamQuality) => void updateSettings({ streamQuality })}
+            onStreamPreference={(streamPreference) => void updateSettings({ streamPreference })}
+          />
+        )}
+
+        {/* Framing guides - drawable while a tool is selected */}
+        <FramingGuidesOverlay guides={guides} tool={guideTool} onChange={handleGuidesChange} />
+        {guideTool && (
+          <GuideToolbar
+            tool={guideTool}
+            hasGuides={guides.length > 0}
+            onSelect={setGuideTool}
+            onClear={handleClearGuides}
+          />
+        )}
+
         {/* Sent indicator */}
         {showSent && <SentIndicator message={lastCommand} />}
+
+        {/* Self-timer, in step with the camera */}
+        <CountdownOverlay
+          fireAt={countdown?.fireAt ?? null}
+          onCancel={handleCancelCountdown}
+          onComplete={() => setCountdown(null)}
+        />
+
+        {/* Per-command delivery status */}
+        <CommandStatusList commands={trackedCommands} />
         
         {/* Role switch toast */}
         <RoleSwitchToast visible={showSwitchToast} partnerName={partnerDisplayName || 'Partner'} />
@@ -733,7 +1341,9 @@ export default function ViewerScreen() {
               accessibilityRole="button"
             >
               <Text style={styles.cameraControlIcon}>⟲</Text>
-              <Text style={styles.cameraControlLabel}>Flip</Text>
+              <Text style={styles.cameraControlLabel}>
+                {cameraState ? (cameraState.facing === 'front' ? 'Front' : 'Back') : 'Flip'}
+              </Text>
             </Pressable>
             
             <Pressable 
@@ -742,21 +1352,104 @@ export default function ViewerScreen() {
               accessibilityLabel="Toggle flash"
               accessibilityRole="button"
             >
-              <Text style={styles.cameraControlIcon}>⚡</Text>
-              <Text style={styles.cameraControlLabel}>Flash</Text>
+              <Text style={[styles.cameraControlIcon, cameraState?.flashMode === 'on' && styles.cameraControlIconActive]}>⚡</Text>
+              <Text style={styles.cameraControlLabel}>
+                {cameraState ? `Flash ${cameraState.flashMode}` : 'Flash'}
+              </Text>
+            </Pressable>
+
+            <Pressable 
+              style={styles.cameraControlBtn}
+              onPress={handleCycleCaptureMode}
+              accessibilityLabel={`Capture mode: ${CAPTURE_MODE_LABELS[captureMode]}`}
+              accessibilityHint="Switch between a single photo and a burst"
+              accessibilityRole="button"
+            >
+              <Text style={styles.cameraControlIcon}>{CAPTURE_MODE_ICONS[captureMode]}</Text>
+              <Text style={styles.cameraControlLabel}>{CAPTURE_MODE_LABELS[captureMode]}</Text>
+            </Pressable>
+
+            <Pressable 
+              style={styles.cameraControlBtn}
+              onPress={handleCycleCountdown}
+              accessibilityLabel={`Self-timer: ${countdownSeconds ? `${countdownSeconds} seconds` : 'off'}`}
+              accessibilityRole="button"
+            >
+              <Text style={styles.cameraControlIcon}>⏱</Text>
+              <Text style={styles.cameraControlLabel}>{countdownSeconds ? `${countdownSeconds}s` : 'Timer'}</Text>
+            </Pressable>
+
+            <Pressable 
+              style={styles.cameraControlBtn}
+              onPress={handleToggleDrawing}
+              accessibilityLabel={guideTool ? 'Stop drawing guides' : 'Draw framing guides'}
+              accessibilityHint="Draw circles, arrows, a target box or a horizon line on the photographer's screen"
+              accessibilityRole="button"
+            >
+              <Text style={[styles.cameraControlIcon, guideTool && styles.cameraControlIconActive]}>✎</Text>
+              <Text style={styles.cameraControlLabel}>{guideTool ? 'Done' : 'Draw'}</Text>
+            </Pressable>
+
+            <Pressable 
+              style={styles.cameraControlBtn}
+              onPress={handleToggleCameraControls}
+              accessibilityLabel={showCameraControls ? 'Hide camera controls' : 'Show camera controls'}
+              accessibilityHint="Zoom and lens on the photographer's camera, and the stream quality"
+              accessibilityRole="button"
+            >
+              <Text style={[styles.cameraControlIcon, showCameraControls && styles.cameraControlIconActive]}>◐</Text>
+              <Text style={styles.cameraControlLabel}>Adjust</Text>
             </Pressable>
           </View>
 
-          {/* Direction pad */}
-          <View style={styles.dpad}>
-            <DirectionButton icon="↑" onPress={() => sendDirection('up')} style={styles.dpadUp} />
-            <View style={styles.dpadMiddle}>
-              <DirectionButton icon="←" onPress={() => sendDirection('left')} />
+          {/* Burst settings */}
+          {captureMode === 'burst' && (
+            <View style={styles.cameraControlsRow}>
+              <Pressable 
+                style={styles.cameraControlBtn}
+                onPress={handleCycleBurstFrames}
+                accessibilityLabel={`Burst frames: ${burstFrames}`}
+                accessibilityHint="Change how many photos a burst takes"
+                accessibilityRole="button"
+              >
+                <Text style={styles.cameraControlIcon}>{burstFrames}</Text>
+                <Text style={styles.cameraControlLabel}>Frames</Text>
+              </Pressable>
+
+              <Pressable 
+                style={styles.cameraControlBtn}
+                onPress={handleCycleBurstInterval}
+                accessibilityLabel={`Time between burst frames: ${burstIntervalMs} milliseconds`}
+                accessibilityHint="Change the gap between burst photos"
+                accessibilityRole="button"
+              >
+                <Text style={styles.cameraControlIcon}>{burstIntervalMs / 1000}s</Text>
+                <Text style={styles.cameraControlLabel}>Interval</Text>
+              </Pressable>
+            </View>
+          )}
+
+          {/* Direction pad, or the joystick for fine-grained moves */}
+          {showJoystick ? (
+            <View style={styles.joystickRow}>
+              <DirectionJoystick
+                labels={t.viewer.directions}
+                strings={t.viewer.joystick}
+                onDirection={sendDirection}
+              />
               <CaptureButton onPress={handleTakePhoto} />
-              <DirectionButton icon="→" onPress={() => sendDirection('right')} />
             </View>
-            <DirectionButton icon="↓" onPress={() => sendDirection('down')} style={styles.dpadDown} />
-          </View>
+          ) : (
+            <View style={styles.dpad}>
+              <DirectionButton icon="↑" onPress={() => sendDirection('up')} style={styles.dpadUp} />
+              <View style={styles.dpadMiddle}>
+                <DirectionButton icon="←" onPress={() => sendDirection('left')} />
+                <CaptureButton onPress={handleTakePhoto} />
+                <DirectionButton icon="→" onPress={() => sendDirection('right')} />
+              </View>
+              <DirectionButton icon="↓" onPress={() => sendDirection('down')} style={styles.dpadDown} />
+            </View>
+          )}
           
           {/* Zoom controls */}
           <View style={styles.zoomRow}>
@@ -783,6 +1476,19 @@ export default function ViewerScreen() {
             >
               <Text style={styles.zoomText}>− Back</Text>
             </Pressable>
+
+            <Pressable 
+              style={styles.zoomBtn}
+              onPress={() => {
+                Haptics.selectionAsync()
+                setShowJoystick(value => !value)
+              }}
+              accessibilityLabel={showJoystick ? 'Show direction pad' : 'Show joystick'}
+              accessibilityHint="The joystick sends tilt, rotate, raise and lower, and how far to move"
+              accessibilityRole="button"
+            >
+              <Text style={styles.zoomText}>{showJoystick ? '✚ Pad' : '🕹 Fine'}</Text>
+            </Pressable>
           </View>
 
           {/* Switch role */}
@@ -791,13 +1497,9 @@ export default function ViewerScreen() {
             onPress={() => {
               Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium)
               ;(async () => {
-                await sendCommand('switch_role', { newRole: 'director' })
+                await sendCommand({ type: 'switch_role', newRole: 'director' })
                 sessionLogger.info('switch_role_command_sent', { partnerNewRole: 'director' })
-                if (usingLiveKit) {
-                  await livekitService.destroy()
-                } else {
-                  await webrtcService.destroy()
-                }
+                await mediaTransport.destroy()
                 router.replace('/camera')
               })()
             }}
@@ -947,6 +1649,49 @@ const styles = StyleSheet.create({
     right: 0,
     alignItems: 'center',
   },
+  modeBadge: {
+    marginTop: 6,
+  },
+  partnerVoiceBadge: {
+    marginTop: 6,
+  },
+  phrasesButton: {
+    position: 'absolute',
+    left: 12,
+    bottom: 120,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderWidth: 2,
+    borderColor: 'rgba(255,255,255,0.3)',
+    zIndex: 14,
+  },
+  phrasesButtonActive: {
+    borderColor: '#FFFFFF',
+  },
+  phrasesButtonIcon: {
+    fontSize: 18,
+  },
+  phrasesButtonLabel: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  phrasesPalette: {
+    position: 'absolute',
+    left: 12,
+    bottom: 184,
+    zIndex: 15,
+  },
+  pushToTalkButton: {
+    position: 'absolute',
+    right: 12,
+    bottom: 120,
+    zIndex: 14,
+  },
   statusPill: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -976,6 +1721,49 @@ const styles = StyleSheet.create({
   },
 
   // Partner indicator
+  overlayControls: {
+    position: 'absolute',
+    top: 100,
+    left: 12,
+    flexDirection: 'row',
+    gap: 8,
+    zIndex: 14,
+  },
+  overlayPill: {
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+  },
+  overlayPillText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.8)',
+  },
+  guideToolbar: {
+    position: 'absolute',
+    top: 100,
+    right: 12,
+    gap: 8,
+    zIndex: 14,
+  },
+  guideToolBtn: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.55)',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  guideToolBtnDisabled: {
+    opacity: 0.4,
+  },
+  guideToolIcon: {
+    fontSize: 20,
+    color: '#FFFFFF',
+  },
   partnerPill: {
     position: 'absolute',
     bottom: 12,
@@ -990,6 +1778,14 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     color: 'rgba(255,255,255,0.6)',
   },
+  partnerStatusText: {
+    marginTop: 2,
+    fontSize: 11,
+    color: 'rgba(255,255,255,0.5)',
+  },
+  partnerStatusWarn: {
+    color: '#FF6B6B',
+  },
 
   // Sent indicator
   sentIndicator: {
@@ -1009,6 +1805,34 @@ const styles = StyleSheet.create({
     letterSpacing: 0.5,
   },
 
+  // Command delivery status
+  commandStatusList: {
+    position: 'absolute',
+    bottom: 12,
+    right: 12,
+    maxWidth: '55%',
+    gap: 4,
+    alignItems: 'flex-end',
+  },
+  commandStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 10,
+  },
+  commandStatusLabel: {
+    fontSize: 11,
+    color: 'rgba(255,255,255,0.8)',
+    flexShrink: 1,
+  },
+  commandStatusValue: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+
   // Switch toast
   switchToast: {
     position: 'absolute',
@@ -1040,7 +1864,7 @@ const styles = StyleSheet.create({
   cameraControlsRow: {
     flexDirection: 'row',
     justifyContent: 'center',
-    gap: 24,
+    gap: 4,
     marginBottom: 12,
   },
   cameraControlBtn: {
@@ -1055,6 +1879,9 @@ const styles = StyleSheet.create({
     color: 'rgba(255,255,255,0.6)',
     marginBottom: 2,
   },
+  cameraControlIconActive: {
+    color: '#FFFFFF',
+  },
   cameraControlLabel: {
     fontSize: 11,
     color: 'rgba(255,255,255,0.4)',
@@ -1120,6 +1947,14 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(255,255,255,0.9)',
   },
 
+  joystickRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'center',
+    gap: 24,
+    marginBottom: 12,
+  },
+
   // Zoom buttons
   zoomRow: {
     flexDirection: 'row',
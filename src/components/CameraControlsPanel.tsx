@@ -0,0 +1,290 @@
+/**
+ * Manual camera controls for the director: zoom and lens.
+ * Everything shown comes from the camera's last `camera_state` report, so the
+ * controls reflect what the camera actually applied - not what was asked for -
+ * and only the controls the camera can apply right now are shown.
+ * The stream row is the exception: it is the director's own preference, which
+ * the camera adapts within.
+ */
+
+import { useMemo, useRef, useState } from 'react'
+import { View, Text, Pressable, StyleSheet, Switch, PanResponder, type LayoutChangeEvent } from 'react-native'
+import * as Haptics from 'expo-haptics'
+import type { CameraControlState, CameraSettings } from '../types'
+import { STREAM_QUALITIES, type StreamPreference } from '../schemas/commands'
+
+const STREAM_QUALITY_LABELS: Record<CameraSettings['quality'], string> = {
+  low: 'Low',
+  medium: 'Balanced',
+  high: 'High',
+}
+
+const ACCENT = '#FFE66D'
+
+interface CameraControlsPanelProps {
+  /** Last report from the camera; null until the first one arrives */
+  state: CameraControlState | null
+  /** Called while dragging (`done` false) and once on release (`done` true) */
+  onZoom: (zoom: number, done: boolean) => void
+  onLens: (lens: string) => void
+  streamQuality: CameraSettings['quality']
+  streamPreference: StreamPreference
+  onStreamQuality: (quality: CameraSettings['quality']) => void
+  onStreamPreference: (preference: StreamPreference) => void
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value))
+}
+
+/** "Back Dual Wide Camera" → "Dual Wide" */
+function formatLens(lens: string) {
+  return lens.replace(/^(Back|Front)\s+/i, '').replace(/\s+Camera$/i, '') || lens
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Zoom Rail
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function ZoomRail({ value, onChange }: {
+  value: number
+  onChange: (zoom: number, done: boolean) => void
+}) {
+  const [dragValue, setDragValue] = useState<number | null>(null)
+
+  // PanResponder is created once - read the latest props through a ref
+  const stateRef = useRef({ width: 0, start: 0, onChange })
+  stateRef.current.onChange = onChange
+
+  const panResponder = useMemo(() => {
+    const update = (zoom: number, done: boolean) => {
+      setDragValue(done ? null : zoom)
+      stateRef.current.onChange(zoom, done)
+    }
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: (event) => {
+        const { width } = stateRef.current
+        stateRef.current.start = clamp01(event.nativeEvent.locationX / (width || 1))
+        update(stateRef.current.start, false)
+      },
+      onPanResponderMove: (_, gesture) => {
+        const { width, start } = stateRef.current
+        update(clamp01(start + gesture.dx / (width || 1)), false)
+      },
+      onPanResponderRelease: (_, gesture) => {
+        const { width, start } = stateRef.current
+        update(clamp01(start + gesture.dx / (width || 1)), true)
+      },
+      onPanResponderTerminate: (_, gesture) => {
+        const { width, start } = stateRef.current
+        update(clamp01(start + gesture.dx / (width || 1)), true)
+      },
+    })
+  }, [])
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    stateRef.current.width = event.nativeEvent.layout.width
+  }
+
+  const shown = dragValue ?? value
+
+  return (
+    <View
+      style={styles.rail}
+      onLayout={handleLayout}
+      accessibilityLabel={`Zoom ${Math.round(shown * 100)} percent`}
+      accessibilityRole="adjustable"
+      {...panResponder.panHandlers}
+    >
+      <View style={styles.railTrack} pointerEvents="none">
+        <View style={[styles.railFill, { width: `${shown * 100}%` }]} />
+      </View>
+      <View style={[styles.railThumb, { left: `${shown * 100}%` }]} pointerEvents="none" />
+    </View>
+  )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Panel
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function CameraControlsPanel({
+  state,
+  onZoom,
+  onLens,
+  streamQuality,
+  streamPreference,
+  onStreamQuality,
+  onStreamPreference,
+}: CameraControlsPanelProps) {
+  if (!state) {
+    return (
+      <View style={styles.panel}>
+        <Text style={styles.waiting}>Waiting for camera…</Text>
+      </View>
+    )
+  }
+
+  const { supported } = state
+
+  return (
+    <View style={styles.panel}>
+      {supported.zoom && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Zoom</Text>
+          <ZoomRail value={state.zoom} onChange={onZoom} />
+        </View>
+      )}
+
+      {supported.lens && state.availableLenses.length > 1 && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Lens</Text>
+          <View style={styles.chips}>
+            {state.availableLenses.map(lens => (
+              <Pressable
+                key={lens}
+                style={[styles.chip, state.lens === lens && styles.chipActive]}
+                onPress={() => {
+                  Haptics.selectionAsync()
+                  onLens(lens)
+                }}
+                accessibilityLabel={`Lens ${lens}`}
+                accessibilityRole="button"
+                accessibilityState={{ selected: state.lens === lens }}
+              >
+                <Text style={styles.chipText} numberOfLines={1}>{formatLens(lens)}</Text>
+              </Pressable>
+            ))}
+          </View>
+        </View>
+      )}
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Stream</Text>
+        <View style={styles.chips}>
+          {STREAM_QUALITIES.map(quality => (
+            <Pressable
+              key={quality}
+              style={[styles.chip, streamQuality === quality && styles.chipActive]}
+              onPress={() => {
+                Haptics.selectionAsync()
+                onStreamQuality(quality)
+              }}
+              accessibilityLabel={`Stream quality ${STREAM_QUALITY_LABELS[quality]}`}
+              accessibilityRole="button"
+              accessibilityState={{ selected: streamQuality === quality }}
+            >
+              <Text style={styles.chipText}>{STREAM_QUALITY_LABELS[quality]}</Text>
+            </Pressable>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Prefer</Text>
+        <Text style={styles.switchLabel}>Smooth</Text>
+        <Switch
+          value={streamPreference === 'sharpness'}
+          onValueChange={(sharp) => {
+            Haptics.selectionAsync()
+            onStreamPreference(sharp ? 'sharpness' : 'smoothness')
+          }}
+          trackColor={{ false: 'rgba(255,255,255,0.25)', true: 'rgba(255,230,109,0.6)' }}
+          thumbColor="#FFFFFF"
+          accessibilityLabel="Prefer sharpness over smoothness when the connection is slow"
+        />
+        <Text style={styles.switchLabel}>Sharp</Text>
+      </View>
+
+      {!supported.zoom && !supported.lens && (
+        <Text style={styles.hint}>Zoom and lens can't be changed while the camera is streaming</Text>
+      )}
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  panel: {
+    position: 'absolute',
+    top: 148,
+    left: 12,
+    width: 248,
+    padding: 12,
+    gap: 10,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    zIndex: 15,
+  },
+  waiting: {
+    fontSize: 13,
+    color: 'rgba(255,255,255,0.7)',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  label: {
+    width: 60,
+    fontSize: 12,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.7)',
+  },
+  rail: {
+    flex: 1,
+    height: 28,
+    justifyContent: 'center',
+  },
+  railTrack: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.25)',
+    overflow: 'hidden',
+  },
+  railFill: {
+    height: '100%',
+    backgroundColor: ACCENT,
+  },
+  railThumb: {
+    position: 'absolute',
+    width: 16,
+    height: 16,
+    marginLeft: -8,
+    borderRadius: 8,
+    backgroundColor: '#FFFFFF',
+  },
+  chips: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  chipActive: {
+    backgroundColor: 'rgba(255,230,109,0.45)',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#FFFFFF',
+  },
+  switchLabel: {
+    fontSize: 12,
+    color: '#FFFFFF',
+  },
+  hint: {
+    fontSize: 11,
+    color: 'rgba(255,255,255,0.5)',
+  },
+})
@@ -38,7 +38,6 @@ export function CameraView({
   } = useCamera()
 
   const { settings } = useSettingsStore()
-  const showGridOverlay = settings.showGrid
 
   const handlePress = useCallback((event: { nativeEvent: { locationX: number; locationY: number } }) => {
     const { locationX, locationY } = event.nativeEvent
@@ -76,7 +75,11 @@ export function CameraView({
           photo={true}
           enableZoomGesture
         />
-        <GridOverlay visible={showGridOverlay} />
+        <GridOverlay
+          visible={settings.showGrid}
+          type={settings.compositionOverlay}
+          spiralRotation={settings.spiralRotation}
+        />
       </Pressable>
 
       {/* Top controls */}
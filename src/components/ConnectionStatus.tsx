@@ -11,7 +11,7 @@ import Animated, {
   withSequence,
 } from 'react-native-reanimated'
 import { useEffect } from 'react'
-import type { ConnectionStatus as ConnectionStatusType } from '../types'
+import type { ConnectionStatus as ConnectionStatusType, ConnectionMode } from '../types'
 
 interface ConnectionStatusProps {
   status: ConnectionStatusType
@@ -81,6 +81,31 @@ export function ConnectionStatus({
   )
 }
 
+interface ConnectionModeBadgeProps {
+  mode: ConnectionMode
+  /** Translated name of the mode */
+  label: string
+}
+
+const MODE_CONFIG: Record<ConnectionMode, { color: string; icon: string }> = {
+  cloud: { color: '#3b82f6', icon: '☁️' },
+  lan: { color: '#10b981', icon: '📶' },
+}
+
+/**
+ * Which way the phones are talking - through the internet or local Wi-Fi only
+ */
+export function ConnectionModeBadge({ mode, label }: ConnectionModeBadgeProps) {
+  const config = MODE_CONFIG[mode]
+
+  return (
+    <View style={[styles.modeBadge, { borderColor: config.color }]}>
+      <Text style={styles.modeIcon}>{config.icon}</Text>
+      <Text style={[styles.modeLabel, { color: config.color }]}>{label}</Text>
+    </View>
+  )
+}
+
 const styles = StyleSheet.create({
   container: {
     flexDirection: 'row',
@@ -114,5 +139,23 @@ const styles = StyleSheet.create({
     fontSize: 10,
     color: '#9ca3af',
   },
+  modeBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderWidth: 1,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 12,
+    gap: 4,
+  },
+  modeIcon: {
+    fontSize: 10,
+  },
+  modeLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
 })
 
@@ -0,0 +1,99 @@
+/**
+ * Self-timer countdown overlay, shown on both camera and director.
+ * Ticks are computed locally from `fireAt`, so both devices stay in step
+ * without exchanging per-second messages.
+ */
+
+import { useEffect, useState } from 'react'
+import { View, Text, Pressable, StyleSheet } from 'react-native'
+import Animated, { FadeIn, FadeOut, ZoomIn } from 'react-native-reanimated'
+import { getRemainingSeconds } from '../utils/countdown'
+
+interface CountdownOverlayProps {
+  /** Epoch ms at which the countdown reaches zero; null hides the overlay */
+  fireAt: number | null
+  onCancel?: () => void
+  /** Called once when the countdown reaches zero */
+  onComplete?: () => void
+}
+
+export function CountdownOverlay({ fireAt, onCancel, onComplete }: CountdownOverlayProps) {
+  const [remaining, setRemaining] = useState(() => (fireAt ? getRemainingSeconds(fireAt) : 0))
+
+  useEffect(() => {
+    if (!fireAt) return
+
+    setRemaining(getRemainingSeconds(fireAt))
+    const interval = setInterval(() => {
+      const next = getRemainingSeconds(fireAt)
+      setRemaining(next)
+      if (next === 0) {
+        clearInterval(interval)
+        onComplete?.()
+      }
+    }, 100)
+
+    return () => clearInterval(interval)
+    // onComplete is intentionally not a dependency - a new callback must not restart the countdown
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fireAt])
+
+  if (!fireAt || remaining === 0) return null
+
+  return (
+    <Animated.View
+      entering={FadeIn.duration(150)}
+      exiting={FadeOut.duration(150)}
+      style={styles.container}
+      pointerEvents="box-none"
+    >
+      <Animated.Text key={remaining} entering={ZoomIn.duration(250)} style={styles.number}>
+        {remaining}
+      </Animated.Text>
+      {onCancel && (
+        <View style={styles.cancelRow}>
+          <Pressable
+            style={styles.cancelButton}
+            onPress={onCancel}
+            accessibilityLabel="Cancel countdown"
+            accessibilityRole="button"
+          >
+            <Text style={styles.cancelText}>Cancel</Text>
+          </Pressable>
+        </View>
+      )}
+    </Animated.View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.25)',
+    zIndex: 20,
+  },
+  number: {
+    fontSize: 140,
+    fontWeight: '800',
+    color: '#FFFFFF',
+    textShadowColor: 'rgba(0,0,0,0.6)',
+    textShadowOffset: { width: 0, height: 2 },
+    textShadowRadius: 8,
+  },
+  cancelRow: {
+    marginTop: 24,
+  },
+  cancelButton: {
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    paddingVertical: 10,
+    paddingHorizontal: 28,
+    borderRadius: 20,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+})
@@ -0,0 +1,229 @@
+/**
+ * Joystick for fine-grained directions. Drag the knob and let go: the
+ * dominant axis picks the direction and how far it was pushed becomes the
+ * magnitude, so a short flick means "a tiny bit" and a full push "a lot".
+ * "Move" shifts the phone (left/right, raise/lower); "Aim" turns it
+ * (tilt up/down, rotate counter-clockwise/clockwise).
+ */
+
+import { useMemo, useRef, useState } from 'react'
+import { View, Text, Pressable, StyleSheet, PanResponder } from 'react-native'
+import * as Haptics from 'expo-haptics'
+import type { Direction } from '../schemas/commands'
+
+export type JoystickMode = 'move' | 'aim'
+
+const PAD_SIZE = 132
+const KNOB_SIZE = 48
+const RADIUS = (PAD_SIZE - KNOB_SIZE) / 2
+
+/** Pushes shorter than this (share of the radius) are ignored on release */
+const DEAD_ZONE = 0.15
+
+/** [negative, positive] direction along each axis, per mode - y grows downwards */
+const AXES: Record<JoystickMode, { x: [Direction, Direction]; y: [Direction, Direction] }> = {
+  move: { x: ['left', 'right'], y: ['raise', 'lower'] },
+  aim: { x: ['rotate_ccw', 'rotate_cw'], y: ['tilt_up', 'tilt_down'] },
+}
+
+interface DirectionJoystickProps {
+  /** Localized direction names, shown while dragging */
+  labels: Record<Direction, string>
+  /** Localized mode names and accessibility text */
+  strings: Record<JoystickMode, string> & { label: string; hint: string }
+  /** Called once per gesture, on release outside the dead zone */
+  onDirection: (direction: Direction, magnitude: number) => void
+}
+
+interface StickReading {
+  direction: Direction
+  magnitude: number
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Knob offset → direction and 0-1 magnitude, or null inside the dead zone */
+function readStick(mode: JoystickMode, dx: number, dy: number): StickReading | null {
+  const distance = Math.min(1, Math.hypot(dx, dy) / RADIUS)
+  if (distance < DEAD_ZONE) return null
+
+  const axes = AXES[mode]
+  const direction = Math.abs(dx) >= Math.abs(dy)
+    ? axes.x[dx < 0 ? 0 : 1]
+    : axes.y[dy < 0 ? 0 : 1]
+  // Rescale past the dead zone so the lightest push still reads as ~0
+  const magnitude = Math.round(((distance - DEAD_ZONE) / (1 - DEAD_ZONE)) * 100) / 100
+  return { direction, magnitude }
+}
+
+/** Keep the knob inside the pad */
+function clampToPad(dx: number, dy: number) {
+  const distance = Math.hypot(dx, dy)
+  if (distance <= RADIUS) return { x: dx, y: dy }
+  return { x: (dx / distance) * RADIUS, y: (dy / distance) * RADIUS }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Joystick
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function DirectionJoystick({ labels, strings, onDirection }: DirectionJoystickProps) {
+  const [mode, setMode] = useState<JoystickMode>('move')
+  const [knob, setKnob] = useState({ x: 0, y: 0 })
+  const [reading, setReading] = useState<StickReading | null>(null)
+
+  // PanResponder is created once - read the latest props through a ref
+  const stateRef = useRef({ mode, onDirection, lastDirection: null as Direction | null })
+  stateRef.current.mode = mode
+  stateRef.current.onDirection = onDirection
+
+  const panResponder = useMemo(() => {
+    const finish = (dx: number, dy: number) => {
+      const offset = clampToPad(dx, dy)
+      const result = readStick(stateRef.current.mode, offset.x, offset.y)
+      setKnob({ x: 0, y: 0 })
+      setReading(null)
+      stateRef.current.lastDirection = null
+      if (result) {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light)
+        stateRef.current.onDirection(result.direction, result.magnitude)
+      }
+    }
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderMove: (_, gesture) => {
+        const offset = clampToPad(gesture.dx, gesture.dy)
+        const result = readStick(stateRef.current.mode, offset.x, offset.y)
+        setKnob(offset)
+        setReading(result)
+        // Tick when the knob crosses into another direction
+        if (result && result.direction !== stateRef.current.lastDirection) {
+          Haptics.selectionAsync()
+        }
+        stateRef.current.lastDirection = result?.direction ?? null
+      },
+      onPanResponderRelease: (_, gesture) => finish(gesture.dx, gesture.dy),
+      onPanResponderTerminate: () => {
+        // Gesture taken away (e.g. by a scroll view) - don't send a half-made move
+        setKnob({ x: 0, y: 0 })
+        setReading(null)
+        stateRef.current.lastDirection = null
+      },
+    })
+  }, [])
+
+  const axes = AXES[mode]
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.modes}>
+        {(Object.keys(AXES) as JoystickMode[]).map(option => (
+          <Pressable
+            key={option}
+            style={[styles.modeChip, mode === option && styles.modeChipActive]}
+            onPress={() => {
+              Haptics.selectionAsync()
+              setMode(option)
+            }}
+            accessibilityLabel={strings[option]}
+            accessibilityRole="button"
+            accessibilityState={{ selected: mode === option }}
+          >
+            <Text style={styles.modeText}>{strings[option]}</Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <View
+        style={styles.pad}
+        accessibilityLabel={`${strings.label}, ${strings[mode]}`}
+        accessibilityHint={strings.hint}
+        accessibilityRole="adjustable"
+        {...panResponder.panHandlers}
+      >
+        <Text style={[styles.axisLabel, styles.axisTop]} pointerEvents="none">{labels[axes.y[0]]}</Text>
+        <Text style={[styles.axisLabel, styles.axisBottom]} pointerEvents="none">{labels[axes.y[1]]}</Text>
+        <Text style={[styles.axisLabel, styles.axisLeft]} pointerEvents="none">{labels[axes.x[0]]}</Text>
+        <Text style={[styles.axisLabel, styles.axisRight]} pointerEvents="none">{labels[axes.x[1]]}</Text>
+        <View
+          style={[styles.knob, reading && styles.knobActive, { transform: [{ translateX: knob.x }, { translateY: knob.y }] }]}
+          pointerEvents="none"
+        >
+          {reading && <Text style={styles.knobText}>{Math.round(reading.magnitude * 100)}</Text>}
+        </View>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: 6,
+  },
+  modes: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  modeChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.06)',
+  },
+  modeChipActive: {
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  modeText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: 'rgba(255,255,255,0.8)',
+  },
+  pad: {
+    width: PAD_SIZE,
+    height: PAD_SIZE,
+    borderRadius: PAD_SIZE / 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.08)',
+  },
+  axisLabel: {
+    position: 'absolute',
+    fontSize: 10,
+    color: 'rgba(255,255,255,0.4)',
+  },
+  axisTop: {
+    top: 6,
+  },
+  axisBottom: {
+    bottom: 6,
+  },
+  axisLeft: {
+    left: 6,
+  },
+  axisRight: {
+    right: 6,
+  },
+  knob: {
+    width: KNOB_SIZE,
+    height: KNOB_SIZE,
+    borderRadius: KNOB_SIZE / 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  knobActive: {
+    backgroundColor: 'rgba(255,255,255,0.85)',
+  },
+  knobText: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#000000',
+  },
+})
@@ -0,0 +1,235 @@
+/**
+ * Framing guides drawn by the director over the live feed.
+ * The director draws with a tool selected; the camera renders the same guides
+ * read-only on the photographer's preview. Guides use normalized coordinates,
+ * so they land on the same spot of the frame on both screens.
+ */
+
+import { useMemo, useRef, useState } from 'react'
+import { View, StyleSheet, PanResponder, type LayoutChangeEvent, type ViewStyle } from 'react-native'
+import uuid from 'react-native-uuid'
+import type { FramingGuide, GuideKind, GuidePoint } from '../schemas/commands'
+import { MAX_FRAMING_GUIDES } from '../schemas/commands'
+
+export const GUIDE_COLORS: Record<GuideKind, string> = {
+  circle: '#4ECDC4',
+  arrow: '#FFE66D',
+  box: '#FF6B6B',
+  horizon: '#95E1D3',
+}
+
+/** Drags shorter than this (fraction of the frame) are treated as taps and dropped */
+const MIN_GUIDE_SIZE = 0.03
+
+const STROKE = 3
+const ARROW_HEAD = 18
+
+interface FramingGuidesOverlayProps {
+  guides: FramingGuide[]
+  /** Drawing tool - when set the overlay captures touches and draws new guides */
+  tool?: GuideKind | null
+  /** Called while drawing (`done` false) and once the stroke is finished (`done` true) */
+  onChange?: (guides: FramingGuide[], done: boolean) => void
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Geometry
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value))
+}
+
+/** Replace or append the guide being drawn - the oldest guides drop off past the limit */
+function withGuide(guides: FramingGuide[], guide: FramingGuide): FramingGuide[] {
+  return [...guides.filter(g => g.id !== guide.id), { ...guide }].slice(-MAX_FRAMING_GUIDES)
+}
+
+/** Absolutely positioned bar from (x1, y1) to (x2, y2), in pixels */
+function lineStyle(x1: number, y1: number, x2: number, y2: number, color: string): ViewStyle {
+  const length = Math.hypot(x2 - x1, y2 - y1)
+  const angle = Math.atan2(y2 - y1, x2 - x1)
+  return {
+    position: 'absolute',
+    left: (x1 + x2) / 2 - length / 2,
+    top: (y1 + y2) / 2 - STROKE / 2,
+    width: length,
+    height: STROKE,
+    borderRadius: STROKE / 2,
+    backgroundColor: color,
+    transform: [{ rotate: `${angle}rad` }],
+  }
+}
+
+function GuideShape({ guide, width, height }: { guide: FramingGuide; width: number; height: number }) {
+  const color = GUIDE_COLORS[guide.kind]
+  const x1 = guide.start.x * width
+  const y1 = guide.start.y * height
+  const x2 = guide.end.x * width
+  const y2 = guide.end.y * height
+
+  switch (guide.kind) {
+    case 'circle': {
+      const r = Math.hypot(x2 - x1, y2 - y1)
+      return (
+        <View
+          style={[
+            styles.outline,
+            { left: x1 - r, top: y1 - r, width: r * 2, height: r * 2, borderRadius: r, borderColor: color },
+          ]}
+        />
+      )
+    }
+
+    case 'box':
+      return (
+        <View
+          style={[
+            styles.outline,
+            {
+              left: Math.min(x1, x2),
+              top: Math.min(y1, y2),
+              width: Math.abs(x2 - x1),
+              height: Math.abs(y2 - y1),
+              borderRadius: 4,
+              borderColor: color,
+            },
+          ]}
+        />
+      )
+
+    case 'arrow': {
+      const angle = Math.atan2(y2 - y1, x2 - x1)
+      const wing = (offset: number) => lineStyle(
+        x2,
+        y2,
+        x2 + ARROW_HEAD * Math.cos(angle + offset),
+        y2 + ARROW_HEAD * Math.sin(angle + offset),
+        color
+      )
+      return (
+        <>
+          <View style={lineStyle(x1, y1, x2, y2, color)} />
+          <View style={wing(Math.PI * 0.8)} />
+          <View style={wing(-Math.PI * 0.8)} />
+        </>
+      )
+    }
+
+    case 'horizon': {
+      // Extend through both points past the frame edges - the container clips it
+      const angle = Math.atan2(y2 - y1, x2 - x1)
+      const reach = Math.hypot(width, height)
+      return (
+        <View
+          style={[
+            lineStyle(
+              x1 - reach * Math.cos(angle),
+              y1 - reach * Math.sin(angle),
+              x1 + reach * Math.cos(angle),
+              y1 + reach * Math.sin(angle),
+              color
+            ),
+            styles.horizon,
+          ]}
+        />
+      )
+    }
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Overlay
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function FramingGuidesOverlay({ guides, tool = null, onChange }: FramingGuidesOverlayProps) {
+  const [size, setSize] = useState({ width: 0, height: 0 })
+
+  // PanResponder is created once - read the latest props through a ref
+  const stateRef = useRef({ guides, tool, onChange, size })
+  stateRef.current = { guides, tool, onChange, size }
+  const drawingRef = useRef<FramingGuide | null>(null)
+
+  const panResponder = useMemo(() => {
+    const toPoint = (x: number, y: number): GuidePoint => {
+      const { width, height } = stateRef.current.size
+      return { x: clamp01(x / (width || 1)), y: clamp01(y / (height || 1)) }
+    }
+
+    return PanResponder.create({
+      onStartShouldSetPanResponder: () => !!stateRef.current.tool,
+      onMoveShouldSetPanResponder: () => !!stateRef.current.tool,
+      onPanResponderGrant: (event) => {
+        const kind = stateRef.current.tool
+        if (!kind) return
+        const point = toPoint(event.nativeEvent.locationX, event.nativeEvent.locationY)
+        drawingRef.current = { id: uuid.v4() as string, kind, start: point, end: point }
+      },
+      onPanResponderMove: (_, gesture) => {
+        const drawing = drawingRef.current
+        if (!drawing) return
+        const { width, height } = stateRef.current.size
+        drawing.end = {
+          x: clamp01(drawing.start.x + gesture.dx / (width || 1)),
+          y: clamp01(drawing.start.y + gesture.dy / (height || 1)),
+        }
+        stateRef.current.onChange?.(withGuide(stateRef.current.guides, drawing), false)
+      },
+      onPanResponderRelease: () => {
+        const drawing = drawingRef.current
+        drawingRef.current = null
+        if (!drawing) return
+        const tooSmall = Math.hypot(drawing.end.x - drawing.start.x, drawing.end.y - drawing.start.y) < MIN_GUIDE_SIZE
+        const current = stateRef.current.guides
+        stateRef.current.onChange?.(
+          tooSmall ? current.filter(g => g.id !== drawing.id) : withGuide(current, drawing),
+          true
+        )
+      },
+      onPanResponderTerminate: () => {
+        const drawing = drawingRef.current
+        drawingRef.current = null
+        if (!drawing) return
+        stateRef.current.onChange?.(stateRef.current.guides.filter(g => g.id !== drawing.id), true)
+      },
+    })
+  }, [])
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout
+    setSize({ width, height })
+  }
+
+  if (!tool && guides.length === 0) return null
+
+  return (
+    <View
+      style={styles.container}
+      onLayout={handleLayout}
+      pointerEvents={tool ? 'auto' : 'none'}
+      {...(tool ? panResponder.panHandlers : {})}
+    >
+      {/* Shapes never take touches, so touch coordinates stay relative to the overlay */}
+      <View style={StyleSheet.absoluteFill} pointerEvents="none">
+        {size.width > 0 && guides.map(guide => (
+          <GuideShape key={guide.id} guide={guide} width={size.width} height={size.height} />
+        ))}
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    overflow: 'hidden',
+    zIndex: 12,
+  },
+  outline: {
+    position: 'absolute',
+    borderWidth: STROKE,
+  },
+  horizon: {
+    opacity: 0.8,
+  },
+})
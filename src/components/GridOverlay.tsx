@@ -1,25 +1,223 @@
 /**
- * Rule of thirds grid overlay for camera composition
+ * Composition overlays for the camera preview: rule of thirds, golden ratio,
+ * golden spiral, center cross, diagonals, crop masks and a level indicator.
  */
 
-import { View, StyleSheet } from 'react-native'
+import { useState } from 'react'
+import { View, StyleSheet, type LayoutChangeEvent, type ViewStyle } from 'react-native'
+import { useLevelRoll } from '../hooks/useLevelRoll'
+import type { CompositionOverlay, SpiralRotation } from '../schemas/commands'
 
 interface GridOverlayProps {
   visible?: boolean
+  type?: CompositionOverlay
+  /** Golden spiral only */
+  spiralRotation?: SpiralRotation
+  /**
+   * Level only - the photographer's roll from camera_state, for the director's screen
+   * (null until a reading arrives). Left out, the level follows this phone's own sensor.
+   */
+  remoteRoll?: number | null
 }
 
-export function GridOverlay({ visible = true }: GridOverlayProps) {
+const PHI = (1 + Math.sqrt(5)) / 2
+const LINE_COLOR = 'rgba(255, 255, 255, 0.3)'
+const STROKE = 1
+
+/** Width / height of the safe frame each crop mask keeps */
+const MASK_RATIOS: Partial<Record<CompositionOverlay, number>> = {
+  square: 1,
+  ratio_4_5: 4 / 5,
+  ratio_9_16: 9 / 16,
+  ratio_16_9: 16 / 9,
+}
+
+/** Within this many degrees the level line turns green */
+const LEVEL_TOLERANCE_DEG = 1
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Shapes
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Absolutely positioned line from (x1, y1) to (x2, y2), in pixels */
+function lineStyle(x1: number, y1: number, x2: number, y2: number): ViewStyle {
+  const length = Math.hypot(x2 - x1, y2 - y1)
+  return {
+    position: 'absolute',
+    left: (x1 + x2) / 2 - length / 2,
+    top: (y1 + y2) / 2 - STROKE / 2,
+    width: length,
+    height: STROKE,
+    backgroundColor: LINE_COLOR,
+    transform: [{ rotate: `${Math.atan2(y2 - y1, x2 - x1)}rad` }],
+  }
+}
+
+/** Two vertical and two horizontal lines at the given percentages */
+function SplitLines({ at }: { at: [number, number] }) {
+  const [first, second] = at.map(percent => `${percent}%` as const)
+  return (
+    <>
+      <View style={[styles.line, styles.verticalLine, { left: first }]} />
+      <View style={[styles.line, styles.verticalLine, { left: second }]} />
+      <View style={[styles.line, styles.horizontalLine, { top: first }]} />
+      <View style={[styles.line, styles.horizontalLine, { top: second }]} />
+    </>
+  )
+}
+
+/**
+ * Golden spiral as quarter-circle arcs through a golden rectangle's squares,
+ * fitted to the frame and rotated clockwise by `rotation`
+ */
+function GoldenSpiral({ width, height, rotation }: { width: number; height: number; rotation: SpiralRotation }) {
+  const portrait = rotation % 180 !== 0
+  const along = portrait ? height : width
+  const across = portrait ? width : height
+  const long = Math.min(along, across * PHI)
+  const short = long / PHI
+
+  // Cut squares off the left, top, right and bottom in turn; each holds one arc
+  const arcs: ViewStyle[] = []
+  let x = 0
+  let y = 0
+  let w = long
+  let h = short
+  for (let i = 0; i < 8; i++) {
+    const side = i % 2 === 0 ? h : w
+    switch (i % 4) {
+      case 0:
+        arcs.push({ left: x, top: y, borderTopLeftRadius: side, borderTopWidth: STROKE, borderLeftWidth: STROKE })
+        x += side
+        w -= side
+        break
+      case 1:
+        arcs.push({ left: x, top: y, borderTopRightRadius: side, borderTopWidth: STROKE, borderRightWidth: STROKE })
+        y += side
+        h -= side
+        break
+      case 2:
+        arcs.push({ left: x + w - side, top: y, borderBottomRightRadius: side, borderBottomWidth: STROKE, borderRightWidth: STROKE })
+        w -= side
+        break
+      case 3:
+        arcs.push({ left: x, top: y + h - side, borderBottomLeftRadius: side, borderBottomWidth: STROKE, borderLeftWidth: STROKE })
+        h -= side
+        break
+    }
+    arcs[i].width = side
+    arcs[i].height = side
+  }
+
+  return (
+    <View
+      style={[
+        styles.spiral,
+        {
+          left: (width - long) / 2,
+          top: (height - short) / 2,
+          width: long,
+          height: short,
+          transform: [{ rotate: `${rotation}deg` }],
+        },
+      ]}
+    >
+      {arcs.map((arc, index) => (
+        <View key={index} style={[styles.arc, arc]} />
+      ))}
+    </View>
+  )
+}
+
+/** Darkens everything outside the largest centered frame with the given aspect ratio */
+function CropMask({ width, height, ratio }: { width: number; height: number; ratio: number }) {
+  if (width / height > ratio) {
+    const bar = (width - height * ratio) / 2
+    return (
+      <>
+        <View style={[styles.mask, { left: 0, top: 0, bottom: 0, width: bar }]} />
+        <View style={[styles.mask, { right: 0, top: 0, bottom: 0, width: bar }]} />
+      </>
+    )
+  }
+  const bar = (height - width / ratio) / 2
+  return (
+    <>
+      <View style={[styles.mask, { top: 0, left: 0, right: 0, height: bar }]} />
+      <View style={[styles.mask, { bottom: 0, left: 0, right: 0, height: bar }]} />
+    </>
+  )
+}
+
+/** Level for this phone */
+function DeviceLevelIndicator({ width }: { width: number }) {
+  const roll = useLevelRoll(true)
+  return <LevelIndicator width={width} roll={roll ?? 0} />
+}
+
+/** Horizon line that follows the phone's roll, green when level */
+function LevelIndicator({ width, roll }: { width: number; roll: number }) {
+  const isLevel = Math.abs(roll) < LEVEL_TOLERANCE_DEG
+  const length = width * 0.6
+
+  return (
+    <View style={styles.levelContainer}>
+      <View style={[styles.levelReference, { width: length }]} />
+      <View
+        style={[
+          styles.levelLine,
+          {
+            width: length,
+            backgroundColor: isLevel ? '#4ADE80' : '#FFE66D',
+            transform: [{ rotate: `${-roll}deg` }],
+          },
+        ]}
+      />
+    </View>
+  )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Overlay
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function GridOverlay({ visible = true, type = 'thirds', spiralRotation = 0, remoteRoll }: GridOverlayProps) {
+  const [size, setSize] = useState({ width: 0, height: 0 })
+
   if (!visible) return null
 
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout
+    setSize({ width, height })
+  }
+
+  const { width, height } = size
+  const maskRatio = MASK_RATIOS[type]
+
   return (
-    <View style={styles.container} pointerEvents="none">
-      {/* Vertical lines */}
-      <View style={[styles.line, styles.verticalLine, { left: '33.33%' }]} />
-      <View style={[styles.line, styles.verticalLine, { left: '66.66%' }]} />
-      
-      {/* Horizontal lines */}
-      <View style={[styles.line, styles.horizontalLine, { top: '33.33%' }]} />
-      <View style={[styles.line, styles.horizontalLine, { top: '66.66%' }]} />
+    <View style={styles.container} pointerEvents="none" onLayout={handleLayout}>
+      {type === 'thirds' && <SplitLines at={[33.33, 66.66]} />}
+      {type === 'golden_ratio' && <SplitLines at={[100 / PHI ** 2, 100 / PHI]} />}
+      {type === 'center_cross' && (
+        <>
+          <View style={[styles.line, styles.crossH]} />
+          <View style={[styles.line, styles.crossV]} />
+        </>
+      )}
+      {width > 0 && (
+        <>
+          {type === 'golden_spiral' && <GoldenSpiral width={width} height={height} rotation={spiralRotation} />}
+          {type === 'diagonal' && (
+            <>
+              <View style={lineStyle(0, 0, width, height)} />
+              <View style={lineStyle(width, 0, 0, height)} />
+            </>
+          )}
+          {maskRatio !== undefined && <CropMask width={width} height={height} ratio={maskRatio} />}
+          {type === 'level' && remoteRoll === undefined && <DeviceLevelIndicator width={width} />}
+          {type === 'level' && remoteRoll != null && <LevelIndicator width={width} roll={remoteRoll} />}
+        </>
+      )}
     </View>
   )
 }
@@ -27,11 +225,12 @@ export function GridOverlay({ visible = true }: GridOverlayProps) {
 const styles = StyleSheet.create({
   container: {
     ...StyleSheet.absoluteFillObject,
+    overflow: 'hidden',
     zIndex: 10,
   },
   line: {
     position: 'absolute',
-    backgroundColor: 'rgba(255, 255, 255, 0.3)',
+    backgroundColor: LINE_COLOR,
   },
   verticalLine: {
     width: 1,
@@ -41,5 +240,43 @@ const styles = StyleSheet.create({
     width: '100%',
     height: 1,
   },
+  crossH: {
+    top: '50%',
+    left: '50%',
+    width: 40,
+    height: 1,
+    marginLeft: -20,
+  },
+  crossV: {
+    top: '50%',
+    left: '50%',
+    width: 1,
+    height: 40,
+    marginTop: -20,
+  },
+  spiral: {
+    position: 'absolute',
+  },
+  arc: {
+    position: 'absolute',
+    borderColor: LINE_COLOR,
+  },
+  mask: {
+    position: 'absolute',
+    backgroundColor: 'rgba(0, 0, 0, 0.45)',
+  },
+  levelContainer: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  levelReference: {
+    position: 'absolute',
+    height: 1,
+    backgroundColor: LINE_COLOR,
+  },
+  levelLine: {
+    height: 2,
+    borderRadius: 1,
+  },
 })
-
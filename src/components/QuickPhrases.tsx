@@ -0,0 +1,251 @@
+/**
+ * Quick phrases from the director: the palette they pick from (presets,
+ * their own saved phrases, or free text) and the banner the photographer
+ * sees. Presets go over the wire as keys so each side reads them in its
+ * own language; custom phrases and free text are sent as typed.
+ */
+
+import { useEffect, useState } from 'react'
+import { View, Text, Pressable, TextInput, ScrollView, StyleSheet, type StyleProp, type ViewStyle } from 'react-native'
+import Animated, { FadeInDown, FadeOut } from 'react-native-reanimated'
+import * as Haptics from 'expo-haptics'
+import { MAX_MESSAGE_LENGTH, QUICK_PHRASES, type QuickPhrase } from '../schemas/commands'
+
+/** How long the banner stays up unless dismissed first */
+const BANNER_VISIBLE_MS = 8000
+
+interface QuickPhrasePaletteProps {
+  presetLabels: Record<QuickPhrase, string>
+  /** The director's own phrases, edited in settings */
+  customPhrases: string[]
+  labels: { custom: string; placeholder: string; send: string }
+  onPhrase: (phrase: QuickPhrase) => void
+  onText: (text: string) => void
+  style?: StyleProp<ViewStyle>
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Palette (director)
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function QuickPhrasePalette({
+  presetLabels,
+  customPhrases,
+  labels,
+  onPhrase,
+  onText,
+  style,
+}: QuickPhrasePaletteProps) {
+  const [draft, setDraft] = useState('')
+
+  const sendDraft = () => {
+    const text = draft.trim()
+    if (!text) return
+    Haptics.selectionAsync()
+    onText(text)
+    setDraft('')
+  }
+
+  return (
+    <Animated.View entering={FadeInDown.duration(150)} exiting={FadeOut.duration(150)} style={[styles.palette, style]}>
+      <ScrollView style={styles.chipScroll} contentContainerStyle={styles.chips} keyboardShouldPersistTaps="handled">
+        {QUICK_PHRASES.map(phrase => (
+          <Pressable
+            key={phrase}
+            style={styles.chip}
+            onPress={() => {
+              Haptics.selectionAsync()
+              onPhrase(phrase)
+            }}
+            accessibilityLabel={`Send "${presetLabels[phrase]}"`}
+            accessibilityRole="button"
+          >
+            <Text style={styles.chipText}>{presetLabels[phrase]}</Text>
+          </Pressable>
+        ))}
+        {customPhrases.length > 0 && <Text style={styles.sectionLabel}>{labels.custom}</Text>}
+        {customPhrases.map((phrase, index) => (
+          <Pressable
+            key={`${index}-${phrase}`}
+            style={[styles.chip, styles.chipCustom]}
+            onPress={() => {
+              Haptics.selectionAsync()
+              onText(phrase)
+            }}
+            accessibilityLabel={`Send "${phrase}"`}
+            accessibilityRole="button"
+          >
+            <Text style={styles.chipText}>{phrase}</Text>
+          </Pressable>
+        ))}
+      </ScrollView>
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={draft}
+          onChangeText={setDraft}
+          placeholder={labels.placeholder}
+          placeholderTextColor="rgba(255,255,255,0.4)"
+          maxLength={MAX_MESSAGE_LENGTH}
+          returnKeyType="send"
+          onSubmitEditing={sendDraft}
+          accessibilityLabel={labels.placeholder}
+        />
+        <Pressable
+          style={[styles.sendBtn, !draft.trim() && styles.sendBtnDisabled]}
+          disabled={!draft.trim()}
+          onPress={sendDraft}
+          accessibilityLabel={labels.send}
+          accessibilityRole="button"
+        >
+          <Text style={styles.sendText}>{labels.send}</Text>
+        </Pressable>
+      </View>
+    </Animated.View>
+  )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Banner (photographer)
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface MessageBannerProps {
+  /** Already localized; null hides the banner */
+  message: { id: string; text: string } | null
+  title: string
+  dismissHint: string
+  onDismiss: () => void
+}
+
+export function MessageBanner({ message, title, dismissHint, onDismiss }: MessageBannerProps) {
+  // Restart the timer for each new message, even one with the same text
+  useEffect(() => {
+    if (!message) return
+    const timer = setTimeout(onDismiss, BANNER_VISIBLE_MS)
+    return () => clearTimeout(timer)
+  }, [message, onDismiss])
+
+  if (!message) return null
+
+  return (
+    <Animated.View
+      key={message.id}
+      entering={FadeInDown.duration(200)}
+      exiting={FadeOut.duration(200)}
+      style={styles.banner}
+    >
+      <Pressable
+        style={styles.bannerInner}
+        onPress={onDismiss}
+        accessibilityLabel={`${title}: ${message.text}`}
+        accessibilityHint={dismissHint}
+        accessibilityRole="alert"
+      >
+        <Text style={styles.bannerTitle}>💬 {title}</Text>
+        <Text style={styles.bannerText}>{message.text}</Text>
+        <Text style={styles.bannerHint}>{dismissHint}</Text>
+      </Pressable>
+    </Animated.View>
+  )
+}
+
+const styles = StyleSheet.create({
+  palette: {
+    width: 280,
+    padding: 10,
+    gap: 8,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.75)',
+  },
+  chipScroll: {
+    maxHeight: 180,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255,255,255,0.15)',
+  },
+  chipCustom: {
+    backgroundColor: 'rgba(78,205,196,0.3)',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
+  sectionLabel: {
+    width: '100%',
+    marginTop: 4,
+    fontSize: 11,
+    fontWeight: '600',
+    color: 'rgba(255,255,255,0.5)',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  input: {
+    flex: 1,
+    height: 36,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    fontSize: 13,
+    color: '#FFFFFF',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  sendBtn: {
+    height: 36,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    justifyContent: 'center',
+    backgroundColor: 'rgba(78,205,196,0.85)',
+  },
+  sendBtnDisabled: {
+    opacity: 0.4,
+  },
+  sendText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  banner: {
+    position: 'absolute',
+    top: 140,
+    left: 24,
+    right: 24,
+    zIndex: 110,
+  },
+  bannerInner: {
+    paddingVertical: 16,
+    paddingHorizontal: 20,
+    borderRadius: 16,
+    alignItems: 'center',
+    backgroundColor: 'rgba(0,0,0,0.85)',
+    borderWidth: 2,
+    borderColor: '#4ECDC4',
+  },
+  bannerTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#4ECDC4',
+    marginBottom: 4,
+  },
+  bannerText: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  bannerHint: {
+    marginTop: 6,
+    fontSize: 11,
+    color: 'rgba(255,255,255,0.5)',
+  },
+})
@@ -0,0 +1,64 @@
+/**
+ * Video view for whichever transport carries the stream - an RTCView for a
+ * WebRTC stream, LiveKit's VideoView for a LiveKit track
+ */
+
+import type { StyleProp, ViewStyle } from 'react-native'
+import { mediaKey, type MediaHandle, type TransportKind } from '../services/mediaTransport'
+
+// Dynamically import video components - either may be missing from the build
+let RTCView: any = null
+let LiveKitVideoView: any = null
+try {
+  RTCView = require('@livekit/react-native-webrtc').RTCView
+} catch {
+  // WebRTC not available (Expo Go)
+}
+try {
+  LiveKitVideoView = require('@livekit/react-native').VideoView
+} catch {
+  // LiveKit not available
+}
+
+interface TransportVideoViewProps {
+  media: MediaHandle
+  style: StyleProp<ViewStyle>
+  mirror?: boolean
+  /** RTCView only - 1 brings it to front on Android (0 can render behind other views) */
+  zOrder?: number
+}
+
+/**
+ * Whether this build can render video from the given transport
+ */
+export function canRenderVideo(kind: TransportKind): boolean {
+  return kind === 'webrtc' ? !!RTCView : !!LiveKitVideoView
+}
+
+export function TransportVideoView({ media, style, mirror = false, zOrder }: TransportVideoViewProps) {
+  if (!canRenderVideo(media.kind)) return null
+
+  // Key forces a fresh native view when the stream changes - fixes blank screen
+  if (media.kind === 'livekit') {
+    return (
+      <LiveKitVideoView
+        key={mediaKey(media)}
+        style={style}
+        videoTrack={media.track}
+        objectFit="cover"
+        mirror={mirror}
+      />
+    )
+  }
+
+  return (
+    <RTCView
+      key={mediaKey(media)}
+      streamURL={media.stream.toURL()}
+      style={style}
+      objectFit="cover"
+      mirror={mirror}
+      zOrder={zOrder}
+    />
+  )
+}
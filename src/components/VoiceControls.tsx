@@ -0,0 +1,94 @@
+/**
+ * Push-to-talk controls, used by both the camera and the director.
+ * The button talks only while held; the badge shows the partner's mic state.
+ */
+
+import { View, Text, Pressable, StyleSheet, type StyleProp, type ViewStyle } from 'react-native'
+import * as Haptics from 'expo-haptics'
+import type { PartnerVoiceState } from '../hooks/useVoiceChannel'
+
+interface PushToTalkButtonProps {
+  /** Mic is open and negotiated - the button is disabled until then */
+  ready: boolean
+  talking: boolean
+  onTalkStart: () => void
+  onTalkEnd: () => void
+  style?: StyleProp<ViewStyle>
+}
+
+export function PushToTalkButton({ ready, talking, onTalkStart, onTalkEnd, style }: PushToTalkButtonProps) {
+  return (
+    <Pressable
+      style={[styles.button, talking && styles.buttonTalking, !ready && styles.buttonDisabled, style]}
+      disabled={!ready}
+      onPressIn={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium)
+        onTalkStart()
+      }}
+      onPressOut={onTalkEnd}
+      accessibilityLabel={talking ? 'Talking - release to mute' : 'Hold to talk'}
+      accessibilityHint="Your partner hears you only while you hold this button"
+      accessibilityRole="button"
+      accessibilityState={{ disabled: !ready, selected: talking }}
+    >
+      <Text style={styles.icon}>{talking ? '🎙' : '🔇'}</Text>
+      <Text style={styles.label}>{!ready ? 'Mic…' : talking ? 'Talking' : 'Hold'}</Text>
+    </Pressable>
+  )
+}
+
+/** Partner's mic state - hidden while their push-to-talk is off */
+export function PartnerVoiceBadge({ name, state }: { name: string; state: PartnerVoiceState }) {
+  if (!state.enabled) return null
+
+  return (
+    <View style={[styles.badge, state.talking && styles.badgeTalking]} pointerEvents="none">
+      <Text style={styles.badgeText}>
+        {state.talking ? `🎙 ${name} is talking` : `🔇 ${name} muted`}
+      </Text>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  button: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    borderWidth: 2,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  buttonTalking: {
+    backgroundColor: 'rgba(78,205,196,0.85)',
+    borderColor: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  icon: {
+    fontSize: 20,
+  },
+  label: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  badge: {
+    alignSelf: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  badgeTalking: {
+    backgroundColor: 'rgba(78,205,196,0.85)',
+  },
+  badgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+})
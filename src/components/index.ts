@@ -1,7 +1,14 @@
 export { CameraView } from './CameraView'
 export { CaptureButton } from './CaptureButton'
-export { ConnectionStatus } from './ConnectionStatus'
+export { ConnectionStatus, ConnectionModeBadge } from './ConnectionStatus'
 export { GridOverlay } from './GridOverlay'
 export { PreviewDisplay } from './PreviewDisplay'
 export { ErrorBoundary } from './ErrorBoundary'
 
+export { CountdownOverlay } from './CountdownOverlay'
+export { FramingGuidesOverlay } from './FramingGuides'
+export { CameraControlsPanel } from './CameraControlsPanel'
+export { PushToTalkButton, PartnerVoiceBadge } from './VoiceControls'
+export { DirectionJoystick } from './DirectionJoystick'
+export { QuickPhrasePalette, MessageBanner } from './QuickPhrases'
+export { TransportVideoView } from './TransportVideoView'
@@ -0,0 +1,40 @@
+/**
+ * ICE / TURN provider configuration
+ *
+ * Read from `extra.ice` in app.config.ts, which fills it from EXPO_PUBLIC_ICE_*
+ * at build time:
+ * - provider: 'metered' (default), 'static' or 'coturn'
+ * - servers: the ICE servers for 'static'
+ * - publicFallback: also use public STUN and free TURN relays (default true) -
+ *   turn it off when every byte has to go through your own servers
+ */
+
+import Constants from 'expo-constants'
+import type { IceServer } from '../services/iceServers'
+
+export const ICE_PROVIDERS = ['metered', 'static', 'coturn'] as const
+
+export type IceProviderName = typeof ICE_PROVIDERS[number]
+
+export interface IceProviderConfig {
+  provider: IceProviderName
+  servers: IceServer[]
+  publicFallback: boolean
+}
+
+function isIceProviderName(value: unknown): value is IceProviderName {
+  return typeof value === 'string' && (ICE_PROVIDERS as readonly string[]).includes(value)
+}
+
+/**
+ * Get the ICE provider configuration from app config
+ * Falls back to Metered with public fallbacks if not set or invalid
+ */
+export function getIceProviderConfig(): IceProviderConfig {
+  const ice = Constants.expoConfig?.extra?.ice
+  return {
+    provider: isIceProviderName(ice?.provider) ? ice.provider : 'metered',
+    servers: Array.isArray(ice?.servers) ? ice.servers : [],
+    publicFallback: ice?.publicFallback !== false,
+  }
+}
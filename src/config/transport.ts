@@ -0,0 +1,36 @@
+/**
+ * Media transport configuration
+ *
+ * Read from `extra.transport` in app.config.ts, which fills it from
+ * EXPO_PUBLIC_MEDIA_TRANSPORT* at build time:
+ * - preferred: 'webrtc' (default) or 'livekit' - tried first on every session
+ * - fallback: switch to the other transport when the preferred one can't
+ *   connect (default true)
+ */
+
+import Constants from 'expo-constants'
+
+export const MEDIA_TRANSPORTS = ['webrtc', 'livekit'] as const
+
+export type MediaTransportName = typeof MEDIA_TRANSPORTS[number]
+
+export interface MediaTransportConfig {
+  preferred: MediaTransportName
+  fallback: boolean
+}
+
+function isMediaTransportName(value: unknown): value is MediaTransportName {
+  return typeof value === 'string' && (MEDIA_TRANSPORTS as readonly string[]).includes(value)
+}
+
+/**
+ * Get the media transport configuration from app config
+ * Falls back to WebRTC first, with fallback on, if not set or invalid
+ */
+export function getMediaTransportConfig(): MediaTransportConfig {
+  const transport = Constants.expoConfig?.extra?.transport
+  return {
+    preferred: isMediaTransportName(transport?.preferred) ? transport.preferred : 'webrtc',
+    fallback: transport?.fallback !== false,
+  }
+}
@@ -3,3 +3,6 @@ export { useConnection } from './useConnection'
 export { useDiscovery } from './useDiscovery'
 export { useFrameStream } from './useFrameStream'
 
+export { useDeviceStatus } from './useDeviceStatus'
+export { useLevelRoll } from './useLevelRoll'
+export { useVoiceChannel } from './useVoiceChannel'
@@ -0,0 +1,83 @@
+/**
+ * Hook for the photographer's device status: battery, free storage and
+ * which way the phone is held. Reported to the director in camera_state.
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import * as Battery from 'expo-battery'
+import { Paths } from 'expo-file-system'
+import { Accelerometer } from 'expo-sensors'
+import type { DeviceOrientation } from '../types'
+
+/** Free storage is polled - there is no change event for it */
+const STORAGE_POLL_MS = 30000
+
+/** Gravity share (in g) one axis needs before the phone counts as held that way */
+const ORIENTATION_THRESHOLD = 0.6
+
+export interface DeviceStatus {
+  batteryLevel: number | null
+  storageFreeMb: number | null
+  orientation: DeviceOrientation | null
+}
+
+function toBatteryLevel(level: number): number | null {
+  // -1 when the platform can't tell (simulators, some web browsers)
+  return level >= 0 ? Math.round(level * 100) / 100 : null
+}
+
+function readStorageFreeMb(): number | null {
+  try {
+    return Math.floor(Paths.availableDiskSpace / (1024 * 1024))
+  } catch {
+    return null
+  }
+}
+
+export function useDeviceStatus() {
+  const [batteryLevel, setBatteryLevel] = useState<number | null>(null)
+  const [storageFreeMb, setStorageFreeMb] = useState<number | null>(readStorageFreeMb)
+  const [orientation, setOrientation] = useState<DeviceOrientation | null>(null)
+
+  useEffect(() => {
+    let isActive = true
+    Battery.getBatteryLevelAsync()
+      .then(level => {
+        if (isActive) setBatteryLevel(toBatteryLevel(level))
+      })
+      .catch(() => {})
+    const subscription = Battery.addBatteryLevelListener(({ batteryLevel: level }) => {
+      setBatteryLevel(toBatteryLevel(level))
+    })
+    return () => {
+      isActive = false
+      subscription.remove()
+    }
+  }, [])
+
+  const refreshStorage = useCallback(() => {
+    setStorageFreeMb(readStorageFreeMb())
+  }, [])
+
+  useEffect(() => {
+    const interval = setInterval(refreshStorage, STORAGE_POLL_MS)
+    return () => clearInterval(interval)
+  }, [refreshStorage])
+
+  useEffect(() => {
+    // Only the dominant axis matters - state changes just when the phone is turned
+    const subscription = Accelerometer.addListener(({ x, y }) => {
+      if (Math.abs(y) >= ORIENTATION_THRESHOLD && Math.abs(y) > Math.abs(x)) {
+        setOrientation('portrait')
+      } else if (Math.abs(x) >= ORIENTATION_THRESHOLD && Math.abs(x) > Math.abs(y)) {
+        setOrientation('landscape')
+      } else {
+        setOrientation(null)
+      }
+    })
+    return () => subscription.remove()
+  }, [])
+
+  const status: DeviceStatus = { batteryLevel, storageFreeMb, orientation }
+  return { status, refreshStorage }
+}
@@ -0,0 +1,37 @@
+/**
+ * Hook for how far the phone is rolled off level, in degrees.
+ * Drives the level overlay on the camera and is reported to the director
+ * in camera_state, so the director's level shows the photographer's phone.
+ */
+
+import { useEffect, useState } from 'react'
+import { Accelerometer } from 'expo-sensors'
+
+/** Gravity in the screen plane - 0 when the phone is held upright and level */
+export function rollFromGravity(x: number, y: number): number {
+  return (Math.atan2(x, Math.abs(y)) * 180) / Math.PI
+}
+
+/**
+ * @param enabled - the accelerometer only runs while true; null otherwise
+ * @param stepDeg - round to this step, so small jitter doesn't re-render (or re-send) anything
+ */
+export function useLevelRoll(enabled: boolean, stepDeg = 0): number | null {
+  const [roll, setRoll] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (!enabled) {
+      setRoll(null)
+      return
+    }
+
+    Accelerometer.setUpdateInterval(100)
+    const subscription = Accelerometer.addListener(({ x, y }) => {
+      const value = rollFromGravity(x, y)
+      setRoll(stepDeg > 0 ? Math.round(value / stepDeg) * stepDeg : value)
+    })
+    return () => subscription.remove()
+  }, [enabled, stepDeg])
+
+  return roll
+}
@@ -0,0 +1,86 @@
+/**
+ * Hook for push-to-talk voice over the live WebRTC session.
+ * While `enabled` (the pushToTalk setting) and `active` (connected), the mic is
+ * part of the session but muted; holding the talk button unmutes it. Both
+ * sides send `voice` commands so each can show the other's mute state.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { webrtcService } from '../services/webrtc'
+import { sessionLogger } from '../services/sessionLogger'
+import type { RemoteCommand } from '../schemas/commands'
+
+export interface PartnerVoiceState {
+  enabled: boolean
+  talking: boolean
+}
+
+interface UseVoiceChannelOptions {
+  enabled: boolean
+  active: boolean
+  /** Untracked send to the partner - voice state is superseded by the next message */
+  send: (command: RemoteCommand) => Promise<void>
+}
+
+export function useVoiceChannel({ enabled, active, send }: UseVoiceChannelOptions) {
+  const [isReady, setIsReady] = useState(false)
+  const [isTalking, setIsTalking] = useState(false)
+  const [partner, setPartner] = useState<PartnerVoiceState>({ enabled: false, talking: false })
+
+  // Latest sender without re-running the mic effect on every render
+  const sendRef = useRef(send)
+  sendRef.current = send
+
+  const announce = useCallback((state: PartnerVoiceState) => {
+    sendRef.current({ type: 'voice', ...state })
+      .catch((error) => sessionLogger.warn('voice_state_send_failed', { errorMessage: (error as Error)?.message }))
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || !active) return
+
+    let isMounted = true
+    webrtcService.enableVoice()
+      .then(() => {
+        if (!isMounted) return
+        setIsReady(true)
+        announce({ enabled: true, talking: false })
+      })
+      .catch((error) => {
+        sessionLogger.error('voice_enable_failed', error)
+      })
+
+    return () => {
+      isMounted = false
+      setIsReady(false)
+      setIsTalking(false)
+      void webrtcService.disableVoice()
+      announce({ enabled: false, talking: false })
+    }
+  }, [enabled, active, announce])
+
+  // Partner left - nobody is talking
+  useEffect(() => {
+    if (!active) setPartner({ enabled: false, talking: false })
+  }, [active])
+
+  const startTalking = useCallback(() => {
+    if (!isReady) return
+    webrtcService.setVoiceTalking(true)
+    setIsTalking(true)
+    announce({ enabled: true, talking: true })
+  }, [isReady, announce])
+
+  const stopTalking = useCallback(() => {
+    if (!isReady) return
+    webrtcService.setVoiceTalking(false)
+    setIsTalking(false)
+    announce({ enabled: true, talking: false })
+  }, [isReady, announce])
+
+  const handleVoiceCommand = useCallback((command: Extract<RemoteCommand, { type: 'voice' }>) => {
+    setPartner({ enabled: command.enabled, talking: command.talking })
+  }, [])
+
+  return { isReady, isTalking, partner, startTalking, stopTalking, handleVoiceCommand }
+}
@@ -68,6 +68,47 @@ export const translations = {
         "Almost there! (that's what she said... about the photo)",
         "Remember: horizontal = good, vertical = also good, blurry = couch",
       ],
+      // Read aloud on the photographer's phone when a direction arrives
+      spoken: {
+        left: 'Move left',
+        right: 'Move right',
+        up: 'Move up',
+        down: 'Move down',
+        closer: 'Step closer',
+        back: 'Step back',
+        tilt_up: 'Tilt the camera up',
+        tilt_down: 'Tilt the camera down',
+        rotate_cw: 'Rotate clockwise',
+        rotate_ccw: 'Rotate counter-clockwise',
+        raise: 'Hold the phone higher',
+        lower: 'Hold the phone lower',
+        hold: 'Perfect, hold it',
+      },
+      // Added to the spoken prompt for small and large moves
+      spokenAmount: {
+        tiny: 'just a tiny bit',
+        large: 'a lot',
+      },
+      // Shown on the direction overlay
+      directionLabels: {
+        up: 'MOVE UP',
+        down: 'MOVE DOWN',
+        left: 'PAN LEFT',
+        right: 'PAN RIGHT',
+        closer: 'MOVE CLOSER',
+        back: 'STEP BACK',
+        tilt_up: 'TILT UP',
+        tilt_down: 'TILT DOWN',
+        rotate_cw: 'ROTATE RIGHT',
+        rotate_ccw: 'ROTATE LEFT',
+        raise: 'RAISE PHONE',
+        lower: 'LOWER PHONE',
+      },
+      directionFallback: 'ADJUST',
+      directionAmount: {
+        tiny: 'A TINY BIT',
+        large: 'A LOT',
+      },
     },
     
     // Viewer / Director
@@ -88,9 +129,54 @@ export const translations = {
         down: 'Down',
         closer: 'Closer',
         back: 'Back',
+        tilt_up: 'Tilt up',
+        tilt_down: 'Tilt down',
+        rotate_cw: 'Rotate ↻',
+        rotate_ccw: 'Rotate ↺',
+        raise: 'Raise',
+        lower: 'Lower',
+      },
+      directionAmount: {
+        tiny: 'a tiny bit',
+        large: 'a lot',
+      },
+      joystick: {
+        move: 'Move',
+        aim: 'Aim',
+        label: 'Direction joystick',
+        hint: 'Drag and release - the further you push, the bigger the move',
       },
       takePhoto: 'Perfect! Take it!',
       sent: 'Sent',
+      deliveryStatus: {
+        sending: 'Sending…',
+        sent: 'Sent',
+        received: 'Delivered',
+        executed: 'Done',
+        failed: 'Failed',
+        cancelled: 'Cancelled',
+        timeout: 'No response',
+      },
+    },
+    
+    // Quick phrases - director → photographer banner
+    phrases: {
+      presets: {
+        smile: 'Smile!',
+        hair: 'Fix your hair!',
+        turn_around: 'Turn the other way',
+        landscape: 'Landscape please',
+        portrait: 'Portrait please',
+        chin_down: 'Chin down a little',
+        relax: 'Relax your shoulders',
+        one_more: 'One more!',
+      },
+      button: 'Say',
+      custom: 'Your phrases',
+      placeholder: 'Type a message…',
+      send: 'Send',
+      fromDirector: 'From the director',
+      dismiss: 'Tap to dismiss',
     },
     
     // Gallery
@@ -102,12 +188,45 @@ export const translations = {
       noPhotos: 'No Photos Yet',
       noPhotosDesc: 'Approved photos will appear here',
       syncing: 'Syncing',
+      notDelivered: 'Not delivered',
       partner: 'Partner',
       share: 'Share',
       delete: 'Delete',
       download: 'Save',
     },
     
+    // Replay
+    replay: {
+      title: 'Session Replays',
+      empty: 'No Replays Yet',
+      emptyDesc: 'Sessions with directions or photos show up here',
+      loadFailed: 'Could not load this session',
+      back: 'All sessions',
+      duration: 'Duration',
+      commands: 'Directions',
+      photos: 'Photos',
+      quality: 'Quality',
+      disconnects: 'Drops',
+      play: 'Play',
+      pause: 'Pause',
+      scrubHint: 'Drag along the timeline',
+      nothingYet: 'Nothing yet at this point',
+      captured: 'Photo taken',
+      disconnected: 'Connection lost',
+      reconnected: 'Reconnected',
+      commandNames: {
+        capture: 'Capture',
+        flip: 'Flip camera',
+        flash: 'Flash',
+        switch_role: 'Switch roles',
+        countdown_start: 'Countdown',
+        countdown_cancel: 'Cancel countdown',
+        guides: 'Guides',
+        overlay: 'Overlay',
+        lens: 'Lens',
+      },
+    },
+    
     // Profile
     profile: {
       title: 'Profile',
@@ -143,9 +262,42 @@ export const translations = {
       flashDesc: 'Blind everyone equally',
       sound: 'Shutter Sound',
       autoSave: 'Auto-Save',
+      pushToTalk: 'Push-to-Talk',
+      pushToTalkDesc: 'Hold to talk to your partner. Mic stays off otherwise',
+      spokenDirections: 'Spoken Directions',
+      spokenDirectionsDesc: 'Read directions aloud so you can keep your eyes on the subject',
+      customPhrases: 'Quick Phrases',
+      customPhrasesDesc: 'Your own phrases in the director\'s palette',
+      addPhrase: 'Add',
+      phrasePlaceholder: 'e.g. Show the shoes!',
       connection: 'CONNECTION',
       language: 'LANGUAGE',
       selectLanguage: 'Select Language',
+      overlayStyle: 'Overlay Style',
+      rotateSpiral: 'Rotate spiral',
+      overlays: {
+        thirds: 'Thirds',
+        golden_ratio: 'Golden Ratio',
+        golden_spiral: 'Golden Spiral',
+        center_cross: 'Center',
+        diagonal: 'Diagonal',
+        square: 'Square',
+        ratio_4_5: '4:5',
+        ratio_9_16: '9:16',
+        ratio_16_9: '16:9',
+        level: 'Level',
+      },
+      videoCodec: 'Video Codec',
+      videoCodecDesc: 'Auto picks what both phones handle best and remembers what worked with each partner',
+      codecs: {
+        auto: 'Auto',
+        vp8: 'VP8',
+        vp9: 'VP9',
+        h264_baseline: 'H.264',
+        h264_high: 'H.264 High',
+      },
+      relayOnly: 'Relay-Only Connection',
+      relayOnlyDesc: 'Hide your IP address from your partner by sending video through a relay server. May be slower',
     },
     
     // Common
@@ -162,6 +314,21 @@ export const translations = {
       success: 'Nice!',
       retry: 'Try Again',
     },
+    
+    // Local Wi-Fi mode
+    lan: {
+      cloud: 'Online',
+      lan: 'Local Wi-Fi',
+      toggle: 'Local Wi-Fi only',
+      toggleDesc: 'Pair and connect without the internet. Both phones must be on the same Wi-Fi',
+      searching: 'Looking for your partner on this Wi-Fi...',
+      wrongCode: 'That code doesn\'t match the one on your partner\'s screen',
+      locked: 'Too many wrong codes. Ask your partner to show a new one',
+      notFound: 'Your partner\'s phone didn\'t answer. Check it\'s still showing the code',
+      pickPhone: 'Pick your partner\'s phone',
+      lookingForPhones: 'Looking for phones showing a code...',
+      unnamedPhone: 'Phone',
+    },
   },
   
   th: {
@@ -222,6 +389,44 @@ export const translations = {
         'เกือบแล้ว!',
         'จำไว้: แนวนอน = ดี, แนวตั้ง = ดี, เบลอ = นอนโซฟา',
       ],
+      spoken: {
+        left: 'ขยับไปทางซ้าย',
+        right: 'ขยับไปทางขวา',
+        up: 'ขยับขึ้น',
+        down: 'ขยับลง',
+        closer: 'เดินเข้ามาใกล้อีก',
+        back: 'ถอยหลังหน่อย',
+        tilt_up: 'เงยกล้องขึ้น',
+        tilt_down: 'ก้มกล้องลง',
+        rotate_cw: 'หมุนตามเข็มนาฬิกา',
+        rotate_ccw: 'หมุนทวนเข็มนาฬิกา',
+        raise: 'ยกมือถือให้สูงขึ้น',
+        lower: 'ลดมือถือให้ต่ำลง',
+        hold: 'เพอร์เฟค ค้างไว้',
+      },
+      spokenAmount: {
+        tiny: 'นิดเดียว',
+        large: 'เยอะๆ',
+      },
+      directionLabels: {
+        up: 'ขยับขึ้น',
+        down: 'ขยับลง',
+        left: 'แพนซ้าย',
+        right: 'แพนขวา',
+        closer: 'เข้ามาใกล้',
+        back: 'ถอยหลัง',
+        tilt_up: 'เงยกล้อง',
+        tilt_down: 'ก้มกล้อง',
+        rotate_cw: 'หมุนขวา',
+        rotate_ccw: 'หมุนซ้าย',
+        raise: 'ยกมือถือขึ้น',
+        lower: 'ลดมือถือลง',
+      },
+      directionFallback: 'ปรับ',
+      directionAmount: {
+        tiny: 'นิดเดียว',
+        large: 'เยอะๆ',
+      },
     },
     
     viewer: {
@@ -241,9 +446,53 @@ export const translations = {
         down: 'ลง',
         closer: 'เข้ามา',
         back: 'ถอย',
+        tilt_up: 'เงยขึ้น',
+        tilt_down: 'ก้มลง',
+        rotate_cw: 'หมุน ↻',
+        rotate_ccw: 'หมุน ↺',
+        raise: 'ยกสูง',
+        lower: 'ลดต่ำ',
+      },
+      directionAmount: {
+        tiny: 'นิดเดียว',
+        large: 'เยอะๆ',
+      },
+      joystick: {
+        move: 'เลื่อน',
+        aim: 'เล็ง',
+        label: 'จอยสติ๊กบอกทิศทาง',
+        hint: 'ลากแล้วปล่อย ยิ่งดันไกล ยิ่งขยับเยอะ',
       },
       takePhoto: 'เพอร์เฟค! กด!',
       sent: 'ส่งแล้ว',
+      deliveryStatus: {
+        sending: 'กำลังส่ง…',
+        sent: 'ส่งแล้ว',
+        received: 'ถึงแล้ว',
+        executed: 'เสร็จ',
+        failed: 'ล้มเหลว',
+        cancelled: 'ยกเลิกแล้ว',
+        timeout: 'ไม่ตอบ',
+      },
+    },
+    
+    phrases: {
+      presets: {
+        smile: 'ยิ้ม!',
+        hair: 'จัดผมหน่อย!',
+        turn_around: 'หันไปอีกทาง',
+        landscape: 'ขอแนวนอน',
+        portrait: 'ขอแนวตั้ง',
+        chin_down: 'ก้มคางลงนิดนึง',
+        relax: 'ผ่อนไหล่หน่อย',
+        one_more: 'อีกรูป!',
+      },
+      button: 'พูด',
+      custom: 'ประโยคของคุณ',
+      placeholder: 'พิมพ์ข้อความ…',
+      send: 'ส่ง',
+      fromDirector: 'จากผู้กำกับ',
+      dismiss: 'แตะเพื่อปิด',
     },
     
     gallery: {
@@ -254,12 +503,45 @@ export const translations = {
       noPhotos: 'ยังไม่มีรูป',
       noPhotosDesc: 'รูปที่ผ่านการอนุมัติจะแสดงที่นี่',
       syncing: 'กำลังซิงค์',
+      notDelivered: 'ส่งไม่สำเร็จ',
       partner: 'แฟน',
       share: 'แชร์',
       delete: 'ลบ',
       download: 'บันทึก',
     },
     
+    // Replay
+    replay: {
+      title: 'ย้อนดูเซสชัน',
+      empty: 'ยังไม่มีการบันทึก',
+      emptyDesc: 'เซสชันที่มีการสั่งหรือถ่ายรูปจะแสดงที่นี่',
+      loadFailed: 'โหลดเซสชันนี้ไม่ได้',
+      back: 'เซสชันทั้งหมด',
+      duration: 'ระยะเวลา',
+      commands: 'คำสั่ง',
+      photos: 'รูป',
+      quality: 'คุณภาพ',
+      disconnects: 'หลุด',
+      play: 'เล่น',
+      pause: 'หยุด',
+      scrubHint: 'ลากไปตามไทม์ไลน์',
+      nothingYet: 'ยังไม่มีอะไร ณ จุดนี้',
+      captured: 'ถ่ายรูปแล้ว',
+      disconnected: 'การเชื่อมต่อหลุด',
+      reconnected: 'เชื่อมต่อใหม่แล้ว',
+      commandNames: {
+        capture: 'ถ่าย',
+        flip: 'สลับกล้อง',
+        flash: 'แฟลช',
+        switch_role: 'สลับบทบาท',
+        countdown_start: 'นับถอยหลัง',
+        countdown_cancel: 'ยกเลิกนับถอยหลัง',
+        guides: 'เส้นช่วย',
+        overlay: 'ภาพซ้อน',
+        lens: 'เลนส์',
+      },
+    },
+    
     profile: {
       title: 'โปรไฟล์',
       displayName: 'ชื่อ',
@@ -293,9 +575,42 @@ export const translations = {
       flashDesc: 'ตาบอดเท่าเทียมกัน',
       sound: 'เสียงชัตเตอร์',
       autoSave: 'บันทึกอัตโนมัติ',
+      pushToTalk: 'กดค้างเพื่อพูด',
+      pushToTalkDesc: 'กดค้างเพื่อคุยกับคู่ของคุณ ไมค์ปิดอยู่เสมอเมื่อไม่ได้กด',
+      spokenDirections: 'อ่านคำสั่งออกเสียง',
+      spokenDirectionsDesc: 'อ่านคำสั่งให้ฟัง จะได้มองที่ตัวแบบได้ตลอด',
+      customPhrases: 'ประโยคด่วน',
+      customPhrasesDesc: 'ประโยคของคุณเองในแผงของผู้กำกับ',
+      addPhrase: 'เพิ่ม',
+      phrasePlaceholder: 'เช่น ถ่ายให้เห็นรองเท้าด้วย!',
       connection: 'การเชื่อมต่อ',
       language: 'ภาษา',
       selectLanguage: 'เลือกภาษา',
+      overlayStyle: 'รูปแบบเส้นช่วย',
+      rotateSpiral: 'หมุนเกลียว',
+      overlays: {
+        thirds: 'สามส่วน',
+        golden_ratio: 'อัตราส่วนทองคำ',
+        golden_spiral: 'เกลียวทองคำ',
+        center_cross: 'กึ่งกลาง',
+        diagonal: 'เส้นทแยง',
+        square: 'สี่เหลี่ยมจัตุรัส',
+        ratio_4_5: '4:5',
+        ratio_9_16: '9:16',
+        ratio_16_9: '16:9',
+        level: 'ระดับน้ำ',
+      },
+      videoCodec: 'ตัวเข้ารหัสวิดีโอ',
+      videoCodecDesc: 'อัตโนมัติจะเลือกแบบที่ทั้งสองเครื่องรองรับได้ดีที่สุด และจำแบบที่ใช้ได้กับคู่แต่ละคน',
+      codecs: {
+        auto: 'อัตโนมัติ',
+        vp8: 'VP8',
+        vp9: 'VP9',
+        h264_baseline: 'H.264',
+        h264_high: 'H.264 High',
+      },
+      relayOnly: 'เชื่อมต่อผ่านรีเลย์เท่านั้น',
+      relayOnlyDesc: 'ซ่อนที่อยู่ IP จากคู่ของคุณ โดยส่งวิดีโอผ่านเซิร์ฟเวอร์รีเลย์ อาจช้าลง',
     },
     
     common: {
@@ -311,6 +626,21 @@ export const translations = {
       success: 'เยี่ยม!',
       retry: 'ลองอีกครั้ง',
     },
+    
+    // Local Wi-Fi mode
+    lan: {
+      cloud: 'ออนไลน์',
+      lan: 'Wi-Fi ในพื้นที่',
+      toggle: 'ใช้ Wi-Fi ในพื้นที่เท่านั้น',
+      toggleDesc: 'จับคู่และเชื่อมต่อโดยไม่ใช้อินเทอร์เน็ต ทั้งสองเครื่องต้องอยู่ใน Wi-Fi เดียวกัน',
+      searching: 'กำลังหาแฟนของคุณใน Wi-Fi นี้...',
+      wrongCode: 'รหัสไม่ตรงกับที่แสดงบนจอของแฟน',
+      locked: 'ใส่รหัสผิดหลายครั้งเกินไป ให้แฟนสร้างรหัสใหม่',
+      notFound: 'เครื่องของแฟนไม่ตอบ ดูว่ายังแสดงรหัสอยู่ไหม',
+      pickPhone: 'เลือกเครื่องของแฟน',
+      lookingForPhones: 'กำลังหาเครื่องที่แสดงรหัส...',
+      unnamedPhone: 'มือถือ',
+    },
   },
   
   zh: {
@@ -371,6 +701,44 @@ export const translations = {
         '快成功了！',
         '记住：横着好，竖着也好，糊了=睡沙发',
       ],
+      spoken: {
+        left: '往左移',
+        right: '往右移',
+        up: '往上移',
+        down: '往下移',
+        closer: '靠近一点',
+        back: '退后一点',
+        tilt_up: '镜头往上仰',
+        tilt_down: '镜头往下俯',
+        rotate_cw: '顺时针转',
+        rotate_ccw: '逆时针转',
+        raise: '把手机举高',
+        lower: '把手机放低',
+        hold: '完美，别动',
+      },
+      spokenAmount: {
+        tiny: '一点点就好',
+        large: '多一点',
+      },
+      directionLabels: {
+        up: '往上移',
+        down: '往下移',
+        left: '向左摇',
+        right: '向右摇',
+        closer: '靠近',
+        back: '后退',
+        tilt_up: '上仰',
+        tilt_down: '下俯',
+        rotate_cw: '向右转',
+        rotate_ccw: '向左转',
+        raise: '举高手机',
+        lower: '放低手机',
+      },
+      directionFallback: '调整',
+      directionAmount: {
+        tiny: '一点点',
+        large: '多一点',
+      },
     },
     
     viewer: {
@@ -390,9 +758,53 @@ export const translations = {
         down: '下',
         closer: '近点',
         back: '退后',
+        tilt_up: '上仰',
+        tilt_down: '下俯',
+        rotate_cw: '旋转 ↻',
+        rotate_ccw: '旋转 ↺',
+        raise: '举高',
+        lower: '放低',
+      },
+      directionAmount: {
+        tiny: '一点点',
+        large: '多一点',
+      },
+      joystick: {
+        move: '移动',
+        aim: '瞄准',
+        label: '方向摇杆',
+        hint: '拖动后松开，推得越远，移动越大',
       },
       takePhoto: '完美！拍！',
       sent: '已发送',
+      deliveryStatus: {
+        sending: '发送中…',
+        sent: '已发送',
+        received: '已送达',
+        executed: '完成',
+        failed: '失败',
+        cancelled: '已取消',
+        timeout: '无响应',
+      },
+    },
+    
+    phrases: {
+      presets: {
+        smile: '笑一个！',
+        hair: '整理一下头发！',
+        turn_around: '转到另一边',
+        landscape: '请横拍',
+        portrait: '请竖拍',
+        chin_down: '下巴收一点',
+        relax: '肩膀放松',
+        one_more: '再来一张！',
+      },
+      button: '说话',
+      custom: '我的短语',
+      placeholder: '输入消息…',
+      send: '发送',
+      fromDirector: '来自导演',
+      dismiss: '点击关闭',
     },
     
     gallery: {
@@ -403,12 +815,45 @@ export const translations = {
       noPhotos: '还没有照片',
       noPhotosDesc: '通过审核的照片会显示在这里',
       syncing: '同步中',
+      notDelivered: '未送达',
       partner: '对象',
       share: '分享',
       delete: '删除',
       download: '保存',
     },
     
+    // Replay
+    replay: {
+      title: '会话回放',
+      empty: '暂无回放',
+      emptyDesc: '有指令或照片的会话会显示在这里',
+      loadFailed: '无法加载此会话',
+      back: '全部会话',
+      duration: '时长',
+      commands: '指令',
+      photos: '照片',
+      quality: '质量',
+      disconnects: '断线',
+      play: '播放',
+      pause: '暂停',
+      scrubHint: '沿时间轴拖动',
+      nothingYet: '此刻还没有内容',
+      captured: '已拍照',
+      disconnected: '连接中断',
+      reconnected: '已重新连接',
+      commandNames: {
+        capture: '拍摄',
+        flip: '翻转镜头',
+        flash: '闪光灯',
+        switch_role: '切换角色',
+        countdown_start: '倒计时',
+        countdown_cancel: '取消倒计时',
+        guides: '参考线',
+        overlay: '叠加',
+        lens: '镜头',
+      },
+    },
+    
     profile: {
       title: '个人资料',
       displayName: '昵称',
@@ -442,9 +887,42 @@ export const translations = {
       flashDesc: '公平地闪瞎所有人',
       sound: '快门声',
       autoSave: '自动保存',
+      pushToTalk: '按住说话',
+      pushToTalkDesc: '按住即可与伙伴通话，其余时间麦克风保持关闭',
+      spokenDirections: '语音指令',
+      spokenDirectionsDesc: '朗读指令，眼睛可以一直看着拍摄对象',
+      customPhrases: '快捷短语',
+      customPhrasesDesc: '导演面板中你自己的短语',
+      addPhrase: '添加',
+      phrasePlaceholder: '例如：把鞋子拍进去！',
       connection: '连接',
       language: '语言',
       selectLanguage: '选择语言',
+      overlayStyle: '辅助线样式',
+      rotateSpiral: '旋转螺旋',
+      overlays: {
+        thirds: '三分法',
+        golden_ratio: '黄金比例',
+        golden_spiral: '黄金螺旋',
+        center_cross: '中心',
+        diagonal: '对角线',
+        square: '正方形',
+        ratio_4_5: '4:5',
+        ratio_9_16: '9:16',
+        ratio_16_9: '16:9',
+        level: '水平仪',
+      },
+      videoCodec: '视频编码',
+      videoCodecDesc: '自动选择两台手机都支持得最好的编码，并记住与每位搭档成功使用过的编码',
+      codecs: {
+        auto: '自动',
+        vp8: 'VP8',
+        vp9: 'VP9',
+        h264_baseline: 'H.264',
+        h264_high: 'H.264 High',
+      },
+      relayOnly: '仅通过中继连接',
+      relayOnlyDesc: '通过中继服务器传输视频，不让搭档看到你的 IP 地址。可能会变慢',
     },
     
     common: {
@@ -460,6 +938,21 @@ export const translations = {
       success: '很棒！',
       retry: '重试',
     },
+    
+    // Local Wi-Fi mode
+    lan: {
+      cloud: '在线',
+      lan: '本地 Wi-Fi',
+      toggle: '仅使用本地 Wi-Fi',
+      toggleDesc: '无需互联网即可配对和连接。两部手机需连接同一个 Wi-Fi',
+      searching: '正在此 Wi-Fi 中寻找你的伴侣...',
+      wrongCode: '配对码与伴侣屏幕上的不一致',
+      locked: '错误次数过多，请让伴侣重新生成配对码',
+      notFound: '对方的手机没有回应，看看是否还在显示配对码',
+      pickPhone: '选择对方的手机',
+      lookingForPhones: '正在寻找显示配对码的手机...',
+      unnamedPhone: '手机',
+    },
   },
   
   ja: {
@@ -520,6 +1013,44 @@ export const translations = {
         'もうすぐ！',
         '覚えて：横=OK、縦=OK、ブレ=ソファで寝る',
       ],
+      spoken: {
+        left: '左に動いて',
+        right: '右に動いて',
+        up: '上に動いて',
+        down: '下に動いて',
+        closer: 'もっと近づいて',
+        back: '少し下がって',
+        tilt_up: 'カメラを上に向けて',
+        tilt_down: 'カメラを下に向けて',
+        rotate_cw: '時計回りに回して',
+        rotate_ccw: '反時計回りに回して',
+        raise: 'スマホを高く構えて',
+        lower: 'スマホを低く構えて',
+        hold: '完璧、そのまま',
+      },
+      spokenAmount: {
+        tiny: 'ほんの少しだけ',
+        large: '大きく',
+      },
+      directionLabels: {
+        up: '上へ',
+        down: '下へ',
+        left: '左へパン',
+        right: '右へパン',
+        closer: '近づいて',
+        back: '下がって',
+        tilt_up: '上向き',
+        tilt_down: '下向き',
+        rotate_cw: '右に回転',
+        rotate_ccw: '左に回転',
+        raise: 'スマホを上げて',
+        lower: 'スマホを下げて',
+      },
+      directionFallback: '調整',
+      directionAmount: {
+        tiny: 'ほんの少し',
+        large: '大きく',
+      },
     },
     
     viewer: {
@@ -539,9 +1070,53 @@ export const translations = {
         down: '下',
         closer: '近く',
         back: '後ろ',
+        tilt_up: '上向き',
+        tilt_down: '下向き',
+        rotate_cw: '回転 ↻',
+        rotate_ccw: '回転 ↺',
+        raise: '高く',
+        lower: '低く',
+      },
+      directionAmount: {
+        tiny: 'ほんの少し',
+        large: '大きく',
+      },
+      joystick: {
+        move: '移動',
+        aim: '向き',
+        label: '方向ジョイスティック',
+        hint: 'ドラッグして離す。遠くまで押すほど大きく動きます',
       },
       takePhoto: '完璧！撮って！',
       sent: '送信済み',
+      deliveryStatus: {
+        sending: '送信中…',
+        sent: '送信済み',
+        received: '到着',
+        executed: '完了',
+        failed: '失敗',
+        cancelled: 'キャンセル済み',
+        timeout: '応答なし',
+      },
+    },
+    
+    phrases: {
+      presets: {
+        smile: '笑って！',
+        hair: '髪を直して！',
+        turn_around: '反対を向いて',
+        landscape: '横向きでお願い',
+        portrait: '縦向きでお願い',
+        chin_down: 'あごを少し引いて',
+        relax: '肩の力を抜いて',
+        one_more: 'もう一枚！',
+      },
+      button: '伝える',
+      custom: 'マイフレーズ',
+      placeholder: 'メッセージを入力…',
+      send: '送信',
+      fromDirector: 'ディレクターから',
+      dismiss: 'タップで閉じる',
     },
     
     gallery: {
@@ -552,12 +1127,45 @@ export const translations = {
       noPhotos: 'まだ写真がありません',
       noPhotosDesc: '承認された写真がここに表示されます',
       syncing: '同期中',
+      notDelivered: '未配信',
       partner: 'パートナー',
       share: '共有',
       delete: '削除',
       download: '保存',
     },
     
+    // Replay
+    replay: {
+      title: 'セッション再生',
+      empty: '再生できる記録はありません',
+      emptyDesc: '指示や写真があったセッションがここに表示されます',
+      loadFailed: 'このセッションを読み込めません',
+      back: 'すべてのセッション',
+      duration: '時間',
+      commands: '指示',
+      photos: '写真',
+      quality: '品質',
+      disconnects: '切断',
+      play: '再生',
+      pause: '一時停止',
+      scrubHint: 'タイムラインに沿ってドラッグ',
+      nothingYet: 'この時点ではまだ何もありません',
+      captured: '撮影しました',
+      disconnected: '接続が切れました',
+      reconnected: '再接続しました',
+      commandNames: {
+        capture: '撮影',
+        flip: 'カメラ切替',
+        flash: 'フラッシュ',
+        switch_role: '役割を交代',
+        countdown_start: 'カウントダウン',
+        countdown_cancel: 'カウントダウン中止',
+        guides: 'ガイド',
+        overlay: 'オーバーレイ',
+        lens: 'レンズ',
+      },
+    },
+    
     profile: {
       title: 'プロフィール',
       displayName: '表示名',
@@ -591,9 +1199,42 @@ export const translations = {
       flashDesc: '平等に目をくらませる',
       sound: 'シャッター音',
       autoSave: '自動保存',
+      pushToTalk: 'プッシュトーク',
+      pushToTalkDesc: '押している間だけパートナーと話せます。それ以外はマイクオフ',
+      spokenDirections: '音声で指示',
+      spokenDirectionsDesc: '指示を読み上げるので、被写体から目を離さずに済みます',
+      customPhrases: 'クイックフレーズ',
+      customPhrasesDesc: 'ディレクターのパレットに出す自分のフレーズ',
+      addPhrase: '追加',
+      phrasePlaceholder: '例：靴も入れて！',
       connection: '接続',
       language: '言語',
       selectLanguage: '言語を選択',
+      overlayStyle: 'ガイドの種類',
+      rotateSpiral: 'らせんを回転',
+      overlays: {
+        thirds: '三分割',
+        golden_ratio: '黄金比',
+        golden_spiral: '黄金らせん',
+        center_cross: '中心',
+        diagonal: '対角線',
+        square: '正方形',
+        ratio_4_5: '4:5',
+        ratio_9_16: '9:16',
+        ratio_16_9: '16:9',
+        level: '水平器',
+      },
+      videoCodec: '動画コーデック',
+      videoCodecDesc: '自動では両方のスマホに最適なものを選び、相手ごとにうまくいったものを記憶します',
+      codecs: {
+        auto: '自動',
+        vp8: 'VP8',
+        vp9: 'VP9',
+        h264_baseline: 'H.264',
+        h264_high: 'H.264 High',
+      },
+      relayOnly: 'リレー経由のみで接続',
+      relayOnlyDesc: '映像をリレーサーバー経由で送り、相手にIPアドレスを見せません。遅くなる場合があります',
     },
     
     common: {
@@ -609,6 +1250,21 @@ export const translations = {
       success: 'いいね！',
       retry: '再試行',
     },
+    
+    // Local Wi-Fi mode
+    lan: {
+      cloud: 'オンライン',
+      lan: 'ローカル Wi-Fi',
+      toggle: 'ローカル Wi-Fi のみ',
+      toggleDesc: 'インターネットなしでペアリング・接続します。両方のスマホを同じ Wi-Fi に接続してください',
+      searching: 'この Wi-Fi でパートナーを探しています...',
+      wrongCode: 'パートナーの画面のコードと一致しません',
+      locked: '間違いが多すぎます。パートナーに新しいコードを表示してもらってください',
+      notFound: '相手のスマホから応答がありません。コードが表示されたままか確認してください',
+      pickPhone: '相手のスマホを選んでください',
+      lookingForPhones: 'コードを表示しているスマホを探しています...',
+      unnamedPhone: 'スマホ',
+    },
   },
 }
 
@@ -0,0 +1,671 @@
+/**
+ * Remote Command Schema
+ *
+ * Typed, versioned protocol for director ↔ photographer commands.
+ * Commands travel over the transports as `(command, data)` pairs; this module
+ * turns them into a discriminated union and back, and validates everything
+ * that arrives from the partner device.
+ *
+ * Versioning:
+ * - New command types and new optional fields are additive and do NOT bump
+ *   the version - an older partner reports them as `unknown_command`.
+ * - Bump COMMAND_PROTOCOL_VERSION only for breaking payload changes.
+ */
+
+import type { ValidationResult } from './index'
+import type { CameraSettings, CameraStateSnapshot } from '../types'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Protocol Version
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const COMMAND_PROTOCOL_VERSION = 1
+
+/** Oldest protocol version we can still understand */
+export const MIN_COMMAND_PROTOCOL_VERSION = 1
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const DIRECTIONS = [
+  'up', 'down', 'left', 'right', 'closer', 'back',
+  // Finer-grained: aim the lens, roll the phone, change its height
+  'tilt_up', 'tilt_down', 'rotate_cw', 'rotate_ccw', 'raise', 'lower',
+] as const
+
+export type Direction = typeof DIRECTIONS[number]
+
+/**
+ * How far to move, 0 (a tiny bit) to 1 (a lot). Optional on the wire -
+ * directions without one mean a normal step.
+ */
+export const DEFAULT_DIRECTION_MAGNITUDE = 0.5
+
+/** Preset phrases - sent as a key, shown in the photographer's language */
+export const QUICK_PHRASES = [
+  'smile', 'hair', 'turn_around', 'landscape', 'portrait', 'chin_down', 'relax', 'one_more',
+] as const
+
+export type QuickPhrase = typeof QUICK_PHRASES[number]
+
+/** Longest free-text message, in characters */
+export const MAX_MESSAGE_LENGTH = 120
+
+export type SwitchRoleTarget = 'director' | 'photographer'
+
+/** How many frames a capture takes - see src/utils/captureSequence.ts */
+export type CaptureMode = 'single' | 'burst'
+
+export const CAPTURE_MODES = ['single', 'burst'] as const
+
+export const BURST_FRAME_LIMITS = { min: 2, max: 10 }
+
+export const BURST_INTERVAL_LIMITS_MS = { min: 100, max: 2000 }
+
+/** Self-timer lengths the director can pick */
+export const COUNTDOWN_SECONDS = [3, 5, 10] as const
+
+export type CountdownSeconds = typeof COUNTDOWN_SECONDS[number]
+
+export type UnsupportedReason =
+  | 'unknown_command'       // Command type not known to this build
+  | 'incompatible_version'  // Protocol version outside the supported range
+  | 'invalid_payload'       // Known command, malformed data
+  | 'not_handled'           // Valid command, but not accepted by this role
+
+/** Shapes the director can draw over the live feed - see src/components/FramingGuides.tsx */
+export const GUIDE_KINDS = ['circle', 'arrow', 'box', 'horizon'] as const
+
+export type GuideKind = typeof GUIDE_KINDS[number]
+
+/** Point in normalized frame coordinates: (0, 0) is top-left, (1, 1) bottom-right */
+export interface GuidePoint {
+  x: number
+  y: number
+}
+
+/**
+ * One drawn guide, defined by the drag that created it:
+ * circle = center → edge, arrow = tail → head, box = opposite corners,
+ * horizon = two points on the line (drawn edge to edge)
+ */
+export interface FramingGuide {
+  id: string
+  kind: GuideKind
+  start: GuidePoint
+  end: GuidePoint
+}
+
+export const MAX_FRAMING_GUIDES = 12
+
+/** Composition overlays for the camera preview - see src/components/GridOverlay.tsx */
+export const COMPOSITION_OVERLAYS = [
+  'thirds',
+  'golden_ratio',
+  'golden_spiral',
+  'center_cross',
+  'diagonal',
+  'square',
+  'ratio_4_5',
+  'ratio_9_16',
+  'ratio_16_9',
+  'level',
+] as const
+
+export type CompositionOverlay = typeof COMPOSITION_OVERLAYS[number]
+
+/** Clockwise rotation of the golden spiral, in degrees */
+export const SPIRAL_ROTATIONS = [0, 90, 180, 270] as const
+
+export type SpiralRotation = typeof SPIRAL_ROTATIONS[number]
+
+export const CAMERA_FACINGS = ['front', 'back'] as const
+
+export type CameraFacing = typeof CAMERA_FACINGS[number]
+
+export const FLASH_MODES = ['off', 'on', 'auto'] as const
+
+export type FlashMode = typeof FLASH_MODES[number]
+
+/** Live stream presets - low / balanced / high */
+export const STREAM_QUALITIES: readonly CameraSettings['quality'][] = ['low', 'medium', 'high']
+
+/** What the stream gives up first when bandwidth runs short: sharpness keeps frames coming, and vice versa */
+export const STREAM_PREFERENCES = ['smoothness', 'sharpness'] as const
+
+export type StreamPreference = typeof STREAM_PREFERENCES[number]
+
+/** Most lenses a camera_state report may list */
+export const MAX_CAMERA_LENSES = 8
+
+/** Delivery stages the camera reports back for a command that carried an id */
+export type AckStatus = 'received' | 'executed' | 'failed' | 'cancelled'
+
+export type RemoteCommandPayload =
+  | { type: 'capture'; mode?: CaptureMode; frames?: number; intervalMs?: number }
+  /** Without a target these toggle - builds that know the camera's state send the target */
+  | { type: 'flip'; facing?: CameraFacing }
+  | { type: 'flash'; mode?: FlashMode }
+  | { type: 'direction'; direction: Direction; magnitude?: number }
+  | { type: 'switch_role'; newRole: SwitchRoleTarget }
+  | {
+      type: 'countdown_start'
+      countdownId: string
+      seconds: CountdownSeconds
+      /** Sender's epoch ms at which the countdown starts - both devices count from here */
+      startAt: number
+      mode?: CaptureMode
+      frames?: number
+      intervalMs?: number
+    }
+  | { type: 'countdown_cancel'; countdownId: string }
+  /** Full set of guides - replaces the partner's copy, an empty list clears them */
+  | { type: 'guides'; guides: FramingGuide[] }
+  /** Switch the photographer's composition overlay */
+  | { type: 'overlay'; visible: boolean; overlay: CompositionOverlay; spiralRotation?: SpiralRotation }
+  /** Manual camera controls - the camera answers each with a camera_state report */
+  | { type: 'zoom'; zoom: number }
+  | { type: 'lens'; lens: string }
+  /** Director → photographer banner: a preset phrase or free text (custom presets are sent as text) */
+  | { type: 'message'; phrase?: QuickPhrase; text?: string }
+  /** Director's choice of live stream quality - the camera adapts within it */
+  | { type: 'stream_quality'; quality: CameraSettings['quality']; preference: StreamPreference }
+  /** Push-to-talk state of the sender's mic - either side sends it */
+  | { type: 'voice'; enabled: boolean; talking: boolean }
+  /** Camera → director: state snapshot, sent on change and on a heartbeat */
+  | { type: 'camera_state'; state: CameraStateSnapshot }
+  | { type: 'ack'; commandId: string; status: AckStatus; error?: string }
+  | {
+      type: 'unsupported'
+      command: string
+      reason: UnsupportedReason
+      protocolVersion: number
+      commandId?: string
+    }
+
+export type RemoteCommand = RemoteCommandPayload & {
+  /** Sender-assigned id, echoed back in acks. Optional - older builds don't send one. */
+  id?: string
+}
+
+export type RemoteCommandType = RemoteCommand['type']
+
+export interface CommandValidationResult extends ValidationResult<RemoteCommand> {
+  error?: UnsupportedReason
+}
+
+/**
+ * Commands each role is willing to execute.
+ * Anything else is answered with an `unsupported` reply.
+ */
+export const CAMERA_COMMANDS: readonly RemoteCommandType[] = [
+  'capture',
+  'flip',
+  'flash',
+  'direction',
+  'switch_role',
+  'countdown_start',
+  'countdown_cancel',
+  'guides',
+  'overlay',
+  'zoom',
+  'lens',
+  'message',
+  'stream_quality',
+  'voice',
+  'unsupported',
+]
+
+export const DIRECTOR_COMMANDS: readonly RemoteCommandType[] = [
+  'switch_role',
+  'countdown_cancel',
+  'guides',
+  'camera_state',
+  'voice',
+  'ack',
+  'unsupported',
+]
+
+const COMMAND_TYPES: readonly RemoteCommandType[] = [
+  'capture',
+  'flip',
+  'flash',
+  'direction',
+  'switch_role',
+  'countdown_start',
+  'countdown_cancel',
+  'guides',
+  'overlay',
+  'zoom',
+  'lens',
+  'message',
+  'stream_quality',
+  'voice',
+  'camera_state',
+  'ack',
+  'unsupported',
+]
+
+const ACK_STATUSES: readonly AckStatus[] = ['received', 'executed', 'failed', 'cancelled']
+
+/** Max length of ids and echoed strings we accept from the partner */
+const MAX_ID_LENGTH = 64
+
+const UNSUPPORTED_REASONS: readonly UnsupportedReason[] = [
+  'unknown_command',
+  'incompatible_version',
+  'invalid_payload',
+  'not_handled',
+]
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Validators
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function isDirection(value: unknown): value is Direction {
+  return typeof value === 'string' && (DIRECTIONS as readonly string[]).includes(value)
+}
+
+export function isRemoteCommandType(value: unknown): value is RemoteCommandType {
+  return typeof value === 'string' && (COMMAND_TYPES as readonly string[]).includes(value)
+}
+
+function isCommandId(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0 && value.length <= MAX_ID_LENGTH
+}
+
+/**
+ * Commands that acknowledge other commands - these are never acked themselves
+ */
+export function isReplyCommand(command: RemoteCommand): boolean {
+  return command.type === 'ack' || command.type === 'unsupported'
+}
+
+/**
+ * Create a unique command id
+ */
+export function createCommandId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Read the protocol version from a payload.
+ * Builds that predate the protocol sent no version - they speak v1.
+ */
+export function getProtocolVersion(data?: Record<string, unknown>): number {
+  const version = data?.protocolVersion
+  return typeof version === 'number' && Number.isInteger(version) ? version : 1
+}
+
+/**
+ * Validate a raw `(command, data)` pair received from a transport
+ */
+export function validateRemoteCommand(
+  command: unknown,
+  data?: Record<string, unknown>
+): CommandValidationResult {
+  const version = getProtocolVersion(data)
+  if (version < MIN_COMMAND_PROTOCOL_VERSION || version > COMMAND_PROTOCOL_VERSION) {
+    return { success: false, error: 'incompatible_version' }
+  }
+
+  if (!isRemoteCommandType(command)) {
+    return { success: false, error: 'unknown_command' }
+  }
+
+  if (data?.id !== undefined && !isCommandId(data.id)) {
+    return { success: false, error: 'invalid_payload', fieldErrors: { id: 'Invalid command id' } }
+  }
+
+  const result = validatePayload(command, version, data)
+  if (result.success && result.data && isCommandId(data?.id)) {
+    result.data.id = data.id
+  }
+  return result
+}
+
+function validatePayload(
+  command: RemoteCommandType,
+  version: number,
+  data?: Record<string, unknown>
+): CommandValidationResult {
+  switch (command) {
+    case 'capture':
+      return validateCapture(data)
+
+    case 'flip':
+      if (data?.facing !== undefined && !(CAMERA_FACINGS as readonly unknown[]).includes(data.facing)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { facing: 'Must be front or back' } }
+      }
+      return { success: true, data: { type: 'flip', facing: data?.facing as CameraFacing | undefined } }
+
+    case 'flash':
+      if (data?.mode !== undefined && !(FLASH_MODES as readonly unknown[]).includes(data.mode)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { mode: 'Unknown flash mode' } }
+      }
+      return { success: true, data: { type: 'flash', mode: data?.mode as FlashMode | undefined } }
+
+    case 'direction':
+      if (!isDirection(data?.direction)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { direction: 'Unknown direction' } }
+      }
+      if (data?.magnitude !== undefined && !isNumberInRange(data.magnitude, { min: 0, max: 1 })) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { magnitude: 'Magnitude must be between 0 and 1' } }
+      }
+      return {
+        success: true,
+        data: { type: 'direction', direction: data.direction, magnitude: data?.magnitude as number | undefined },
+      }
+
+    case 'switch_role':
+      if (data?.newRole !== 'director' && data?.newRole !== 'photographer') {
+        return { success: false, error: 'invalid_payload', fieldErrors: { newRole: 'Must be director or photographer' } }
+      }
+      return { success: true, data: { type: 'switch_role', newRole: data.newRole } }
+
+    case 'countdown_start': {
+      const capture = validateCapture(data)
+      if (!capture.success || capture.data?.type !== 'capture') return capture
+      if (!isCommandId(data?.countdownId)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { countdownId: 'Invalid countdown id' } }
+      }
+      if (!(COUNTDOWN_SECONDS as readonly unknown[]).includes(data.seconds)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { seconds: 'Unsupported countdown length' } }
+      }
+      if (typeof data.startAt !== 'number' || !Number.isFinite(data.startAt)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { startAt: 'Invalid start time' } }
+      }
+      return {
+        success: true,
+        data: {
+          type: 'countdown_start',
+          countdownId: data.countdownId,
+          seconds: data.seconds as CountdownSeconds,
+          startAt: data.startAt,
+          mode: capture.data.mode,
+          frames: capture.data.frames,
+          intervalMs: capture.data.intervalMs,
+        },
+      }
+    }
+
+    case 'countdown_cancel':
+      if (!isCommandId(data?.countdownId)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { countdownId: 'Invalid countdown id' } }
+      }
+      return { success: true, data: { type: 'countdown_cancel', countdownId: data.countdownId } }
+
+    case 'guides':
+      return validateGuides(data?.guides)
+
+    case 'overlay':
+      if (typeof data?.visible !== 'boolean' || !(COMPOSITION_OVERLAYS as readonly unknown[]).includes(data.overlay)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { overlay: 'Unknown overlay' } }
+      }
+      if (data.spiralRotation !== undefined && !(SPIRAL_ROTATIONS as readonly unknown[]).includes(data.spiralRotation)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { spiralRotation: 'Unsupported rotation' } }
+      }
+      return {
+        success: true,
+        data: {
+          type: 'overlay',
+          visible: data.visible,
+          overlay: data.overlay as CompositionOverlay,
+          spiralRotation: data.spiralRotation as SpiralRotation | undefined,
+        },
+      }
+
+    case 'zoom':
+      if (!isNumberInRange(data?.zoom, { min: 0, max: 1 })) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { zoom: 'Zoom must be between 0 and 1' } }
+      }
+      return { success: true, data: { type: 'zoom', zoom: data.zoom } }
+
+    case 'lens':
+      if (!isCommandId(data?.lens)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { lens: 'Invalid lens' } }
+      }
+      return { success: true, data: { type: 'lens', lens: data.lens } }
+
+    case 'message':
+      return validateMessage(data)
+
+    case 'stream_quality':
+      if (!(STREAM_QUALITIES as readonly unknown[]).includes(data?.quality)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { quality: 'Unknown stream quality' } }
+      }
+      if (!(STREAM_PREFERENCES as readonly unknown[]).includes(data?.preference)) {
+        return { success: false, error: 'invalid_payload', fieldErrors: { preference: 'Must be smoothness or sharpness' } }
+      }
+      return {
+        success: true,
+        data: {
+          type: 'stream_quality',
+          quality: data?.quality as CameraSettings['quality'],
+          preference: data?.preference as StreamPreference,
+        },
+      }
+
+    case 'voice':
+      if (typeof data?.enabled !== 'boolean' || typeof data.talking !== 'boolean') {
+        return { success: false, error: 'invalid_payload', fieldErrors: { voice: 'enabled and talking must be booleans' } }
+      }
+      return { success: true, data: { type: 'voice', enabled: data.enabled, talking: data.enabled && data.talking } }
+
+    case 'camera_state':
+      return validateCameraState(data?.state)
+
+    case 'ack': {
+      const status = data?.status
+      if (!isCommandId(data?.commandId) || !(ACK_STATUSES as readonly unknown[]).includes(status)) {
+        return { success: false, error: 'invalid_payload' }
+      }
+      return {
+        success: true,
+        data: {
+          type: 'ack',
+          commandId: data.commandId,
+          status: status as AckStatus,
+          error: typeof data.error === 'string' ? data.error.substring(0, 200) : undefined,
+        },
+      }
+    }
+
+    case 'unsupported': {
+      const reason = data?.reason
+      if (typeof data?.command !== 'string' || !(UNSUPPORTED_REASONS as readonly unknown[]).includes(reason)) {
+        return { success: false, error: 'invalid_payload' }
+      }
+      return {
+        success: true,
+        data: {
+          type: 'unsupported',
+          command: data.command.substring(0, MAX_ID_LENGTH),
+          reason: reason as UnsupportedReason,
+          protocolVersion: version,
+          commandId: isCommandId(data.commandId) ? data.commandId : undefined,
+        },
+      }
+    }
+  }
+}
+
+function isIntegerInRange(value: unknown, limits: { min: number; max: number }): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= limits.min && value <= limits.max
+}
+
+function isNumberInRange(value: unknown, limits: { min: number; max: number }): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= limits.min && value <= limits.max
+}
+
+/** Exactly one of a known preset or non-blank text */
+function validateMessage(data?: Record<string, unknown>): CommandValidationResult {
+  const { phrase, text } = data ?? {}
+  if (phrase !== undefined && text !== undefined) {
+    return { success: false, error: 'invalid_payload', fieldErrors: { message: 'Send either phrase or text, not both' } }
+  }
+  if (phrase !== undefined) {
+    if (!(QUICK_PHRASES as readonly unknown[]).includes(phrase)) {
+      return { success: false, error: 'invalid_payload', fieldErrors: { phrase: 'Unknown phrase' } }
+    }
+    return { success: true, data: { type: 'message', phrase: phrase as QuickPhrase } }
+  }
+  if (typeof text !== 'string' || !text.trim() || text.length > MAX_MESSAGE_LENGTH) {
+    return {
+      success: false,
+      error: 'invalid_payload',
+      fieldErrors: { text: `Text must be 1-${MAX_MESSAGE_LENGTH} characters` },
+    }
+  }
+  return { success: true, data: { type: 'message', text: text.trim() } }
+}
+
+function validateCapture(data?: Record<string, unknown>): CommandValidationResult {
+  const mode = data?.mode ?? 'single'
+  if (!(CAPTURE_MODES as readonly unknown[]).includes(mode)) {
+    return { success: false, error: 'invalid_payload', fieldErrors: { mode: 'Unknown capture mode' } }
+  }
+  if (data?.frames !== undefined && !isIntegerInRange(data.frames, BURST_FRAME_LIMITS)) {
+    return { success: false, error: 'invalid_payload', fieldErrors: { frames: 'Frame count out of range' } }
+  }
+  if (data?.intervalMs !== undefined && !isIntegerInRange(data.intervalMs, BURST_INTERVAL_LIMITS_MS)) {
+    return { success: false, error: 'invalid_payload', fieldErrors: { intervalMs: 'Interval out of range' } }
+  }
+
+  return {
+    success: true,
+    data: {
+      type: 'capture',
+      mode: mode as CaptureMode,
+      frames: data?.frames as number | undefined,
+      intervalMs: data?.intervalMs as number | undefined,
+    },
+  }
+}
+
+function isGuidePoint(value: unknown): value is GuidePoint {
+  const point = value as GuidePoint | undefined
+  return typeof point?.x === 'number' && typeof point.y === 'number'
+    && point.x >= 0 && point.x <= 1 && point.y >= 0 && point.y <= 1
+}
+
+function validateGuides(value: unknown): CommandValidationResult {
+  if (!Array.isArray(value) || value.length > MAX_FRAMING_GUIDES) {
+    return { success: false, error: 'invalid_payload', fieldErrors: { guides: 'Invalid guide list' } }
+  }
+
+  const guides: FramingGuide[] = []
+  for (const item of value) {
+    const guide = item as Partial<FramingGuide> | null
+    if (
+      !isCommandId(guide?.id)
+      || !(GUIDE_KINDS as readonly unknown[]).includes(guide?.kind)
+      || !isGuidePoint(guide?.start)
+      || !isGuidePoint(guide?.end)
+    ) {
+      return { success: false, error: 'invalid_payload', fieldErrors: { guides: 'Invalid guide' } }
+    }
+    guides.push({
+      id: guide.id,
+      kind: guide.kind as GuideKind,
+      start: { x: guide.start.x, y: guide.start.y },
+      end: { x: guide.end.x, y: guide.end.y },
+    })
+  }
+
+  return { success: true, data: { type: 'guides', guides } }
+}
+
+function isNullableNumberInRange(value: unknown, limits: { min: number; max: number }): value is number | null {
+  return value === null || isNumberInRange(value, limits)
+}
+
+function validateCameraState(value: unknown): CommandValidationResult {
+  const state = value as Partial<CameraStateSnapshot> | null | undefined
+  const grid = state?.grid
+  const supported = state?.supported
+  const invalid = (field: string): CommandValidationResult => (
+    { success: false, error: 'invalid_payload', fieldErrors: { [field]: 'Invalid camera state' } }
+  )
+
+  if (!isNumberInRange(state?.zoom, { min: 0, max: 1 })) return invalid('zoom')
+  if (state.lens !== null && !isCommandId(state.lens)) return invalid('lens')
+  if (
+    !Array.isArray(state.availableLenses)
+    || state.availableLenses.length > MAX_CAMERA_LENSES
+    || !state.availableLenses.every(isCommandId)
+  ) {
+    return invalid('availableLenses')
+  }
+  if (
+    typeof supported !== 'object' || supported === null
+    || !(['zoom', 'lens'] as const).every(key => typeof supported[key] === 'boolean')
+  ) {
+    return invalid('supported')
+  }
+  if (!(CAMERA_FACINGS as readonly unknown[]).includes(state.facing)) return invalid('facing')
+  if (!(FLASH_MODES as readonly unknown[]).includes(state.flashMode)) return invalid('flashMode')
+  if (
+    typeof grid?.visible !== 'boolean'
+    || !(COMPOSITION_OVERLAYS as readonly unknown[]).includes(grid.overlay)
+    || !(SPIRAL_ROTATIONS as readonly unknown[]).includes(grid.spiralRotation)
+  ) {
+    return invalid('grid')
+  }
+  if (!isNullableNumberInRange(state.batteryLevel, { min: 0, max: 1 })) return invalid('batteryLevel')
+  if (!isNullableNumberInRange(state.storageFreeMb, { min: 0, max: Number.MAX_SAFE_INTEGER })) return invalid('storageFreeMb')
+  if (state.orientation !== null && state.orientation !== 'portrait' && state.orientation !== 'landscape') {
+    return invalid('orientation')
+  }
+  // Older cameras don't report it
+  if (state.roll !== undefined && !isNullableNumberInRange(state.roll, { min: -180, max: 180 })) return invalid('roll')
+
+  return {
+    success: true,
+    data: {
+      type: 'camera_state',
+      state: {
+        zoom: state.zoom,
+        lens: state.lens ?? null,
+        availableLenses: [...state.availableLenses],
+        supported: {
+          zoom: supported.zoom,
+          lens: supported.lens,
+        },
+        facing: state.facing as CameraFacing,
+        flashMode: state.flashMode as FlashMode,
+        grid: {
+          visible: grid.visible,
+          overlay: grid.overlay as CompositionOverlay,
+          spiralRotation: grid.spiralRotation as SpiralRotation,
+        },
+        batteryLevel: state.batteryLevel,
+        storageFreeMb: state.storageFreeMb,
+        orientation: state.orientation,
+        roll: state.roll ?? null,
+      },
+    },
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Encoding
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Turn a typed command into the `(command, data)` pair the transports send
+ */
+export function encodeRemoteCommand(command: RemoteCommand): {
+  command: RemoteCommandType
+  data: Record<string, unknown>
+} {
+  const { type, ...fields } = command
+  return {
+    command: type,
+    data: {
+      ...fields,
+      protocolVersion: COMMAND_PROTOCOL_VERSION,
+    },
+  }
+}
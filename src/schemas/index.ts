@@ -363,3 +363,9 @@ export function validateSettings(data: unknown): ValidationResult<SettingsInput>
 
   return { success: true, data: result }
 }
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Remote Commands
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export * from './commands'
@@ -0,0 +1,120 @@
+import {
+  BitrateController,
+  STREAM_PRESETS,
+  planEncoding,
+  type SenderStatsSample,
+} from '../adaptiveBitrate'
+
+const clean = (packetsSent: number): SenderStatsSample => ({
+  rttMs: 50,
+  packetsSent,
+  packetsLost: 0,
+  availableOutgoingBitrateBps: null,
+})
+
+const congested = (packetsSent: number, packetsLost: number): SenderStatsSample => ({
+  rttMs: 500,
+  packetsSent,
+  packetsLost,
+  availableOutgoingBitrateBps: null,
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// planEncoding
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('planEncoding', () => {
+  const preset = STREAM_PRESETS.medium
+
+  it('runs the preset as it is with the full bitrate', () => {
+    expect(planEncoding(preset, 'smoothness', preset.maxBitrateBps)).toEqual({
+      maxBitrateBps: 900000,
+      maxFramerate: 30,
+      scaleResolutionDownBy: 1.5,
+      degradationPreference: 'maintain-framerate',
+    })
+  })
+
+  it('shrinks the picture first for smoothness', () => {
+    const plan = planEncoding(preset, 'smoothness', preset.maxBitrateBps / 2)
+
+    expect(plan.maxFramerate).toBe(30)
+    expect(plan.scaleResolutionDownBy).toBeCloseTo(1.5 * Math.SQRT2, 2)
+  })
+
+  it('drops frames first for sharpness', () => {
+    const plan = planEncoding(preset, 'sharpness', preset.maxBitrateBps / 2)
+
+    expect(plan.maxFramerate).toBe(15)
+    expect(plan.scaleResolutionDownBy).toBe(1.5)
+    expect(plan.degradationPreference).toBe('maintain-resolution')
+  })
+
+  it('never goes below 10fps or 320x180', () => {
+    for (const preference of ['smoothness', 'sharpness'] as const) {
+      const plan = planEncoding(preset, preference, 1000)
+      expect(plan.maxFramerate).toBeGreaterThanOrEqual(10)
+      expect(plan.scaleResolutionDownBy).toBeLessThanOrEqual(4)
+    }
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// BitrateController
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('BitrateController', () => {
+  it('hands out the preset on every sample until the sender takes one', () => {
+    const controller = new BitrateController('high', 'smoothness')
+    const preset = planEncoding(STREAM_PRESETS.high, 'smoothness', STREAM_PRESETS.high.maxBitrateBps)
+
+    expect(controller.appliedPlan).toBeNull()
+    expect(controller.update(clean(100))).toEqual(preset)
+    expect(controller.update(clean(200))).toEqual(preset)
+
+    controller.markApplied(preset)
+    expect(controller.update(clean(300))).toBeNull()
+  })
+
+  it('backs off on congestion and keeps offering the cut until it is applied', () => {
+    const controller = new BitrateController('high', 'smoothness')
+    controller.markApplied(controller.plan)
+    controller.update(clean(100))
+
+    const cut = controller.update(congested(200, 30))
+    expect(cut?.maxBitrateBps).toBe(1750000)
+
+    // setParameters rejected - the sender still runs the preset
+    expect(controller.appliedPlan?.maxBitrateBps).toBe(2500000)
+    expect(controller.update({ ...clean(300), packetsLost: 30 })?.maxBitrateBps).toBeLessThan(2500000)
+  })
+
+  it('stays under the estimated available bitrate', () => {
+    const controller = new BitrateController('high', 'sharpness')
+    const plan = controller.update({ ...clean(100), availableOutgoingBitrateBps: 1000000 })
+
+    expect(plan?.maxBitrateBps).toBe(850000)
+  })
+
+  it('grows slowly on a clean link, up to the preset', () => {
+    const controller = new BitrateController('low', 'smoothness')
+    controller.update(congested(100, 0))
+    controller.markApplied(controller.plan)
+
+    const grown = controller.update(clean(200))
+    expect(grown?.maxBitrateBps).toBe(Math.round(300000 * 0.7 * 1.1))
+
+    for (let i = 3; i < 20; i++) controller.update(clean(i * 100))
+    expect(controller.plan.maxBitrateBps).toBe(300000)
+  })
+
+  it('starts over from the top of a new preset, unapplied', () => {
+    const controller = new BitrateController('high', 'smoothness')
+    controller.markApplied(controller.plan)
+
+    const plan = controller.configure('low', 'sharpness')
+
+    expect(plan).toEqual(planEncoding(STREAM_PRESETS.low, 'sharpness', 300000))
+    expect(controller.appliedPlan).toBeNull()
+  })
+})
@@ -0,0 +1,183 @@
+import { CommandAckTracker } from '../commandAcks'
+import type { CommandSender } from '../commandDispatcher'
+
+jest.mock('../sessionLogger', () => ({
+  sessionLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), logCommand: jest.fn() },
+}))
+
+beforeEach(() => {
+  jest.useFakeTimers()
+})
+
+afterEach(() => {
+  jest.useRealTimers()
+})
+
+function setup(send: CommandSender = async () => {}) {
+  const sent: { command: string; data?: Record<string, unknown> }[] = []
+  const sender: CommandSender = async (command, data) => {
+    sent.push({ command, data })
+    await send(command, data)
+  }
+  const tracker = new CommandAckTracker({ ackTimeoutMs: 1000, maxAttempts: 3 })
+  const status = (id: string) => tracker.getCommands().find(command => command.id === id)?.status
+  const capture = () => tracker.send(sender, { type: 'capture' }, 'Capture')
+  return { tracker, sent, status, capture }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Acks
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('CommandAckTracker acks', () => {
+  it('sends the command with its id and waits for the camera', async () => {
+    const { sent, status, capture } = setup()
+    const id = await capture()
+
+    expect(sent).toHaveLength(1)
+    expect(sent[0].command).toBe('capture')
+    expect(sent[0].data).toMatchObject({ id })
+    expect(status(id)).toBe('sent')
+  })
+
+  it('follows received, then executed', async () => {
+    const { tracker, status, capture } = setup()
+    const id = await capture()
+
+    tracker.handleAck(id, 'received')
+    expect(status(id)).toBe('received')
+
+    tracker.handleAck(id, 'executed')
+    expect(status(id)).toBe('executed')
+  })
+
+  it('keeps the camera\'s error on a failure', async () => {
+    const { tracker, capture } = setup()
+    const id = await capture()
+
+    tracker.handleAck(id, 'failed', 'Camera not ready')
+
+    expect(tracker.getCommands()[0]).toMatchObject({ status: 'failed', error: 'Camera not ready' })
+  })
+
+  it('ignores duplicate and overtaken acks', async () => {
+    const { tracker, status, capture } = setup()
+    const id = await capture()
+    tracker.handleAck(id, 'executed')
+    const settled = tracker.getCommands()
+
+    tracker.handleAck(id, 'received')
+    tracker.handleAck(id, 'executed')
+    tracker.handleAck(id, 'failed', 'late')
+
+    expect(status(id)).toBe('executed')
+    expect(tracker.getCommands()).toBe(settled)
+  })
+
+  it('settles a cancelled command for good', async () => {
+    const { tracker, status, capture } = setup()
+    const id = await capture()
+
+    tracker.handleAck(id, 'cancelled')
+    tracker.handleAck(id, 'executed')
+
+    expect(status(id)).toBe('cancelled')
+  })
+
+  it('ignores acks for ids it never sent', async () => {
+    const { tracker, capture } = setup()
+    await capture()
+    const before = tracker.getCommands()
+
+    tracker.handleAck('unknown', 'executed')
+
+    expect(tracker.getCommands()).toBe(before)
+  })
+
+  it('treats an unsupported reply as a failure', async () => {
+    const { tracker, capture } = setup()
+    const id = await capture()
+
+    tracker.handleUnsupported(id, 'not_handled')
+
+    expect(tracker.getCommands()[0]).toMatchObject({ status: 'failed', error: 'not_handled' })
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Retries
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('CommandAckTracker retries', () => {
+  it('re-sends with the same id until the camera answers', async () => {
+    const { tracker, sent, status, capture } = setup()
+    const id = await capture()
+
+    await jest.advanceTimersByTimeAsync(1000)
+    expect(sent).toHaveLength(2)
+    expect(sent[1].data).toMatchObject({ id })
+
+    tracker.handleAck(id, 'received')
+    await jest.advanceTimersByTimeAsync(5000)
+
+    expect(sent).toHaveLength(2)
+    expect(status(id)).toBe('received')
+    expect(tracker.getCommands()[0].attempts).toBe(2)
+  })
+
+  it('retries a send the transport rejected', async () => {
+    let fail = true
+    const { sent, capture } = setup(async () => {
+      if (fail) {
+        fail = false
+        throw new Error('channel closed')
+      }
+    })
+    await capture()
+
+    await jest.advanceTimersByTimeAsync(1000)
+
+    expect(sent).toHaveLength(2)
+  })
+
+  it('times out once every attempt went unanswered', async () => {
+    const { tracker, sent, status, capture } = setup()
+    const id = await capture()
+
+    await jest.advanceTimersByTimeAsync(3000)
+
+    expect(sent).toHaveLength(3)
+    expect(status(id)).toBe('timeout')
+    expect(jest.requireMock('../sessionLogger').sessionLogger.logCommand)
+      .toHaveBeenCalledWith('unacked', 'capture', expect.objectContaining({ commandId: id, attempts: 3 }))
+
+    // A late result still counts
+    tracker.handleAck(id, 'executed')
+    expect(status(id)).toBe('executed')
+  })
+
+  it('stops retrying commands that fall out of the history', async () => {
+    const sent: { command: string; data?: Record<string, unknown> }[] = []
+    const tracker = new CommandAckTracker({ ackTimeoutMs: 1000, historySize: 1 })
+    const send: CommandSender = async (command, data) => {
+      sent.push({ command, data })
+    }
+    await tracker.send(send, { type: 'capture' }, 'First')
+    await tracker.send(send, { type: 'capture' }, 'Second')
+    sent.length = 0
+
+    await jest.advanceTimersByTimeAsync(1000)
+
+    expect(sent.map(entry => entry.data?.id)).toEqual([tracker.getCommands()[0].id])
+  })
+
+  it('stops every retry when destroyed', async () => {
+    const { tracker, sent, capture } = setup()
+    await capture()
+
+    tracker.destroy()
+    await jest.advanceTimersByTimeAsync(5000)
+
+    expect(sent).toHaveLength(1)
+  })
+})
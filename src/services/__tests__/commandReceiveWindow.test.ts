@@ -0,0 +1,139 @@
+import { createCommandDispatcher, type CommandOutcome } from '../commandDispatcher'
+import { CommandReceiveWindow } from '../commandReceiveWindow'
+import { COMMAND_PROTOCOL_VERSION } from '../../schemas/commands'
+
+jest.mock('../sessionLogger', () => ({
+  sessionLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}))
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0))
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Receive window
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('CommandReceiveWindow', () => {
+  it('tells a retry on the same path from a redundant copy on the other', () => {
+    const window = new CommandReceiveWindow()
+
+    expect(window.check('a', 'webrtc')).toBe('new')
+    expect(window.check('a', 'webrtc')).toBe('retry')
+    expect(window.check('a', 'realtime')).toBe('redundant')
+  })
+
+  it('never holds more than maxEntries ids', () => {
+    const window = new CommandReceiveWindow(30000, 2)
+
+    window.check('a', 'webrtc')
+    window.recordAck('a', { status: 'executed' })
+    window.check('b', 'webrtc')
+    window.check('c', 'webrtc')
+
+    // 'a' is gone as soon as 'c' arrives, not on the next check
+    expect(window.lastAck('a')).toBeUndefined()
+    expect(window.check('c', 'webrtc')).toBe('retry')
+    expect(window.check('b', 'webrtc')).toBe('retry')
+  })
+
+  it('remembers the latest ack for an id', () => {
+    const window = new CommandReceiveWindow()
+    window.check('a', 'webrtc')
+
+    window.recordAck('a', { status: 'received' })
+    window.recordAck('a', { status: 'failed', error: 'busy' })
+
+    expect(window.lastAck('a')).toEqual({ status: 'failed', error: 'busy' })
+    expect(window.lastAck('unknown')).toBeUndefined()
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Dispatcher retries
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('createCommandDispatcher retries', () => {
+  function setup(onCommand: () => void | Promise<void | CommandOutcome> = () => {}) {
+    const replies: { command: string; data?: Record<string, unknown> }[] = []
+    const handler = jest.fn(onCommand)
+    const dispatch = createCommandDispatcher({
+      role: 'camera',
+      accepts: ['capture'],
+      onCommand: handler,
+      sendReply: async (command, data) => {
+        replies.push({ command, data })
+      },
+      receiveWindow: new CommandReceiveWindow(),
+    })
+    const capture = () => dispatch('capture', { id: 'cmd-1', protocolVersion: COMMAND_PROTOCOL_VERSION })
+    const acks = () => replies.filter(reply => reply.command === 'ack').map(reply => reply.data?.status)
+    return { handler, capture, replies, acks }
+  }
+
+  it('replays the terminal ack instead of running the command again', async () => {
+    const { handler, capture, acks } = setup()
+
+    capture()
+    await flush()
+    capture()
+    await flush()
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(acks()).toEqual(['received', 'executed', 'executed'])
+  })
+
+  it('replays a failure with its error', async () => {
+    const { capture, replies } = setup(() => {
+      throw new Error('camera busy')
+    })
+
+    capture()
+    await flush()
+    capture()
+    await flush()
+
+    const last = replies[replies.length - 1]
+    expect(last.data).toMatchObject({ commandId: 'cmd-1', status: 'failed', error: 'camera busy' })
+  })
+
+  it('acks a command the handler called off as cancelled, not failed', async () => {
+    const { capture, acks } = setup(async () => 'cancelled' as const)
+
+    capture()
+    await flush()
+    capture()
+    await flush()
+
+    expect(acks()).toEqual(['received', 'cancelled', 'cancelled'])
+  })
+
+  it('logs a failing command that carries no id instead of leaving the rejection unhandled', async () => {
+    const { sessionLogger } = jest.requireMock('../sessionLogger')
+    const { handler, replies } = setup(() => Promise.reject(new Error('camera busy')))
+    const dispatch = createCommandDispatcher({
+      role: 'camera',
+      accepts: ['capture'],
+      onCommand: handler,
+      sendReply: async () => {},
+    })
+
+    dispatch('capture', { protocolVersion: COMMAND_PROTOCOL_VERSION })
+    await flush()
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(replies).toEqual([])
+    expect(sessionLogger.warn).toHaveBeenCalledWith('command_execution_failed', expect.objectContaining({
+      command: 'capture',
+      message: 'camera busy',
+    }))
+  })
+
+  it('confirms receipt again while the command is still running', async () => {
+    const { capture, acks } = setup(() => new Promise(() => {}))
+
+    capture()
+    capture()
+    await flush()
+
+    expect(acks()).toEqual(['received', 'received'])
+  })
+})
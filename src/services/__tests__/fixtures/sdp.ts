@@ -0,0 +1,175 @@
+/**
+ * Offers as the camera phone sends them (react-native-webrtc 124), trimmed of
+ * the extmap / ssrc lines that don't matter to the helpers under test.
+ * Addresses are from documentation ranges.
+ */
+
+/** Android (Pixel 7): VP8 first, VP9 in two profiles, baseline H.264 only */
+export const ANDROID_OFFER = [
+  'v=0',
+  'o=- 8023413907163815234 2 IN IP4 127.0.0.1',
+  's=-',
+  't=0 0',
+  'a=group:BUNDLE 0 1',
+  'a=extmap-allow-mixed',
+  'a=msid-semantic: WMS stream',
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111 63 9 102 0 8 13 110 126',
+  'c=IN IP4 203.0.113.7',
+  'a=rtcp:9 IN IP4 0.0.0.0',
+  'a=candidate:1510613869 1 udp 2122260223 192.168.1.23 44321 typ host generation 0 network-id 3 network-cost 10',
+  'a=candidate:3371457311 1 udp 1686052607 203.0.113.7 44321 typ srflx raddr 192.168.1.23 rport 44321 generation 0 network-id 3 network-cost 10',
+  'a=candidate:344579997 1 tcp 1518280447 192.168.1.23 9 typ host tcptype active generation 0 network-id 3 network-cost 10',
+  'a=candidate:2839108126 1 udp 41885439 198.51.100.20 51034 typ relay raddr 203.0.113.7 rport 44321 generation 0 network-id 3 network-cost 10',
+  'a=ice-ufrag:Xk9f',
+  'a=ice-pwd:1gvBbzLl0sWkJ2Vd2xQm5tbA',
+  'a=ice-options:trickle renomination',
+  'a=fingerprint:sha-256 6B:8B:5D:EA:59:04:20:23:29:C8:87:1C:CC:87:32:BE:DD:8C:66:A5:8E:50:55:B4:07:0C:D9:5B:EC:0B:5D:67',
+  'a=setup:actpass',
+  'a=mid:0',
+  'a=sendrecv',
+  'a=rtcp-mux',
+  'a=rtpmap:111 opus/48000/2',
+  'a=rtcp-fb:111 transport-cc',
+  'a=fmtp:111 minptime=10;useinbandfec=1',
+  'a=rtpmap:63 red/48000/2',
+  'a=fmtp:63 111/111',
+  'a=rtpmap:9 G722/8000',
+  'a=rtpmap:102 ILBC/8000',
+  'a=rtpmap:0 PCMU/8000',
+  'a=rtpmap:8 PCMA/8000',
+  'a=rtpmap:13 CN/8000',
+  'a=rtpmap:110 telephone-event/48000',
+  'a=rtpmap:126 telephone-event/8000',
+  'm=video 9 UDP/TLS/RTP/SAVPF 96 97 98 99 100 101 35 36 102 103 104 105 106',
+  'c=IN IP4 203.0.113.7',
+  'a=rtcp:9 IN IP4 0.0.0.0',
+  'a=candidate:1510613869 1 udp 2122260223 192.168.1.23 44321 typ host generation 0 network-id 3 network-cost 10',
+  'a=candidate:3371457311 1 udp 1686052607 203.0.113.7 44321 typ srflx raddr 192.168.1.23 rport 44321 generation 0 network-id 3 network-cost 10',
+  'a=candidate:344579997 1 tcp 1518280447 192.168.1.23 9 typ host tcptype active generation 0 network-id 3 network-cost 10',
+  'a=candidate:2839108126 1 udp 41885439 198.51.100.20 51034 typ relay raddr 203.0.113.7 rport 44321 generation 0 network-id 3 network-cost 10',
+  'a=end-of-candidates',
+  'a=ice-ufrag:Xk9f',
+  'a=ice-pwd:1gvBbzLl0sWkJ2Vd2xQm5tbA',
+  'a=ice-options:trickle renomination',
+  'a=fingerprint:sha-256 6B:8B:5D:EA:59:04:20:23:29:C8:87:1C:CC:87:32:BE:DD:8C:66:A5:8E:50:55:B4:07:0C:D9:5B:EC:0B:5D:67',
+  'a=setup:actpass',
+  'a=mid:1',
+  'a=sendrecv',
+  'a=rtcp-mux',
+  'a=rtcp-rsize',
+  'a=rtpmap:96 VP8/90000',
+  'a=rtcp-fb:96 goog-remb',
+  'a=rtcp-fb:96 transport-cc',
+  'a=rtcp-fb:96 ccm fir',
+  'a=rtcp-fb:96 nack',
+  'a=rtcp-fb:96 nack pli',
+  'a=rtpmap:97 rtx/90000',
+  'a=fmtp:97 apt=96',
+  'a=rtpmap:98 VP9/90000',
+  'a=rtcp-fb:98 nack',
+  'a=fmtp:98 profile-id=0',
+  'a=rtpmap:99 rtx/90000',
+  'a=fmtp:99 apt=98',
+  'a=rtpmap:100 VP9/90000',
+  'a=rtcp-fb:100 nack',
+  'a=fmtp:100 profile-id=2',
+  'a=rtpmap:101 rtx/90000',
+  'a=fmtp:101 apt=100',
+  'a=rtpmap:35 AV1/90000',
+  'a=rtcp-fb:35 nack',
+  'a=rtpmap:36 rtx/90000',
+  'a=fmtp:36 apt=35',
+  'a=rtpmap:102 H264/90000',
+  'a=rtcp-fb:102 nack',
+  'a=fmtp:102 level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=42e01f',
+  'a=rtpmap:103 rtx/90000',
+  'a=fmtp:103 apt=102',
+  'a=rtpmap:104 red/90000',
+  'a=rtpmap:105 rtx/90000',
+  'a=fmtp:105 apt=104',
+  'a=rtpmap:106 ulpfec/90000',
+  '',
+].join('\r\n')
+
+/** iOS (iPhone 14): hardware H.264 first - high, then constrained baseline - then VP8 / VP9 */
+export const IOS_OFFER = [
+  'v=0',
+  'o=- 2195418802347251872 2 IN IP4 127.0.0.1',
+  's=-',
+  't=0 0',
+  'a=group:BUNDLE 0 1',
+  'a=extmap-allow-mixed',
+  'a=msid-semantic: WMS stream',
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111 63 9 0 8 13 110 126',
+  'c=IN IP4 0.0.0.0',
+  'a=rtcp:9 IN IP4 0.0.0.0',
+  'a=ice-ufrag:r7Qe',
+  'a=ice-pwd:Wm8dC0vq3pJtHf1aZu2KxYsN',
+  'a=ice-options:trickle renomination',
+  'a=fingerprint:sha-256 A1:02:9F:3B:77:4E:C0:18:5D:E2:96:0B:41:7A:CC:58:12:F6:8D:39:B4:60:AE:27:95:1C:D3:88:4F:0E:6A:B2',
+  'a=setup:actpass',
+  'a=mid:0',
+  'a=sendrecv',
+  'a=rtcp-mux',
+  'a=rtpmap:111 opus/48000/2',
+  'a=fmtp:111 minptime=10;useinbandfec=1',
+  'a=rtpmap:63 red/48000/2',
+  'a=fmtp:63 111/111',
+  'a=rtpmap:9 G722/8000',
+  'a=rtpmap:0 PCMU/8000',
+  'a=rtpmap:8 PCMA/8000',
+  'a=rtpmap:13 CN/8000',
+  'a=rtpmap:110 telephone-event/48000',
+  'a=rtpmap:126 telephone-event/8000',
+  'm=video 9 UDP/TLS/RTP/SAVPF 96 97 98 99 100 101 102 103 104 105 106 107 108',
+  'c=IN IP4 0.0.0.0',
+  'b=AS:2000',
+  'a=rtcp:9 IN IP4 0.0.0.0',
+  'a=ice-ufrag:r7Qe',
+  'a=ice-pwd:Wm8dC0vq3pJtHf1aZu2KxYsN',
+  'a=ice-options:trickle renomination',
+  'a=fingerprint:sha-256 A1:02:9F:3B:77:4E:C0:18:5D:E2:96:0B:41:7A:CC:58:12:F6:8D:39:B4:60:AE:27:95:1C:D3:88:4F:0E:6A:B2',
+  'a=setup:actpass',
+  'a=mid:1',
+  'a=sendrecv',
+  'a=rtcp-mux',
+  'a=rtcp-rsize',
+  'a=rtpmap:96 H264/90000',
+  'a=rtcp-fb:96 nack',
+  'a=rtcp-fb:96 nack pli',
+  'a=fmtp:96 level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=640c1f',
+  'a=rtpmap:97 rtx/90000',
+  'a=fmtp:97 apt=96',
+  'a=rtpmap:98 H264/90000',
+  'a=rtcp-fb:98 nack',
+  'a=rtcp-fb:98 nack pli',
+  'a=fmtp:98 level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=42e01f',
+  'a=rtpmap:99 rtx/90000',
+  'a=fmtp:99 apt=98',
+  'a=rtpmap:100 VP8/90000',
+  'a=rtcp-fb:100 nack',
+  'a=rtcp-fb:100 nack pli',
+  'a=rtpmap:101 rtx/90000',
+  'a=fmtp:101 apt=100',
+  'a=rtpmap:102 VP9/90000',
+  'a=rtcp-fb:102 nack',
+  'a=fmtp:102 profile-id=0',
+  'a=rtpmap:103 rtx/90000',
+  'a=fmtp:103 apt=102',
+  'a=rtpmap:104 AV1/90000',
+  'a=rtpmap:105 rtx/90000',
+  'a=fmtp:105 apt=104',
+  'a=rtpmap:106 red/90000',
+  'a=rtpmap:107 rtx/90000',
+  'a=fmtp:107 apt=106',
+  'a=rtpmap:108 ulpfec/90000',
+  '',
+].join('\r\n')
+
+/** Trickled candidates from an iPhone, as RTCIceCandidate.candidate strings */
+export const IOS_CANDIDATES = [
+  'candidate:842163049 1 udp 1677729535 203.0.113.41 61234 typ srflx raddr 10.0.0.12 rport 61234 generation 0 ufrag r7Qe network-id 1 network-cost 10',
+  'candidate:1467250027 1 udp 2122262783 2001:db8::1c2 53119 typ host generation 0 ufrag r7Qe network-id 2 network-cost 10',
+  'candidate:3950523372 1 tcp 1518214911 10.0.0.12 9 typ host tcptype passive generation 0 ufrag r7Qe network-id 1 network-cost 10',
+  'candidate:1019215931 1 udp 33562367 198.51.100.20 60422 typ relay raddr 203.0.113.41 rport 61234 generation 0 ufrag r7Qe network-id 1 network-cost 10',
+]
@@ -0,0 +1,118 @@
+import {
+  FALLBACK_ICE_CONFIG,
+  FREE_TURN_SERVERS,
+  ICE_CACHE_DURATION_MS,
+  IceServerCache,
+  STUN_SERVERS,
+  buildIceConfig,
+  mergeIceServers,
+  summarizeIceServers,
+} from '../iceServers'
+
+/** What Metered's credentials endpoint returns */
+const METERED_RESPONSE = [
+  { urls: 'stun:stun.relay.metered.ca:80' },
+  { urls: 'turn:global.relay.metered.ca:80', username: 'f3a1c9', credential: 'q8Zk2' },
+  { urls: 'turn:global.relay.metered.ca:80?transport=tcp', username: 'f3a1c9', credential: 'q8Zk2' },
+  { urls: 'turns:global.relay.metered.ca:443?transport=tcp', username: 'f3a1c9', credential: 'q8Zk2' },
+]
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Merging
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('mergeIceServers', () => {
+  it('puts STUN first, the fetched servers next and free TURN last', () => {
+    const merged = mergeIceServers(METERED_RESPONSE)
+
+    expect(merged).toEqual([...STUN_SERVERS, ...METERED_RESPONSE, ...FREE_TURN_SERVERS])
+  })
+
+  it('drops entries that aren\'t ICE servers', () => {
+    const merged = mergeIceServers([null, 'turn:x', { username: 'u' }, { urls: [] }, { urls: ['turn:a', 1] }, METERED_RESPONSE[1]])
+
+    expect(merged).toEqual([...STUN_SERVERS, METERED_RESPONSE[1], ...FREE_TURN_SERVERS])
+  })
+
+  it('falls back to STUN and free TURN when the response isn\'t a list', () => {
+    expect(mergeIceServers({ error: 'Invalid API key' })).toEqual(FALLBACK_ICE_CONFIG.iceServers)
+    expect(mergeIceServers(undefined)).toEqual(FALLBACK_ICE_CONFIG.iceServers)
+  })
+
+  it('doesn\'t list a server twice', () => {
+    const merged = mergeIceServers([STUN_SERVERS[0], FREE_TURN_SERVERS[0], METERED_RESPONSE[1], METERED_RESPONSE[1]])
+
+    expect(merged).toHaveLength(STUN_SERVERS.length + 1 + FREE_TURN_SERVERS.length)
+  })
+
+  it('uses only the fetched servers when the public fallbacks are off', () => {
+    expect(mergeIceServers(METERED_RESPONSE, { publicFallback: false })).toEqual(METERED_RESPONSE)
+    expect(mergeIceServers(null, { publicFallback: false })).toEqual([])
+  })
+
+  it('keeps the same URL with different credentials', () => {
+    const other = { ...METERED_RESPONSE[1], username: 'b72e40' }
+
+    expect(mergeIceServers([METERED_RESPONSE[1], other])).toContain(other)
+  })
+})
+
+describe('summarizeIceServers', () => {
+  it('counts servers and spots STUN and TURN, including turns: and url lists', () => {
+    expect(summarizeIceServers(mergeIceServers(METERED_RESPONSE))).toEqual({
+      totalCount: STUN_SERVERS.length + METERED_RESPONSE.length + FREE_TURN_SERVERS.length,
+      hasSTUN: true,
+      hasTURN: true,
+    })
+    expect(summarizeIceServers(STUN_SERVERS)).toMatchObject({ hasSTUN: true, hasTURN: false })
+    expect(summarizeIceServers([{ urls: ['turns:relay.example.com:443'] }])).toMatchObject({ hasSTUN: false, hasTURN: true })
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Cache
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('IceServerCache', () => {
+  const config = buildIceConfig(mergeIceServers(METERED_RESPONSE))
+
+  it('is empty until something is cached', () => {
+    expect(new IceServerCache().get()).toBeNull()
+  })
+
+  it('serves the cached config until it expires', () => {
+    let clock = 1000
+    const cache = new IceServerCache(ICE_CACHE_DURATION_MS, () => clock)
+    cache.set(config)
+
+    clock += ICE_CACHE_DURATION_MS - 1
+    expect(cache.get()).toBe(config)
+    expect(cache.ageMs()).toBe(ICE_CACHE_DURATION_MS - 1)
+
+    clock += 1
+    expect(cache.get()).toBeNull()
+    // Stays expired even if the clock goes backwards
+    clock -= 1000
+    expect(cache.get()).toBeNull()
+  })
+
+  it('restarts the clock when refreshed', () => {
+    let clock = 0
+    const cache = new IceServerCache(1000, () => clock)
+    cache.set(config)
+    clock = 900
+    const refreshed = buildIceConfig(STUN_SERVERS)
+    cache.set(refreshed)
+    clock = 1500
+
+    expect(cache.get()).toBe(refreshed)
+  })
+
+  it('forgets the config on clear', () => {
+    const cache = new IceServerCache()
+    cache.set(config)
+    cache.clear()
+
+    expect(cache.get()).toBeNull()
+  })
+})
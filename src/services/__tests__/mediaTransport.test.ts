@@ -0,0 +1,368 @@
+import {
+  FallbackTransport,
+  hasActiveVideo,
+  mediaVideoTracks,
+  NO_TRANSPORT_FEATURES,
+  transportOrder,
+  type MediaHandle,
+  type MediaTransport,
+  type TransportCallbacks,
+  type TransportCommandHandler,
+  type TransportConnectionState,
+  type TransportKind,
+  type TransportSignaling,
+  type TransportSwitchMessage,
+} from '../mediaTransport'
+
+jest.mock('../sessionLogger', () => ({
+  sessionLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}))
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Fake transport
+// ─────────────────────────────────────────────────────────────────────────────────
+
+class FakeTransport implements MediaTransport {
+  readonly kind: TransportKind
+  readonly features = NO_TRANSPORT_FEATURES
+  available = true
+  initError: Error | null = null
+  initCalls = 0
+  destroyCalls = 0
+  callbacks: TransportCallbacks = {}
+  handlers: TransportCommandHandler[] = []
+  sent: string[] = []
+
+  constructor(kind: TransportKind) {
+    this.kind = kind
+  }
+
+  isAvailable() {
+    return this.available
+  }
+
+  async init(_deviceId: string, _peerDeviceId: string, _sessionId: string, _role: 'camera' | 'director', callbacks: TransportCallbacks) {
+    this.initCalls++
+    this.callbacks = callbacks
+    if (this.initError) throw this.initError
+  }
+
+  getLocalMedia(): MediaHandle | null {
+    return null
+  }
+
+  getRemoteMedia(): MediaHandle | null {
+    return null
+  }
+
+  async sendCommand(command: string) {
+    this.sent.push(command)
+  }
+
+  onCommand(handler: TransportCommandHandler) {
+    this.handlers.push(handler)
+  }
+
+  async destroy() {
+    this.destroyCalls++
+    this.handlers = []
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Fake signaling
+// ─────────────────────────────────────────────────────────────────────────────────
+
+class FakeSignaling implements TransportSignaling {
+  /** The partner's end - messages are delivered there on the next tick */
+  peer: FakeSignaling | null = null
+  /** With no partner linked: ack proposals with this, or never answer (null) */
+  answer: boolean | null = true
+  handler: ((message: TransportSwitchMessage) => void) | null = null
+  sent: TransportSwitchMessage[] = []
+
+  async open(_session: unknown, onMessage: (message: TransportSwitchMessage) => void) {
+    this.handler = onMessage
+  }
+
+  async send(message: TransportSwitchMessage) {
+    this.sent.push(message)
+    const peer = this.peer
+    if (peer) {
+      setTimeout(() => peer.handler?.(message), 0)
+      return
+    }
+    const accepted = this.answer
+    if (message.type === 'switch' && accepted !== null) {
+      setTimeout(() => this.handler?.({ type: 'switch_ack', kind: message.kind, accepted }), 0)
+    }
+  }
+
+  async close() {
+    this.handler = null
+  }
+}
+
+/** Let timers at 0ms and everything they set off run */
+const flush = async () => {
+  for (let i = 0; i < 5; i++) await new Promise(resolve => setTimeout(resolve, 0))
+}
+
+function phone(role: 'camera' | 'director' = 'camera') {
+  const webrtc = new FakeTransport('webrtc')
+  const livekit = new FakeTransport('livekit')
+  const signaling = new FakeSignaling()
+  const transport = new FallbackTransport([webrtc, livekit], signaling)
+  const states: TransportConnectionState[] = []
+  const changes: TransportKind[] = []
+  const callbacks: TransportCallbacks = {
+    onConnectionStateChange: state => states.push(state),
+    onTransportChange: kind => changes.push(kind),
+  }
+  const init = () => transport.init('device', 'peer', 'session', role, callbacks)
+  return { webrtc, livekit, signaling, transport, states, changes, init }
+}
+
+const setup = () => phone()
+
+/** Two phones whose signaling reaches each other */
+function pair() {
+  const camera = phone('camera')
+  const director = phone('director')
+  camera.signaling.peer = director.signaling
+  director.signaling.peer = camera.signaling
+  return { camera, director }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Order
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('transportOrder', () => {
+  const webrtc = new FakeTransport('webrtc')
+  const livekit = new FakeTransport('livekit')
+
+  it('puts the preferred transport first', () => {
+    expect(transportOrder({ preferred: 'livekit', fallback: true }, [webrtc, livekit])).toEqual([livekit, webrtc])
+    expect(transportOrder({ preferred: 'webrtc', fallback: true }, [webrtc, livekit])).toEqual([webrtc, livekit])
+  })
+
+  it('drops the others when fallback is off', () => {
+    expect(transportOrder({ preferred: 'livekit', fallback: false }, [webrtc, livekit])).toEqual([livekit])
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Fallback
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('FallbackTransport', () => {
+  it('runs the preferred transport when it starts', async () => {
+    const { webrtc, livekit, transport, changes, init } = setup()
+    await init()
+
+    expect(transport.kind).toBe('webrtc')
+    expect(livekit.initCalls).toBe(0)
+    expect(changes).toEqual([])
+
+    await transport.sendCommand('capture')
+    expect(webrtc.sent).toEqual(['capture'])
+  })
+
+  it('skips transports the build cannot run', async () => {
+    const { webrtc, livekit, transport, init } = setup()
+    webrtc.available = false
+    await init()
+
+    expect(webrtc.initCalls).toBe(0)
+    expect(livekit.initCalls).toBe(1)
+    expect(transport.kind).toBe('livekit')
+  })
+
+  it('throws when no transport is available', async () => {
+    const { webrtc, livekit, transport, init } = setup()
+    webrtc.available = false
+    livekit.available = false
+
+    expect(transport.isAvailable()).toBe(false)
+    await expect(init()).rejects.toThrow('No video transport available')
+  })
+
+  it('falls back when init throws and the partner acks', async () => {
+    const { webrtc, livekit, signaling, transport, changes, init } = setup()
+    webrtc.initError = new Error('camera busy')
+    await init()
+
+    expect(signaling.sent).toEqual([{ type: 'switch', kind: 'livekit' }])
+    expect(webrtc.destroyCalls).toBe(1)
+    expect(livekit.initCalls).toBe(1)
+    expect(transport.kind).toBe('livekit')
+    expect(changes).toEqual(['livekit'])
+  })
+
+  it('rethrows when the partner refuses the switch', async () => {
+    const { webrtc, livekit, signaling, init } = setup()
+    webrtc.initError = new Error('camera busy')
+    signaling.answer = false
+
+    await expect(init()).rejects.toThrow('camera busy')
+    expect(livekit.initCalls).toBe(0)
+  })
+
+  it('rethrows the last error when every transport fails', async () => {
+    const { webrtc, livekit, init } = setup()
+    webrtc.initError = new Error('camera busy')
+    livekit.initError = new Error('no token')
+
+    await expect(init()).rejects.toThrow('no token')
+  })
+
+  it('falls back when the connection fails before it ever connected, keeping command handlers', async () => {
+    const { webrtc, livekit, transport, states, changes, init } = setup()
+    await init()
+    const handler = jest.fn()
+    transport.onCommand(handler)
+
+    webrtc.callbacks.onConnectionStateChange?.('connecting')
+    webrtc.callbacks.onConnectionStateChange?.('failed')
+    await flush()
+
+    expect(webrtc.destroyCalls).toBe(1)
+    expect(transport.kind).toBe('livekit')
+    expect(changes).toEqual(['livekit'])
+    // The screen sees the switch as a reconnect, not a failure
+    expect(states).toEqual(['connecting', 'connecting'])
+
+    livekit.handlers.forEach(h => h('capture'))
+    expect(handler).toHaveBeenCalledWith('capture')
+  })
+
+  it('passes a failure through once the transport has connected', async () => {
+    const { webrtc, livekit, transport, states, init } = setup()
+    await init()
+
+    webrtc.callbacks.onConnectionStateChange?.('connected')
+    webrtc.callbacks.onConnectionStateChange?.('failed')
+    await flush()
+
+    expect(livekit.initCalls).toBe(0)
+    expect(transport.kind).toBe('webrtc')
+    expect(states).toEqual(['connected', 'failed'])
+  })
+
+  it('ignores events from a transport it has moved away from', async () => {
+    const { webrtc, states, init } = setup()
+    webrtc.initError = new Error('camera busy')
+    await init()
+
+    webrtc.callbacks.onConnectionStateChange?.('connected')
+    expect(states).toEqual([])
+  })
+
+  it('stays put and reports the failure when the partner never acks', async () => {
+    jest.useFakeTimers()
+    try {
+      const { webrtc, livekit, signaling, transport, states, init } = setup()
+      signaling.answer = null
+      await init()
+
+      webrtc.callbacks.onConnectionStateChange?.('failed')
+      await jest.advanceTimersByTimeAsync(15000)
+
+      // Proposed again every 2s until giving up
+      expect(signaling.sent.length).toBeGreaterThan(1)
+      expect(livekit.initCalls).toBe(0)
+      expect(transport.kind).toBe('webrtc')
+      expect(states).toEqual(['failed'])
+    } finally {
+      jest.useRealTimers()
+    }
+  })
+
+  it('stops a fallback in flight when destroyed', async () => {
+    const { webrtc, livekit, transport, init } = setup()
+    await init()
+
+    webrtc.callbacks.onConnectionStateChange?.('failed')
+    await transport.destroy()
+    await flush()
+
+    expect(livekit.initCalls).toBe(0)
+    await transport.sendCommand('capture')
+    expect(webrtc.sent).toEqual([])
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Switch handshake
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('FallbackTransport between two phones', () => {
+  it('moves both phones when only one sees its transport fail', async () => {
+    const { camera, director } = pair()
+    await camera.init()
+    await director.init()
+
+    director.webrtc.callbacks.onConnectionStateChange?.('failed')
+    await flush()
+
+    expect(director.transport.kind).toBe('livekit')
+    expect(camera.transport.kind).toBe('livekit')
+    expect(camera.changes).toEqual(['livekit'])
+    expect(camera.signaling.sent).toEqual([{ type: 'switch_ack', kind: 'livekit', accepted: true }])
+  })
+
+  it('moves once when both phones propose the same switch', async () => {
+    const { camera, director } = pair()
+    await camera.init()
+    await director.init()
+
+    camera.webrtc.callbacks.onConnectionStateChange?.('failed')
+    director.webrtc.callbacks.onConnectionStateChange?.('failed')
+    await flush()
+
+    expect(camera.transport.kind).toBe('livekit')
+    expect(director.transport.kind).toBe('livekit')
+    expect(camera.livekit.initCalls).toBe(1)
+    expect(director.livekit.initCalls).toBe(1)
+  })
+
+  it('keeps both phones on WebRTC when the partner\'s build has no LiveKit', async () => {
+    const { camera, director } = pair()
+    camera.livekit.available = false
+    await camera.init()
+    await director.init()
+
+    director.webrtc.callbacks.onConnectionStateChange?.('failed')
+    await flush()
+
+    expect(director.transport.kind).toBe('webrtc')
+    expect(director.livekit.initCalls).toBe(0)
+    expect(director.states).toEqual(['failed'])
+    expect(camera.signaling.sent).toEqual([{ type: 'switch_ack', kind: 'livekit', accepted: false }])
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Media helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('media helpers', () => {
+  const live = { readyState: 'live', enabled: true }
+  const ended = { readyState: 'ended', enabled: true }
+
+  it('reads video tracks from a WebRTC stream and a LiveKit track', () => {
+    const stream: MediaHandle = { kind: 'webrtc', stream: { getVideoTracks: () => [live] } }
+    const track: MediaHandle = { kind: 'livekit', track: { mediaStreamTrack: live } }
+
+    expect(mediaVideoTracks(stream)).toEqual([live])
+    expect(mediaVideoTracks(track)).toEqual([live])
+    expect(mediaVideoTracks(null)).toEqual([])
+  })
+
+  it('only counts live, enabled tracks as active video', () => {
+    expect(hasActiveVideo({ kind: 'webrtc', stream: { getVideoTracks: () => [ended] } })).toBe(false)
+    expect(hasActiveVideo({ kind: 'livekit', track: { mediaStreamTrack: live } })).toBe(true)
+    expect(hasActiveVideo({ kind: 'livekit', track: {} })).toBe(false)
+  })
+})
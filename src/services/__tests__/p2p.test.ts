@@ -0,0 +1,289 @@
+import { randomBytes as mockRandomBytes } from 'crypto'
+import { p2pService } from '../p2p'
+import { bytesToHex } from '@noble/hashes/utils'
+import {
+  ReplayWindow,
+  createPairingShare,
+  derivePairingKeys,
+  openPacket,
+  sealPacket,
+  type SealHeader,
+  type SealedPacket,
+} from '../lanAuth'
+import type { P2PMessage } from '../../types'
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (count: number) => new Uint8Array(mockRandomBytes(count)),
+}))
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Fake UDP socket
+// ─────────────────────────────────────────────────────────────────────────────────
+
+type Rinfo = { address: string; port: number }
+
+const mockSocket = {
+  onMessage: null as ((data: Buffer, rinfo: Rinfo) => void) | null,
+  sent: [] as { data: string; address: string; port: number }[],
+}
+
+jest.mock('react-native-udp', () => ({
+  __esModule: true,
+  default: {
+    createSocket: () => ({
+      on: (event: string, handler: (data: Buffer, rinfo: Rinfo) => void) => {
+        if (event === 'message') mockSocket.onMessage = handler
+      },
+      bind: (_port: number, callback: () => void) => callback(),
+      send: (buffer: Buffer, _offset: number, _length: number, port: number, address: string) => {
+        mockSocket.sent.push({ data: buffer.toString('utf8'), address, port })
+      },
+      close: () => {},
+    }),
+  },
+}))
+
+const PARTNER = { deviceId: 'partner-device', address: '192.168.1.20', port: 54321 }
+const PARTNER_EPOCH = 'partner-epoch'
+const KEY = bytesToHex(mockRandomBytes(32))
+const CONTEXT = { joinDeviceId: 'joiner', hostDeviceId: 'host', sessionId: 'lan-1' }
+
+function command(command: string): P2PMessage {
+  return { type: 'command', payload: { command }, timestamp: Date.now(), sequence: 0, epoch: 'e1' }
+}
+
+/** Deliver a packet as if it came off the network */
+function receive(packet: unknown, from: Rinfo = PARTNER) {
+  mockSocket.onMessage?.(Buffer.from(JSON.stringify(packet), 'utf8'), from)
+}
+
+const header = (overrides: Partial<SealHeader> = {}): SealHeader =>
+  ({ from: PARTNER.deviceId, epoch: PARTNER_EPOCH, to: '', seq: 0, ...overrides })
+
+const sealed = (message: P2PMessage, overrides: Partial<SealHeader> = {}, key = KEY) =>
+  sealPacket(JSON.stringify(message), header(overrides), key)
+
+const lastSent = () => {
+  const packet = JSON.parse(mockSocket.sent[mockSocket.sent.length - 1].data)
+  return { packet: packet as SealedPacket, message: JSON.parse(packet.body) as P2PMessage }
+}
+
+let received: P2PMessage[] = []
+let unsubscribe: () => void = () => {}
+
+beforeEach(async () => {
+  mockSocket.sent = []
+  received = []
+  await p2pService.startServer()
+  unsubscribe = p2pService.addListener(message => received.push(message))
+})
+
+afterEach(() => {
+  unsubscribe()
+  p2pService.stop()
+})
+
+const pair = () => p2pService.setAuth({
+  deviceId: 'my-device',
+  peerDeviceId: PARTNER.deviceId,
+  peerAddress: PARTNER.address,
+  key: KEY,
+})
+
+/** Pair and let the partner learn this socket's epoch - returns it */
+function pairAndGreet(): string {
+  pair()
+  receive(sealed(command('hello')))
+  return lastSent().packet.epoch
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Pairing exchange
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('pairing exchange', () => {
+  const exchange = (joinCode: string, hostCode: string) => {
+    const join = createPairingShare('join', joinCode)
+    const host = createPairingShare('host', hostCode)
+    return {
+      join: derivePairingKeys(join, host.share, CONTEXT),
+      host: derivePairingKeys(host, join.share, CONTEXT),
+    }
+  }
+
+  it('gives both phones the same key and confirmations when the code matches', () => {
+    const { join, host } = exchange('4821', '4821')
+
+    expect(join).not.toBeNull()
+    expect(join).toEqual(host)
+    expect(join?.joinConfirm).not.toBe(join?.hostConfirm)
+  })
+
+  it('gives mismatching keys and confirmations for a wrong code', () => {
+    const { join, host } = exchange('4821', '4822')
+
+    expect(join?.key).not.toBe(host?.key)
+    expect(join?.hostConfirm).not.toBe(host?.hostConfirm)
+    expect(join?.joinConfirm).not.toBe(host?.joinConfirm)
+  })
+
+  it('never puts the code or a fixed value on the wire', () => {
+    const first = createPairingShare('join', '4821')
+    const second = createPairingShare('join', '4821')
+
+    expect(first.share).not.toBe(second.share)
+    expect(first.share).not.toContain('4821')
+  })
+
+  it('binds the keys to both phones and the session', () => {
+    const join = createPairingShare('join', '4821')
+    const host = createPairingShare('host', '4821')
+    const keys = derivePairingKeys(join, host.share, CONTEXT)
+
+    expect(derivePairingKeys(host, join.share, { ...CONTEXT, sessionId: 'lan-2' })).not.toEqual(keys)
+    expect(derivePairingKeys(host, join.share, { ...CONTEXT, joinDeviceId: 'intruder' })).not.toEqual(keys)
+  })
+
+  it('refuses a share that isn\'t a point', () => {
+    const own = createPairingShare('host', '4821')
+
+    expect(derivePairingKeys(own, 'ff'.repeat(32), CONTEXT)).toBeNull()
+    expect(derivePairingKeys(own, 'not hex', CONTEXT)).toBeNull()
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Sealing
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('lanAuth sealing', () => {
+  it('opens what the partner sealed', () => {
+    const packet = sealPacket('{"a":1}', header({ seq: 7 }), KEY)
+
+    expect(openPacket(packet, PARTNER.deviceId, KEY)).toMatchObject({ body: '{"a":1}', epoch: PARTNER_EPOCH, seq: 7 })
+  })
+
+  it('rejects another device, another key, a changed body and a changed header', () => {
+    const packet = sealPacket('{"a":1}', header(), KEY)
+
+    expect(openPacket(packet, 'other', KEY)).toBeNull()
+    expect(openPacket(packet, PARTNER.deviceId, bytesToHex(mockRandomBytes(32)))).toBeNull()
+    expect(openPacket({ ...packet, body: '{"a":2}' }, PARTNER.deviceId, KEY)).toBeNull()
+    expect(openPacket({ ...packet, from: 'other' }, 'other', KEY)).toBeNull()
+    expect(openPacket({ ...packet, seq: 1 }, PARTNER.deviceId, KEY)).toBeNull()
+    expect(openPacket({ ...packet, to: 'my-epoch' }, PARTNER.deviceId, KEY)).toBeNull()
+    expect(openPacket({ ...packet, epoch: 'old' }, PARTNER.deviceId, KEY)).toBeNull()
+    expect(openPacket('{"a":1}', PARTNER.deviceId, KEY)).toBeNull()
+  })
+})
+
+describe('ReplayWindow', () => {
+  it('takes each sequence number once, in any order', () => {
+    const window = new ReplayWindow()
+
+    expect(window.accept('e1', 2)).toBe(true)
+    expect(window.accept('e1', 1)).toBe(true)
+    expect(window.accept('e1', 2)).toBe(false)
+    expect(window.accept('e1', 1)).toBe(false)
+  })
+
+  it('drops what is too far behind the newest', () => {
+    const window = new ReplayWindow()
+    window.accept('e1', 1000)
+
+    expect(window.accept('e1', 1)).toBe(false)
+    expect(window.accept('e1', 999)).toBe(true)
+  })
+
+  it('closes an epoch for good once the partner moves on', () => {
+    const window = new ReplayWindow()
+    window.accept('e1', 5)
+    window.accept('e2', 0)
+
+    expect(window.isClosed('e1')).toBe(true)
+    expect(window.accept('e1', 6)).toBe(false)
+    expect(window.accept('e2', 1)).toBe(true)
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Paired socket
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('p2pService', () => {
+  it('takes the first sender as the peer while unpaired', () => {
+    receive({ type: 'ping', payload: {}, timestamp: 1, sequence: 0 }, { address: '10.0.0.9', port: 1 })
+
+    expect(p2pService.isConnected).toBe(true)
+    expect(received.map(message => message.type)).toEqual(['ping'])
+  })
+
+  it('drops packets from a foreign sender once paired', () => {
+    const epoch = pairAndGreet()
+    const foreign = { address: '192.168.1.66', port: 54321 }
+
+    // Unsealed, sealed by another device, sealed with another key, or from another address
+    receive(command('take_photo'))
+    receive(sealed(command('take_photo'), { from: 'intruder', to: epoch, seq: 1 }))
+    receive(sealed(command('take_photo'), { to: epoch, seq: 2 }, bytesToHex(mockRandomBytes(32))))
+    receive(sealed(command('take_photo'), { to: epoch, seq: 3 }), foreign)
+
+    expect(received).toEqual([])
+    expect(p2pService.isConnected).toBe(false)
+  })
+
+  it('answers a packet that doesn\'t name this socket with its epoch, without acting on it', () => {
+    pair()
+    receive(sealed(command('take_photo')))
+
+    expect(received).toEqual([])
+    const { packet, message } = lastSent()
+    expect(message.type).toBe('ping')
+    expect(packet).toMatchObject({ from: 'my-device', to: PARTNER_EPOCH })
+    expect(openPacket(packet, 'my-device', KEY)).not.toBeNull()
+  })
+
+  it('accepts the partner\'s fresh packets once they name this socket', () => {
+    const epoch = pairAndGreet()
+    receive(sealed({ type: 'ping', payload: {}, timestamp: 1, sequence: 0, epoch: 'e1' }, { to: epoch, seq: 1 }))
+
+    expect(received.map(message => message.type)).toEqual(['ping'])
+    expect(p2pService.isConnected).toBe(true)
+
+    // The pong goes back sealed as this phone, to the partner's epoch
+    const { packet, message } = lastSent()
+    expect(mockSocket.sent[mockSocket.sent.length - 1].address).toBe(PARTNER.address)
+    expect(packet).toMatchObject({ epoch, to: PARTNER_EPOCH })
+    expect(message.type).toBe('pong')
+  })
+
+  it('drops a replayed packet', () => {
+    const epoch = pairAndGreet()
+    const packet = sealed({ type: 'ping', payload: {}, timestamp: 1, sequence: 0, epoch: 'e1' }, { to: epoch, seq: 1 })
+
+    receive(packet)
+    receive(packet)
+
+    expect(received).toHaveLength(1)
+  })
+
+  it('drops packets recorded before the partner restarted', () => {
+    const epoch = pairAndGreet()
+    const ping = { type: 'ping' as const, payload: {}, timestamp: 1, sequence: 0, epoch: 'e1' }
+    const recorded = sealed(ping, { to: epoch, seq: 5 })
+    receive(sealed(ping, { to: epoch, seq: 4 }))
+
+    receive(sealed(ping, { epoch: 'partner-restarted', to: epoch, seq: 0 }))
+    receive(recorded)
+
+    expect(received).toHaveLength(2)
+  })
+
+  it('won\'t connect to another address once paired', () => {
+    pair()
+    p2pService.connectToPeer('192.168.1.66')
+
+    expect(p2pService.isConnected).toBe(false)
+    expect(mockSocket.sent).toEqual([])
+  })
+})
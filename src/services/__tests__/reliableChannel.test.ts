@@ -0,0 +1,272 @@
+import {
+  LatestFrameFilter,
+  ReliableChannel,
+  type ReliablePacket,
+} from '../reliableChannel'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Simulated lossy socket
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface LinkConditions {
+  loss?: number
+  duplicate?: number
+  /** Packets take between 10ms and this long to arrive, so they overtake each other */
+  maxDelayMs?: number
+}
+
+/** Deterministic PRNG so a failing run can be replayed */
+function seededRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return state / 4294967296
+  }
+}
+
+function createLink(conditions: LinkConditions = {}, seed = 1) {
+  const { loss = 0, duplicate = 0, maxDelayMs = 10 } = conditions
+  const random = seededRandom(seed)
+  let clock = 0
+  let queue: { at: number; to: 'a' | 'b'; packet: ReliablePacket<number> }[] = []
+  const received = { a: [] as number[], b: [] as number[] }
+  const givenUp: number[] = []
+  let packetsSent = 0
+
+  const endpoint = (self: 'a' | 'b') => {
+    const peer = self === 'a' ? 'b' : 'a'
+    return new ReliableChannel<number>({
+      now: () => clock,
+      transmit: (packet) => {
+        packetsSent++
+        const copies = random() < duplicate ? 2 : 1
+        for (let i = 0; i < copies; i++) {
+          if (random() < loss) continue
+          // Structured clone, as if it went through JSON on the wire
+          queue.push({ at: clock + 10 + random() * (maxDelayMs - 10), to: peer, packet: JSON.parse(JSON.stringify(packet)) })
+        }
+      },
+      deliver: (message) => received[self].push(message),
+      onGiveUp: (message) => givenUp.push(message),
+    })
+  }
+
+  const a = endpoint('a')
+  const b = endpoint('b')
+  const channels = { a, b }
+
+  /** Advance the clock, delivering packets and ticking both ends every 10ms */
+  const run = (durationMs: number) => {
+    const end = clock + durationMs
+    while (clock < end) {
+      clock += 10
+      const due = queue.filter(entry => entry.at <= clock)
+      queue = queue.filter(entry => entry.at > clock)
+      due.forEach(entry => channels[entry.to].receive(entry.packet))
+      a.tick()
+      b.tick()
+    }
+  }
+
+  return {
+    a,
+    b,
+    received,
+    givenUp,
+    run,
+    get packetsSent() {
+      return packetsSent
+    },
+  }
+}
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => i)
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// ReliableChannel
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('ReliableChannel', () => {
+  it('delivers in order over a perfect link without retransmitting', () => {
+    const link = createLink()
+    range(20).forEach(n => link.a.send(n))
+    link.run(500)
+
+    expect(link.received.b).toEqual(range(20))
+    expect(link.a.inFlight).toBe(0)
+    expect(link.a.getStats().retransmitted).toBe(0)
+  })
+
+  it('delivers everything exactly once and in order over a lossy, duplicating, reordering link', () => {
+    const link = createLink({ loss: 0.3, duplicate: 0.2, maxDelayMs: 120 }, 42)
+    range(200).forEach(n => link.a.send(n))
+    link.run(30000)
+
+    expect(link.received.b).toEqual(range(200))
+    expect(link.givenUp).toEqual([])
+    expect(link.a.inFlight).toBe(0)
+    expect(link.b.getStats().duplicates).toBeGreaterThan(0)
+  })
+
+  it('carries traffic both ways at once', () => {
+    const link = createLink({ loss: 0.2, maxDelayMs: 60 }, 7)
+    range(50).forEach(n => {
+      link.a.send(n)
+      link.b.send(100 + n)
+    })
+    link.run(20000)
+
+    expect(link.received.b).toEqual(range(50))
+    expect(link.received.a).toEqual(range(50).map(n => 100 + n))
+  })
+
+  it('holds messages after a gap and only resends the missing one', () => {
+    const packets: ReliablePacket<number>[] = []
+    const sender = new ReliableChannel<number>({
+      now: () => 0,
+      transmit: packet => packets.push(packet),
+      deliver: () => {},
+    })
+    const delivered: number[] = []
+    const acks: ReliablePacket<number>[] = []
+    const receiver = new ReliableChannel<number>({
+      now: () => 0,
+      transmit: packet => acks.push(packet),
+      deliver: message => delivered.push(message),
+    })
+
+    range(4).forEach(n => sender.send(n))
+    // Message 1 is lost
+    receiver.receive(packets[0])
+    receiver.receive(packets[2])
+    receiver.receive(packets[3])
+
+    expect(delivered).toEqual([0])
+    expect(acks[acks.length - 1]).toMatchObject({ kind: 'ack', ack: 0, sack: [2, 3] })
+
+    sender.receive(acks[acks.length - 1])
+    expect(sender.inFlight).toBe(1)
+
+    receiver.receive(packets[1])
+    expect(delivered).toEqual([0, 1, 2, 3])
+    expect(acks[acks.length - 1]).toMatchObject({ ack: 3, sack: [] })
+  })
+
+  it('backs off and gives up after maxAttempts when the peer is gone', () => {
+    const link = createLink({ loss: 1 })
+    link.a.send(7)
+    link.run(60000)
+
+    expect(link.givenUp).toEqual([7])
+    expect(link.a.inFlight).toBe(0)
+    expect(link.a.getStats()).toMatchObject({ retransmitted: 9, givenUp: 1 })
+    // Exponential backoff keeps the retry count low over a minute of silence
+    expect(link.packetsSent).toBe(10)
+  })
+
+  it('skips messages the sender gave up on instead of stalling behind them', () => {
+    let clock = 0
+    const packets: ReliablePacket<number>[] = []
+    const sender = new ReliableChannel<number>({
+      now: () => clock,
+      transmit: packet => packets.push(packet),
+      deliver: () => {},
+      maxAttempts: 1,
+    })
+    const delivered: number[] = []
+    const receiver = new ReliableChannel<number>({
+      now: () => clock,
+      transmit: () => {},
+      deliver: message => delivered.push(message),
+    })
+
+    sender.send(0)
+    receiver.receive(packets[0])
+    sender.send(1) // lost, and given up on below
+    clock += 1000
+    sender.tick()
+    sender.send(2)
+    receiver.receive(packets[packets.length - 1])
+
+    expect(delivered).toEqual([0, 2])
+  })
+
+  it('starts over when the peer restarts with a new epoch', () => {
+    const link = createLink()
+    range(3).forEach(n => link.a.send(n))
+    link.run(200)
+
+    link.a.reset()
+    link.a.send(10)
+    link.a.send(11)
+    link.run(200)
+
+    expect(link.received.b).toEqual([0, 1, 2, 10, 11])
+  })
+
+  it('ignores acks from before a reset', () => {
+    const packets: ReliablePacket<number>[] = []
+    const sender = new ReliableChannel<number>({
+      now: () => 0,
+      transmit: packet => packets.push(packet),
+      deliver: () => {},
+    })
+    const acks: ReliablePacket<number>[] = []
+    const receiver = new ReliableChannel<number>({
+      now: () => 0,
+      transmit: packet => acks.push(packet),
+      deliver: () => {},
+    })
+
+    sender.send(0)
+    receiver.receive(packets[0])
+    sender.reset()
+    sender.send(1)
+    sender.receive(acks[0])
+
+    expect(sender.inFlight).toBe(1)
+  })
+
+  it('learns the round-trip time from acks', () => {
+    const link = createLink({ maxDelayMs: 40 }, 3)
+    range(20).forEach(n => link.a.send(n))
+    link.run(1000)
+
+    const { srttMs } = link.a.getStats()
+    expect(srttMs).not.toBeNull()
+    expect(srttMs!).toBeGreaterThanOrEqual(20)
+    expect(srttMs!).toBeLessThanOrEqual(100)
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LatestFrameFilter
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('LatestFrameFilter', () => {
+  it('drops frames older than the last one shown', () => {
+    const filter = new LatestFrameFilter()
+
+    expect(filter.accept('x', 5)).toBe(true)
+    expect(filter.accept('x', 3)).toBe(false)
+    expect(filter.accept('x', 5)).toBe(false)
+    expect(filter.isLate('x', 4)).toBe(true)
+    expect(filter.accept('x', 8)).toBe(true)
+  })
+
+  it('accepts a restarted sender counting from zero again', () => {
+    const filter = new LatestFrameFilter()
+
+    filter.accept('old', 500)
+    expect(filter.accept('new', 0)).toBe(true)
+    expect(filter.accept('new', 1)).toBe(true)
+  })
+
+  it('forgets everything on reset', () => {
+    const filter = new LatestFrameFilter()
+
+    filter.accept('x', 9)
+    filter.reset()
+    expect(filter.accept('x', 1)).toBe(true)
+  })
+})
@@ -0,0 +1,373 @@
+import {
+  filterCandidates,
+  getVideoBandwidth,
+  listVideoCodecs,
+  parseCandidate,
+  parseCodecs,
+  preferVideoCodec,
+  resolveVideoCodec,
+  sessionOrigin,
+  setVideoBandwidth,
+  splitSections,
+  videoCodecOf,
+  videoCodecsFromCapabilities,
+} from '../sdp'
+import { ANDROID_OFFER, IOS_CANDIDATES, IOS_OFFER } from './fixtures/sdp'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Fixtures
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const SESSION = [
+  'v=0',
+  'o=- 4611731400430051336 2 IN IP4 127.0.0.1',
+  's=-',
+  't=0 0',
+  'a=group:BUNDLE 0 1 2',
+]
+
+const AUDIO = [
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111 63 9 0 8',
+  'c=IN IP4 0.0.0.0',
+  'a=mid:0',
+  'a=rtpmap:111 opus/48000/2',
+  'a=fmtp:111 minptime=10;useinbandfec=1',
+  'a=rtpmap:63 red/48000/2',
+  'a=rtpmap:9 G722/8000',
+  'a=rtpmap:0 PCMU/8000',
+  'a=rtpmap:8 PCMA/8000',
+]
+
+/** Typical libwebrtc video section: VP8, VP9, two H.264 baseline modes, H.264 high, red/ulpfec */
+function videoSection(mid: string) {
+  return [
+    'm=video 9 UDP/TLS/RTP/SAVPF 96 97 98 99 100 101 102 103 104 105 106 107',
+    'c=IN IP4 0.0.0.0',
+    `a=mid:${mid}`,
+    'a=rtpmap:96 VP8/90000',
+    'a=rtcp-fb:96 nack',
+    'a=rtpmap:97 rtx/90000',
+    'a=fmtp:97 apt=96',
+    'a=rtpmap:98 VP9/90000',
+    'a=fmtp:98 profile-id=0',
+    'a=rtpmap:99 rtx/90000',
+    'a=fmtp:99 apt=98',
+    'a=rtpmap:100 H264/90000',
+    'a=fmtp:100 level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=42e01f',
+    'a=rtpmap:101 rtx/90000',
+    'a=fmtp:101 apt=100',
+    'a=rtpmap:102 H264/90000',
+    'a=fmtp:102 level-asymmetry-allowed=1;packetization-mode=0;profile-level-id=42e01f',
+    'a=rtpmap:103 rtx/90000',
+    'a=fmtp:103 apt=102',
+    'a=rtpmap:104 H264/90000',
+    'a=fmtp:104 level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=640c1f',
+    'a=rtpmap:105 rtx/90000',
+    'a=fmtp:105 apt=104',
+    'a=rtpmap:106 red/90000',
+    'a=rtpmap:107 ulpfec/90000',
+  ]
+}
+
+const DATA = [
+  'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+  'c=IN IP4 0.0.0.0',
+  'a=mid:2',
+]
+
+function buildSdp(lineBreak: string, ...sections: string[][]) {
+  return [...SESSION, ...sections.flat(), ''].join(lineBreak)
+}
+
+function mLines(sdp: string) {
+  return splitSections(sdp).sections.map(section => section[0]).filter(line => line.startsWith('m='))
+}
+
+function mediaSection(sdp: string, media: 'audio' | 'video') {
+  return splitSections(sdp).sections.find(section => section[0].startsWith(`m=${media}`)) ?? []
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('splitSections', () => {
+  it('round-trips CRLF and LF SDPs unchanged', () => {
+    for (const lineBreak of ['\r\n', '\n']) {
+      const sdp = buildSdp(lineBreak, AUDIO, videoSection('1'), DATA)
+      const { lineBreak: detected, sections } = splitSections(sdp)
+
+      expect(detected).toBe(lineBreak)
+      expect(sections).toHaveLength(4)
+      expect(sections.map(section => section.join(lineBreak)).join(lineBreak)).toBe(sdp)
+    }
+  })
+})
+
+describe('parseCodecs', () => {
+  it('reads payloads in m-line order with their rtpmap and fmtp', () => {
+    const codecs = parseCodecs(videoSection('1'))
+
+    expect(codecs.map(codec => codec.payload)).toEqual(['96', '97', '98', '99', '100', '101', '102', '103', '104', '105', '106', '107'])
+    expect(codecs[1]).toEqual({ payload: '97', name: 'rtx', clockRate: 90000, fmtp: { apt: '96' } })
+    expect(codecs[4].fmtp['profile-level-id']).toBe('42e01f')
+  })
+})
+
+describe('videoCodecOf', () => {
+  it('splits H.264 by profile', () => {
+    expect(videoCodecOf('H264', { 'profile-level-id': '42e01f' })).toBe('h264_baseline')
+    expect(videoCodecOf('H264', { 'profile-level-id': '42001f' })).toBe('h264_baseline')
+    expect(videoCodecOf('H264', { 'profile-level-id': '640c1f' })).toBe('h264_high')
+    expect(videoCodecOf('H264', { 'profile-level-id': '4d001f' })).toBeNull()
+    expect(videoCodecOf('H264')).toBe('h264_baseline')
+  })
+
+  it('ignores case and non-video encodings', () => {
+    expect(videoCodecOf('vp8')).toBe('vp8')
+    expect(videoCodecOf('VP9')).toBe('vp9')
+    expect(videoCodecOf('rtx')).toBeNull()
+    expect(videoCodecOf('AV1')).toBeNull()
+  })
+})
+
+describe('videoCodecsFromCapabilities', () => {
+  it('maps native capabilities to codec choices', () => {
+    const codecs = videoCodecsFromCapabilities([
+      { mimeType: 'video/H264', sdpFmtpLine: 'level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=640c1f' },
+      { mimeType: 'video/VP8' },
+      { mimeType: 'video/rtx' },
+      { mimeType: 'video/H264', sdpFmtpLine: 'packetization-mode=1;profile-level-id=42e01f' },
+      { mimeType: 'video/red' },
+    ])
+
+    expect(codecs).toEqual(['vp8', 'h264_baseline', 'h264_high'])
+  })
+})
+
+describe('listVideoCodecs', () => {
+  it('lists the video codecs in the SDP\'s order, skipping audio', () => {
+    const sdp = buildSdp('\r\n', AUDIO, videoSection('1'))
+
+    expect(listVideoCodecs(sdp)).toEqual(['vp8', 'vp9', 'h264_baseline', 'h264_high'])
+  })
+
+  it('reads real Android and iOS offers', () => {
+    expect(listVideoCodecs(ANDROID_OFFER)).toEqual(['vp8', 'vp9', 'h264_baseline'])
+    expect(listVideoCodecs(IOS_OFFER)).toEqual(['h264_high', 'h264_baseline', 'vp8', 'vp9'])
+  })
+})
+
+describe('sessionOrigin', () => {
+  it('reads the session id and version from the o= line', () => {
+    expect(sessionOrigin(buildSdp('\r\n', AUDIO))).toBe('4611731400430051336 2')
+  })
+
+  it('tells a renegotiation from the same offer delivered twice', () => {
+    const first = buildSdp('\r\n', AUDIO)
+    const renegotiated = first.replace('4611731400430051336 2 IN', '4611731400430051336 3 IN')
+
+    expect(sessionOrigin(first)).toBe(sessionOrigin(buildSdp('\r\n', AUDIO)))
+    expect(sessionOrigin(renegotiated)).not.toBe(sessionOrigin(first))
+  })
+
+  it('returns null without an o= line', () => {
+    expect(sessionOrigin('v=0\r\ns=-\r\n')).toBeNull()
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Munging
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('preferVideoCodec', () => {
+  it('moves every payload of the codec first, each followed by its rtx', () => {
+    const sdp = preferVideoCodec(buildSdp('\r\n', AUDIO, videoSection('1')), 'h264_baseline')
+
+    expect(mLines(sdp)[1]).toBe('m=video 9 UDP/TLS/RTP/SAVPF 100 101 102 103 96 97 98 99 104 105 106 107')
+  })
+
+  it('keeps red and ulpfec where they were relative to the rest', () => {
+    const sdp = preferVideoCodec(buildSdp('\r\n', videoSection('0')), 'h264_high')
+    const payloads = mLines(sdp)[0].split(' ').slice(3)
+
+    expect(payloads.slice(0, 2)).toEqual(['104', '105'])
+    expect(payloads.slice(-2)).toEqual(['106', '107'])
+  })
+
+  it('reorders every video m-line and leaves audio and data alone', () => {
+    const original = buildSdp('\n', AUDIO, videoSection('1'), videoSection('2'), DATA)
+    const sdp = preferVideoCodec(original, 'vp9')
+    const lines = mLines(sdp)
+
+    expect(lines[0]).toBe(AUDIO[0])
+    expect(lines[1]).toBe('m=video 9 UDP/TLS/RTP/SAVPF 98 99 96 97 100 101 102 103 104 105 106 107')
+    expect(lines[2]).toBe(lines[1])
+    expect(lines[3]).toBe(DATA[0])
+    // Only the m-lines change
+    expect(sdp.split('\n').filter(line => !line.startsWith('m='))).toEqual(original.split('\n').filter(line => !line.startsWith('m=')))
+  })
+
+  it('leaves sections without the codec untouched', () => {
+    const vp8Only = [
+      'm=video 9 UDP/TLS/RTP/SAVPF 96 97',
+      'a=rtpmap:96 VP8/90000',
+      'a=rtpmap:97 rtx/90000',
+      'a=fmtp:97 apt=96',
+    ]
+    const original = buildSdp('\r\n', vp8Only, videoSection('1'))
+    const lines = mLines(preferVideoCodec(original, 'h264_high'))
+
+    expect(lines[0]).toBe(vp8Only[0])
+    expect(lines[1]).toBe('m=video 9 UDP/TLS/RTP/SAVPF 104 105 96 97 98 99 100 101 102 103 106 107')
+  })
+
+  it('is a no-op when the codec is already first', () => {
+    const original = buildSdp('\r\n', AUDIO, videoSection('1'))
+
+    expect(preferVideoCodec(original, 'vp8')).toBe(original)
+    expect(preferVideoCodec(IOS_OFFER, 'h264_high')).toBe(IOS_OFFER)
+  })
+
+  it('moves VP8 ahead of hardware H.264 in an iOS offer', () => {
+    const sdp = preferVideoCodec(IOS_OFFER, 'vp8')
+
+    expect(mLines(sdp)[1]).toBe('m=video 9 UDP/TLS/RTP/SAVPF 100 101 96 97 98 99 102 103 104 105 106 107 108')
+    expect(mediaSection(sdp, 'audio')).toEqual(mediaSection(IOS_OFFER, 'audio'))
+  })
+
+  it('moves H.264 ahead of VP8, VP9 and AV1 in an Android offer', () => {
+    const sdp = preferVideoCodec(ANDROID_OFFER, 'h264_baseline')
+
+    expect(mLines(sdp)[1]).toBe('m=video 9 UDP/TLS/RTP/SAVPF 102 103 96 97 98 99 100 101 35 36 104 105 106')
+    expect(listVideoCodecs(sdp)[0]).toBe('h264_baseline')
+  })
+
+  it('keeps both VP9 profiles together', () => {
+    const sdp = preferVideoCodec(ANDROID_OFFER, 'vp9')
+
+    expect(mLines(sdp)[1]).toBe('m=video 9 UDP/TLS/RTP/SAVPF 98 99 100 101 96 97 35 36 102 103 104 105 106')
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Bandwidth
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('setVideoBandwidth', () => {
+  it('adds b=AS and b=TIAS right after the video section\'s c= line', () => {
+    const video = mediaSection(setVideoBandwidth(ANDROID_OFFER, 900000), 'video')
+    const connection = video.findIndex(line => line.startsWith('c='))
+
+    expect(video.slice(connection + 1, connection + 3)).toEqual(['b=AS:900', 'b=TIAS:900000'])
+  })
+
+  it('replaces an existing cap instead of adding a second one', () => {
+    const sdp = setVideoBandwidth(IOS_OFFER, 300000)
+    const video = mediaSection(sdp, 'video')
+
+    expect(video.filter(line => line.startsWith('b='))).toEqual(['b=AS:300', 'b=TIAS:300000'])
+    expect(getVideoBandwidth(sdp)).toBe(300000)
+  })
+
+  it('removes the cap with null', () => {
+    const sdp = setVideoBandwidth(IOS_OFFER, null)
+
+    expect(getVideoBandwidth(IOS_OFFER)).toBe(2000000)
+    expect(getVideoBandwidth(sdp)).toBeNull()
+    expect(sdp).toBe(IOS_OFFER.replace('b=AS:2000\r\n', ''))
+  })
+
+  it('leaves audio alone', () => {
+    const sdp = setVideoBandwidth(ANDROID_OFFER, 2500000)
+
+    expect(mediaSection(sdp, 'audio')).toEqual(mediaSection(ANDROID_OFFER, 'audio'))
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Candidates
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('parseCandidate', () => {
+  it('parses trickled candidates and SDP candidate lines', () => {
+    expect(parseCandidate(IOS_CANDIDATES[0])).toEqual({
+      foundation: '842163049',
+      component: 1,
+      protocol: 'udp',
+      priority: 1677729535,
+      address: '203.0.113.41',
+      port: 61234,
+      type: 'srflx',
+    })
+    expect(IOS_CANDIDATES.map(candidate => parseCandidate(candidate)?.type)).toEqual(['srflx', 'host', 'host', 'relay'])
+    expect(parseCandidate(IOS_CANDIDATES[1])?.address).toBe('2001:db8::1c2')
+    expect(parseCandidate(IOS_CANDIDATES[2])?.protocol).toBe('tcp')
+
+    const relayLine = mediaSection(ANDROID_OFFER, 'video').find(line => line.includes('typ relay'))!
+    expect(parseCandidate(relayLine)).toMatchObject({ type: 'relay', address: '198.51.100.20', port: 51034 })
+  })
+
+  it('rejects anything that isn\'t a candidate', () => {
+    expect(parseCandidate('')).toBeNull()
+    expect(parseCandidate('a=end-of-candidates')).toBeNull()
+    expect(parseCandidate('candidate:1 1 udp 1 10.0.0.1 9 typ bogus')).toBeNull()
+  })
+})
+
+describe('filterCandidates', () => {
+  const candidateTypes = (sdp: string, media: 'audio' | 'video') => mediaSection(sdp, media)
+    .filter(line => line.startsWith('a=candidate:'))
+    .map(line => parseCandidate(line)?.type)
+
+  it('keeps only relay candidates in every section', () => {
+    const sdp = filterCandidates(ANDROID_OFFER, candidate => candidate.type === 'relay')
+
+    expect(candidateTypes(sdp, 'audio')).toEqual(['relay'])
+    expect(candidateTypes(sdp, 'video')).toEqual(['relay'])
+    expect(sdp).toContain('a=end-of-candidates')
+  })
+
+  it('drops TCP candidates', () => {
+    const sdp = filterCandidates(ANDROID_OFFER, candidate => candidate.protocol === 'udp')
+
+    expect(candidateTypes(sdp, 'video')).toEqual(['host', 'srflx', 'relay'])
+  })
+
+  it('changes nothing else', () => {
+    const sdp = filterCandidates(ANDROID_OFFER, () => false)
+    const withoutCandidates = ANDROID_OFFER.split('\r\n').filter(line => !line.startsWith('a=candidate:'))
+
+    expect(sdp.split('\r\n')).toEqual(withoutCandidates)
+    expect(filterCandidates(ANDROID_OFFER, () => true)).toBe(ANDROID_OFFER)
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Policy
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('resolveVideoCodec', () => {
+  const all = ['vp8', 'vp9', 'h264_baseline', 'h264_high'] as const
+
+  it('honours an explicit policy both phones support', () => {
+    expect(resolveVideoCodec('h264_high', { local: [...all], remote: [...all], remembered: 'vp9' })).toBe('h264_high')
+  })
+
+  it('falls back when the partner lacks the chosen codec', () => {
+    expect(resolveVideoCodec('h264_high', { local: [...all], remote: ['vp8', 'h264_baseline'] })).toBe('vp8')
+  })
+
+  it('uses the codec that last worked with the partner on auto', () => {
+    expect(resolveVideoCodec('auto', { local: [...all], remembered: 'h264_baseline' })).toBe('h264_baseline')
+  })
+
+  it('ignores a remembered codec this phone can no longer use', () => {
+    expect(resolveVideoCodec('auto', { local: ['h264_baseline', 'vp9'], remembered: 'h264_high' })).toBe('h264_baseline')
+  })
+
+  it('defaults to VP8 when nothing is known', () => {
+    expect(resolveVideoCodec('auto', { local: [...all] })).toBe('vp8')
+    expect(resolveVideoCodec('auto', { local: [] })).toBe('vp8')
+  })
+})
@@ -0,0 +1,176 @@
+import { counterIncrements, isNetworkError, mergeRecords, syncQueue } from '../syncQueue'
+
+jest.mock('../sessionLogger', () => ({
+  sessionLogger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}))
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+)
+
+jest.mock('@react-native-community/netinfo', () => ({
+  addEventListener: jest.fn(() => () => {}),
+  fetch: jest.fn(() => new Promise(() => {})),
+}))
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Fake Supabase
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const mockServer = {
+  /** Row returned for any select */
+  row: null as Record<string, unknown> | null,
+  /** Error returned by writes to pending_sync */
+  parkError: null as { message: string; code?: string } | null,
+  upserts: [] as { table: string; record: Record<string, unknown> }[],
+  rpcs: [] as { name: string; args: Record<string, unknown> }[],
+}
+
+jest.mock('../supabase', () => ({
+  supabase: {
+    from: (table: string) => ({
+      select: () => ({
+        eq: () => ({ maybeSingle: async () => ({ data: mockServer.row, error: null }) }),
+      }),
+      upsert: async (record: Record<string, unknown>) => {
+        if (table === 'pending_sync' && mockServer.parkError) return { error: mockServer.parkError }
+        mockServer.upserts.push({ table, record })
+        return { error: null }
+      },
+      delete: () => ({ eq: async () => ({ error: null }) }),
+    }),
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      mockServer.rpcs.push({ name, args })
+      return { error: null }
+    },
+  },
+}))
+
+/** enqueue() starts a flush of its own - let it finish */
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+beforeEach(() => {
+  mockServer.row = null
+  mockServer.parkError = null
+  mockServer.upserts = []
+  mockServer.rpcs = []
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('isNetworkError', () => {
+  it('recognises requests that never got through', () => {
+    expect(isNetworkError(new TypeError('Network request failed'))).toBe(true)
+    expect(isNetworkError({ message: 'Failed to fetch' })).toBe(true)
+    expect(isNetworkError({ message: 'The request timed out' })).toBe(true)
+    expect(isNetworkError({ message: 'AbortError: aborted' })).toBe(true)
+  })
+
+  it('does not treat a server rejection as a network error', () => {
+    expect(isNetworkError({ message: 'duplicate key value', code: '23505' })).toBe(false)
+    expect(isNetworkError({ message: 'Network policy violated', code: '42501' })).toBe(false)
+    expect(isNetworkError(new Error('Row not found'))).toBe(false)
+    expect(isNetworkError(null)).toBe(false)
+  })
+})
+
+describe('counterIncrements', () => {
+  it('picks the table\'s counter columns out of a write', () => {
+    const data = { device_id: 'd', photos_taken: 1, experience_points: 10, updated_at: 'now' }
+
+    expect(counterIncrements('user_stats', data)).toEqual({ photos_taken: 1, experience_points: 10 })
+    expect(counterIncrements('user_settings', data)).toEqual({})
+  })
+
+  it('skips values that aren\'t numbers', () => {
+    expect(counterIncrements('user_stats', { photos_taken: '1', photos_helped: NaN })).toEqual({})
+  })
+})
+
+describe('mergeRecords', () => {
+  it('lets queued values replace the server\'s and keeps the rest of the row', () => {
+    const server = { device_id: 'd', theme: 'dark', language: 'en' }
+
+    expect(mergeRecords('user_settings', server, { device_id: 'd', language: 'th' }))
+      .toEqual({ device_id: 'd', theme: 'dark', language: 'th' })
+  })
+
+  it('never writes counters - the server adds them', () => {
+    const server = { device_id: 'd', photos_taken: 7, level: 2 }
+
+    expect(mergeRecords('user_stats', server, { device_id: 'd', photos_taken: 1 }))
+      .toEqual({ device_id: 'd', photos_taken: 7, level: 2 })
+    expect(mergeRecords('user_stats', null, { device_id: 'd', photos_taken: 1 }))
+      .toEqual({ device_id: 'd' })
+  })
+})
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Queue
+// ─────────────────────────────────────────────────────────────────────────────────
+
+describe('syncQueue', () => {
+  it('adds queued counters through the increment function, keyed on the write', async () => {
+    const id = await syncQueue.enqueue({
+      deviceId: 'd',
+      operation: 'update',
+      table: 'user_stats',
+      data: { device_id: 'd', photos_taken: 1 },
+      resolution: 'merge',
+    })
+    await settle()
+
+    expect(mockServer.rpcs).toEqual([{
+      name: 'apply_user_stats_increment',
+      args: { p_op_id: id, p_key: 'd', p_increments: { photos_taken: 1 } },
+    }])
+    expect(mockServer.upserts).toEqual([])
+    expect(syncQueue.pending).toBe(0)
+  })
+
+  it('keeps a conflicting write queued until pending_sync has it', async () => {
+    // Changed on the server after the write was queued
+    mockServer.row = { id: 'c1', updated_at: new Date(Date.now() + 60000).toISOString() }
+    mockServer.parkError = { message: 'Network request failed' }
+
+    await syncQueue.enqueue({
+      deviceId: 'd',
+      operation: 'update',
+      table: 'captures',
+      data: { id: 'c1', is_favorite: true },
+      resolution: 'server_wins',
+    })
+    const waiting = syncQueue.waitForSync('captures', ['c1'])
+    await settle()
+    expect(syncQueue.pending).toBe(1)
+
+    mockServer.parkError = null
+    await syncQueue.flush()
+
+    expect(syncQueue.pending).toBe(0)
+    expect(mockServer.upserts.map(upsert => upsert.table)).toEqual(['pending_sync'])
+    expect(mockServer.upserts[0].record).toMatchObject({ record_id: 'c1', status: 'conflict' })
+    // Parked, not written - whatever depends on the row is told so
+    await expect(waiting).resolves.toBe(false)
+  })
+
+  it('tells a waiting write when the row it depends on has synced', async () => {
+    const synced = syncQueue.waitForSync('captures', ['c2'])
+    await syncQueue.enqueue({
+      deviceId: 'd',
+      operation: 'insert',
+      table: 'captures',
+      data: { id: 'c2' },
+      resolution: 'server_wins',
+    })
+    const waiting = syncQueue.waitForSync('captures', ['c2'])
+    await settle()
+
+    // Nothing was queued for the row when the first wait started
+    await expect(synced).resolves.toBe(true)
+    await expect(waiting).resolves.toBe(true)
+    expect(mockServer.upserts).toEqual([{ table: 'captures', record: { id: 'c2' } }])
+  })
+})
@@ -0,0 +1,210 @@
+/**
+ * Adaptive Bitrate
+ *
+ * Keeps the camera's live stream inside what the network can carry. Each
+ * stats sample (round-trip time, packet loss, the estimated available
+ * outgoing bitrate) moves a target bitrate down fast on congestion and up
+ * slowly when the link is clean - within the ceiling of the director's preset.
+ *
+ * The target bitrate is turned into encoder settings (bitrate, resolution
+ * scale, framerate) according to the director's preference: smoothness
+ * shrinks the picture before dropping frames, sharpness drops frames first.
+ *
+ * Pure - WebRTCService reads the stats, applies the plan to the sender and
+ * reports back which plan the sender took. Until one has, every sample
+ * hands out the current plan again.
+ */
+
+import type { CameraSettings } from '../types'
+import type { StreamPreference } from '../schemas/commands'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type StreamQuality = CameraSettings['quality']
+
+export interface StreamPreset {
+  maxBitrateBps: number
+  fps: CameraSettings['fps']
+  /** Of the 1280x720 capture */
+  scaleResolutionDownBy: number
+}
+
+/** Cumulative counters from one getStats() call */
+export interface SenderStatsSample {
+  rttMs: number | null
+  packetsSent: number
+  packetsLost: number
+  /** Congestion controller's estimate, when the platform reports it */
+  availableOutgoingBitrateBps: number | null
+}
+
+/** Encoder settings for the video sender */
+export interface EncodingPlan {
+  maxBitrateBps: number
+  maxFramerate: number
+  scaleResolutionDownBy: number
+  degradationPreference: 'maintain-framerate' | 'maintain-resolution'
+}
+
+export const STREAM_PRESETS: Record<StreamQuality, StreamPreset> = {
+  low: { maxBitrateBps: 300000, fps: 15, scaleResolutionDownBy: 2 },
+  medium: { maxBitrateBps: 900000, fps: 30, scaleResolutionDownBy: 1.5 },
+  high: { maxBitrateBps: 2500000, fps: 30, scaleResolutionDownBy: 1 },
+}
+
+const MIN_BITRATE_BPS = 100000
+const MIN_FRAMERATE = 10
+/** 1280x720 → 320x180 at most */
+const MAX_SCALE_DOWN = 4
+
+/** Loss or round trips at or above these mean the link is congested... */
+const CONGESTED_LOSS_PCT = 10
+const CONGESTED_RTT_MS = 400
+/** ...and at or below these that there is room to grow */
+const CLEAN_LOSS_PCT = 2
+const CLEAN_RTT_MS = 250
+
+const DECREASE_FACTOR = 0.7
+const INCREASE_FACTOR = 1.1
+/** Share of the estimated available bitrate the video may use */
+const AVAILABLE_BITRATE_HEADROOM = 0.85
+/** Bitrate changes smaller than this aren't worth reconfiguring the encoder for */
+const MIN_BITRATE_CHANGE = 0.1
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+/**
+ * Encoder settings for a bitrate. Pixels per second are treated as roughly
+ * proportional to bitrate, so a budget cut is taken out of resolution,
+ * framerate or both depending on the preference.
+ */
+export function planEncoding(preset: StreamPreset, preference: StreamPreference, bitrateBps: number): EncodingPlan {
+  const budget = clamp(bitrateBps / preset.maxBitrateBps, 0.01, 1)
+  const maxPixelCut = (preset.scaleResolutionDownBy / MAX_SCALE_DOWN) ** 2
+  const minFrameCut = Math.min(1, MIN_FRAMERATE / preset.fps)
+
+  let pixelShare: number
+  let frameShare: number
+  if (preference === 'smoothness') {
+    pixelShare = Math.max(budget, maxPixelCut)
+    frameShare = Math.max(budget / pixelShare, minFrameCut)
+  } else {
+    frameShare = Math.max(budget, minFrameCut)
+    pixelShare = Math.max(budget / frameShare, maxPixelCut)
+  }
+
+  return {
+    maxBitrateBps: Math.round(bitrateBps),
+    maxFramerate: Math.round(preset.fps * frameShare),
+    scaleResolutionDownBy: Math.round((preset.scaleResolutionDownBy / Math.sqrt(pixelShare)) * 100) / 100,
+    degradationPreference: preference === 'smoothness' ? 'maintain-framerate' : 'maintain-resolution',
+  }
+}
+
+function lossPercent(previous: SenderStatsSample | null, sample: SenderStatsSample): number | null {
+  if (!previous) return null
+  const sent = sample.packetsSent - previous.packetsSent
+  if (sent <= 0) return null
+  return Math.max(0, ((sample.packetsLost - previous.packetsLost) / sent) * 100)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Controller
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class BitrateController {
+  private quality: StreamQuality
+  private preference: StreamPreference
+  private targetBps: number
+  private previousSample: SenderStatsSample | null = null
+  /** Last plan the sender accepted - null until one was */
+  private applied: EncodingPlan | null = null
+
+  constructor(quality: StreamQuality = 'medium', preference: StreamPreference = 'smoothness') {
+    this.quality = quality
+    this.preference = preference
+    this.targetBps = STREAM_PRESETS[quality].maxBitrateBps
+  }
+
+  /** What the sender should be running */
+  get plan(): EncodingPlan {
+    return planEncoding(STREAM_PRESETS[this.quality], this.preference, this.targetBps)
+  }
+
+  /** What the sender is running, as far as we know */
+  get appliedPlan(): EncodingPlan | null {
+    return this.applied
+  }
+
+  /** The sender took `plan` - later samples only hand out plans that differ from it */
+  markApplied(plan: EncodingPlan) {
+    this.applied = plan
+  }
+
+  /**
+   * Switch preset or preference. Starts again from the top of the new
+   * preset - the next samples bring it down if the link can't take it.
+   */
+  configure(quality: StreamQuality, preference: StreamPreference): EncodingPlan {
+    this.quality = quality
+    this.preference = preference
+    this.targetBps = STREAM_PRESETS[quality].maxBitrateBps
+    this.applied = null
+    return this.plan
+  }
+
+  /**
+   * Feed a stats sample. Returns encoder settings when they should change -
+   * or when no plan has been applied yet - null to leave the sender as it is.
+   */
+  update(sample: SenderStatsSample): EncodingPlan | null {
+    const preset = STREAM_PRESETS[this.quality]
+    const lossPct = lossPercent(this.previousSample, sample)
+    this.previousSample = sample
+
+    const congested = (lossPct !== null && lossPct >= CONGESTED_LOSS_PCT)
+      || (sample.rttMs !== null && sample.rttMs >= CONGESTED_RTT_MS)
+    const clean = (lossPct === null || lossPct <= CLEAN_LOSS_PCT)
+      && (sample.rttMs === null || sample.rttMs <= CLEAN_RTT_MS)
+
+    if (congested) {
+      this.targetBps *= DECREASE_FACTOR
+    } else if (clean) {
+      this.targetBps *= INCREASE_FACTOR
+    }
+
+    let ceiling = preset.maxBitrateBps
+    if (sample.availableOutgoingBitrateBps !== null) {
+      ceiling = Math.min(ceiling, sample.availableOutgoingBitrateBps * AVAILABLE_BITRATE_HEADROOM)
+    }
+    this.targetBps = clamp(this.targetBps, MIN_BITRATE_BPS, Math.max(ceiling, MIN_BITRATE_BPS))
+
+    const next = planEncoding(preset, this.preference, this.targetBps)
+    const current = this.applied
+    if (
+      current
+      && Math.abs(next.maxBitrateBps - current.maxBitrateBps) / current.maxBitrateBps < MIN_BITRATE_CHANGE
+      && next.maxFramerate === current.maxFramerate
+      && next.scaleResolutionDownBy === current.scaleResolutionDownBy
+    ) {
+      return null
+    }
+
+    return next
+  }
+
+  /** Forget the link's history - a new connection starts from the top of the preset */
+  reset() {
+    this.targetBps = STREAM_PRESETS[this.quality].maxBitrateBps
+    this.previousSample = null
+    this.applied = null
+  }
+}
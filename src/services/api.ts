@@ -10,11 +10,16 @@ import type {
   Capture, 
   UserStats, 
   UserSettings,
-  SessionEvent 
+  SessionEvent,
+  SessionRecording,
 } from './supabase'
 import { Platform } from 'react-native'
 import Constants from 'expo-constants'
+import uuid from 'react-native-uuid'
 import { logger } from './logging'
+import { syncQueue, isNetworkError } from './syncQueue'
+import { levelForXP } from '../utils/levels'
+import { isVideoCodec, type VideoCodec } from './sdp'
 
 // Keep a single Presence subscription per (sessionId,myDeviceId).
 // Multiple screens (home/viewer/camera) were creating duplicate Presence channels,
@@ -355,9 +360,13 @@ export const deviceApi = {
 // Save and manage photos
 // ─────────────────────────────────────────────────────────────────────────────────
 
+/** How long picking a best frame waits for the burst's queued frames to sync */
+const QUEUED_FRAMES_WAIT_MS = 10000
+
 export const capturesApi = {
   /**
-   * Save a capture record
+   * Save a capture record. Offline, the row is queued for sync and returned
+   * straight away (with `queued` set) so the photo still gets an id.
    */
   async save(capture: {
     cameraDeviceId: string
@@ -369,27 +378,52 @@ export const capturesApi = {
     height?: number
     fileSizeBytes?: number
     capturedBy?: 'camera' | 'viewer'
-  }): Promise<{ capture?: Capture; error?: string }> {
+    burst?: {
+      id: string
+      index: number
+      isBestFrame?: boolean
+    }
+  }): Promise<{ capture?: Capture; queued?: boolean; error?: string }> {
+    // The id is made here so a queued capture keeps it once synced
+    const row: Capture = {
+      id: uuid.v4() as string,
+      camera_device_id: capture.cameraDeviceId,
+      viewer_device_id: capture.viewerDeviceId,
+      session_id: capture.sessionId,
+      storage_path: capture.storagePath,
+      thumbnail_path: capture.thumbnailPath,
+      width: capture.width,
+      height: capture.height,
+      file_size_bytes: capture.fileSizeBytes,
+      captured_by: capture.capturedBy || 'camera',
+      burst_id: capture.burst?.id,
+      burst_index: capture.burst?.index,
+      is_best_frame: capture.burst?.isBestFrame ?? false,
+      created_at: new Date().toISOString(),
+    }
+    const queue = async () => {
+      await syncQueue.enqueue({
+        deviceId: capture.cameraDeviceId,
+        operation: 'insert',
+        table: 'captures',
+        data: { ...row },
+        resolution: 'server_wins',
+      })
+      return { capture: row, queued: true }
+    }
+
+    if (!syncQueue.isOnline) return queue()
     try {
       const { data, error } = await supabase
         .from('captures')
-        .insert({
-          camera_device_id: capture.cameraDeviceId,
-          viewer_device_id: capture.viewerDeviceId,
-          session_id: capture.sessionId,
-          storage_path: capture.storagePath,
-          thumbnail_path: capture.thumbnailPath,
-          width: capture.width,
-          height: capture.height,
-          file_size_bytes: capture.fileSizeBytes,
-          captured_by: capture.capturedBy || 'camera',
-        })
+        .insert(row)
         .select()
         .single()
 
-      if (error) return { error: error.message }
+      if (error) return isNetworkError(error) ? queue() : { error: error.message }
       return { capture: data }
     } catch (error) {
+      if (isNetworkError(error)) return queue()
       return { error: error instanceof Error ? error.message : 'Failed to save capture' }
     }
   },
@@ -401,15 +435,20 @@ export const capturesApi = {
     limit?: number
     offset?: number
     favoritesOnly?: boolean
+    /** Also include photos a paired camera took for this device */
+    includeReceived?: boolean
   }): Promise<{ captures: Capture[]; error?: string }> {
     try {
       let query = supabase
         .from('captures')
         .select('*')
-        .eq('camera_device_id', deviceId)
         .is('deleted_at', null)
         .order('created_at', { ascending: false })
 
+      query = options?.includeReceived
+        ? query.or(`camera_device_id.eq.${deviceId},viewer_device_id.eq.${deviceId}`)
+        : query.eq('camera_device_id', deviceId)
+
       if (options?.favoritesOnly) {
         query = query.eq('is_favorite', true)
       }
@@ -454,6 +493,133 @@ export const capturesApi = {
     }
   },
 
+  /**
+   * Get all frames of a burst, in capture order
+   */
+  async getBurst(burstId: string): Promise<{ captures: Capture[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('captures')
+        .select('*')
+        .eq('burst_id', burstId)
+        .is('deleted_at', null)
+        .order('burst_index', { ascending: true })
+
+      if (error) return { captures: [], error: error.message }
+      return { captures: data || [] }
+    } catch (error) {
+      return { captures: [], error: error instanceof Error ? error.message : 'Failed to fetch burst' }
+    }
+  },
+
+  /**
+   * Fetch specific captures, e.g. the photos on a session replay's timeline
+   */
+  async getByIds(captureIds: string[]): Promise<{ captures: Capture[]; error?: string }> {
+    if (captureIds.length === 0) return { captures: [] }
+    try {
+      const { data, error } = await supabase
+        .from('captures')
+        .select('*')
+        .in('id', captureIds)
+        .is('deleted_at', null)
+
+      if (error) return { captures: [], error: error.message }
+      return { captures: data || [] }
+    } catch (error) {
+      return { captures: [], error: error instanceof Error ? error.message : 'Failed to fetch captures' }
+    }
+  },
+
+  /**
+   * Mark one frame as the best frame of its burst. Frames still in the sync
+   * queue are written first - their own is_best_frame would undo this otherwise.
+   */
+  async setBestFrame(burstId: string, captureId: string): Promise<{ success: boolean; error?: string }> {
+    const queued = syncQueue.pendingRecordIds('captures', data => data.burst_id === burstId)
+    if (queued.length > 0 && !(await syncQueue.waitForSync('captures', queued, QUEUED_FRAMES_WAIT_MS))) {
+      return { success: false, error: 'Some frames of this burst haven\'t synced yet' }
+    }
+
+    try {
+      // Clear first - only one best frame per burst is allowed
+      const { error: clearError } = await supabase
+        .from('captures')
+        .update({ is_best_frame: false })
+        .eq('burst_id', burstId)
+
+      if (clearError) return { success: false, error: clearError.message }
+
+      const { error } = await supabase
+        .from('captures')
+        .update({ is_best_frame: true })
+        .eq('id', captureId)
+        .eq('burst_id', burstId)
+
+      if (error) return { success: false, error: error.message }
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to set best frame' }
+    }
+  },
+
+  /**
+   * Mark a capture whose upload gave up, so the director stops waiting for it.
+   * Leaves captures that did upload alone.
+   */
+  async markDeliveryFailed(captureId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('captures')
+        .update({ cloud_status: 'failed' })
+        .eq('id', captureId)
+        .is('cloud_url', null)
+
+      if (error) return { success: false, error: error.message }
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update capture' }
+    }
+  },
+
+  /**
+   * Subscribe to photos a paired camera takes for this device.
+   * Fires on insert (photo taken, upload pending) and again on update (uploaded).
+   */
+  subscribeToReceived(
+    deviceId: string,
+    callback: (capture: Capture) => void
+  ) {
+    const onChange = (payload: { new: unknown }) => {
+      const capture = payload.new as Capture
+      if (capture?.id && capture.camera_device_id !== deviceId) callback(capture)
+    }
+
+    return supabase
+      .channel(`captures-received-${deviceId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'captures',
+          filter: `viewer_device_id=eq.${deviceId}`,
+        },
+        onChange
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'captures',
+          filter: `viewer_device_id=eq.${deviceId}`,
+        },
+        onChange
+      )
+      .subscribe()
+  },
+
   /**
    * Soft delete a capture
    */
@@ -522,51 +688,60 @@ export const statsApi = {
   },
 
   /**
-   * Increment photo count
+   * Increment photo count. Goes through the sync queue, so an increment made
+   * offline is added to the cloud count once back online.
    */
   async incrementPhotos(deviceId: string, type: 'taken' | 'helped' | 'received'): Promise<void> {
     const column = type === 'taken' ? 'photos_taken' 
       : type === 'helped' ? 'photos_helped' 
       : 'photos_received'
 
-    try {
-      // Get current stats
-      const { data: current } = await supabase
-        .from('user_stats')
-        .select('photos_taken, photos_helped, photos_received')
-        .eq('device_id', deviceId)
-        .single()
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const currentValue = (current as any)?.[column] || 0
+    await syncQueue.enqueue({
+      deviceId,
+      operation: 'update',
+      table: 'user_stats',
+      data: {
+        device_id: deviceId,
+        [column]: 1,
+        updated_at: new Date().toISOString(),
+      },
+      resolution: 'merge',
+    })
+  },
 
-      // Upsert with incremented value
-      await supabase
-        .from('user_stats')
-        .upsert({
+  /**
+   * Add experience points. Offline, the points are queued and added once back
+   * online - no level-up is reported for them.
+   */
+  async addXP(deviceId: string, points: number): Promise<{ newLevel?: number; queued?: boolean; error?: string }> {
+    const queue = async () => {
+      await syncQueue.enqueue({
+        deviceId,
+        operation: 'update',
+        table: 'user_stats',
+        data: {
           device_id: deviceId,
-          [column]: currentValue + 1,
+          experience_points: points,
           updated_at: new Date().toISOString(),
-        }, { onConflict: 'device_id' })
-    } catch {
-      // Silent fail
+        },
+        resolution: 'merge',
+      })
+      return { queued: true }
     }
-  },
 
-  /**
-   * Add experience points
-   */
-  async addXP(deviceId: string, points: number): Promise<{ newLevel?: number; error?: string }> {
+    if (!syncQueue.isOnline) return queue()
     try {
       // Get current stats
-      const { data: current } = await supabase
+      const { data: current, error: fetchError } = await supabase
         .from('user_stats')
         .select('experience_points, level')
         .eq('device_id', deviceId)
         .single()
 
+      if (isNetworkError(fetchError)) return queue()
+
       const newXP = (current?.experience_points || 0) + points
-      const newLevel = Math.floor(Math.sqrt(newXP / 100)) + 1
+      const newLevel = levelForXP(newXP)
 
       const { error } = await supabase
         .from('user_stats')
@@ -577,7 +752,7 @@ export const statsApi = {
           updated_at: new Date().toISOString(),
         }, { onConflict: 'device_id' })
 
-      if (error) return { error: error.message }
+      if (error) return isNetworkError(error) ? queue() : { error: error.message }
       
       // Return new level if leveled up
       if (newLevel > (current?.level || 1)) {
@@ -585,6 +760,7 @@ export const statsApi = {
       }
       return {}
     } catch (error) {
+      if (isNetworkError(error)) return queue()
       return { error: error instanceof Error ? error.message : 'Failed to add XP' }
     }
   },
@@ -618,21 +794,36 @@ export const settingsApi = {
   },
 
   /**
-   * Save user settings
+   * Save user settings. Offline, they're queued - this device's latest
+   * choice wins when they sync.
    */
-  async save(deviceId: string, settings: Partial<UserSettings>): Promise<{ success: boolean; error?: string }> {
+  async save(deviceId: string, settings: Partial<UserSettings>): Promise<{ success: boolean; queued?: boolean; error?: string }> {
+    const record = {
+      device_id: deviceId,
+      ...settings,
+      updated_at: new Date().toISOString(),
+    }
+    const queue = async () => {
+      await syncQueue.enqueue({
+        deviceId,
+        operation: 'update',
+        table: 'user_settings',
+        data: record,
+        resolution: 'client_wins',
+      })
+      return { success: true, queued: true }
+    }
+
+    if (!syncQueue.isOnline) return queue()
     try {
       const { error } = await supabase
         .from('user_settings')
-        .upsert({
-          device_id: deviceId,
-          ...settings,
-          updated_at: new Date().toISOString(),
-        }, { onConflict: 'device_id' })
+        .upsert(record, { onConflict: 'device_id' })
 
-      if (error) return { success: false, error: error.message }
+      if (error) return isNetworkError(error) ? queue() : { success: false, error: error.message }
       return { success: true }
     } catch (error) {
+      if (isNetworkError(error)) return queue()
       return { success: false, error: error instanceof Error ? error.message : 'Failed to save settings' }
     }
   },
@@ -666,6 +857,76 @@ export const eventsApi = {
   },
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// SESSION RECORDINGS API
+// Timelines written by the camera at session end, read by the replay screen
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const sessionRecordingsApi = {
+  /**
+   * Save a finished session's recording. It goes through the sync queue, so
+   * one that ends offline is written once the phone is back online - the id
+   * is made by the caller, so a recording queued twice is only written once.
+   */
+  async save(recording: Omit<SessionRecording, 'created_at'>): Promise<{ success: boolean; error?: string }> {
+    try {
+      await syncQueue.enqueue({
+        deviceId: recording.camera_device_id,
+        operation: 'insert',
+        table: 'session_recordings',
+        data: { ...recording },
+        resolution: 'server_wins',
+      })
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to save session recording' }
+    }
+  },
+
+  /**
+   * Recordings this device took part in, as camera or director - newest first.
+   * The events timeline is left out; load it with `get` when a recording is opened.
+   */
+  async getByDevice(deviceId: string, limit = 30): Promise<{ recordings: SessionRecording[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('session_recordings')
+        .select([
+          'id, session_id, camera_device_id, viewer_device_id',
+          'duration_seconds, total_photos, total_commands, direction_counts',
+          'commands_up, commands_down, commands_left, commands_right, commands_closer, commands_back',
+          'avg_connection_quality, disconnection_count, started_at, ended_at, created_at',
+        ].join(', '))
+        .or(`camera_device_id.eq.${deviceId},viewer_device_id.eq.${deviceId}`)
+        .order('started_at', { ascending: false })
+        .limit(limit)
+
+      if (error) return { recordings: [], error: error.message }
+      return { recordings: ((data || []) as unknown as Omit<SessionRecording, 'events'>[]).map(row => ({ ...row, events: [] })) }
+    } catch (error) {
+      return { recordings: [], error: error instanceof Error ? error.message : 'Failed to fetch session recordings' }
+    }
+  },
+
+  /**
+   * One recording with its full timeline
+   */
+  async get(recordingId: string): Promise<{ recording?: SessionRecording; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('session_recordings')
+        .select('*')
+        .eq('id', recordingId)
+        .single()
+
+      if (error) return { error: error.message }
+      return { recording: data }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to fetch session recording' }
+    }
+  },
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // CONNECTION HISTORY API
 // Track and display connection history for multi-session support
@@ -684,6 +945,8 @@ export interface ConnectionRecord {
   disconnected_at: string | null
   duration_seconds: number
   initiated_by: 'self' | 'partner' | null
+  /** Codec that carried video in this connection, once frames have flowed */
+  video_codec: VideoCodec | null
   created_at: string
   updated_at: string
 }
@@ -794,6 +1057,59 @@ export const connectionHistoryApi = {
     }
   },
 
+  /**
+   * Note the codec that carried video on the latest connection with a partner
+   */
+  async recordVideoCodec(deviceId: string, partnerDeviceId: string, videoCodec: VideoCodec): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data: latest, error: fetchError } = await supabase
+        .from('connection_history')
+        .select('id')
+        .eq('device_id', deviceId)
+        .eq('partner_device_id', partnerDeviceId)
+        .order('connected_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (fetchError) return { success: false, error: fetchError.message }
+      if (!latest) return { success: false, error: 'No connection recorded with this partner' }
+
+      const { error } = await supabase
+        .from('connection_history')
+        .update({ video_codec: videoCodec, updated_at: new Date().toISOString() })
+        .eq('id', latest.id)
+
+      if (error) return { success: false, error: error.message }
+      return { success: true }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to record video codec' }
+    }
+  },
+
+  /**
+   * Codec that last worked between two phones - written by either of them
+   */
+  async getVideoCodec(deviceId: string, partnerDeviceId: string): Promise<{ videoCodec?: VideoCodec; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('connection_history')
+        .select('video_codec')
+        .or(
+          `and(device_id.eq.${deviceId},partner_device_id.eq.${partnerDeviceId}),` +
+          `and(device_id.eq.${partnerDeviceId},partner_device_id.eq.${deviceId})`
+        )
+        .not('video_codec', 'is', null)
+        .order('connected_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) return { error: error.message }
+      return { videoCodec: isVideoCodec(data?.video_codec) ? data.video_codec : undefined }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to fetch video codec' }
+    }
+  },
+
   /**
    * Get active connection (currently connected)
    */
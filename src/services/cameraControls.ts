@@ -0,0 +1,29 @@
+/**
+ * Camera Controls
+ *
+ * Defaults for the director's manual controls - zoom and lens. Both are
+ * applied through expo-camera's CameraView props, so they only work while
+ * that preview is showing (not paired, LAN sessions, or a capture swap).
+ *
+ * @livekit/react-native-webrtc exposes none of them on its camera track -
+ * applyConstraints only takes width, height and frame rate - so a streaming
+ * camera reports every control unsupported and the director hides them
+ * instead of sending commands that would do nothing.
+ *
+ * Tap-to-focus, exposure compensation and white balance aren't offered at
+ * all: CameraView has no props for them on Android or iOS.
+ */
+
+import type { CameraControlState, CameraControlSupport } from '../types'
+
+export const NO_CONTROL_SUPPORT: CameraControlSupport = {
+  zoom: false,
+  lens: false,
+}
+
+export const DEFAULT_CAMERA_CONTROLS: CameraControlState = {
+  zoom: 0,
+  lens: null,
+  availableLenses: [],
+  supported: NO_CONTROL_SUPPORT,
+}
@@ -8,10 +8,12 @@
  * - Album management
  * - Friends & social features
  * - Analytics dashboard
+ * - TURN credentials for a self-hosted coturn
  */
 
 import { supabase, SUPABASE_URL, SUPABASE_ANON_KEY } from './supabase'
 import { logger } from './logging'
+import type { IceServer } from './iceServers'
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // Types
@@ -156,7 +158,7 @@ export const cloudPhotoApi = {
 
       const result = await callEdgeFunction<{
         success: boolean
-        publicUrl?: string
+        cloudUrl?: string
         storagePath?: string
         error?: string
       }>('upload-photo', {
@@ -174,7 +176,12 @@ export const cloudPhotoApi = {
         })
       }
 
-      return result
+      return {
+        success: result.success,
+        publicUrl: result.cloudUrl,
+        storagePath: result.storagePath,
+        error: result.error,
+      }
     } catch (error) {
       logger.error('cloud_upload_error', error)
       return { 
@@ -652,6 +659,70 @@ export const analyticsApi = {
   },
 }
 
+// ─────────────────────────────────────────────────────────────────────────────────
+// TURN Credentials API
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const turnCredentialsApi = {
+  /**
+   * Time-limited credentials for the team's own coturn - only issued to the
+   * two devices of a paired session
+   */
+  async get(params: {
+    deviceId: string
+    sessionId: string
+  }): Promise<{ iceServers?: IceServer[]; expiresAt?: string; error?: string }> {
+    try {
+      const result = await callEdgeFunction<{
+        success: boolean
+        iceServers?: IceServer[]
+        expiresAt?: string
+        error?: string
+      }>('turn-credentials', {
+        deviceId: params.deviceId,
+        sessionId: params.sessionId,
+      }, { timeout: 8000 })
+
+      return { iceServers: result.iceServers, expiresAt: result.expiresAt, error: result.error }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to get TURN credentials' }
+    }
+  },
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LiveKit Token API
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const livekitTokenApi = {
+  /**
+   * Room token for a session - the camera may publish, the director only subscribes
+   */
+  async get(params: {
+    roomName: string
+    participantName: string
+    role: 'camera' | 'director'
+  }): Promise<{ token?: string; error?: string }> {
+    try {
+      const result = await callEdgeFunction<{
+        token?: string
+        room?: string
+        identity?: string
+        canPublish?: boolean
+        error?: string
+      }>('livekit-token', {
+        roomName: params.roomName,
+        participantName: params.participantName,
+        role: params.role,
+      }, { timeout: 8000 })
+
+      return { token: result.token, error: result.error }
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : 'Failed to get LiveKit token' }
+    }
+  },
+}
+
 // ─────────────────────────────────────────────────────────────────────────────────
 // Export all APIs
 // ─────────────────────────────────────────────────────────────────────────────────
@@ -663,5 +734,7 @@ export const cloudApi = {
   albums: albumsApi,
   friends: friendsApi,
   analytics: analyticsApi,
+  turnCredentials: turnCredentialsApi,
+  livekitToken: livekitTokenApi,
 }
 
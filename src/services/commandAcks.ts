@@ -0,0 +1,232 @@
+/**
+ * Command Acknowledgements
+ *
+ * Director-side delivery tracking for remote commands.
+ * Every tracked command gets an id; the camera answers with `received`,
+ * then `executed`, `failed` or `cancelled` acks (see commandDispatcher). Commands that
+ * are not received within the timeout are re-sent with the same id, and
+ * logged as unacked once all attempts are used up.
+ */
+
+import { sessionLogger } from './sessionLogger'
+import { sendRemoteCommand, type CommandSender } from './commandDispatcher'
+import {
+  createCommandId,
+  type RemoteCommand,
+  type RemoteCommandPayload,
+  type AckStatus,
+  type UnsupportedReason,
+} from '../schemas/commands'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type CommandDeliveryStatus =
+  | 'sending'   // Handed to the transport
+  | 'sent'      // Transport accepted it, waiting for the camera
+  | 'received'  // Camera got it
+  | 'executed'  // Camera ran it
+  | 'failed'    // Camera could not run it
+  | 'cancelled' // Called off before it ran, e.g. a countdown either side stopped
+  | 'timeout'   // No ack after all attempts
+
+export interface TrackedCommand {
+  id: string
+  command: RemoteCommand
+  /** Human-readable label for the UI */
+  label: string
+  status: CommandDeliveryStatus
+  attempts: number
+  sentAt: number
+  updatedAt: number
+  error?: string
+}
+
+export interface CommandAckTrackerOptions {
+  /** How long to wait for a `received` ack before re-sending */
+  ackTimeoutMs?: number
+  /** Total send attempts, including the first one */
+  maxAttempts?: number
+  /** How many commands to keep for the UI */
+  historySize?: number
+  /** Called whenever any tracked command changes status */
+  onChange?: (commands: TrackedCommand[]) => void
+}
+
+const DEFAULT_ACK_TIMEOUT_MS = 2000
+const DEFAULT_MAX_ATTEMPTS = 3
+const DEFAULT_HISTORY_SIZE = 5
+
+/** Statuses after which nothing more will happen to a command */
+const FINAL_STATUSES: readonly CommandDeliveryStatus[] = ['executed', 'failed', 'cancelled', 'timeout']
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Tracker
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class CommandAckTracker {
+  private commands: TrackedCommand[] = []
+  private senders = new Map<string, CommandSender>()
+  private timers = new Map<string, ReturnType<typeof setTimeout>>()
+  private ackTimeoutMs: number
+  private maxAttempts: number
+  private historySize: number
+  private onChange?: (commands: TrackedCommand[]) => void
+
+  constructor(options: CommandAckTrackerOptions = {}) {
+    this.ackTimeoutMs = options.ackTimeoutMs ?? DEFAULT_ACK_TIMEOUT_MS
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+    this.historySize = options.historySize ?? DEFAULT_HISTORY_SIZE
+    this.onChange = options.onChange
+  }
+
+  /**
+   * Send a command with an id and start waiting for its acks.
+   * Returns the command id.
+   */
+  async send(send: CommandSender, command: RemoteCommandPayload, label: string): Promise<string> {
+    const id = createCommandId()
+    const now = Date.now()
+
+    this.commands = [
+      { id, command: { ...command, id }, label, status: 'sending' as const, attempts: 0, sentAt: now, updatedAt: now },
+      ...this.commands,
+    ].slice(0, this.historySize)
+    this.forgetDropped()
+    this.senders.set(id, send)
+    this.emit()
+
+    await this.attempt(id)
+    return id
+  }
+
+  /**
+   * Apply an ack received from the camera
+   */
+  handleAck(commandId: string, status: AckStatus, error?: string) {
+    const tracked = this.find(commandId)
+    if (!tracked || (tracked.status !== 'timeout' && FINAL_STATUSES.includes(tracked.status))) return
+
+    // Acks can overtake each other - never move backwards. A late final ack
+    // (e.g. a capture result over the fallback path) still beats `timeout`.
+    if (status === 'received' && FINAL_STATUSES.concat('received').includes(tracked.status)) return
+
+    this.clearTimer(commandId)
+    sessionLogger.logCommand('acked', tracked.command.type, {
+      commandId,
+      status,
+      attempts: tracked.attempts,
+      latencyMs: Date.now() - tracked.sentAt,
+    })
+    this.update(commandId, { status, error })
+
+    if (status !== 'received') {
+      this.senders.delete(commandId)
+    }
+  }
+
+  /**
+   * The camera rejected a command as unsupported
+   */
+  handleUnsupported(commandId: string, reason: UnsupportedReason) {
+    this.handleAck(commandId, 'failed', reason)
+  }
+
+  getCommands(): TrackedCommand[] {
+    return this.commands
+  }
+
+  /**
+   * Stop all retries. Pending commands stay in the history as they are.
+   */
+  destroy() {
+    this.timers.forEach((timer) => clearTimeout(timer))
+    this.timers.clear()
+    this.senders.clear()
+    this.onChange = undefined
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Internals
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private async attempt(id: string) {
+    const tracked = this.find(id)
+    const send = this.senders.get(id)
+    if (!tracked || !send) return
+
+    const attempts = tracked.attempts + 1
+    this.update(id, { attempts })
+    sessionLogger.logCommand('sent', tracked.command.type, { commandId: id, attempt: attempts })
+
+    // Wait for the ack whether or not the send itself worked - a failed send is retried the same way
+    this.timers.set(id, setTimeout(() => this.handleTimeout(id), this.ackTimeoutMs))
+
+    try {
+      await sendRemoteCommand(send, tracked.command)
+      if (this.find(id)?.status === 'sending') {
+        this.update(id, { status: 'sent' })
+      }
+    } catch (error) {
+      sessionLogger.warn('command_send_failed', {
+        command: tracked.command.type,
+        commandId: id,
+        attempt: attempts,
+        message: (error as Error)?.message,
+      })
+    }
+  }
+
+  private handleTimeout(id: string) {
+    this.timers.delete(id)
+    const tracked = this.find(id)
+    if (!tracked || (tracked.status !== 'sending' && tracked.status !== 'sent')) return
+
+    if (tracked.attempts < this.maxAttempts) {
+      void this.attempt(id)
+      return
+    }
+
+    sessionLogger.logCommand('unacked', tracked.command.type, {
+      commandId: id,
+      attempts: tracked.attempts,
+      waitedMs: Date.now() - tracked.sentAt,
+    })
+    this.senders.delete(id)
+    this.update(id, { status: 'timeout' })
+  }
+
+  private find(id: string): TrackedCommand | undefined {
+    return this.commands.find((c) => c.id === id)
+  }
+
+  private update(id: string, changes: Partial<TrackedCommand>) {
+    this.commands = this.commands.map((c) =>
+      c.id === id ? { ...c, ...changes, updatedAt: Date.now() } : c
+    )
+    this.emit()
+  }
+
+  /** Stop retrying commands that fell out of the history */
+  private forgetDropped() {
+    this.senders.forEach((_, id) => {
+      if (!this.find(id)) {
+        this.senders.delete(id)
+        this.clearTimer(id)
+      }
+    })
+  }
+
+  private clearTimer(id: string) {
+    const timer = this.timers.get(id)
+    if (timer) {
+      clearTimeout(timer)
+      this.timers.delete(id)
+    }
+  }
+
+  private emit() {
+    this.onChange?.(this.commands)
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Command Dispatcher
+ *
+ * Single entry point for remote commands, shared by every transport
+ * (WebRTC signaling channel, LiveKit data channel).
+ *
+ * - Validates raw `(command, data)` pairs against the command schema
+ * - Routes valid commands to the screen's handler
+ * - Replies with an explicit `unsupported` command when a command is unknown,
+ *   malformed, from an incompatible protocol version, or not accepted by this role,
+ *   so the sender knows instead of the command vanishing silently
+ * - Acks commands that carry an id: `received` on arrival, then `executed`,
+ *   `failed` or `cancelled` once the handler settles. A retried id gets its
+ *   latest ack again.
+ * - Optionally drops copies of a command that already arrived over another path
+ */
+
+import { sessionLogger } from './sessionLogger'
+import type { CommandReceiveWindow, DeliveryPath } from './commandReceiveWindow'
+import {
+  validateRemoteCommand,
+  encodeRemoteCommand,
+  isReplyCommand,
+  getProtocolVersion,
+  COMMAND_PROTOCOL_VERSION,
+  type RemoteCommand,
+  type RemoteCommandType,
+  type UnsupportedReason,
+  type AckStatus,
+} from '../schemas/commands'
+
+export type CommandSender = (command: string, data?: Record<string, unknown>) => Promise<void>
+
+export type RawCommandHandler = (command: string, data?: Record<string, unknown>) => void
+
+/** What a handler resolves with when a command was called off rather than run (e.g. a cancelled countdown) */
+export type CommandOutcome = 'cancelled'
+
+export interface CommandDispatcherOptions {
+  /** Role of this device - only used for logging */
+  role: 'camera' | 'director'
+  /** Command types this device executes */
+  accepts: readonly RemoteCommandType[]
+  /**
+   * Called with every valid, accepted command.
+   * Return a promise to report `executed` / `failed` when it settles -
+   * or `cancelled` when it resolves with 'cancelled'.
+   */
+  onCommand: (command: RemoteCommand) => void | Promise<void | CommandOutcome>
+  /** Transport send function used for acks and `unsupported` replies */
+  sendReply: CommandSender
+  /** Path this handler is attached to - used for de-duplication */
+  path?: DeliveryPath
+  /** Shared across paths so each command id runs once */
+  receiveWindow?: CommandReceiveWindow
+}
+
+/**
+ * Send a typed command through a transport
+ */
+export async function sendRemoteCommand(send: CommandSender, command: RemoteCommand): Promise<void> {
+  const { command: name, data } = encodeRemoteCommand(command)
+  await send(name, data)
+}
+
+/**
+ * Create a raw command handler to pass to `transport.onCommand()`
+ */
+export function createCommandDispatcher(options: CommandDispatcherOptions): RawCommandHandler {
+  const { role, accepts, onCommand, sendReply, path = 'webrtc', receiveWindow } = options
+
+  const reply = (command: RemoteCommand) => {
+    sendRemoteCommand(sendReply, command).catch((error) => {
+      sessionLogger.error('command_reply_failed', error, { role, reply: command.type })
+    })
+  }
+
+  const ack = (commandId: string, status: AckStatus, error?: string) => {
+    receiveWindow?.recordAck(commandId, { status, error })
+    reply({ type: 'ack', commandId, status, error })
+  }
+
+  const reject = (command: string, reason: UnsupportedReason, data?: Record<string, unknown>) => {
+    sessionLogger.warn('command_unsupported', {
+      role,
+      command,
+      reason,
+      remoteProtocolVersion: getProtocolVersion(data),
+      localProtocolVersion: COMMAND_PROTOCOL_VERSION,
+    })
+
+    // Never answer an unsupported reply with another one - that would loop forever
+    if (command === 'unsupported') return
+
+    reply({
+      type: 'unsupported',
+      command: String(command).substring(0, 64),
+      reason,
+      protocolVersion: COMMAND_PROTOCOL_VERSION,
+      commandId: typeof data?.id === 'string' ? data.id.substring(0, 64) : undefined,
+    })
+  }
+
+  return (command, data) => {
+    const result = validateRemoteCommand(command, data)
+
+    if (!result.success || !result.data) {
+      reject(command, result.error ?? 'invalid_payload', data)
+      return
+    }
+
+    if (!accepts.includes(result.data.type)) {
+      reject(command, 'not_handled', data)
+      return
+    }
+
+    if (result.data.type === 'unsupported') {
+      sessionLogger.warn('command_rejected_by_partner', {
+        role,
+        command: result.data.command,
+        reason: result.data.reason,
+        partnerProtocolVersion: result.data.protocolVersion,
+      })
+    }
+
+    const received = result.data
+    if (!received.id || isReplyCommand(received)) {
+      // Nothing to ack - a failure (e.g. an older sender's capture) is only logged
+      Promise.resolve()
+        .then(() => onCommand(received))
+        .catch((error) => {
+          sessionLogger.warn('command_execution_failed', {
+            role,
+            command: received.type,
+            message: (error as Error)?.message,
+          })
+        })
+      return
+    }
+
+    const commandId = received.id
+    const verdict = receiveWindow?.check(commandId, path) ?? 'new'
+    if (verdict === 'redundant') return
+    if (verdict === 'retry') {
+      // Our ack got lost - send the latest one again, but don't run the command twice.
+      // A command that already settled must not regress to 'received' on the sender.
+      const last = receiveWindow?.lastAck(commandId)
+      ack(commandId, last?.status ?? 'received', last?.error)
+      return
+    }
+
+    ack(commandId, 'received')
+    Promise.resolve()
+      .then(() => onCommand(received))
+      .then(
+        (outcome) => ack(commandId, outcome === 'cancelled' ? 'cancelled' : 'executed'),
+        (error) => {
+          sessionLogger.warn('command_execution_failed', {
+            role,
+            command: received.type,
+            commandId,
+            message: (error as Error)?.message,
+          })
+          ack(commandId, 'failed', (error as Error)?.message)
+        }
+      )
+  }
+}
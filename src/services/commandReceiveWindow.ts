@@ -0,0 +1,127 @@
+/**
+ * Command Receive Window
+ *
+ * Camera-side de-duplication for commands that carry an id.
+ * Directions are sent over two paths at once (WebRTC signaling + Supabase
+ * Realtime backup) with a shared id; whichever copy arrives first wins and
+ * later copies are dropped. Cross-path copies are counted as redundant
+ * deliveries so we can see how often the backup path is actually needed.
+ */
+
+import { sessionLogger } from './sessionLogger'
+import type { AckStatus } from '../schemas/commands'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type DeliveryPath = 'webrtc' | 'livekit' | 'realtime' | 'lan'
+
+/**
+ * - `new`: first copy, execute it
+ * - `retry`: same path again - the sender re-sent because our ack was lost
+ * - `redundant`: the other path's copy of a command we already have
+ */
+export type ReceiveVerdict = 'new' | 'retry' | 'redundant'
+
+/** The last ack sent for a command, replayed when the sender retries */
+export interface RecordedAck {
+  status: AckStatus
+  error?: string
+}
+
+export interface ReceiveWindowStats {
+  accepted: number
+  retries: number
+  redundant: number
+  /** Redundant copies per path that lost the race */
+  redundantByPath: Partial<Record<DeliveryPath, number>>
+}
+
+const DEFAULT_WINDOW_MS = 30000
+const DEFAULT_MAX_ENTRIES = 200
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Receive Window
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class CommandReceiveWindow {
+  private seen = new Map<string, { path: DeliveryPath; at: number; ack?: RecordedAck }>()
+  private stats: ReceiveWindowStats = { accepted: 0, retries: 0, redundant: 0, redundantByPath: {} }
+  private windowMs: number
+  private maxEntries: number
+
+  constructor(windowMs = DEFAULT_WINDOW_MS, maxEntries = DEFAULT_MAX_ENTRIES) {
+    this.windowMs = windowMs
+    this.maxEntries = maxEntries
+  }
+
+  /**
+   * Record a delivery and decide what to do with it
+   */
+  check(commandId: string, path: DeliveryPath): ReceiveVerdict {
+    const now = Date.now()
+    this.prune(now)
+
+    const first = this.seen.get(commandId)
+    if (!first) {
+      this.seen.set(commandId, { path, at: now })
+      this.prune(now)
+      this.stats.accepted++
+      return 'new'
+    }
+
+    if (first.path === path) {
+      this.stats.retries++
+      sessionLogger.info('command_retry_received', { commandId, path })
+      return 'retry'
+    }
+
+    this.stats.redundant++
+    this.stats.redundantByPath[path] = (this.stats.redundantByPath[path] ?? 0) + 1
+    sessionLogger.info('command_redundant_delivery', {
+      commandId,
+      path,
+      firstPath: first.path,
+      lagMs: now - first.at,
+      redundantDeliveries: this.stats.redundant,
+      _metric: true,
+    })
+    return 'redundant'
+  }
+
+  /**
+   * Remember the latest ack for a command still in the window
+   */
+  recordAck(commandId: string, ack: RecordedAck) {
+    const entry = this.seen.get(commandId)
+    if (entry) entry.ack = ack
+  }
+
+  /**
+   * The latest ack sent for a command, if it is still in the window
+   */
+  lastAck(commandId: string): RecordedAck | undefined {
+    return this.seen.get(commandId)?.ack
+  }
+
+  getStats(): ReceiveWindowStats {
+    return { ...this.stats, redundantByPath: { ...this.stats.redundantByPath } }
+  }
+
+  reset() {
+    this.seen.clear()
+    this.stats = { accepted: 0, retries: 0, redundant: 0, redundantByPath: {} }
+  }
+
+  private prune(now: number) {
+    // Map keeps insertion order, so the oldest entries come first.
+    // Also runs right after an insert, so the window never holds more than maxEntries.
+    for (const [id, entry] of this.seen) {
+      const expired = now - entry.at > this.windowMs
+      const overLimit = this.seen.size > this.maxEntries
+      if (!expired && !overLimit) break
+      this.seen.delete(id)
+    }
+  }
+}
@@ -18,7 +18,9 @@ class DiscoveryService {
   private zeroconf: Zeroconf
   private isScanning = false
   private isPublishing = false
+  private publishedName: string | null = null
   private callbacks: DiscoveryCallbacks | null = null
+  private listening = false
 
   constructor() {
     this.zeroconf = new Zeroconf()
@@ -30,6 +32,10 @@ class DiscoveryService {
   init(callbacks: DiscoveryCallbacks): void {
     this.callbacks = callbacks
 
+    // Later calls only swap the callbacks
+    if (this.listening) return
+    this.listening = true
+
     this.zeroconf.on('resolved', (service) => {
       if (!service.name?.startsWith(SERVICE_TYPE)) return
       
@@ -76,12 +82,14 @@ class DiscoveryService {
   }
 
   /**
-   * Publish this device as a service
+   * Publish this device as a service. `extraTxt` is added to the TXT record;
+   * `role` is null while pairing, before either phone has picked one.
    */
   publishService(
     deviceId: string,
-    role: DeviceRole,
-    port: number
+    role: DeviceRole | null,
+    port: number,
+    extraTxt: Record<string, string> = {}
   ): void {
     if (this.isPublishing) {
       this.unpublishService()
@@ -96,13 +104,15 @@ class DiscoveryService {
       serviceName,
       port,
       {
+        ...extraTxt,
         deviceId,
-        role,
+        ...(role ? { role } : {}),
         version: '1.0',
       }
     )
     
     this.isPublishing = true
+    this.publishedName = serviceName
   }
 
   /**
@@ -111,8 +121,10 @@ class DiscoveryService {
   unpublishService(): void {
     if (!this.isPublishing) return
     
-    this.zeroconf.unpublishService(`${SERVICE_TYPE}`)
+    // Services are unpublished by the name they were published under
+    this.zeroconf.unpublishService(this.publishedName ?? SERVICE_TYPE)
     this.isPublishing = false
+    this.publishedName = null
   }
 
   /**
@@ -122,6 +134,7 @@ class DiscoveryService {
     this.stopScanning()
     this.unpublishService()
     this.zeroconf.removeAllListeners()
+    this.listening = false
     this.callbacks = null
   }
 
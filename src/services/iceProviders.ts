@@ -0,0 +1,134 @@
+/**
+ * ICE Providers
+ *
+ * Where a peer connection's TURN servers come from, chosen at build time in
+ * app.config.ts extras (see src/config/ice.ts):
+ * - metered: credentials from Metered's API
+ * - static: a fixed list from the app config
+ * - coturn: a self-hosted coturn, with time-limited HMAC credentials minted
+ *   per device by the turn-credentials edge function
+ *
+ * A provider only returns its own servers - WebRTCService merges them with
+ * the public fallbacks (unless turned off) and caches the result.
+ */
+
+import type { IceProviderConfig, IceProviderName } from '../config/ice'
+import type { IceServer } from './iceServers'
+import { turnCredentialsApi } from './cloudApi'
+import { sessionLogger } from './sessionLogger'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Who is asking - coturn credentials are only minted for a paired session */
+export interface IceRequestContext {
+  deviceId: string
+  sessionId: string
+}
+
+export interface IceProvider {
+  readonly name: IceProviderName
+  /** False when the build lacks what the provider needs (API key, server list) */
+  isConfigured(): boolean
+  /** The provider's servers - throws if they can't be had */
+  getIceServers(context: IceRequestContext): Promise<IceServer[]>
+}
+
+// Metered TURN server API configuration
+// Get your API key from https://www.metered.ca/stun-turn
+// NOTE: EXPO_PUBLIC_ vars require native rebuild - OTA won't update them
+const METERED_API_KEY = process.env.EXPO_PUBLIC_METERED_API_KEY || ''
+const METERED_API_URL = process.env.EXPO_PUBLIC_METERED_API_URL || 'https://kenji.metered.live/api/v1/turn/credentials'
+
+/** Avoid hanging init on slow/captive networks (common on Android) */
+const FETCH_TIMEOUT_MS = 8000
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Providers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+class MeteredIceProvider implements IceProvider {
+  readonly name = 'metered' as const
+
+  isConfigured(): boolean {
+    return !!METERED_API_KEY
+  }
+
+  async getIceServers(): Promise<IceServer[]> {
+    sessionLogger.logWebRTC('fetching_turn_credentials', {
+      provider: this.name,
+      url: METERED_API_URL.replace(METERED_API_KEY, '***'),
+    })
+
+    const controller = new AbortController()
+    const abortId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+    const response = await fetch(`${METERED_API_URL}?apiKey=${METERED_API_KEY}`, {
+      signal: controller.signal,
+    }).finally(() => clearTimeout(abortId))
+
+    if (!response.ok) {
+      throw new Error(`Metered API error: ${response.status} ${response.statusText}`)
+    }
+
+    const servers = await response.json()
+    if (!Array.isArray(servers)) {
+      throw new Error('Metered API returned no server list')
+    }
+    return servers
+  }
+}
+
+class StaticIceProvider implements IceProvider {
+  readonly name = 'static' as const
+  private servers: IceServer[]
+
+  constructor(servers: IceServer[]) {
+    this.servers = servers
+  }
+
+  isConfigured(): boolean {
+    return this.servers.length > 0
+  }
+
+  async getIceServers(): Promise<IceServer[]> {
+    return this.servers
+  }
+}
+
+class CoturnIceProvider implements IceProvider {
+  readonly name = 'coturn' as const
+
+  isConfigured(): boolean {
+    // The TURN URLs and shared secret live in the edge function's secrets
+    return true
+  }
+
+  async getIceServers(context: IceRequestContext): Promise<IceServer[]> {
+    sessionLogger.logWebRTC('fetching_turn_credentials', { provider: this.name })
+
+    const { iceServers, expiresAt, error } = await turnCredentialsApi.get(context)
+    if (!iceServers) {
+      throw new Error(`turn-credentials failed: ${error ?? 'no servers returned'}`)
+    }
+
+    sessionLogger.logWebRTC('coturn_credentials_minted', { expiresAt })
+    return iceServers
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Factory
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function createIceProvider(config: IceProviderConfig): IceProvider {
+  switch (config.provider) {
+    case 'static':
+      return new StaticIceProvider(config.servers)
+    case 'coturn':
+      return new CoturnIceProvider()
+    case 'metered':
+    default:
+      return new MeteredIceProvider()
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * ICE Servers
+ *
+ * The STUN / TURN list a peer connection is created with. The ICE provider's
+ * servers (see iceProviders.ts) are the primary relays; public STUN servers
+ * go in front and free TURN relays behind, so a connection still has
+ * somewhere to go when the provider is down or its credentials are stale.
+ * Builds that must only use their own servers turn the public ones off.
+ *
+ * Pure - no fetching or logging here, and the cache takes a clock so expiry
+ * can be tested.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface IceServer {
+  urls: string | string[]
+  username?: string
+  credential?: string
+}
+
+export interface IceConfig {
+  iceServers: IceServer[]
+  iceCandidatePoolSize: number
+  /** 'relay' hides this phone's addresses from the partner - only TURN candidates are gathered */
+  iceTransportPolicy?: 'all' | 'relay'
+}
+
+/** TURN credentials typically expire in an hour - refresh well before that */
+export const ICE_CACHE_DURATION_MS = 5 * 60 * 1000
+
+const ICE_CANDIDATE_POOL_SIZE = 10
+
+// STUN servers (for NAT traversal discovery - always included)
+export const STUN_SERVERS: readonly IceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun2.l.google.com:19302' },
+  { urls: 'stun:stun.cloudflare.com:3478' },
+]
+
+// Free public TURN servers (always included as fallback even if Metered works)
+// These are free relay servers for when direct P2P fails
+export const FREE_TURN_SERVERS: readonly IceServer[] = [
+  // OpenRelay by Metered (free public TURN)
+  {
+    urls: 'turn:openrelay.metered.ca:80',
+    username: 'openrelayproject',
+    credential: 'openrelayproject',
+  },
+  {
+    urls: 'turn:openrelay.metered.ca:443',
+    username: 'openrelayproject',
+    credential: 'openrelayproject',
+  },
+  {
+    urls: 'turn:openrelay.metered.ca:443?transport=tcp',
+    username: 'openrelayproject',
+    credential: 'openrelayproject',
+  },
+  // Twilio free STUN (no TURN without account)
+  { urls: 'stun:global.stun.twilio.com:3478' },
+]
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Merging
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function iceServerUrls(server: IceServer): string[] {
+  return Array.isArray(server.urls) ? server.urls : [server.urls]
+}
+
+function isIceServer(value: unknown): value is IceServer {
+  if (!value || typeof value !== 'object') return false
+  const { urls } = value as { urls?: unknown }
+  return typeof urls === 'string' || (Array.isArray(urls) && urls.length > 0 && urls.every(url => typeof url === 'string'))
+}
+
+export function buildIceConfig(servers: readonly IceServer[]): IceConfig {
+  return {
+    iceServers: [...servers],
+    iceCandidatePoolSize: ICE_CANDIDATE_POOL_SIZE,
+  }
+}
+
+/** Public STUN and free TURN only - when there are no Metered credentials */
+export const FALLBACK_ICE_CONFIG: IceConfig = buildIceConfig([...STUN_SERVERS, ...FREE_TURN_SERVERS])
+
+/**
+ * STUN first, then the fetched servers (primary relays), then free TURN as
+ * backup - or only the fetched servers without `publicFallback`. `fetched`
+ * is whatever the provider returned - entries that aren't ICE servers are
+ * dropped, and a server already in the list isn't added twice.
+ */
+export function mergeIceServers(fetched: unknown, { publicFallback = true } = {}): IceServer[] {
+  const primary = Array.isArray(fetched) ? fetched.filter(isIceServer) : []
+  const merged: IceServer[] = []
+  const seen = new Set<string>()
+  const candidates = publicFallback ? [...STUN_SERVERS, ...primary, ...FREE_TURN_SERVERS] : primary
+
+  for (const server of candidates) {
+    const key = `${iceServerUrls(server).join(',')}|${server.username ?? ''}`
+    if (seen.has(key)) continue
+    seen.add(key)
+    merged.push(server)
+  }
+  return merged
+}
+
+/** For logs - how many servers, and whether there is any STUN / TURN among them */
+export function summarizeIceServers(servers: readonly IceServer[]) {
+  const urls = servers.flatMap(iceServerUrls)
+  return {
+    totalCount: servers.length,
+    hasSTUN: urls.some(url => url.startsWith('stun:') || url.startsWith('stuns:')),
+    hasTURN: urls.some(url => url.startsWith('turn:') || url.startsWith('turns:')),
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Cache
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Holds the last merged config until it is `ttlMs` old
+ */
+export class IceServerCache {
+  private config: IceConfig | null = null
+  private storedAt = 0
+  private ttlMs: number
+  private now: () => number
+
+  constructor(ttlMs = ICE_CACHE_DURATION_MS, now: () => number = Date.now) {
+    this.ttlMs = ttlMs
+    this.now = now
+  }
+
+  /** The cached config, or null if there is none or it has expired */
+  get(): IceConfig | null {
+    if (!this.config) return null
+    if (this.ageMs() >= this.ttlMs) {
+      this.config = null
+      return null
+    }
+    return this.config
+  }
+
+  /** How old the cached config is */
+  ageMs(): number {
+    return this.now() - this.storedAt
+  }
+
+  set(config: IceConfig) {
+    this.config = config
+    this.storedAt = this.now()
+  }
+
+  clear() {
+    this.config = null
+    this.storedAt = 0
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * LAN Packet Authentication
+ *
+ * Pairing: the two phones run SPAKE2 (over ristretto255) with the 4-digit code
+ * as the password. Each sends a share blinded with the code, both derive the
+ * same key only if they used the same code, and each proves it with a
+ * confirmation MAC over the whole exchange. The code itself never goes on the
+ * wire, and someone watching - or even taking part in - an exchange gets one
+ * guess at it, not a way to try all 10,000 offline.
+ *
+ * Once paired, every packet between them is sealed: wrapped with the sender's
+ * device id, its socket epoch, the receiver's epoch as the sender last heard
+ * it, a per-packet sequence number and an HMAC-SHA256 over all of that and the
+ * body. A packet recorded earlier can't be played back - its sequence number
+ * has been seen, or it names an epoch the receiver has moved on from.
+ */
+
+import { getRandomBytes } from 'expo-crypto'
+import { ristretto255, ristretto255_hasher } from '@noble/curves/ed25519'
+import { bytesToNumberLE, numberToBytesLE } from '@noble/curves/utils'
+import { hkdf } from '@noble/hashes/hkdf'
+import { hmac } from '@noble/hashes/hmac'
+import { sha256 } from '@noble/hashes/sha2'
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** Who is sealing a packet, and for which round of the conversation */
+export interface SealHeader {
+  /** Sender's device id */
+  from: string
+  /** Sender's socket epoch - new every time it opens its socket */
+  epoch: string
+  /** Receiver's epoch as the sender last heard it - empty until it has */
+  to: string
+  /** Counts up per packet within the sender's epoch */
+  seq: number
+}
+
+/** A packet as it goes on the wire between paired phones */
+export interface SealedPacket extends SealHeader {
+  /** Hex HMAC-SHA256 of the header fields and `body` */
+  mac: string
+  /** The P2P message, JSON-encoded */
+  body: string
+}
+
+/** Which side of the pairing exchange a phone is on */
+export type PairingRole = 'join' | 'host'
+
+/** This phone's half of a pairing exchange */
+export interface PairingShare {
+  role: PairingRole
+  /** Hex-encoded share to send to the other phone */
+  share: string
+  /** Ephemeral secret - never leaves the phone */
+  secret: bigint
+  /** The code as a scalar - never leaves the phone */
+  password: bigint
+}
+
+/** What both phones get out of an exchange - equal only if the codes were */
+export interface PairingKeys {
+  /** Pairing key (hex) every later packet is sealed with */
+  key: string
+  /** Sent by the joining phone to prove it typed the code */
+  joinConfirm: string
+  /** Sent by the showing phone to prove it showed the code */
+  hostConfirm: string
+}
+
+/** Everything both phones agree on about the exchange besides the shares */
+export interface PairingContext {
+  joinDeviceId: string
+  hostDeviceId: string
+  sessionId: string
+}
+
+const KEY_BYTES = 32
+const PROTOCOL = 'lan-pairing-v1'
+/** How far behind the newest sequence number a late packet may still arrive */
+const REPLAY_WINDOW = 256
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function isHex(value: string, length: number): boolean {
+  return value.length === length && /^[0-9a-f]+$/i.test(value)
+}
+
+export function isLanKey(value: unknown): value is string {
+  return typeof value === 'string' && isHex(value, KEY_BYTES * 2)
+}
+
+/** Compare without stopping at the first difference */
+export function equalHex(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let difference = 0
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return difference === 0
+}
+
+/** Each part prefixed with its length, so parts can't run into each other */
+function encodeParts(parts: Uint8Array[]): Uint8Array {
+  return concatBytes(...parts.flatMap(part => [numberToBytesLE(part.length, 8), part]))
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Pairing exchange (SPAKE2)
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const Point = ristretto255.Point
+
+/** Fixed points with no known discrete log - one blinds each side's share */
+const BLINDING_POINTS: Record<PairingRole, InstanceType<typeof Point>> = {
+  join: ristretto255_hasher.hashToCurve(utf8ToBytes('M'), { DST: `${PROTOCOL} blinding` }) as InstanceType<typeof Point>,
+  host: ristretto255_hasher.hashToCurve(utf8ToBytes('N'), { DST: `${PROTOCOL} blinding` }) as InstanceType<typeof Point>,
+}
+
+function randomScalar(): bigint {
+  // 64 bytes so the reduction is uniform
+  const scalar = Point.Fn.create(bytesToNumberLE(getRandomBytes(64)))
+  return scalar === 0n ? randomScalar() : scalar
+}
+
+/** Start an exchange: a fresh secret and the share to send, blinded with the code */
+export function createPairingShare(role: PairingRole, code: string): PairingShare {
+  const password = ristretto255_hasher.hashToScalar(utf8ToBytes(code), { DST: `${PROTOCOL} password` })
+  const secret = randomScalar()
+  const share = Point.BASE.multiply(secret).add(BLINDING_POINTS[role].multiply(password))
+  return { role, share: bytesToHex(share.toBytes()), secret, password }
+}
+
+/**
+ * Finish an exchange with the other phone's share. Null if the share isn't a
+ * valid point; otherwise keys that match the other phone's only if both typed
+ * and showed the same code.
+ */
+export function derivePairingKeys(own: PairingShare, peerShare: string, context: PairingContext): PairingKeys | null {
+  const peerRole: PairingRole = own.role === 'join' ? 'host' : 'join'
+  let shared: InstanceType<typeof Point>
+  try {
+    const unblinded = Point.fromHex(peerShare).subtract(BLINDING_POINTS[peerRole].multiply(own.password))
+    shared = unblinded.multiply(own.secret)
+  } catch {
+    return null
+  }
+  if (shared.is0()) return null
+
+  const [joinShare, hostShare] = own.role === 'join' ? [own.share, peerShare] : [peerShare, own.share]
+  const transcript = sha256(encodeParts([
+    utf8ToBytes(PROTOCOL),
+    utf8ToBytes(context.joinDeviceId),
+    utf8ToBytes(context.hostDeviceId),
+    utf8ToBytes(context.sessionId),
+    hexToBytes(joinShare),
+    hexToBytes(hostShare),
+    shared.toBytes(),
+    numberToBytesLE(own.password, 32),
+  ]))
+
+  const key = hkdf(sha256, transcript, undefined, `${PROTOCOL} key`, KEY_BYTES)
+  const confirmKeys = hkdf(sha256, transcript, undefined, `${PROTOCOL} confirm`, KEY_BYTES * 2)
+  return {
+    key: bytesToHex(key),
+    joinConfirm: bytesToHex(hmac(sha256, confirmKeys.slice(0, KEY_BYTES), transcript)),
+    hostConfirm: bytesToHex(hmac(sha256, confirmKeys.slice(KEY_BYTES), transcript)),
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Sealing
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function sign(key: string, header: SealHeader, body: string): string {
+  // Everything but the MAC is signed, so a packet can't be relabelled or renumbered
+  const signed = encodeParts([header.from, header.epoch, header.to, String(header.seq), body].map(utf8ToBytes))
+  return bytesToHex(hmac(sha256, hexToBytes(key), signed))
+}
+
+export function sealPacket(body: string, header: SealHeader, key: string): SealedPacket {
+  return { ...header, mac: sign(key, header, body), body }
+}
+
+/**
+ * A packet sealed by `from` with `key` - null if it isn't one (another
+ * device, another key, or changed on the way). Whether it is fresh is up to
+ * the caller's ReplayWindow.
+ */
+export function openPacket(packet: unknown, from: string, key: string): SealedPacket | null {
+  if (!packet || typeof packet !== 'object') return null
+  const sealed = packet as Partial<SealedPacket>
+  if (sealed.from !== from || typeof sealed.body !== 'string' || typeof sealed.mac !== 'string') return null
+  if (typeof sealed.epoch !== 'string' || typeof sealed.to !== 'string') return null
+  if (typeof sealed.seq !== 'number' || !Number.isSafeInteger(sealed.seq) || sealed.seq < 0) return null
+  if (!isHex(sealed.mac, 64)) return null
+
+  const header: SealHeader = { from, epoch: sealed.epoch, to: sealed.to, seq: sealed.seq }
+  return equalHex(sealed.mac.toLowerCase(), sign(key, header, sealed.body)) ? { ...header, mac: sealed.mac, body: sealed.body } : null
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Replay window
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Sequence numbers already taken from the partner. Packets may arrive out of
+ * order, so anything not yet seen within REPLAY_WINDOW of the newest is let in.
+ * Once the partner shows up with a new epoch the old one is closed for good.
+ */
+export class ReplayWindow {
+  private epoch: string | null = null
+  private newest = -1
+  private seen = new Set<number>()
+  private closedEpochs = new Set<string>()
+
+  /** Whether the partner has left this epoch behind */
+  isClosed(epoch: string): boolean {
+    return this.closedEpochs.has(epoch)
+  }
+
+  /** Whether a packet is new - and if so, remember it */
+  accept(epoch: string, seq: number): boolean {
+    if (this.isClosed(epoch)) return false
+    if (epoch !== this.epoch) {
+      if (this.epoch !== null) this.closedEpochs.add(this.epoch)
+      this.epoch = epoch
+      this.newest = -1
+      this.seen.clear()
+    }
+
+    if (seq <= this.newest - REPLAY_WINDOW || this.seen.has(seq)) return false
+    this.seen.add(seq)
+    if (seq > this.newest) {
+      this.newest = seq
+      for (const old of this.seen) {
+        if (old <= seq - REPLAY_WINDOW) this.seen.delete(old)
+      }
+    }
+    return true
+  }
+
+  reset(): void {
+    this.epoch = null
+    this.newest = -1
+    this.seen.clear()
+    this.closedEpochs.clear()
+  }
+}
@@ -0,0 +1,535 @@
+/**
+ * LAN Session
+ *
+ * Local Wi-Fi only mode: two phones on the same network pair and talk without
+ * Supabase. They find each other over mDNS (discoveryService) and exchange
+ * commands and preview frames over UDP (p2pService).
+ *
+ * Pairing works like the cloud flow - one phone shows a 4-digit code, the
+ * other types it - but the code never leaves either phone. The joining phone
+ * lists the phones advertising a pairing code, the user picks their partner's,
+ * and the two run a SPAKE2 exchange keyed by the code (lanAuth.ts). They end up
+ * with the same key only if the code matched, and each proves it has it
+ * before the pairing counts.
+ *
+ * Both phones keep the key in SecureStore with the partner's device id and the
+ * address it paired from, and a session only accepts packets sealed with that
+ * key, from that device, at that address. A partner whose address changed has
+ * to pair again.
+ */
+
+import * as SecureStore from 'expo-secure-store'
+import { getRandomBytes } from 'expo-crypto'
+import uuid from 'react-native-uuid'
+import { createPairingShare, derivePairingKeys, equalHex, isLanKey, type PairingKeys, type PairingShare } from './lanAuth'
+import { discoveryService } from './discovery'
+import { p2pService } from './p2p'
+import { sessionLogger } from './sessionLogger'
+import type { RawCommandHandler } from './commandDispatcher'
+import type {
+  DeviceRole,
+  DiscoveredService,
+  LanCommandMessage,
+  LanPairConfirm,
+  LanPairRequest,
+  LanPairResponse,
+  LanPairResult,
+  P2PMessage,
+} from '../types'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface LanProfile {
+  deviceId: string
+  displayName?: string
+  avatar?: string
+}
+
+export interface LanPartner {
+  deviceId: string
+  sessionId: string
+  /** Where the partner paired from - the only address a session accepts */
+  address: string
+  displayName?: string
+  avatar?: string
+}
+
+/** A phone on the network showing a pairing code */
+export interface LanPairingHost {
+  deviceId: string
+  address: string
+  port: number
+  displayName?: string
+  avatar?: string
+}
+
+export type LanPairError = 'wrong_code' | 'locked' | 'not_found'
+
+export interface LanSessionOptions {
+  myDeviceId: string
+  partnerDeviceId: string
+  /** The LAN pairing's session id - picks the stored key */
+  sessionId: string
+  role: DeviceRole
+  /** Raw commands from the partner - pass a command dispatcher */
+  onCommand: RawCommandHandler
+  /** Partner came into or dropped out of reach */
+  onPeerChange: (online: boolean) => void
+}
+
+const CODE_LENGTH = 4
+/** Wrong codes accepted before the shown code stops working */
+const MAX_CODE_ATTEMPTS = 5
+/** How long the joining phone waits for the picked phone to finish pairing */
+const JOIN_TIMEOUT_MS = 10000
+/** The joining phone repeats its last pairing message this often until answered */
+const JOIN_RESEND_MS = 1000
+/** Partner is considered gone after this long without a packet (pings go every 2s) */
+const PEER_TIMEOUT_MS = 6000
+/** SecureStore key of the current LAN pairing */
+const PAIRING_STORAGE_KEY = 'lan_pairing'
+
+/** What a session needs to recognise the partner - kept in SecureStore */
+interface StoredPairing {
+  sessionId: string
+  partnerDeviceId: string
+  address: string
+  key: string
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function generateCode(): string {
+  return Array.from(getRandomBytes(CODE_LENGTH), byte => byte % 10).join('')
+}
+
+function serviceAddress(service: DiscoveredService): string {
+  return service.addresses.find(address => !address.includes(':')) ?? service.addresses[0] ?? service.host
+}
+
+async function savePairing(pairing: StoredPairing): Promise<void> {
+  try {
+    await SecureStore.setItemAsync(PAIRING_STORAGE_KEY, JSON.stringify(pairing), {
+      keychainAccessible: SecureStore.WHEN_UNLOCKED,
+    })
+  } catch (error) {
+    sessionLogger.error('lan_pairing_save_failed', error as Error)
+  }
+}
+
+async function loadPairing(sessionId: string, partnerDeviceId: string): Promise<StoredPairing | null> {
+  try {
+    const stored = await SecureStore.getItemAsync(PAIRING_STORAGE_KEY)
+    if (!stored) return null
+    const pairing = JSON.parse(stored) as StoredPairing
+    if (pairing.sessionId !== sessionId || pairing.partnerDeviceId !== partnerDeviceId) return null
+    if (!pairing.address || !isLanKey(pairing.key)) return null
+    return pairing
+  } catch (error) {
+    sessionLogger.error('lan_pairing_load_failed', error as Error)
+    return null
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// LAN Session
+// ─────────────────────────────────────────────────────────────────────────────────
+
+class LanSession {
+  private unsubscribe: (() => void) | null = null
+  private livenessTimer: ReturnType<typeof setInterval> | null = null
+  private joinTimer: ReturnType<typeof setTimeout> | null = null
+  private lastSeenAt = 0
+  private online = false
+  private active = false
+
+  /** Whether the partner has been heard from recently */
+  get isPeerOnline(): boolean {
+    return this.online
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Pairing
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Show-code side: advertise on the network and wait for a phone to prove it
+   * has the returned code. `onPaired` is called once, when one does.
+   */
+  async hostPairing(me: LanProfile, onPaired: (partner: LanPartner) => void): Promise<string> {
+    this.cancelPairing()
+    const port = await this.listen()
+    const code = generateCode()
+    // Every exchange is one guess at the code, whether or not it gets confirmed
+    let attempts = 0
+    let paired: LanPairConfirm | null = null
+
+    /** Exchanges by the joining phone's share - a resent request gets the same answer */
+    const exchanges = new Map<string, {
+      deviceId: string
+      address: string
+      request: LanPairRequest
+      response: LanPairResponse
+      keys: PairingKeys
+    }>()
+
+    this.unsubscribe = p2pService.addListener((message, from) => {
+      const reply = (type: 'pair_response' | 'pair_result', payload: LanPairResponse | LanPairResult) => {
+        p2pService.sendMessageTo(from.address, from.port, type, payload)
+      }
+
+      if (message.type === 'pair_request' && !paired) {
+        const request = message.payload as LanPairRequest
+        if (typeof request?.deviceId !== 'string' || typeof request.share !== 'string') return
+
+        const known = exchanges.get(request.share)
+        if (known) {
+          if (known.address === from.address) reply('pair_response', known.response)
+          return
+        }
+        if (attempts >= MAX_CODE_ATTEMPTS) {
+          reply('pair_response', { reason: 'locked' })
+          return
+        }
+
+        const sessionId = `lan-${uuid.v4() as string}`
+        const own = createPairingShare('host', code)
+        const keys = derivePairingKeys(own, request.share, {
+          joinDeviceId: request.deviceId,
+          hostDeviceId: me.deviceId,
+          sessionId,
+        })
+        if (!keys) return
+        attempts++
+
+        const response: LanPairResponse = {
+          deviceId: me.deviceId,
+          sessionId,
+          share: own.share,
+          confirm: keys.hostConfirm,
+          displayName: me.displayName,
+          avatar: me.avatar,
+        }
+        exchanges.set(request.share, { deviceId: request.deviceId, address: from.address, request, response, keys })
+        reply('pair_response', response)
+        return
+      }
+
+      if (message.type !== 'pair_confirm') return
+      const confirm = message.payload as LanPairConfirm
+      const exchange = exchanges.get(confirm?.share)
+      if (!exchange || exchange.address !== from.address || exchange.deviceId !== confirm.deviceId) return
+
+      // The reply to an earlier confirm went missing
+      if (paired) {
+        if (paired.share === confirm.share) reply('pair_result', { accepted: true })
+        return
+      }
+
+      if (typeof confirm.confirm !== 'string' || !equalHex(confirm.confirm, exchange.keys.joinConfirm)) {
+        exchanges.delete(confirm.share)
+        sessionLogger.warn('lan_pair_wrong_code', { attempts })
+        reply('pair_result', { accepted: false, reason: attempts >= MAX_CODE_ATTEMPTS ? 'locked' : 'wrong_code' })
+        return
+      }
+
+      paired = confirm
+      reply('pair_result', { accepted: true })
+      sessionLogger.info('lan_paired', { role: 'host', partner: exchange.deviceId.substring(0, 8) })
+      // The socket and this listener stay up so a repeated confirm still gets
+      // its answer - start() or cancelPairing() closes them
+      discoveryService.unpublishService()
+      const partner: LanPartner = {
+        deviceId: exchange.deviceId,
+        sessionId: exchange.response.sessionId!,
+        address: exchange.address,
+        displayName: exchange.request.displayName,
+        avatar: exchange.request.avatar,
+      }
+      void savePairing({
+        sessionId: partner.sessionId,
+        partnerDeviceId: partner.deviceId,
+        address: partner.address,
+        key: exchange.keys.key,
+      }).then(() => onPaired(partner))
+    })
+
+    const txt: Record<string, string> = { pairing: '1' }
+    if (me.displayName) txt.name = me.displayName
+    if (me.avatar) txt.avatar = me.avatar
+    discoveryService.publishService(me.deviceId, null, port, txt)
+    sessionLogger.info('lan_pairing_hosted', { port })
+    return code
+  }
+
+  /**
+   * Enter-code side: list the phones on the network showing a pairing code,
+   * so the user can pick their partner's. Called with the whole list on every
+   * change, until `joinPairing` or `cancelPairing`.
+   */
+  findPairingHosts(me: LanProfile, onChange: (hosts: LanPairingHost[]) => void): void {
+    this.cancelPairing()
+    const hosts = new Map<string, LanPairingHost>()
+    /** mDNS service name -> device id, for removals */
+    const serviceNames = new Map<string, string>()
+
+    discoveryService.init({
+      onServiceFound: (service) => {
+        const deviceId = service.txt?.deviceId
+        if (service.txt?.pairing !== '1' || !deviceId || deviceId === me.deviceId) return
+        serviceNames.set(service.name, deviceId)
+        hosts.set(deviceId, {
+          deviceId,
+          address: serviceAddress(service),
+          port: service.port,
+          displayName: service.txt.name,
+          avatar: service.txt.avatar,
+        })
+        onChange([...hosts.values()])
+      },
+      onServiceRemoved: (name) => {
+        const deviceId = serviceNames.get(name)
+        if (!deviceId) return
+        serviceNames.delete(name)
+        hosts.delete(deviceId)
+        onChange([...hosts.values()])
+      },
+      onError: (error) => sessionLogger.warn('lan_discovery_error', { message: error.message }),
+    })
+    discoveryService.startScanning()
+  }
+
+  /**
+   * Enter-code side: pair with the phone the user picked. Only that phone is
+   * contacted, and it never sees the code - just a share blinded with it.
+   */
+  async joinPairing(
+    me: LanProfile,
+    host: LanPairingHost,
+    code: string
+  ): Promise<{ partner?: LanPartner; error?: LanPairError }> {
+    this.cancelPairing()
+    await this.listen()
+
+    return new Promise((resolve) => {
+      const own: PairingShare = createPairingShare('join', code)
+      let answered = false
+      let settled = false
+      let pending: { type: 'pair_request' | 'pair_confirm'; payload: LanPairRequest | LanPairConfirm } = {
+        type: 'pair_request',
+        payload: { deviceId: me.deviceId, share: own.share, displayName: me.displayName, avatar: me.avatar },
+      }
+      let accepted: { partner: LanPartner; key: string } | null = null
+
+      const send = () => p2pService.sendMessageTo(host.address, host.port, pending.type, pending.payload)
+
+      const finish = (result: { partner?: LanPartner; error?: LanPairError }) => {
+        if (settled) return
+        settled = true
+        this.cancelPairing()
+        resolve(result)
+      }
+
+      const removeListener = p2pService.addListener((message, from) => {
+        if (from.address !== host.address || settled) return
+
+        if (message.type === 'pair_response' && !answered) {
+          const response = message.payload as LanPairResponse
+          if (response?.reason === 'locked') {
+            finish({ error: 'locked' })
+            return
+          }
+          if (response?.deviceId !== host.deviceId || typeof response.sessionId !== 'string') return
+          if (typeof response.share !== 'string' || typeof response.confirm !== 'string') return
+          answered = true
+
+          const keys = derivePairingKeys(own, response.share, {
+            joinDeviceId: me.deviceId,
+            hostDeviceId: host.deviceId,
+            sessionId: response.sessionId,
+          })
+          // A different code on the other phone - or not the partner's phone at all
+          if (!keys || !equalHex(response.confirm, keys.hostConfirm)) {
+            sessionLogger.warn('lan_pair_failed', { reason: 'wrong_code' })
+            finish({ error: 'wrong_code' })
+            return
+          }
+
+          accepted = {
+            key: keys.key,
+            partner: {
+              deviceId: host.deviceId,
+              sessionId: response.sessionId,
+              address: host.address,
+              displayName: response.displayName,
+              avatar: response.avatar,
+            },
+          }
+          pending = { type: 'pair_confirm', payload: { deviceId: me.deviceId, share: own.share, confirm: keys.joinConfirm } }
+          send()
+          return
+        }
+
+        if (message.type === 'pair_result' && accepted) {
+          const result = message.payload as LanPairResult
+          if (!result?.accepted) {
+            sessionLogger.warn('lan_pair_failed', { reason: result?.reason ?? 'wrong_code' })
+            finish({ error: result?.reason ?? 'wrong_code' })
+            return
+          }
+
+          // Answers to repeated confirms change nothing
+          const { partner, key } = accepted
+          accepted = null
+          sessionLogger.info('lan_paired', { role: 'join', partner: partner.deviceId.substring(0, 8) })
+          void savePairing({ sessionId: partner.sessionId, partnerDeviceId: partner.deviceId, address: partner.address, key })
+            .then(() => finish({ partner }))
+        }
+      })
+
+      // UDP may drop either message - repeat it until the next step arrives
+      const resendTimer = setInterval(send, JOIN_RESEND_MS)
+      this.unsubscribe = () => {
+        removeListener()
+        clearInterval(resendTimer)
+      }
+      send()
+      this.joinTimer = setTimeout(() => {
+        sessionLogger.warn('lan_pair_failed', { reason: 'not_found', answered })
+        finish({ error: 'not_found' })
+      }, JOIN_TIMEOUT_MS)
+    })
+  }
+
+  /**
+   * Stop advertising or looking for a pairing code
+   */
+  cancelPairing() {
+    // Once a session is running the socket and discovery are its own
+    if (this.active) return
+    if (this.joinTimer) {
+      clearTimeout(this.joinTimer)
+      this.joinTimer = null
+    }
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    discoveryService.stopScanning()
+    discoveryService.unpublishService()
+    p2pService.stop()
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Session
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Find the paired phone on the network and keep a connection to it until `stop`.
+   * Both phones advertise and scan, so whichever finds the other first connects.
+   * Throws when this phone has no key for the pairing.
+   */
+  async start(options: LanSessionOptions): Promise<void> {
+    this.cancelPairing()
+    this.stop()
+    this.active = true
+
+    const { myDeviceId, partnerDeviceId, sessionId, role, onCommand, onPeerChange } = options
+    const pairing = await loadPairing(sessionId, partnerDeviceId)
+    if (!this.active) return
+    if (!pairing) {
+      this.active = false
+      throw new Error('No local Wi-Fi pairing key for this partner - pair again')
+    }
+
+    const port = await this.listen()
+    if (!this.active) return
+    p2pService.setAuth({ deviceId: myDeviceId, peerDeviceId: partnerDeviceId, peerAddress: pairing.address, key: pairing.key })
+
+    const setOnline = (online: boolean) => {
+      if (this.online === online) return
+      this.online = online
+      sessionLogger.info(online ? 'lan_peer_online' : 'lan_peer_offline', { role })
+      onPeerChange(online)
+    }
+
+    this.unsubscribe = p2pService.addListener((message: P2PMessage) => {
+      if (message.type === 'disconnect') {
+        setOnline(false)
+        return
+      }
+      if (message.type.startsWith('pair_')) return
+
+      this.lastSeenAt = Date.now()
+      setOnline(true)
+
+      if (message.type === 'command') {
+        const { command, data } = message.payload as LanCommandMessage
+        if (typeof command === 'string') onCommand(command, data)
+      }
+    })
+
+    discoveryService.init({
+      onServiceFound: (service) => {
+        if (service.txt?.deviceId !== partnerDeviceId) return
+        // Anyone can advertise the partner's id - only its paired address is used
+        if (!service.addresses.includes(pairing.address)) {
+          sessionLogger.warn('lan_peer_address_mismatch', { role })
+          return
+        }
+        p2pService.connectToPeer(pairing.address, service.port)
+      },
+      onServiceRemoved: () => {},
+      onError: (error) => sessionLogger.warn('lan_discovery_error', { message: error.message }),
+    })
+    discoveryService.publishService(myDeviceId, role, port)
+    discoveryService.startScanning()
+
+    this.livenessTimer = setInterval(() => {
+      if (this.online && Date.now() - this.lastSeenAt > PEER_TIMEOUT_MS) setOnline(false)
+    }, 2000)
+
+    sessionLogger.info('lan_session_started', { role, port })
+  }
+
+  /**
+   * Send a command to the partner. Rejects when it isn't reachable so the
+   * caller's retry / fallback logic kicks in.
+   */
+  sendCommand = async (command: string, data?: Record<string, unknown>): Promise<void> => {
+    if (!this.active || !p2pService.isConnected) {
+      throw new Error('Partner not reachable on local network')
+    }
+    const message: LanCommandMessage = { command, data }
+    p2pService.sendMessage('command', message)
+  }
+
+  stop() {
+    if (!this.active) return
+    this.active = false
+
+    if (this.livenessTimer) {
+      clearInterval(this.livenessTimer)
+      this.livenessTimer = null
+    }
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    discoveryService.stopScanning()
+    discoveryService.unpublishService()
+    p2pService.stop()
+    this.online = false
+    this.lastSeenAt = 0
+
+    sessionLogger.info('lan_session_stopped')
+  }
+
+  /** Start the UDP socket if it isn't already - returns the local port */
+  private async listen(): Promise<number> {
+    if (p2pService.isListening) return p2pService.port
+    return p2pService.startServer()
+  }
+}
+
+export const lanSession = new LanSession()
@@ -1,68 +1,257 @@
 /**
- * LiveKit Video Service (STUB)
- * 
- * LiveKit packages temporarily removed due to native build conflicts
- * with react-native-webrtc.
- * 
- * To enable LiveKit:
- * 1. npm uninstall react-native-webrtc
- * 2. npm install @livekit/react-native @livekit/react-native-webrtc livekit-server-sdk
- * 3. Update webrtc.ts to use @livekit/react-native-webrtc
- * 4. Set USE_LIVEKIT = true in viewer.tsx and camera.tsx
- * 5. Uncomment the implementation below
+ * LiveKit Video Service
+ *
+ * The other MediaTransport (see mediaTransport.ts): both phones join a
+ * LiveKit room named after the pairing session. The camera publishes its
+ * camera track, the director subscribes to it, and commands travel as
+ * reliable data packets addressed to the partner. Room tokens come from the
+ * livekit-token edge function.
+ *
+ * With relay-only on (privacy setting) the room's peer connections only use
+ * the TURN servers LiveKit hands out, like WebRTCService does with ours.
+ *
+ * @livekit/react-native-webrtc is the app's only WebRTC binding - webrtc.ts
+ * uses it too - and its Expo config plugins (app.config.ts) link it into
+ * development and store builds. The modules are still required lazily, so Expo
+ * Go or a build without EXPO_PUBLIC_LIVEKIT_URL reports the service
+ * unavailable and `mediaTransport` stays on WebRTC.
  */
 
-// LiveKit is disabled - using WebRTC fallback
-export const isLiveKitAvailable = false
+import type {
+  MediaHandle,
+  MediaTransport,
+  TransportCallbacks,
+  TransportCommandHandler,
+  TransportConnectionState,
+  TransportFeatures,
+  TransportRole,
+} from './mediaTransport'
+import { livekitTokenApi } from './cloudApi'
+import { sessionLogger } from './sessionLogger'
+import { useSettingsStore } from '../stores/settingsStore'
 
-interface LiveKitCallbacks {
-  onRemoteTrack?: (track: any, participant: any) => void
-  onConnectionStateChange?: (state: string) => void
-  onDataReceived?: (data: any, participant: any) => void
-  onError?: (error: Error) => void
+// NOTE: EXPO_PUBLIC_ vars require native rebuild - OTA won't update them
+const LIVEKIT_URL = process.env.EXPO_PUBLIC_LIVEKIT_URL || ''
+
+const COMMAND_TOPIC = 'command'
+
+// Required lazily - the native modules may not be linked into this build
+let LiveKitClient: any = null
+let LiveKitNative: any = null
+try {
+  LiveKitNative = require('@livekit/react-native')
+  LiveKitClient = require('livekit-client')
+} catch {
+  LiveKitNative = null
+  LiveKitClient = null
 }
 
-/**
- * Stub LiveKit service - throws error if called
- * Real implementation available when packages are installed
- */
-class LiveKitService {
-  async init(
-    _deviceId: string,
-    _peerDeviceId: string,
-    _sessionId: string,
-    _role: 'camera' | 'director',
-    _callbacks: LiveKitCallbacks
-  ): Promise<void> {
-    throw new Error('LiveKit is not available - using WebRTC fallback')
+export const isLiveKitAvailable = !!LiveKitClient && !!LiveKitNative && !!LIVEKIT_URL
+
+/** LiveKit's ConnectionState values onto the peer connection states the screens know */
+function toTransportState(state: string): TransportConnectionState {
+  switch (state) {
+    case 'connected':
+      return 'connected'
+    case 'connecting':
+    case 'reconnecting':
+    case 'signalReconnecting':
+      return 'connecting'
+    default:
+      return 'disconnected'
   }
+}
 
-  async sendCommand(_command: string, _data?: Record<string, unknown>): Promise<void> {
-    throw new Error('LiveKit is not available')
+class LiveKitService implements MediaTransport {
+  readonly kind = 'livekit' as const
+  // The SFU adapts the stream itself; voice needs the raw peer connection
+  readonly features: TransportFeatures = {
+    voice: false,
+    streamProfile: false,
   }
 
-  onCommand(_handler: (command: string, data?: Record<string, unknown>) => void): void {
-    // No-op
+  private room: any = null
+  private deviceId: string | null = null
+  private peerDeviceId: string | null = null
+  private callbacks: TransportCallbacks = {}
+  private commandHandlers: TransportCommandHandler[] = []
+  private remoteTrack: any = null
+  private globalsRegistered = false
+
+  /**
+   * Check if LiveKit is installed and configured
+   */
+  isAvailable(): boolean {
+    return isLiveKitAvailable
   }
 
-  async flipCamera(): Promise<void> {
-    throw new Error('LiveKit is not available')
+  /**
+   * Join the session's room - the camera also starts publishing its camera
+   */
+  async init(
+    deviceId: string,
+    peerDeviceId: string,
+    sessionId: string,
+    role: TransportRole,
+    callbacks: TransportCallbacks
+  ): Promise<void> {
+    if (!isLiveKitAvailable) {
+      throw new Error('LiveKit is not available in this build')
+    }
+
+    // A previous session's room must be gone before the next one joins
+    if (this.room) {
+      await this.destroy()
+    }
+
+    if (!this.globalsRegistered) {
+      LiveKitNative.registerGlobals()
+      this.globalsRegistered = true
+    }
+
+    this.deviceId = deviceId
+    this.peerDeviceId = peerDeviceId
+    this.callbacks = callbacks
+
+    const { relayOnly } = useSettingsStore.getState().settings
+    sessionLogger.info('livekit_init_start', {
+      role,
+      deviceId: deviceId.substring(0, 8),
+      peerDeviceId: peerDeviceId.substring(0, 8),
+      relayOnly,
+    })
+
+    const { token, error } = await livekitTokenApi.get({
+      roomName: sessionId,
+      participantName: deviceId,
+      role,
+    })
+    if (!token) {
+      throw new Error(`livekit-token failed: ${error ?? 'no token returned'}`)
+    }
+
+    const { Room, RoomEvent, Track, VideoPresets } = LiveKitClient
+    const room = new Room({ adaptiveStream: true, dynacast: true })
+    this.room = room
+
+    room.on(RoomEvent.ConnectionStateChanged, (state: string) => {
+      if (this.room !== room) return
+      sessionLogger.info('livekit_connection_state', { state, role })
+      this.callbacks.onConnectionStateChange?.(toTransportState(state))
+    })
+
+    room.on(RoomEvent.TrackSubscribed, (track: any, _publication: any, participant: any) => {
+      if (this.room !== room) return
+      if (track.kind !== Track.Kind.Video || participant?.identity !== this.peerDeviceId) return
+      sessionLogger.info('livekit_remote_track', { sid: track.sid })
+      this.remoteTrack = track
+      this.callbacks.onRemoteMedia?.({ kind: 'livekit', track })
+    })
+
+    room.on(RoomEvent.TrackUnsubscribed, (track: any) => {
+      if (this.room === room && track === this.remoteTrack) {
+        this.remoteTrack = null
+      }
+    })
+
+    room.on(RoomEvent.DataReceived, (payload: Uint8Array, _participant: any, _kind: any, topic?: string) => {
+      if (this.room !== room || topic !== COMMAND_TOPIC) return
+      this.handleData(payload)
+    })
+
+    try {
+      await LiveKitNative.AudioSession.startAudioSession()
+      // Relay-only: no host or server-reflexive candidates, so the SFU never sees our address
+      await room.connect(LIVEKIT_URL, token, relayOnly ? { rtcConfig: { iceTransportPolicy: 'relay' } } : undefined)
+
+      if (role === 'camera') {
+        await room.localParticipant.setCameraEnabled(true, {
+          facingMode: 'environment',
+          resolution: VideoPresets.h720.resolution,
+        })
+      }
+    } catch (error) {
+      sessionLogger.error('livekit_init_failed', error as Error, { role })
+      this.callbacks.onError?.(error as Error)
+      throw error
+    }
+
+    sessionLogger.info('livekit_init_success', { role, room: sessionId.substring(0, 8) })
+  }
+
+  /**
+   * Send command to peer as a reliable data packet
+   */
+  async sendCommand(command: string, data?: Record<string, unknown>): Promise<void> {
+    if (!this.room || !this.deviceId || !this.peerDeviceId) return
+
+    const payload = new TextEncoder().encode(JSON.stringify({
+      from: this.deviceId,
+      to: this.peerDeviceId,
+      command,
+      data,
+    }))
+    await this.room.localParticipant.publishData(payload, {
+      reliable: true,
+      topic: COMMAND_TOPIC,
+      destinationIdentities: [this.peerDeviceId],
+    })
+
+    sessionLogger.logCommand('sent', command, data)
   }
 
-  getConnectionState(): string {
-    return 'disconnected'
+  /**
+   * Subscribe to commands from peer
+   */
+  onCommand(handler: TransportCommandHandler): void {
+    this.commandHandlers.push(handler)
   }
 
-  isConnected(): boolean {
-    return false
+  getLocalMedia(): MediaHandle | null {
+    const publication = this.room?.localParticipant?.getTrackPublication?.(LiveKitClient?.Track.Source.Camera)
+    return publication?.track ? { kind: 'livekit', track: publication.track } : null
   }
 
-  getRemoteVideoTrack(): any {
-    return null
+  getRemoteMedia(): MediaHandle | null {
+    return this.remoteTrack ? { kind: 'livekit', track: this.remoteTrack } : null
   }
 
+  /**
+   * Leave the room and stop the camera
+   */
   async destroy(): Promise<void> {
-    // No-op
+    const room = this.room
+    this.room = null
+    this.remoteTrack = null
+    this.commandHandlers = []
+    this.callbacks = {}
+    this.deviceId = null
+    this.peerDeviceId = null
+
+    if (!room) return
+    sessionLogger.info('livekit_destroying')
+    try {
+      await room.disconnect()
+      await LiveKitNative?.AudioSession.stopAudioSession()
+    } catch (error) {
+      sessionLogger.error('livekit_destroy_error', error as Error)
+    }
+  }
+
+  private handleData(payload: Uint8Array) {
+    let message: { from?: string; to?: string; command?: string; data?: Record<string, unknown> }
+    try {
+      message = JSON.parse(new TextDecoder().decode(payload))
+    } catch {
+      sessionLogger.warn('livekit_bad_data_packet', { bytes: payload.length })
+      return
+    }
+
+    if (message.to !== this.deviceId || typeof message.command !== 'string') return
+
+    sessionLogger.logCommand('received', message.command, message.data)
+    const { command, data } = message
+    this.commandHandlers.forEach(handler => handler(command, data))
   }
 }
 
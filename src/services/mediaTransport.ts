@@ -0,0 +1,439 @@
+/**
+ * Media Transport
+ *
+ * One interface for whatever carries the video and the commands between the
+ * two phones - raw WebRTC (webrtc.ts) or LiveKit (livekit.ts). The screens
+ * only talk to `mediaTransport` (transport.ts), a FallbackTransport that runs
+ * the preferred transport from the app config (see src/config/transport.ts)
+ * and falls back to the next one when it can't connect:
+ * - init() throws (token or camera failure)
+ * - the connection reaches 'failed' before it was ever 'connected'
+ *
+ * Each phone only sees its own side fail, so the phone that hits a trigger
+ * proposes the switch over a signaling channel both transports are
+ * independent of (transportSignaling.ts) and only moves once the partner has
+ * acked it - the partner moves when it acks. No ack (partner gone, or its
+ * build can't run the transport) and the phone stays put and reports the failure.
+ */
+
+import type { MediaTransportConfig, MediaTransportName } from '../config/transport'
+import { sessionLogger } from './sessionLogger'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type TransportKind = MediaTransportName
+
+export type TransportRole = 'camera' | 'director'
+
+/** Same states as RTCPeerConnection - LiveKit's are mapped onto these */
+export type TransportConnectionState = 'new' | 'connecting' | 'connected' | 'disconnected' | 'failed' | 'closed'
+
+export type TransportCommandHandler = (command: string, data?: Record<string, unknown>) => void
+
+/**
+ * Video to render - an RTCView takes a stream, LiveKit's VideoView a track
+ * (see src/components/TransportVideoView.tsx)
+ */
+export type MediaHandle =
+  | { kind: 'webrtc'; stream: any }
+  | { kind: 'livekit'; track: any }
+
+/** What a transport supports beyond video and commands */
+export interface TransportFeatures {
+  /** Push-to-talk audio alongside the video */
+  voice: boolean
+  /** Director's stream_quality preset, adaptive bitrate and quality samples */
+  streamProfile: boolean
+}
+
+export interface TransportCallbacks {
+  onRemoteMedia?: (media: MediaHandle) => void
+  /** Partner's push-to-talk audio arrived */
+  onRemoteVoice?: () => void
+  onConnectionStateChange?: (state: TransportConnectionState) => void
+  onError?: (error: Error) => void
+  /** The fallback moved the session to another transport - media and features changed */
+  onTransportChange?: (kind: TransportKind) => void
+}
+
+export interface MediaTransport {
+  readonly kind: TransportKind
+  readonly features: TransportFeatures
+  /** False when the build lacks the native modules or config the transport needs */
+  isAvailable(): boolean
+  init(
+    deviceId: string,
+    peerDeviceId: string,
+    sessionId: string,
+    role: TransportRole,
+    callbacks: TransportCallbacks
+  ): Promise<void>
+  getLocalMedia(): MediaHandle | null
+  getRemoteMedia(): MediaHandle | null
+  sendCommand(command: string, data?: Record<string, unknown>): Promise<void>
+  /** Subscribe to the partner's commands - call after init() */
+  onCommand(handler: TransportCommandHandler): void
+  destroy(): Promise<void>
+}
+
+export const NO_TRANSPORT_FEATURES: TransportFeatures = {
+  voice: false,
+  streamProfile: false,
+}
+
+/** The fallback's handshake with the partner's FallbackTransport */
+export interface TransportSwitchMessage {
+  /** 'switch' proposes moving to `kind`, 'switch_ack' answers a proposal */
+  type: 'switch' | 'switch_ack'
+  kind: TransportKind
+  /** Ack only - false when the partner won't move to `kind` */
+  accepted?: boolean
+}
+
+export interface TransportSignalingSession {
+  deviceId: string
+  peerDeviceId: string
+  sessionId: string
+}
+
+/** Delivers switch messages between the two phones, outside any media transport */
+export interface TransportSignaling {
+  open(session: TransportSignalingSession, onMessage: (message: TransportSwitchMessage) => void): Promise<void>
+  send(message: TransportSwitchMessage): Promise<void>
+  close(): Promise<void>
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Media Helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** The native video tracks behind a handle */
+export function mediaVideoTracks(media: MediaHandle | null): any[] {
+  if (!media) return []
+  if (media.kind === 'webrtc') return media.stream?.getVideoTracks?.() ?? []
+  const track = media.track?.mediaStreamTrack
+  return track ? [track] : []
+}
+
+/** True when the handle has a live, enabled video track to show */
+export function hasActiveVideo(media: MediaHandle | null): boolean {
+  return mediaVideoTracks(media).some(
+    (track: { readyState: string; enabled: boolean }) => track.readyState === 'live' && track.enabled
+  )
+}
+
+/** A stable key for the view rendering a handle */
+export function mediaKey(media: MediaHandle): string {
+  return media.kind === 'webrtc' ? media.stream?.id ?? 'webrtc' : media.track?.sid ?? 'livekit'
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Fallback Transport
+// ─────────────────────────────────────────────────────────────────────────────────
+
+interface TransportSession {
+  deviceId: string
+  peerDeviceId: string
+  sessionId: string
+  role: TransportRole
+  callbacks: TransportCallbacks
+}
+
+/** A proposal is resent this often until the partner acks it... */
+const SWITCH_RETRY_MS = 2000
+/** ...and given up on after this long */
+const SWITCH_ACK_TIMEOUT_MS = 15000
+
+function isSwitchMessage(value: unknown): value is TransportSwitchMessage {
+  const message = value as Partial<TransportSwitchMessage> | null
+  return !!message
+    && (message.type === 'switch' || message.type === 'switch_ack')
+    && typeof message.kind === 'string'
+}
+
+export class FallbackTransport implements MediaTransport {
+  private transports: MediaTransport[]
+  private signaling: TransportSignaling
+  private active: MediaTransport | null = null
+  /** Index of the active (or starting) transport in `order` */
+  private activeIndex = 0
+  private order: MediaTransport[] = []
+  private session: TransportSession | null = null
+  private commandHandlers: TransportCommandHandler[] = []
+  /** Our proposals waiting for the partner's ack, by transport */
+  private switchWaiters = new Map<TransportKind, (accepted: boolean) => void>()
+  // Bumped by destroy() and by every switch so an init or fallback in flight stops where it is
+  private generation = 0
+
+  constructor(transports: MediaTransport[], signaling: TransportSignaling) {
+    this.transports = transports
+    this.signaling = signaling
+  }
+
+  get kind(): TransportKind {
+    return (this.active ?? this.candidates()[0] ?? this.transports[0]).kind
+  }
+
+  get features(): TransportFeatures {
+    return this.active?.features ?? NO_TRANSPORT_FEATURES
+  }
+
+  isAvailable(): boolean {
+    return this.candidates().length > 0
+  }
+
+  async init(
+    deviceId: string,
+    peerDeviceId: string,
+    sessionId: string,
+    role: TransportRole,
+    callbacks: TransportCallbacks
+  ): Promise<void> {
+    const candidates = this.candidates()
+    if (candidates.length === 0) {
+      throw new Error('No video transport available - requires a development build')
+    }
+
+    const generation = ++this.generation
+    this.order = candidates
+    this.activeIndex = 0
+    this.session = { deviceId, peerDeviceId, sessionId, role, callbacks }
+
+    // Opened even with nothing to fall back to, so the partner's proposals get a refusal
+    try {
+      await this.signaling.open({ deviceId, peerDeviceId, sessionId }, message => this.handleSignal(message))
+    } catch (error) {
+      // The session still runs - it just can't move to another transport
+      sessionLogger.warn('transport_signaling_failed', { message: (error as Error).message })
+    }
+    if (generation !== this.generation) return
+
+    await this.start(0, generation)
+  }
+
+  getLocalMedia(): MediaHandle | null {
+    return this.active?.getLocalMedia() ?? null
+  }
+
+  getRemoteMedia(): MediaHandle | null {
+    return this.active?.getRemoteMedia() ?? null
+  }
+
+  async sendCommand(command: string, data?: Record<string, unknown>): Promise<void> {
+    if (!this.active) return
+    await this.active.sendCommand(command, data)
+  }
+
+  onCommand(handler: TransportCommandHandler): void {
+    this.commandHandlers.push(handler)
+    this.active?.onCommand(handler)
+  }
+
+  async destroy(): Promise<void> {
+    this.generation++
+    const transport = this.active
+    this.active = null
+    this.session = null
+    this.commandHandlers = []
+    this.settleSwitchWaiters(false)
+    await this.signaling.close().catch(() => {})
+    await transport?.destroy()
+  }
+
+  /**
+   * Transports this build can run, preferred first
+   */
+  private candidates(): MediaTransport[] {
+    return this.transports.filter(transport => transport.isAvailable())
+  }
+
+  /**
+   * Init candidate `index`. If it throws, move on to the next one once the
+   * partner agrees - throws when there is none or the partner doesn't.
+   */
+  private async start(index: number, generation: number): Promise<void> {
+    const candidates = this.order
+    const session = this.session
+    if (generation !== this.generation || !session) return
+
+    const { deviceId, peerDeviceId, sessionId, role, callbacks } = session
+    const transport = candidates[index]
+    const hasNext = index + 1 < candidates.length
+    let connected = false
+    let fellBack = false
+
+    this.active = transport
+    this.activeIndex = index
+    if (index > 0) callbacks.onTransportChange?.(transport.kind)
+    sessionLogger.info('transport_init', { kind: transport.kind, role, attempt: index + 1 })
+
+    try {
+      await transport.init(deviceId, peerDeviceId, sessionId, role, {
+        ...callbacks,
+        onConnectionStateChange: (state) => {
+          if (this.active !== transport) return
+          if (state === 'connected') connected = true
+          // A transport that never connects hands the session to the next one
+          if (state === 'failed' && !connected && hasNext && !fellBack) {
+            fellBack = true
+            void this.fallBack(index, generation)
+            return
+          }
+          callbacks.onConnectionStateChange?.(state)
+        },
+        onRemoteMedia: (media) => {
+          if (this.active === transport) callbacks.onRemoteMedia?.(media)
+        },
+        onError: (error) => {
+          if (this.active === transport) callbacks.onError?.(error)
+        },
+      })
+    } catch (error) {
+      sessionLogger.warn('transport_init_failed', { kind: transport.kind, message: (error as Error).message })
+      if (generation !== this.generation) return
+      await transport.destroy().catch(() => {})
+      if (generation !== this.generation) return
+
+      const agreed = hasNext && await this.proposeSwitch(candidates[index + 1].kind, generation)
+      // The partner's own proposal may have moved the session meanwhile
+      if (generation !== this.generation) return
+      if (!agreed) {
+        this.active = null
+        throw error
+      }
+      return this.start(index + 1, generation)
+    }
+
+    if (generation !== this.generation) return
+    this.attachCommandHandlers(transport)
+  }
+
+  /**
+   * A transport that failed to connect: move on to the next one if the
+   * partner acks, otherwise report the failure
+   */
+  private async fallBack(failedIndex: number, generation: number): Promise<void> {
+    const next = this.order[failedIndex + 1]
+    const agreed = await this.proposeSwitch(next.kind, generation)
+    if (generation !== this.generation) return
+
+    if (!agreed) {
+      sessionLogger.warn('transport_switch_refused', { from: this.order[failedIndex].kind, to: next.kind })
+      this.session?.callbacks.onConnectionStateChange?.('failed')
+      return
+    }
+    await this.switchTo(failedIndex + 1)
+  }
+
+  /**
+   * Tear down the active transport and start candidate `index` - on our own
+   * agreed proposal or on the partner's
+   */
+  private async switchTo(index: number): Promise<void> {
+    const session = this.session
+    if (!session) return
+
+    const generation = ++this.generation
+    const failed = this.active
+    sessionLogger.warn('transport_fallback', {
+      from: failed?.kind ?? this.order[this.activeIndex].kind,
+      to: this.order[index].kind,
+      role: session.role,
+    })
+
+    // Anything waiting on the old transport is moot
+    this.settleSwitchWaiters(false)
+    this.active = null
+    this.activeIndex = index
+    await failed?.destroy().catch(() => {})
+    if (generation !== this.generation) return
+    session.callbacks.onConnectionStateChange?.('connecting')
+
+    try {
+      await this.start(index, generation)
+    } catch (error) {
+      if (generation !== this.generation) return
+      sessionLogger.error('transport_fallback_failed', error as Error)
+      session.callbacks.onError?.(error as Error)
+      session.callbacks.onConnectionStateChange?.('failed')
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Switch handshake
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Ask the partner to move to `kind` with us, resending until it answers.
+   * True once it acked - false if it refused, never answered, or the session moved on.
+   */
+  private proposeSwitch(kind: TransportKind, generation: number): Promise<boolean> {
+    sessionLogger.info('transport_switch_proposed', { kind })
+
+    return new Promise<boolean>((resolve) => {
+      const propose = () => {
+        this.signaling.send({ type: 'switch', kind }).catch((error) => {
+          sessionLogger.warn('transport_switch_send_failed', { message: (error as Error).message })
+        })
+      }
+      const retry = setInterval(propose, SWITCH_RETRY_MS)
+      const timeout = setTimeout(() => settle(false), SWITCH_ACK_TIMEOUT_MS)
+
+      const settle = (accepted: boolean) => {
+        clearInterval(retry)
+        clearTimeout(timeout)
+        if (this.switchWaiters.get(kind) === settle) this.switchWaiters.delete(kind)
+        resolve(accepted && generation === this.generation)
+      }
+
+      this.switchWaiters.get(kind)?.(false)
+      this.switchWaiters.set(kind, settle)
+      propose()
+    })
+  }
+
+  private handleSignal(message: unknown) {
+    if (!isSwitchMessage(message) || !this.session) return
+
+    if (message.type === 'switch_ack') {
+      sessionLogger.info('transport_switch_acked', { kind: message.kind, accepted: message.accepted === true })
+      this.switchWaiters.get(message.kind)?.(message.accepted === true)
+      return
+    }
+
+    // Moving back to a transport this phone already left would split the pair again
+    const index = this.order.findIndex(transport => transport.kind === message.kind)
+    const accepted = index !== -1 && index >= this.activeIndex
+    sessionLogger.info('transport_switch_requested', { kind: message.kind, accepted })
+    this.signaling.send({ type: 'switch_ack', kind: message.kind, accepted }).catch((error) => {
+      sessionLogger.warn('transport_switch_send_failed', { message: (error as Error).message })
+    })
+
+    if (accepted && index > this.activeIndex) void this.switchTo(index)
+  }
+
+  private settleSwitchWaiters(accepted: boolean) {
+    const waiters = [...this.switchWaiters.values()]
+    this.switchWaiters.clear()
+    waiters.forEach(settle => settle(accepted))
+  }
+
+  private attachCommandHandlers(transport: MediaTransport) {
+    this.commandHandlers.forEach(handler => transport.onCommand(handler))
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Order
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The preferred transport first, then the rest unless fallback is off
+ */
+export function transportOrder(config: MediaTransportConfig, transports: MediaTransport[]): MediaTransport[] {
+  const preferred = transports.find(transport => transport.kind === config.preferred) ?? transports[0]
+  if (!config.fallback) return [preferred]
+  return [preferred, ...transports.filter(transport => transport !== preferred)]
+}
@@ -1,13 +1,35 @@
 /**
  * P2P UDP communication service for low-latency frame streaming
+ *
+ * Control messages go through a ReliableChannel (acked, retransmitted, in
+ * order); frames are best-effort and dropped once a newer one has arrived.
+ *
+ * With `setAuth` every packet is sealed (lanAuth.ts) and only packets from the
+ * paired device, its address and its key get through - without it (pairing,
+ * useConnection) whoever reaches us first becomes the peer. A sealed packet is
+ * only acted on once it names this socket's epoch and its sequence number is
+ * new, so recordings of earlier packets are dropped.
  */
 
 import dgram, { type UdpSocket } from 'react-native-udp'
-import type { P2PMessage, P2PMessageType } from '../types'
+import { ReplayWindow, openPacket, sealPacket, type SealHeader } from './lanAuth'
+import { LatestFrameFilter, ReliableChannel, createEpoch, type ReliablePacket } from './reliableChannel'
+import type { P2PAck, P2PMessage, P2PMessageType } from '../types'
 
 const DEFAULT_PORT = 54321
 const MAX_PACKET_SIZE = 65507 // Max UDP packet size
 const CHUNK_SIZE = 60000 // Safe chunk size for fragmented frames
+const RELIABLE_TICK_MS = 50
+/** At most one epoch announcement per this long, however many stale packets arrive */
+const HELLO_INTERVAL_MS = 1000
+
+/** Messages that must not get lost - everything else is fire-and-forget */
+const RELIABLE_TYPES: readonly P2PMessageType[] = [
+  'capture_request',
+  'capture_response',
+  'settings_update',
+  'command',
+]
 
 export interface P2PCallbacks {
   onMessage: (message: P2PMessage) => void
@@ -16,11 +38,27 @@ export interface P2PCallbacks {
   onDisconnected: () => void
 }
 
+/** Who the peer must be once phones are paired */
+export interface P2PAuth {
+  /** This phone - sent with every packet */
+  deviceId: string
+  peerDeviceId: string
+  /** Where the peer paired from - packets from any other address are dropped */
+  peerAddress: string
+  /** Shared pairing key (hex) */
+  key: string
+}
+
+/** Extra consumer of incoming messages, alongside the `init` callbacks */
+export type P2PMessageListener = (message: P2PMessage, from: { address: string; port: number }) => void
+
 interface PendingChunks {
   [key: string]: {
     chunks: Map<number, string>
     total: number
     timestamp: number
+    epoch: string
+    sequence: number
   }
 }
 
@@ -34,6 +72,23 @@ class P2PService {
   private pendingChunks: PendingChunks = {}
   private pingInterval: ReturnType<typeof setInterval> | null = null
   private lastPongTime = 0
+  private listeners = new Set<P2PMessageListener>()
+  private auth: P2PAuth | null = null
+  private epoch = createEpoch()
+  /** Partner's epoch as last heard in a packet that named ours */
+  private peerEpoch: string | null = null
+  private packetSequence = 0
+  private replayWindow = new ReplayWindow()
+  private lastHelloAt = 0
+  private frameFilter = new LatestFrameFilter()
+  private reliableTimer: ReturnType<typeof setInterval> | null = null
+  private channel = new ReliableChannel<P2PMessage>({
+    transmit: (packet) => this.transmitReliable(packet),
+    deliver: (message) => this.emit(message, { address: this.peerAddress ?? '', port: this.peerPort }),
+    onGiveUp: (message) => {
+      this.callbacks?.onError(new Error(`No acknowledgement for ${message.type}`))
+    },
+  })
 
   /**
    * Initialize P2P service
@@ -42,6 +97,28 @@ class P2PService {
     this.callbacks = callbacks
   }
 
+  /**
+   * Listen to incoming messages without replacing the `init` callbacks.
+   * Returns an unsubscribe function.
+   */
+  addListener(listener: P2PMessageListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Only talk to the paired phone from now on: packets go out sealed, and
+   * anything not sealed by it is dropped. Cleared by `stop`.
+   */
+  setAuth(auth: P2PAuth | null): void {
+    this.auth = auth
+    this.peerEpoch = null
+    this.replayWindow.reset()
+    if (auth && this.peerAddress !== auth.peerAddress) this.disconnectPeer()
+  }
+
   /**
    * Start listening for incoming connections
    */
@@ -50,6 +127,10 @@ class P2PService {
       try {
         this.socket = dgram.createSocket({ type: 'udp4' })
         this.localPort = port
+        this.epoch = createEpoch()
+        this.packetSequence = 0
+        this.peerEpoch = null
+        this.replayWindow.reset()
 
         this.socket.on('message', (data, rinfo) => {
           this.handleIncomingData(data, rinfo)
@@ -64,6 +145,7 @@ class P2PService {
         })
 
         this.socket.bind(port, () => {
+          this.startReliableTimer()
           resolve(port)
         })
       } catch (error) {
@@ -76,6 +158,7 @@ class P2PService {
    * Connect to a peer
    */
   connectToPeer(address: string, port: number = DEFAULT_PORT): void {
+    if (this.auth && address !== this.auth.peerAddress) return
     this.peerAddress = address
     this.peerPort = port
     
@@ -89,7 +172,16 @@ class P2PService {
   }
 
   /**
-   * Send a message to connected peer
+   * Forget the current peer but keep listening - used to try another address
+   */
+  disconnectPeer(): void {
+    this.stopPingInterval()
+    this.peerAddress = null
+  }
+
+  /**
+   * Send a message to connected peer. Control messages are retransmitted
+   * until acked; the rest may be lost.
    */
   sendMessage<T>(type: P2PMessageType, payload: T): void {
     if (!this.socket || !this.peerAddress) return
@@ -99,28 +191,78 @@ class P2PService {
       payload,
       timestamp: Date.now(),
       sequence: this.sequenceNumber++,
+      epoch: this.epoch,
+    }
+
+    if (RELIABLE_TYPES.includes(type)) {
+      this.channel.send(message)
+      return
     }
 
     const data = JSON.stringify(message)
-    const buffer = Buffer.from(data, 'utf8')
 
     // Check if we need to chunk the message
-    if (buffer.length > CHUNK_SIZE && type === 'frame') {
+    if (Buffer.byteLength(data, 'utf8') > CHUNK_SIZE && type === 'frame') {
       this.sendChunkedMessage(message)
     } else {
-      this.socket.send(
-        buffer,
-        0,
-        buffer.length,
-        this.peerPort,
-        this.peerAddress,
-        (error) => {
-          if (error) {
-            this.callbacks?.onError(new Error(`Send failed: ${error}`))
-          }
+      this.sendData(data, this.peerAddress, this.peerPort)
+    }
+  }
+
+  /**
+   * Send a small message to an address other than the peer (e.g. a pairing reply)
+   */
+  sendMessageTo<T>(address: string, port: number, type: P2PMessageType, payload: T): void {
+    if (!this.socket) return
+
+    const message: P2PMessage<T> = {
+      type,
+      payload,
+      timestamp: Date.now(),
+      sequence: this.sequenceNumber++,
+      epoch: this.epoch,
+    }
+    this.sendData(JSON.stringify(message), address, port)
+  }
+
+  /** Put a JSON packet on the wire - sealed when paired */
+  private sendData(data: string, address: string, port: number, reportErrors = true): void {
+    const packet = this.auth ? JSON.stringify(sealPacket(data, this.sealHeader(this.auth), this.auth.key)) : data
+    const buffer = Buffer.from(packet, 'utf8')
+    this.socket?.send(
+      buffer,
+      0,
+      buffer.length,
+      port,
+      address,
+      (error) => {
+        if (error && reportErrors) {
+          this.callbacks?.onError(new Error(`Send failed: ${error}`))
         }
-      )
+      }
+    )
+  }
+
+  private sealHeader(auth: P2PAuth): SealHeader {
+    return { from: auth.deviceId, epoch: this.epoch, to: this.peerEpoch ?? '', seq: this.packetSequence++ }
+  }
+
+  /**
+   * Put a reliable-channel packet on the wire: data as the message itself with
+   * a `reliable` header, acks as 'ack' messages
+   */
+  private transmitReliable(packet: ReliablePacket<P2PMessage>): void {
+    if (!this.peerAddress) return
+
+    if (packet.kind === 'ack') {
+      const ack: P2PAck = { epoch: packet.epoch, ack: packet.ack, sack: packet.sack }
+      this.sendMessage('ack', ack)
+      return
     }
+
+    const { epoch, seq, first, message } = packet
+    const data = JSON.stringify({ ...message, reliable: { epoch, seq, first } })
+    this.sendData(data, this.peerAddress, this.peerPort)
   }
 
   /**
@@ -140,21 +282,14 @@ class P2PService {
       const chunkMessage = {
         type: 'frame_chunk' as const,
         messageId,
+        epoch: message.epoch,
+        sequence: message.sequence,
         chunkIndex: index,
         totalChunks: chunks.length,
         data: chunk,
       }
 
-      const buffer = Buffer.from(JSON.stringify(chunkMessage), 'utf8')
-      
-      this.socket?.send(
-        buffer,
-        0,
-        buffer.length,
-        this.peerPort,
-        this.peerAddress!,
-        () => {}
-      )
+      this.sendData(JSON.stringify(chunkMessage), this.peerAddress!, this.peerPort, false)
     })
   }
 
@@ -163,28 +298,29 @@ class P2PService {
    */
   private handleIncomingData(data: Buffer, rinfo: { address: string; port: number }): void {
     try {
-      const str = data.toString('utf8')
+      const str = this.auth ? this.openFromPeer(data, rinfo) : data.toString('utf8')
+      if (str === null) return
       const parsed = JSON.parse(str)
 
       // Handle chunked messages
       if (parsed.type === 'frame_chunk') {
-        this.handleChunk(parsed)
+        this.handleChunk(parsed, rinfo)
         return
       }
 
       // Handle regular messages
       const message = parsed as P2PMessage
       
+      // Unpaired, whoever reaches us first becomes the peer - paired, only the partner gets here
+      if (!this.peerAddress && message.type !== 'disconnect') {
+        this.peerAddress = rinfo.address
+        this.peerPort = rinfo.port
+        this.callbacks?.onConnected()
+      }
+
       // Auto-respond to pings
       if (message.type === 'ping') {
         this.sendMessage('pong', { originalTimestamp: message.timestamp })
-        
-        // Set peer address if not set
-        if (!this.peerAddress) {
-          this.peerAddress = rinfo.address
-          this.peerPort = rinfo.port
-          this.callbacks?.onConnected()
-        }
       }
 
       // Track pong for latency
@@ -192,28 +328,89 @@ class P2PService {
         this.lastPongTime = Date.now()
       }
 
-      this.callbacks?.onMessage(message)
+      if (message.type === 'ack') {
+        this.channel.receive({ kind: 'ack', ...(message.payload as P2PAck) })
+        return
+      }
+
+      // The channel acks it and emits it once everything sent before it has arrived
+      if (message.reliable) {
+        const { reliable, ...rest } = message
+        this.channel.receive({ kind: 'data', ...reliable, message: rest })
+        return
+      }
+
+      if (message.type === 'frame' && !this.frameFilter.accept(message.epoch ?? '', message.sequence)) {
+        return
+      }
+
+      this.emit(message, rinfo)
     } catch {
       // Ignore malformed packets
     }
   }
 
+  /**
+   * The body of a fresh packet the paired phone sealed, sent from where it
+   * paired - null for anything else
+   */
+  private openFromPeer(data: Buffer, rinfo: { address: string; port: number }): string | null {
+    const auth = this.auth!
+    if (rinfo.address !== auth.peerAddress) return null
+    const packet = openPacket(JSON.parse(data.toString('utf8')), auth.peerDeviceId, auth.key)
+    if (!packet || this.replayWindow.isClosed(packet.epoch)) return null
+
+    // Sealed before the partner knew this socket - it may be a recording. Only
+    // tell it our epoch; what it sends next names it and gets through.
+    if (packet.to !== this.epoch) {
+      this.peerEpoch = packet.epoch
+      this.sendHello(rinfo)
+      return null
+    }
+
+    if (!this.replayWindow.accept(packet.epoch, packet.seq)) return null
+    this.peerEpoch = packet.epoch
+    return packet.body
+  }
+
+  /** A ping sealed with both epochs, so the partner's next packets get through */
+  private sendHello(to: { address: string; port: number }): void {
+    const now = Date.now()
+    if (now - this.lastHelloAt < HELLO_INTERVAL_MS) return
+    this.lastHelloAt = now
+    this.sendMessageTo(to.address, to.port, 'ping', { timestamp: now })
+  }
+
+  private emit(message: P2PMessage, from: { address: string; port: number }): void {
+    this.callbacks?.onMessage(message)
+    this.listeners.forEach(listener => listener(message, from))
+  }
+
   /**
    * Handle incoming chunk
    */
   private handleChunk(chunk: {
     messageId: string
+    epoch?: string
+    sequence?: number
     chunkIndex: number
     totalChunks: number
     data: string
-  }): void {
+  }, from: { address: string; port: number }): void {
     const { messageId, chunkIndex, totalChunks, data } = chunk
+    const epoch = chunk.epoch ?? ''
+    const sequence = chunk.sequence ?? parseInt(messageId.split('-')[0])
+
+    // A newer frame has already been shown - no point reassembling this one
+    if (this.frameFilter.isLate(epoch, sequence)) return
 
     if (!this.pendingChunks[messageId]) {
       this.pendingChunks[messageId] = {
         chunks: new Map(),
         total: totalChunks,
         timestamp: Date.now(),
+        epoch,
+        sequence,
       }
     }
 
@@ -233,11 +430,22 @@ class P2PService {
         type: 'frame',
         payload,
         timestamp: this.pendingChunks[messageId].timestamp,
-        sequence: parseInt(messageId.split('-')[0]),
+        sequence,
+        epoch,
       }
 
       delete this.pendingChunks[messageId]
-      this.callbacks?.onMessage(message)
+      this.frameFilter.accept(epoch, sequence)
+
+      // Older frames still being reassembled would only be dropped as late
+      for (const pendingId of Object.keys(this.pendingChunks)) {
+        const pending = this.pendingChunks[pendingId]
+        if (pending.epoch === epoch && pending.sequence < sequence) {
+          delete this.pendingChunks[pendingId]
+        }
+      }
+
+      this.emit(message, from)
     }
 
     // Clean up old pending chunks
@@ -262,19 +470,42 @@ class P2PService {
    * Start ping interval for keep-alive
    */
   private startPingInterval(): void {
+    this.stopPingInterval()
     this.pingInterval = setInterval(() => {
       this.sendMessage('ping', { timestamp: Date.now() })
     }, 2000)
   }
 
-  /**
-   * Stop the service
-   */
-  stop(): void {
+  private stopPingInterval(): void {
     if (this.pingInterval) {
       clearInterval(this.pingInterval)
       this.pingInterval = null
     }
+  }
+
+  /**
+   * Drive reliable-channel retransmissions while the socket is open
+   */
+  private startReliableTimer(): void {
+    this.stopReliableTimer()
+    this.reliableTimer = setInterval(() => {
+      this.channel.tick()
+    }, RELIABLE_TICK_MS)
+  }
+
+  private stopReliableTimer(): void {
+    if (this.reliableTimer) {
+      clearInterval(this.reliableTimer)
+      this.reliableTimer = null
+    }
+  }
+
+  /**
+   * Stop the service
+   */
+  stop(): void {
+    this.stopPingInterval()
+    this.stopReliableTimer()
 
     if (this.peerAddress) {
       this.sendMessage('disconnect', {})
@@ -283,7 +514,13 @@ class P2PService {
     this.socket?.close()
     this.socket = null
     this.peerAddress = null
+    this.auth = null
+    this.peerEpoch = null
+    this.lastHelloAt = 0
+    this.replayWindow.reset()
     this.pendingChunks = {}
+    this.channel.reset()
+    this.frameFilter.reset()
   }
 
   /**
@@ -298,6 +535,10 @@ class P2PService {
     return this.socket !== null && this.peerAddress !== null
   }
 
+  get isListening(): boolean {
+    return this.socket !== null
+  }
+
   get port(): number {
     return this.localPort
   }
@@ -0,0 +1,140 @@
+/**
+ * Photo Delivery
+ *
+ * Pushes photos taken on the camera to the director. Each saved capture is
+ * uploaded through the `upload-photo` edge function, which fills in the
+ * capture's `cloud_url`. The director's gallery is subscribed to captures
+ * addressed to it, so it shows a pending tile as soon as the row exists and
+ * the image once the upload lands.
+ *
+ * Uploads run one at a time (the edge function is rate limited per device),
+ * with the best frame of a burst jumping the queue. A photo that can't be
+ * delivered is marked `failed`, so the director's tile stops showing as pending.
+ *
+ * A capture saved offline waits for its row to come out of the sync queue -
+ * the upload and the failed mark both need it on the server.
+ */
+
+import { capturesApi } from './api'
+import { cloudApi } from './cloudApi'
+import { sessionLogger } from './sessionLogger'
+import { syncQueue } from './syncQueue'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface PhotoDeliveryJob {
+  captureId: string
+  deviceId: string
+  /** Local file URI of the photo (not the media library asset URI) */
+  uri: string
+  /** Deliver ahead of queued frames - used for single shots and a burst's best frame */
+  priority?: boolean
+}
+
+const MAX_ATTEMPTS = 3
+const RETRY_DELAY_MS = 2000
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Delivery Queue
+// ─────────────────────────────────────────────────────────────────────────────────
+
+class PhotoDeliveryQueue {
+  private queue: PhotoDeliveryJob[] = []
+  private isRunning = false
+
+  enqueue(job: PhotoDeliveryJob) {
+    if (job.priority) {
+      this.queue.unshift(job)
+    } else {
+      this.queue.push(job)
+    }
+    sessionLogger.info('photo_delivery_queued', {
+      captureId: job.captureId.substring(0, 8),
+      priority: !!job.priority,
+      queueLength: this.queue.length,
+    })
+    void this.run()
+  }
+
+  get pending(): number {
+    return this.queue.length
+  }
+
+  private async run() {
+    if (this.isRunning) return
+    this.isRunning = true
+
+    try {
+      while (this.queue.length > 0) {
+        const job = this.queue.shift()!
+        // eslint-disable-next-line no-await-in-loop
+        await this.deliver(job)
+      }
+    } finally {
+      this.isRunning = false
+    }
+  }
+
+  private async deliver(job: PhotoDeliveryJob) {
+    if (!(await syncQueue.waitForSync('captures', [job.captureId]))) {
+      // Parked in pending_sync - there is no row to deliver to
+      sessionLogger.warn('photo_delivery_row_not_synced', { captureId: job.captureId.substring(0, 8) })
+      return
+    }
+
+    const start = Date.now()
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      // eslint-disable-next-line no-await-in-loop
+      const imageBase64 = await cloudApi.photo.uriToBase64(job.uri)
+      if (!imageBase64) {
+        sessionLogger.warn('photo_delivery_read_failed', { captureId: job.captureId.substring(0, 8) })
+        // eslint-disable-next-line no-await-in-loop
+        await this.markFailed(job)
+        return
+      }
+
+      // eslint-disable-next-line no-await-in-loop
+      const result = await cloudApi.photo.upload({
+        captureId: job.captureId,
+        deviceId: job.deviceId,
+        imageBase64,
+        mimeType: 'image/jpeg',
+      })
+
+      if (result.success) {
+        sessionLogger.logPerformance('photo_delivery', Date.now() - start, true, {
+          captureId: job.captureId.substring(0, 8),
+          attempt,
+        })
+        return
+      }
+
+      sessionLogger.warn('photo_delivery_attempt_failed', {
+        captureId: job.captureId.substring(0, 8),
+        attempt,
+        error: result.error,
+      })
+      if (attempt < MAX_ATTEMPTS) {
+        // eslint-disable-next-line no-await-in-loop
+        await new Promise<void>((resolve) => setTimeout(resolve, RETRY_DELAY_MS * attempt))
+      }
+    }
+
+    sessionLogger.logPerformance('photo_delivery', Date.now() - start, false, {
+      captureId: job.captureId.substring(0, 8),
+    })
+    await this.markFailed(job)
+  }
+
+  private async markFailed(job: PhotoDeliveryJob) {
+    const { error } = await capturesApi.markDeliveryFailed(job.captureId)
+    if (error) {
+      sessionLogger.warn('photo_delivery_mark_failed_error', { captureId: job.captureId.substring(0, 8), error })
+    }
+  }
+}
+
+export const photoDelivery = new PhotoDeliveryQueue()
@@ -8,24 +8,45 @@
 import { supabase } from './supabase'
 import { RealtimeChannel } from '@supabase/supabase-js'
 import { logger } from './logging'
+import type { Direction, CaptureMode } from '../schemas/commands'
+import type { CaptureRequest, CaptureResponse } from '../types'
+
+export type { Direction } from '../schemas/commands'
 
 // ─────────────────────────────────────────────────────────────────────────────────
 // Types
 // ─────────────────────────────────────────────────────────────────────────────────
 
-export type Direction = 'up' | 'down' | 'left' | 'right' | 'closer' | 'back'
-
 export interface DirectionCommand {
   direction: Direction
+  /** 0-1, see DEFAULT_DIRECTION_MAGNITUDE; absent from older senders */
+  magnitude?: number
   senderDeviceId: string
   timestamp: string
   sessionId?: string
+  /** Same id as the WebRTC copy of this command, used to de-duplicate */
+  commandId?: string
+}
+
+export interface CaptureOptions {
+  mode?: CaptureMode
+  frames?: number
+  intervalMs?: number
+}
+
+export interface CaptureRequestCommand extends CaptureRequest, CaptureOptions {
+  senderDeviceId: string
+  timestamp: string
 }
 
 export interface RealtimeCommandsConfig {
   sessionId: string
   role: 'camera' | 'viewer'
   onCommand?: (command: DirectionCommand) => void
+  /** Camera: director asked for a photo */
+  onCaptureRequest?: (request: CaptureRequestCommand) => void
+  /** Director: result of an earlier capture request */
+  onCaptureResponse?: (response: CaptureResponse) => void
   onConnectionStatus?: (status: 'connected' | 'disconnected' | 'error') => void
 }
 
@@ -77,14 +98,19 @@ class RealtimeCommandsManager {
       (payload) => {
         const command: DirectionCommand = {
           direction: payload.payload.direction,
+          // Range is checked by the camera's command validation
+          magnitude: typeof payload.payload.magnitude === 'number' ? payload.payload.magnitude : undefined,
           senderDeviceId: payload.payload.senderDeviceId,
           timestamp: payload.payload.timestamp || new Date().toISOString(),
           sessionId: config.sessionId,
+          commandId: typeof payload.payload.commandId === 'string' ? payload.payload.commandId : undefined,
         }
         
         logger.debug('realtime_command_received', { 
           direction: command.direction,
-          from: command.senderDeviceId 
+          magnitude: command.magnitude,
+          from: command.senderDeviceId,
+          commandId: command.commandId,
         })
         
         config.onCommand?.(command)
@@ -96,8 +122,53 @@ class RealtimeCommandsManager {
       'broadcast',
       { event: 'capture_photo' },
       (payload) => {
-        logger.debug('realtime_capture_received', { payload: payload.payload })
-        // Handle capture command - can be extended
+        const requestId = payload.payload?.requestId
+        if (typeof requestId !== 'string' || !requestId) {
+          logger.warn('realtime_capture_invalid', { payload: payload.payload })
+          return
+        }
+
+        // Capture options are validated by the camera's command dispatcher
+        const request: CaptureRequestCommand = {
+          requestId,
+          senderDeviceId: payload.payload.senderDeviceId,
+          timestamp: payload.payload.timestamp || new Date().toISOString(),
+          mode: payload.payload.mode,
+          frames: payload.payload.frames,
+          intervalMs: payload.payload.intervalMs,
+        }
+
+        logger.debug('realtime_capture_received', { requestId, from: request.senderDeviceId })
+        config.onCaptureRequest?.(request)
+      }
+    )
+
+    // Listen for capture results
+    this.channel.on(
+      'broadcast',
+      { event: 'capture_response' },
+      (payload) => {
+        const data = payload.payload ?? {}
+        if (typeof data.requestId !== 'string' || typeof data.success !== 'boolean') {
+          logger.warn('realtime_capture_response_invalid', { payload: data })
+          return
+        }
+
+        const response: CaptureResponse = {
+          requestId: data.requestId,
+          success: data.success,
+          savedPath: typeof data.savedPath === 'string' ? data.savedPath : undefined,
+          captureId: typeof data.captureId === 'string' ? data.captureId : undefined,
+          burstId: typeof data.burstId === 'string' ? data.burstId : undefined,
+          frameCount: typeof data.frameCount === 'number' ? data.frameCount : undefined,
+          error: typeof data.error === 'string' ? data.error : undefined,
+        }
+
+        logger.debug('realtime_capture_response_received', {
+          requestId: response.requestId,
+          success: response.success,
+        })
+        config.onCaptureResponse?.(response)
       }
     )
     
@@ -118,7 +189,12 @@ class RealtimeCommandsManager {
   /**
    * Send a direction command to the session
    */
-  async sendCommand(direction: Direction, senderDeviceId: string): Promise<boolean> {
+  async sendCommand(
+    direction: Direction,
+    senderDeviceId: string,
+    commandId?: string,
+    magnitude?: number
+  ): Promise<boolean> {
     if (!this.channel || !this.isSubscribed) {
       logger.warn('realtime_send_failed', { reason: 'not_subscribed' })
       return false
@@ -130,12 +206,14 @@ class RealtimeCommandsManager {
         event: 'direction_command',
         payload: {
           direction,
+          magnitude,
           senderDeviceId,
           timestamp: new Date().toISOString(),
+          commandId,
         },
       })
       
-      logger.debug('realtime_command_sent', { direction, result })
+      logger.debug('realtime_command_sent', { direction, magnitude, commandId, result })
       return result === 'ok'
     } catch (error) {
       logger.error('realtime_send_error', { error, direction })
@@ -146,7 +224,11 @@ class RealtimeCommandsManager {
   /**
    * Send a capture photo command
    */
-  async sendCaptureCommand(senderDeviceId: string): Promise<boolean> {
+  async sendCaptureCommand(
+    senderDeviceId: string,
+    requestId: string,
+    options: CaptureOptions = {}
+  ): Promise<boolean> {
     if (!this.channel || !this.isSubscribed) {
       return false
     }
@@ -156,6 +238,8 @@ class RealtimeCommandsManager {
         type: 'broadcast',
         event: 'capture_photo',
         payload: {
+          ...options,
+          requestId,
           senderDeviceId,
           timestamp: new Date().toISOString(),
         },
@@ -163,7 +247,35 @@ class RealtimeCommandsManager {
       
       return result === 'ok'
     } catch (error) {
-      logger.error('realtime_capture_send_error', { error })
+      logger.error('realtime_capture_send_error', { error, requestId })
+      return false
+    }
+  }
+
+  /**
+   * Report the result of a capture request back to the director
+   */
+  async sendCaptureResponse(response: CaptureResponse, senderDeviceId: string): Promise<boolean> {
+    if (!this.channel || !this.isSubscribed) {
+      logger.warn('realtime_capture_response_failed', { reason: 'not_subscribed', requestId: response.requestId })
+      return false
+    }
+
+    try {
+      const result = await this.channel.send({
+        type: 'broadcast',
+        event: 'capture_response',
+        payload: {
+          ...response,
+          senderDeviceId,
+          timestamp: new Date().toISOString(),
+        },
+      })
+
+      logger.debug('realtime_capture_response_sent', { requestId: response.requestId, result })
+      return result === 'ok'
+    } catch (error) {
+      logger.error('realtime_capture_response_error', { error, requestId: response.requestId })
       return false
     }
   }
@@ -213,15 +325,25 @@ export const realtimeCommands = new RealtimeCommandsManager()
 // React Hook Helper
 // ─────────────────────────────────────────────────────────────────────────────────
 
-import { useEffect, useCallback, useState } from 'react'
+import { useEffect, useCallback, useRef, useState } from 'react'
+
+interface UseRealtimeCommandsOptions {
+  onCaptureRequest?: (request: CaptureRequestCommand) => void
+  onCaptureResponse?: (response: CaptureResponse) => void
+}
 
 export function useRealtimeCommands(
   sessionId: string | undefined,
   role: 'camera' | 'viewer',
-  onCommand?: (command: DirectionCommand) => void
+  onCommand?: (command: DirectionCommand) => void,
+  options: UseRealtimeCommandsOptions = {}
 ) {
   const [isConnected, setIsConnected] = useState(false)
   const [lastCommand, setLastCommand] = useState<DirectionCommand | null>(null)
+
+  // Capture handlers change every render - read them through a ref so we don't resubscribe
+  const optionsRef = useRef(options)
+  optionsRef.current = options
   
   useEffect(() => {
     if (!sessionId) return
@@ -233,6 +355,12 @@ export function useRealtimeCommands(
         setLastCommand(cmd)
         onCommand?.(cmd)
       },
+      onCaptureRequest: (request) => {
+        optionsRef.current.onCaptureRequest?.(request)
+      },
+      onCaptureResponse: (response) => {
+        optionsRef.current.onCaptureResponse?.(response)
+      },
       onConnectionStatus: (status) => {
         setIsConnected(status === 'connected')
       },
@@ -243,12 +371,21 @@ export function useRealtimeCommands(
     }
   }, [sessionId, role, onCommand])
   
-  const sendDirection = useCallback(async (direction: Direction, deviceId: string) => {
-    return realtimeCommands.sendCommand(direction, deviceId)
+  const sendDirection = useCallback(async (
+    direction: Direction,
+    deviceId: string,
+    commandId?: string,
+    magnitude?: number
+  ) => {
+    return realtimeCommands.sendCommand(direction, deviceId, commandId, magnitude)
   }, [])
   
-  const sendCapture = useCallback(async (deviceId: string) => {
-    return realtimeCommands.sendCaptureCommand(deviceId)
+  const sendCapture = useCallback(async (deviceId: string, requestId: string, options?: CaptureOptions) => {
+    return realtimeCommands.sendCaptureCommand(deviceId, requestId, options)
+  }, [])
+
+  const sendCaptureResponse = useCallback(async (response: CaptureResponse, deviceId: string) => {
+    return realtimeCommands.sendCaptureResponse(response, deviceId)
   }, [])
   
   return {
@@ -256,6 +393,7 @@ export function useRealtimeCommands(
     lastCommand,
     sendDirection,
     sendCapture,
+    sendCaptureResponse,
   }
 }
 
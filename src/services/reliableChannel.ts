@@ -0,0 +1,362 @@
+/**
+ * Reliable Channel
+ *
+ * Delivery guarantees on top of an unreliable datagram transport (the LAN UDP
+ * socket). No I/O or timers of its own - the owner hands it a `transmit`
+ * function, feeds it incoming packets and calls `tick()` on an interval - so
+ * it can be driven by a simulated lossy socket in tests.
+ *
+ * Control messages (capture requests, commands...) go through `ReliableChannel`:
+ * - every message gets a sequence number and is delivered exactly once, in order
+ * - the receiver acks the highest in-order sequence plus a selective list of
+ *   what it holds beyond a gap, so only the missing messages are resent
+ * - unacked messages are retransmitted on an adaptive timeout (RFC 6298 style)
+ *   with exponential backoff, and given up on after `maxAttempts`
+ *
+ * Preview frames are the opposite: a late frame is worse than a missing one.
+ * `LatestFrameFilter` only lets through frames newer than the last one shown.
+ *
+ * Both sides stamp packets with an epoch (random per channel instance) so a
+ * peer that restarts, and begins counting from zero again, is recognised.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface ReliableDataPacket<T> {
+  kind: 'data'
+  epoch: string
+  seq: number
+  /** Oldest sequence the sender is still trying to deliver - anything below it was given up on */
+  first: number
+  message: T
+}
+
+export interface ReliableAckPacket {
+  kind: 'ack'
+  /** Epoch of the sender being acked */
+  epoch: string
+  /** Every sequence up to and including this one has arrived (-1 for none) */
+  ack: number
+  /** Sequences received beyond a gap */
+  sack: number[]
+}
+
+export type ReliablePacket<T> = ReliableDataPacket<T> | ReliableAckPacket
+
+export interface ReliableChannelOptions<T> {
+  /** Put a packet on the wire - it may be lost, duplicated or reordered */
+  transmit: (packet: ReliablePacket<T>) => void
+  /** Messages from the peer, each once and in the order they were sent */
+  deliver: (message: T) => void
+  /** A message was resent `maxAttempts` times without an ack */
+  onGiveUp?: (message: T) => void
+  now?: () => number
+  initialRtoMs?: number
+  minRtoMs?: number
+  maxRtoMs?: number
+  maxAttempts?: number
+  /** Out-of-order messages held while waiting for a gap to fill */
+  maxBuffered?: number
+}
+
+export interface ReliableChannelStats {
+  sent: number
+  retransmitted: number
+  delivered: number
+  duplicates: number
+  givenUp: number
+  /** Smoothed round-trip time, null until the first ack */
+  srttMs: number | null
+}
+
+interface OutgoingMessage<T> {
+  seq: number
+  message: T
+  firstSentAt: number
+  lastSentAt: number
+  attempts: number
+  rtoMs: number
+}
+
+const DEFAULT_INITIAL_RTO_MS = 300
+const DEFAULT_MIN_RTO_MS = 100
+const DEFAULT_MAX_RTO_MS = 2000
+const DEFAULT_MAX_ATTEMPTS = 10
+const DEFAULT_MAX_BUFFERED = 256
+/** Selective ack list is capped so an ack always fits in one datagram */
+const MAX_SACK_ENTRIES = 64
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function createEpoch(): string {
+  return Math.random().toString(36).slice(2, 10)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Reliable Channel
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export class ReliableChannel<T> {
+  private options: Required<Omit<ReliableChannelOptions<T>, 'onGiveUp'>> & Pick<ReliableChannelOptions<T>, 'onGiveUp'>
+
+  // Sending
+  private epoch = createEpoch()
+  private nextSeq = 0
+  private outgoing = new Map<number, OutgoingMessage<T>>()
+  private srtt: number | null = null
+  private rttvar = 0
+  private rto: number
+
+  // Receiving
+  private peerEpoch: string | null = null
+  private nextExpected = 0
+  private buffered = new Map<number, T>()
+
+  private stats: ReliableChannelStats = {
+    sent: 0,
+    retransmitted: 0,
+    delivered: 0,
+    duplicates: 0,
+    givenUp: 0,
+    srttMs: null,
+  }
+
+  constructor(options: ReliableChannelOptions<T>) {
+    this.options = {
+      now: Date.now,
+      initialRtoMs: DEFAULT_INITIAL_RTO_MS,
+      minRtoMs: DEFAULT_MIN_RTO_MS,
+      maxRtoMs: DEFAULT_MAX_RTO_MS,
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      maxBuffered: DEFAULT_MAX_BUFFERED,
+      ...options,
+    }
+    this.rto = this.options.initialRtoMs
+  }
+
+  /** Messages sent but not acked yet */
+  get inFlight(): number {
+    return this.outgoing.size
+  }
+
+  getStats(): ReliableChannelStats {
+    return { ...this.stats, srttMs: this.srtt === null ? null : Math.round(this.srtt) }
+  }
+
+  /**
+   * Send a message reliably. Returns its sequence number.
+   */
+  send(message: T): number {
+    const now = this.options.now()
+    const seq = this.nextSeq++
+    this.outgoing.set(seq, {
+      seq,
+      message,
+      firstSentAt: now,
+      lastSentAt: now,
+      attempts: 1,
+      rtoMs: this.rto,
+    })
+    this.stats.sent++
+    this.transmitData(seq, message)
+    return seq
+  }
+
+  /**
+   * Handle a packet from the peer
+   */
+  receive(packet: ReliablePacket<T>) {
+    if (packet.kind === 'ack') {
+      this.handleAck(packet)
+    } else {
+      this.handleData(packet)
+    }
+  }
+
+  /**
+   * Resend whatever has timed out and give up on what has run out of attempts.
+   * Call it every few tens of milliseconds while there is anything in flight.
+   */
+  tick() {
+    const now = this.options.now()
+    for (const entry of [...this.outgoing.values()]) {
+      if (now - entry.lastSentAt < entry.rtoMs) continue
+
+      if (entry.attempts >= this.options.maxAttempts) {
+        this.outgoing.delete(entry.seq)
+        this.stats.givenUp++
+        this.options.onGiveUp?.(entry.message)
+        continue
+      }
+      this.retransmit(entry, now)
+      // Back off - the link may be congested rather than lossy
+      entry.rtoMs = Math.min(entry.rtoMs * 2, this.options.maxRtoMs)
+    }
+  }
+
+  /**
+   * Forget everything in flight and start a new epoch, e.g. when the socket is closed
+   */
+  reset() {
+    this.epoch = createEpoch()
+    this.nextSeq = 0
+    this.outgoing.clear()
+    this.peerEpoch = null
+    this.nextExpected = 0
+    this.buffered.clear()
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Sending side
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private transmitData(seq: number, message: T) {
+    this.options.transmit({
+      kind: 'data',
+      epoch: this.epoch,
+      seq,
+      first: this.oldestOutstanding(),
+      message,
+    })
+  }
+
+  private retransmit(entry: OutgoingMessage<T>, now: number) {
+    entry.attempts++
+    entry.lastSentAt = now
+    this.stats.retransmitted++
+    this.transmitData(entry.seq, entry.message)
+  }
+
+  private oldestOutstanding(): number {
+    let oldest = this.nextSeq
+    for (const seq of this.outgoing.keys()) {
+      if (seq < oldest) oldest = seq
+    }
+    return oldest
+  }
+
+  private handleAck(packet: ReliableAckPacket) {
+    // An ack for a previous epoch (before a reset) says nothing about this one
+    if (packet.epoch !== this.epoch) return
+
+    const now = this.options.now()
+    const acked = new Set(packet.sack)
+    let highestSacked = -1
+    for (const seq of packet.sack) highestSacked = Math.max(highestSacked, seq)
+
+    for (const entry of [...this.outgoing.values()]) {
+      if (entry.seq <= packet.ack || acked.has(entry.seq)) {
+        // Karn's rule: only messages sent once give an unambiguous round-trip sample
+        if (entry.attempts === 1) this.sampleRtt(now - entry.firstSentAt)
+        this.outgoing.delete(entry.seq)
+      }
+    }
+
+    // Fast retransmit: the peer has later messages, so anything before them that
+    // hasn't been resent for a round trip is most likely lost
+    const roundTrip = this.srtt ?? this.rto
+    for (const entry of this.outgoing.values()) {
+      if (entry.seq < highestSacked && now - entry.lastSentAt >= roundTrip) {
+        this.retransmit(entry, now)
+      }
+    }
+  }
+
+  private sampleRtt(sample: number) {
+    if (this.srtt === null) {
+      this.srtt = sample
+      this.rttvar = sample / 2
+    } else {
+      this.rttvar = 0.75 * this.rttvar + 0.25 * Math.abs(this.srtt - sample)
+      this.srtt = 0.875 * this.srtt + 0.125 * sample
+    }
+    this.rto = Math.min(
+      Math.max(this.srtt + 4 * this.rttvar, this.options.minRtoMs),
+      this.options.maxRtoMs
+    )
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Receiving side
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  private handleData(packet: ReliableDataPacket<T>) {
+    if (packet.epoch !== this.peerEpoch) {
+      // Peer restarted (or this is the first we hear of it) - start from what it still holds
+      this.peerEpoch = packet.epoch
+      this.nextExpected = packet.first
+      this.buffered.clear()
+    } else if (packet.first > this.nextExpected) {
+      // Peer gave up on some messages - stop waiting for them
+      for (const seq of this.buffered.keys()) {
+        if (seq < packet.first) this.buffered.delete(seq)
+      }
+      this.nextExpected = packet.first
+    }
+
+    if (packet.seq < this.nextExpected || this.buffered.has(packet.seq)) {
+      this.stats.duplicates++
+    } else if (this.buffered.size < this.options.maxBuffered) {
+      this.buffered.set(packet.seq, packet.message)
+    }
+
+    this.deliverInOrder()
+    this.sendAck()
+  }
+
+  private deliverInOrder() {
+    while (this.buffered.has(this.nextExpected)) {
+      const message = this.buffered.get(this.nextExpected) as T
+      this.buffered.delete(this.nextExpected)
+      this.nextExpected++
+      this.stats.delivered++
+      this.options.deliver(message)
+    }
+  }
+
+  private sendAck() {
+    if (this.peerEpoch === null) return
+    const sack = [...this.buffered.keys()].sort((a, b) => a - b).slice(0, MAX_SACK_ENTRIES)
+    this.options.transmit({
+      kind: 'ack',
+      epoch: this.peerEpoch,
+      ack: this.nextExpected - 1,
+      sack,
+    })
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Latest Frame Filter
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Drop-late semantics for preview frames: a frame is only shown if it is newer
+ * than the last one shown from the same sender epoch.
+ */
+export class LatestFrameFilter {
+  private epoch: string | null = null
+  private lastSeq = -1
+
+  /** Whether a frame is already too old to show - checked before reassembling it */
+  isLate(epoch: string, seq: number): boolean {
+    return epoch === this.epoch && seq <= this.lastSeq
+  }
+
+  /** Record a frame as shown. Returns false (drop it) if a newer one already was. */
+  accept(epoch: string, seq: number): boolean {
+    if (this.isLate(epoch, seq)) return false
+    this.epoch = epoch
+    this.lastSeq = seq
+    return true
+  }
+
+  reset() {
+    this.epoch = null
+    this.lastSeq = -1
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * SDP helpers
+ *
+ * Pure string manipulation of session descriptions - no WebRTC imports, so
+ * it runs (and is tested) outside the app.
+ *
+ * Codec preference works by reordering the payload types on each video
+ * m-line: the first codec both sides support is the one that gets used.
+ * Retransmission (rtx) payloads move with the codec they protect, and
+ * everything else - other codecs, red / ulpfec / flexfec - keeps its order.
+ *
+ * Also bandwidth lines (b=AS / b=TIAS) on video sections, and parsing and
+ * filtering ICE candidates.
+ */
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export const VIDEO_CODECS = ['vp8', 'vp9', 'h264_baseline', 'h264_high'] as const
+
+export type VideoCodec = typeof VIDEO_CODECS[number]
+
+/** A codec, or let the app pick one from what both phones support */
+export type CodecPolicy = VideoCodec | 'auto'
+
+export const CODEC_POLICIES: readonly CodecPolicy[] = ['auto', ...VIDEO_CODECS]
+
+/** One payload type of an m-line, with its rtpmap and fmtp attributes */
+export interface SdpCodec {
+  payload: string
+  /** Encoding name as written in the rtpmap, e.g. VP8, H264, rtx */
+  name: string
+  clockRate: number
+  fmtp: Record<string, string>
+}
+
+/**
+ * What 'auto' picks when nothing is remembered for the partner. VP8 first:
+ * not every Android phone has a hardware H.264 encoder, and VP8 always has a
+ * software one.
+ */
+const AUTO_ORDER: readonly VideoCodec[] = ['vp8', 'h264_baseline', 'vp9', 'h264_high']
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Parsing
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export function isVideoCodec(value: unknown): value is VideoCodec {
+  return typeof value === 'string' && (VIDEO_CODECS as readonly string[]).includes(value)
+}
+
+/**
+ * Split an SDP into its session part and one block per m-line.
+ * Joining every block with the returned line break gives back the input.
+ */
+export function splitSections(sdp: string): { lineBreak: string; sections: string[][] } {
+  const lineBreak = sdp.includes('\r\n') ? '\r\n' : '\n'
+  const sections: string[][] = [[]]
+  for (const line of sdp.split(lineBreak)) {
+    if (line.startsWith('m=')) sections.push([])
+    sections[sections.length - 1].push(line)
+  }
+  return { lineBreak, sections }
+}
+
+function joinSections(lineBreak: string, sections: string[][]): string {
+  return sections.map(section => section.join(lineBreak)).join(lineBreak)
+}
+
+/** "profile-level-id=42e01f;packetization-mode=1" → { 'profile-level-id': '42e01f', ... } */
+export function parseFmtp(params: string): Record<string, string> {
+  const fmtp: Record<string, string> = {}
+  for (const param of params.split(';')) {
+    const [key, ...value] = param.trim().split('=')
+    if (key) fmtp[key.toLowerCase()] = value.join('=')
+  }
+  return fmtp
+}
+
+/**
+ * The codecs of one media section, in the m-line's order
+ */
+export function parseCodecs(section: string[]): SdpCodec[] {
+  const payloads = section[0]?.split(' ').slice(3) ?? []
+  const rtpmaps = new Map<string, { name: string; clockRate: number }>()
+  const fmtps = new Map<string, Record<string, string>>()
+
+  for (const line of section) {
+    const rtpmap = line.match(/^a=rtpmap:(\d+) ([^/\s]+)\/(\d+)/)
+    if (rtpmap) {
+      rtpmaps.set(rtpmap[1], { name: rtpmap[2], clockRate: Number(rtpmap[3]) })
+      continue
+    }
+    const fmtp = line.match(/^a=fmtp:(\d+) (.*)$/)
+    if (fmtp) fmtps.set(fmtp[1], parseFmtp(fmtp[2]))
+  }
+
+  return payloads.map(payload => ({
+    payload,
+    name: rtpmaps.get(payload)?.name ?? '',
+    clockRate: rtpmaps.get(payload)?.clockRate ?? 0,
+    fmtp: fmtps.get(payload) ?? {},
+  }))
+}
+
+/**
+ * Which of our codec choices an encoding is. H.264 is split by profile:
+ * profile_idc 0x42 is (constrained) baseline, 0x64 is high; main and the
+ * rest aren't offered as a choice. No profile-level-id means baseline (RFC 6184).
+ */
+export function videoCodecOf(name: string, fmtp: Record<string, string> = {}): VideoCodec | null {
+  switch (name.toUpperCase()) {
+    case 'VP8':
+      return 'vp8'
+    case 'VP9':
+      return 'vp9'
+    case 'H264': {
+      const profile = (fmtp['profile-level-id'] ?? '42').substring(0, 2).toLowerCase()
+      if (profile === '42') return 'h264_baseline'
+      if (profile === '64') return 'h264_high'
+      return null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Codec choices from `RTCRtpSender.getCapabilities('video').codecs`
+ * (mimeType "video/H264", sdpFmtpLine "profile-level-id=...")
+ */
+export function videoCodecsFromCapabilities(codecs: { mimeType: string; sdpFmtpLine?: string }[]): VideoCodec[] {
+  const found = new Set<VideoCodec>()
+  for (const codec of codecs) {
+    const kind = videoCodecOf(codec.mimeType.replace(/^video\//i, ''), parseFmtp(codec.sdpFmtpLine ?? ''))
+    if (kind) found.add(kind)
+  }
+  return VIDEO_CODECS.filter(codec => found.has(codec))
+}
+
+/**
+ * Codec choices offered on any video m-line, in the SDP's preference order
+ */
+export function listVideoCodecs(sdp: string): VideoCodec[] {
+  const found: VideoCodec[] = []
+  for (const section of splitSections(sdp).sections) {
+    if (!section[0]?.startsWith('m=video')) continue
+    for (const codec of parseCodecs(section)) {
+      const kind = videoCodecOf(codec.name, codec.fmtp)
+      if (kind && !found.includes(kind)) found.push(kind)
+    }
+  }
+  return found
+}
+
+/**
+ * "<sess-id> <sess-version>" from the o= line. A peer connection keeps its id
+ * and bumps the version on every new offer, so the same origin twice means
+ * the same offer delivered twice.
+ */
+export function sessionOrigin(sdp: string): string | null {
+  const match = sdp.match(/^o=\S+ (\S+) (\d+) /m)
+  return match ? `${match[1]} ${match[2]}` : null
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Munging
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Payload order for a video section with `codec` first - every payload of it
+ * (e.g. H.264 in two packetization modes), each followed by its rtx.
+ * Null if the section doesn't have the codec.
+ */
+function preferredPayloadOrder(codecs: SdpCodec[], codec: VideoCodec): string[] | null {
+  const primaries = codecs
+    .filter(entry => videoCodecOf(entry.name, entry.fmtp) === codec)
+    .map(entry => entry.payload)
+  if (primaries.length === 0) return null
+
+  const preferred: string[] = []
+  for (const payload of primaries) {
+    preferred.push(payload)
+    for (const entry of codecs) {
+      if (entry.name.toLowerCase() === 'rtx' && entry.fmtp.apt === payload) preferred.push(entry.payload)
+    }
+  }
+
+  return [...preferred, ...codecs.map(entry => entry.payload).filter(payload => !preferred.includes(payload))]
+}
+
+/**
+ * Put `codec` first on every video m-line that has it. Sections without it,
+ * and audio / data sections, are left exactly as they were.
+ */
+export function preferVideoCodec(sdp: string, codec: VideoCodec): string {
+  const { lineBreak, sections } = splitSections(sdp)
+
+  for (const section of sections) {
+    if (!section[0]?.startsWith('m=video')) continue
+    const order = preferredPayloadOrder(parseCodecs(section), codec)
+    if (!order) continue
+    const [media, port, proto] = section[0].split(' ')
+    section[0] = [media, port, proto, ...order].join(' ')
+  }
+
+  return joinSections(lineBreak, sections)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Policy
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * The codec to put first.
+ * - An explicit policy wins if both phones support it
+ * - Otherwise the codec that last worked with this partner, if still supported
+ * - Otherwise the first of AUTO_ORDER both phones support
+ */
+export function resolveVideoCodec(
+  policy: CodecPolicy,
+  options: {
+    /** What this phone can encode / decode */
+    local: VideoCodec[]
+    /** What the partner offered - unknown when we're the one offering */
+    remote?: VideoCodec[]
+    remembered?: VideoCodec | null
+  }
+): VideoCodec {
+  const { local, remote, remembered } = options
+  const usable = remote ? local.filter(codec => remote.includes(codec)) : local
+
+  if (policy !== 'auto' && usable.includes(policy)) return policy
+  if (remembered && usable.includes(remembered)) return remembered
+  return AUTO_ORDER.find(codec => usable.includes(codec)) ?? 'vp8'
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Bandwidth
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Cap what the other side may send us on every video m-line: b=AS (kbps,
+ * what libwebrtc reads) and b=TIAS (bps, RFC 3890). Existing bandwidth lines
+ * are replaced; null just removes them.
+ */
+export function setVideoBandwidth(sdp: string, bitrateBps: number | null): string {
+  const { lineBreak, sections } = splitSections(sdp)
+
+  const munged = sections.map(section => {
+    if (!section[0]?.startsWith('m=video')) return section
+    const lines = section.filter(line => !line.startsWith('b=AS:') && !line.startsWith('b=TIAS:'))
+    if (bitrateBps === null) return lines
+
+    // b= lines come after the media section's c= line (RFC 4566 order)
+    const connection = lines.findIndex(line => line.startsWith('c='))
+    lines.splice(connection === -1 ? 1 : connection + 1, 0,
+      `b=AS:${Math.round(bitrateBps / 1000)}`,
+      `b=TIAS:${Math.round(bitrateBps)}`
+    )
+    return lines
+  })
+
+  return joinSections(lineBreak, munged)
+}
+
+/** The b=AS cap of the first video m-line, in bps - null if there is none */
+export function getVideoBandwidth(sdp: string): number | null {
+  for (const section of splitSections(sdp).sections) {
+    if (!section[0]?.startsWith('m=video')) continue
+    const line = section.find(entry => entry.startsWith('b=AS:'))
+    return line ? Number(line.substring(5)) * 1000 : null
+  }
+  return null
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Candidates
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay'
+
+export interface IceCandidateInfo {
+  foundation: string
+  component: number
+  /** Lower case - 'udp' or 'tcp' */
+  protocol: string
+  priority: number
+  /** IP address, or an mDNS name ending in .local for obfuscated host candidates */
+  address: string
+  port: number
+  type: CandidateType
+}
+
+/**
+ * Parse an ICE candidate - "candidate:..." as in RTCIceCandidate.candidate,
+ * or "a=candidate:..." as in an SDP. Null if it isn't one.
+ */
+export function parseCandidate(candidate: string): IceCandidateInfo | null {
+  const match = candidate.trim().match(/^(?:a=)?candidate:(\S+) (\d+) (\S+) (\d+) (\S+) (\d+) typ (host|srflx|prflx|relay)\b/i)
+  if (!match) return null
+  return {
+    foundation: match[1],
+    component: Number(match[2]),
+    protocol: match[3].toLowerCase(),
+    priority: Number(match[4]),
+    address: match[5],
+    port: Number(match[6]),
+    type: match[7].toLowerCase() as CandidateType,
+  }
+}
+
+/**
+ * Drop the a=candidate lines `keep` rejects, e.g. everything but relay
+ * candidates. Lines that don't parse are kept.
+ */
+export function filterCandidates(sdp: string, keep: (candidate: IceCandidateInfo) => boolean): string {
+  const { lineBreak, sections } = splitSections(sdp)
+
+  const filtered = sections.map(section => section.filter(line => {
+    if (!line.startsWith('a=candidate:')) return true
+    const candidate = parseCandidate(line)
+    return !candidate || keep(candidate)
+  }))
+
+  return joinSections(lineBreak, filtered)
+}
@@ -198,14 +198,15 @@ class SessionLogger {
   }
 
   /**
-   * Log command sent/received
+   * Log command sent/received, and its delivery outcome on the sender side
    */
   logCommand(
-    direction: 'sent' | 'received',
+    direction: 'sent' | 'received' | 'acked' | 'unacked',
     command: string,
     data?: Record<string, unknown>
   ) {
-    this.info(`command_${direction}`, { command, ...data })
+    const level = direction === 'unacked' ? 'warn' : 'info'
+    this.log(level, `command_${direction}`, { command, ...data })
   }
 
   /**
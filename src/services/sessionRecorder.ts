@@ -0,0 +1,334 @@
+/**
+ * Session Recorder
+ *
+ * The camera keeps a timeline of the session while it runs - commands from
+ * the director, captures, disconnects and connection quality samples - and
+ * writes it to `session_recordings` when the session ends. The replay screen
+ * reads it back so a couple can scrub through what was directed and when.
+ *
+ * The timeline is also kept in AsyncStorage as it grows, so a session cut
+ * short by the app being killed is saved on the next launch (`restore`).
+ * Recordings are written through the sync queue, so one that ends offline
+ * is saved once the phone is back online.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import uuid from 'react-native-uuid'
+import { sessionRecordingsApi } from './api'
+import { sessionLogger } from './sessionLogger'
+import type { SessionRecording } from './supabase'
+import type { Direction, RemoteCommand } from '../schemas/commands'
+import type { QualitySample, SessionTimelineEvent } from '../types'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface SessionRecordingStart {
+  sessionId: string
+  cameraDeviceId: string
+  viewerDeviceId?: string
+}
+
+/** Everything recorded so far for one session - what is kept in AsyncStorage */
+interface RecordingSnapshot {
+  /** Also the session_recordings row id, so a recording saved twice is written once */
+  id: string
+  session: SessionRecordingStart
+  startedAt: number
+  updatedAt: number
+  events: SessionTimelineEvent[]
+  directionCounts: Partial<Record<Direction, number>>
+  totalCommands: number
+  totalPhotos: number
+  disconnections: number
+  qualityScores: number[]
+}
+
+const STORAGE_PREFIX = 'sessionRecording:'
+
+/** How long changes gather before the running recording is written to storage */
+const PERSIST_DELAY_MS = 1000
+
+/** Timeline cap - quality samples are dropped first once it is reached */
+const MAX_EVENTS = 1000
+
+/** Commands that stream in while a control is dragged or held - not worth a timeline entry */
+const UNRECORDED_COMMANDS: readonly string[] = ['zoom', 'voice', 'stream_quality', 'ack', 'camera_state', 'unsupported']
+
+/** The original six directions have their own counter columns */
+const DIRECTION_COLUMNS = {
+  up: 'commands_up',
+  down: 'commands_down',
+  left: 'commands_left',
+  right: 'commands_right',
+  closer: 'commands_closer',
+  back: 'commands_back',
+} as const
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/** A command's own fields, flattened for the timeline (ids and nested objects left out) */
+function commandDetail(command: RemoteCommand): Record<string, string | number | boolean> {
+  const detail: Record<string, string | number | boolean> = {}
+  for (const [key, value] of Object.entries(command)) {
+    if (key === 'type' || key === 'id') continue
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      detail[key] = value
+    }
+  }
+  return detail
+}
+
+/** The session_recordings row for a snapshot, ended at `endedAt` */
+function toRecording(snapshot: RecordingSnapshot, endedAt: number): Omit<SessionRecording, 'created_at'> {
+  const counts = snapshot.directionCounts
+  const scores = snapshot.qualityScores
+  const avgQuality = scores.length > 0
+    ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10
+    : undefined
+
+  const recording: Omit<SessionRecording, 'created_at'> = {
+    id: snapshot.id,
+    session_id: snapshot.session.sessionId,
+    camera_device_id: snapshot.session.cameraDeviceId,
+    viewer_device_id: snapshot.session.viewerDeviceId,
+    duration_seconds: Math.round((endedAt - snapshot.startedAt) / 1000),
+    total_photos: snapshot.totalPhotos,
+    total_commands: snapshot.totalCommands,
+    commands_up: 0,
+    commands_down: 0,
+    commands_left: 0,
+    commands_right: 0,
+    commands_closer: 0,
+    commands_back: 0,
+    direction_counts: counts,
+    avg_connection_quality: avgQuality,
+    disconnection_count: snapshot.disconnections,
+    events: snapshot.events,
+    started_at: new Date(snapshot.startedAt).toISOString(),
+    ended_at: new Date(endedAt).toISOString(),
+  }
+  for (const [direction, column] of Object.entries(DIRECTION_COLUMNS)) {
+    recording[column] = counts[direction as Direction] ?? 0
+  }
+  return recording
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Recorder
+// ─────────────────────────────────────────────────────────────────────────────────
+
+class SessionRecorder {
+  private current: RecordingSnapshot | null = null
+  private seenCommandIds = new Set<string>()
+  private persistTimer: ReturnType<typeof setTimeout> | null = null
+  private restoring: Promise<void> | null = null
+
+  get isRecording(): boolean {
+    return this.current !== null
+  }
+
+  /**
+   * Save recordings left in storage by a previous run that was killed
+   * mid-session. Should be called once on app startup.
+   */
+  restore(): Promise<void> {
+    if (!this.restoring) {
+      this.restoring = (async () => {
+        try {
+          const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(STORAGE_PREFIX))
+          for (const key of keys) {
+            if (this.current && key === this.storageKey(this.current)) continue
+            // eslint-disable-next-line no-await-in-loop
+            const stored = await AsyncStorage.getItem(key)
+            const snapshot: RecordingSnapshot | null = stored ? JSON.parse(stored) : null
+            if (snapshot) {
+              sessionLogger.info('session_recording_restored', { sessionId: snapshot.session.sessionId.substring(0, 8) })
+              // The last thing recorded is as close to the end as we know
+              // eslint-disable-next-line no-await-in-loop
+              await this.save(snapshot, snapshot.updatedAt)
+            } else {
+              // eslint-disable-next-line no-await-in-loop
+              await AsyncStorage.removeItem(key)
+            }
+          }
+        } catch (error) {
+          sessionLogger.warn('session_recording_restore_failed', { error: String(error) })
+        }
+      })()
+    }
+    return this.restoring
+  }
+
+  /**
+   * Start a new timeline. A recording already running for another session is finished first.
+   */
+  start(session: SessionRecordingStart) {
+    if (this.current?.session.sessionId === session.sessionId) return
+    if (this.current) void this.finish()
+
+    const now = Date.now()
+    this.current = {
+      id: uuid.v4() as string,
+      session,
+      startedAt: now,
+      updatedAt: now,
+      events: [],
+      directionCounts: {},
+      totalCommands: 0,
+      totalPhotos: 0,
+      disconnections: 0,
+      qualityScores: [],
+    }
+    this.seenCommandIds.clear()
+
+    sessionLogger.info('session_recording_started', { sessionId: session.sessionId.substring(0, 8) })
+  }
+
+  /**
+   * A command from the director was received. Copies that arrive over both
+   * transports (same id) are recorded once.
+   */
+  recordCommand(command: RemoteCommand) {
+    const recording = this.current
+    if (!recording || UNRECORDED_COMMANDS.includes(command.type)) return
+    if (command.id) {
+      if (this.seenCommandIds.has(command.id)) return
+      this.seenCommandIds.add(command.id)
+    }
+
+    recording.totalCommands++
+    if (command.type === 'direction') {
+      recording.directionCounts[command.direction] = (recording.directionCounts[command.direction] ?? 0) + 1
+    }
+    this.push({ type: 'command', data: { command: command.type, ...commandDetail(command) } })
+  }
+
+  /**
+   * A photo (or burst) was taken. `localId` names it on this phone; `captureId`
+   * is its captures row, when one was saved.
+   */
+  recordCapture(localId: string, frameCount = 1, captureId?: string) {
+    if (!this.current) return
+    this.current.totalPhotos += frameCount
+    this.push({
+      type: 'capture',
+      data: {
+        localId,
+        ...(captureId ? { captureId } : {}),
+        ...(frameCount > 1 ? { frameCount } : {}),
+      },
+    })
+  }
+
+  recordDisconnect(state: string) {
+    if (!this.current) return
+    this.current.disconnections++
+    this.push({ type: 'disconnect', data: { state } })
+  }
+
+  recordReconnect() {
+    if (!this.current) return
+    this.push({ type: 'reconnect', data: {} })
+  }
+
+  recordQuality(sample: QualitySample) {
+    if (!this.current) return
+    this.current.qualityScores.push(sample.score)
+    this.push({ type: 'quality', data: sample })
+  }
+
+  /**
+   * End the timeline and queue it for session_recordings.
+   * Sessions with nothing in them (no commands, no photos) aren't saved.
+   */
+  async finish(): Promise<void> {
+    const snapshot = this.current
+    if (!snapshot) return
+    this.current = null
+    this.clearPersistTimer()
+
+    await this.save(snapshot, Date.now())
+  }
+
+  private async save(snapshot: RecordingSnapshot, endedAt: number) {
+    const sessionId = snapshot.session.sessionId.substring(0, 8)
+
+    if (snapshot.totalCommands === 0 && snapshot.totalPhotos === 0) {
+      sessionLogger.info('session_recording_skipped', { sessionId })
+    } else {
+      const recording = toRecording(snapshot, endedAt)
+      const { success, error } = await sessionRecordingsApi.save(recording)
+      if (!success) {
+        // Left in storage - the next launch tries again
+        sessionLogger.warn('session_recording_save_failed', { sessionId, error })
+        return
+      }
+      sessionLogger.info('session_recording_saved', {
+        sessionId,
+        events: recording.events.length,
+        commands: recording.total_commands,
+        photos: recording.total_photos,
+      })
+    }
+
+    try {
+      await AsyncStorage.removeItem(this.storageKey(snapshot))
+    } catch (error) {
+      sessionLogger.warn('session_recording_clear_failed', { sessionId, error: String(error) })
+    }
+  }
+
+  private push(event: Omit<SessionTimelineEvent, 'timestamp'>) {
+    const recording = this.current
+    if (!recording) return
+
+    const { events } = recording
+    if (events.length >= MAX_EVENTS) {
+      // Make room by dropping the oldest quality sample; otherwise stop recording detail
+      const index = events.findIndex(e => e.type === 'quality')
+      if (index === -1) return
+      events.splice(index, 1)
+    }
+    recording.updatedAt = Date.now()
+    events.push({ ...event, timestamp: new Date(recording.updatedAt).toISOString() } as SessionTimelineEvent)
+    this.schedulePersist()
+  }
+
+  /** Write the running recording to storage - at most once per PERSIST_DELAY_MS */
+  private schedulePersist() {
+    if (this.persistTimer) return
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null
+      void this.persist()
+    }, PERSIST_DELAY_MS)
+  }
+
+  private clearPersistTimer() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer)
+      this.persistTimer = null
+    }
+  }
+
+  private async persist() {
+    // Never write over a previous run's recording before restore has read it
+    await this.restore()
+    const recording = this.current
+    if (!recording) return
+    try {
+      await AsyncStorage.setItem(this.storageKey(recording), JSON.stringify(recording))
+    } catch (error) {
+      sessionLogger.warn('session_recording_persist_failed', { error: String(error) })
+    }
+  }
+
+  private storageKey(recording: RecordingSnapshot): string {
+    return `${STORAGE_PREFIX}${recording.id}`
+  }
+}
+
+export const sessionRecorder = new SessionRecorder()
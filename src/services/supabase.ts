@@ -13,6 +13,8 @@ import { AppState, Platform } from 'react-native'
 import AsyncStorage from '@react-native-async-storage/async-storage'
 import * as SecureStore from 'expo-secure-store'
 import { logger } from './logging'
+import type { Direction } from '../schemas/commands'
+import type { SessionTimelineEvent } from '../types'
 
 export const SUPABASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL || ''
 export const SUPABASE_ANON_KEY = process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || ''
@@ -266,6 +268,12 @@ export interface Capture {
   mime_type?: string
   captured_by?: 'camera' | 'viewer'
   is_favorite?: boolean
+  burst_id?: string
+  burst_index?: number
+  is_best_frame?: boolean
+  cloud_url?: string
+  cloud_thumbnail_url?: string
+  cloud_status?: 'local' | 'uploading' | 'uploaded' | 'failed'
   deleted_at?: string
   created_at?: string
 }
@@ -309,6 +317,28 @@ export interface UserSettings {
   updated_at?: string
 }
 
+export type SyncOperation = 'insert' | 'update' | 'delete'
+export type SyncStatus = 'pending' | 'syncing' | 'synced' | 'conflict' | 'failed'
+export type ConflictResolution = 'server_wins' | 'client_wins' | 'merge'
+
+/** A write made while offline - the client queue keeps these in the same shape */
+export interface PendingSync {
+  id: string
+  device_id: string
+  operation: SyncOperation
+  table_name: string
+  record_id?: string
+  record_data: Record<string, unknown>
+  status: SyncStatus
+  conflict_resolution?: ConflictResolution
+  conflict_data?: Record<string, unknown>
+  retry_count: number
+  max_retries: number
+  last_error?: string
+  created_at: string
+  synced_at?: string
+}
+
 export interface Feedback {
   id: string
   device_token?: string
@@ -332,6 +362,30 @@ export interface SessionEvent {
   created_at?: string
 }
 
+export interface SessionRecording {
+  id: string
+  session_id?: string
+  camera_device_id: string
+  viewer_device_id?: string
+  duration_seconds: number
+  total_photos: number
+  total_commands: number
+  commands_up: number
+  commands_down: number
+  commands_left: number
+  commands_right: number
+  commands_closer: number
+  commands_back: number
+  /** Every direction, including the finer ones without their own column */
+  direction_counts: Partial<Record<Direction, number>>
+  avg_connection_quality?: number
+  disconnection_count: number
+  events: SessionTimelineEvent[]
+  started_at: string
+  ended_at?: string
+  created_at?: string
+}
+
 export interface AppVersion {
   id: string
   version: string
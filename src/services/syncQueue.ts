@@ -0,0 +1,443 @@
+/**
+ * Sync Queue
+ *
+ * Writes that can't reach Supabase (no signal halfway up a mountain) are kept
+ * in AsyncStorage in the same shape as the `pending_sync` table and replayed,
+ * oldest first, as soon as NetInfo reports the device is back online.
+ *
+ * Every write says how to settle a conflict with the row on the server:
+ * - server_wins: a row that changed on the server after the write was queued is left alone
+ * - client_wins: the queued values are written regardless
+ * - merge: the queued values are combined with the server row. Counters are
+ *   added on the server by an increment function keyed on the queued write's id,
+ *   so a write replayed after a lost response is only counted once.
+ *
+ * Writes that keep failing, and writes dropped in a conflict, are parked in the
+ * server's `pending_sync` table rather than being lost silently. They stay in
+ * the local queue until the server has them.
+ *
+ * Writes that depend on a queued row (an upload for a capture saved offline)
+ * wait for it with `waitForSync`.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import NetInfo, { type NetInfoState } from '@react-native-community/netinfo'
+import uuid from 'react-native-uuid'
+import { supabase } from './supabase'
+import type { ConflictResolution, PendingSync, SyncOperation } from './supabase'
+import { sessionLogger } from './sessionLogger'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Types
+// ─────────────────────────────────────────────────────────────────────────────────
+
+export interface SyncWrite {
+  deviceId: string
+  operation: SyncOperation
+  table: string
+  /** Row values - must include the table's key column */
+  data: Record<string, unknown>
+  resolution: ConflictResolution
+}
+
+type SyncOutcome = 'synced' | 'conflict'
+
+interface SyncWaiter {
+  /** "table:record_id" of the rows still waiting */
+  keys: Set<string>
+  parked: boolean
+  done: (synced: boolean) => void
+}
+
+const STORAGE_KEY = 'pendingSync'
+const DEFAULT_MAX_RETRIES = 5
+
+/** Column each synced table is matched on */
+const TABLE_KEYS: Record<string, string> = {
+  captures: 'id',
+  user_stats: 'device_id',
+  user_settings: 'device_id',
+}
+
+/** Columns whose queued values are increments rather than new values */
+const COUNTER_COLUMNS: Record<string, readonly string[]> = {
+  user_stats: ['photos_taken', 'photos_helped', 'photos_received', 'experience_points'],
+}
+
+/**
+ * Server function that adds a merge write's counters, once per op id
+ * (see supabase/migrations/020_sync_increments.sql)
+ */
+const INCREMENT_FUNCTIONS: Record<string, string> = {
+  user_stats: 'apply_user_stats_increment',
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Helpers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Whether a Supabase error (or thrown error) means the request never got
+ * through - as opposed to the server rejecting it
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!error) return false
+  const { message = '', code = '' } = error as { message?: string; code?: string }
+  return !code && /network|fetch|timed? ?out|offline|abort/i.test(message)
+}
+
+/**
+ * The counter increments in a queued write, e.g. { photos_taken: 1 }
+ */
+export function counterIncrements(table: string, data: Record<string, unknown>): Record<string, number> {
+  const increments: Record<string, number> = {}
+  for (const column of COUNTER_COLUMNS[table] ?? []) {
+    const increment = data[column]
+    if (typeof increment === 'number' && Number.isFinite(increment)) {
+      increments[column] = increment
+    }
+  }
+  return increments
+}
+
+/**
+ * Combine a queued write with the server's row: queued values replace the
+ * server's. Counter columns keep the server's value - increments are only
+ * ever added on the server (see INCREMENT_FUNCTIONS).
+ */
+export function mergeRecords(
+  table: string,
+  server: Record<string, unknown> | null,
+  client: Record<string, unknown>
+): Record<string, unknown> {
+  const merged: Record<string, unknown> = { ...(server ?? {}), ...client }
+  for (const column of COUNTER_COLUMNS[table] ?? []) {
+    if (server && column in server) {
+      merged[column] = server[column]
+    } else {
+      delete merged[column]
+    }
+  }
+  return merged
+}
+
+function rowKey(item: Pick<PendingSync, 'table_name' | 'record_id'>): string {
+  return `${item.table_name}:${item.record_id}`
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Queue
+// ─────────────────────────────────────────────────────────────────────────────────
+
+class SyncQueue {
+  private items: PendingSync[] = []
+  private loading: Promise<void> | null = null
+  private isFlushing = false
+  private online = true
+  private netInfoSubscription: (() => void) | null = null
+  private waiters: SyncWaiter[] = []
+
+  /** Assumed true until NetInfo says otherwise */
+  get isOnline(): boolean {
+    return this.online
+  }
+
+  get pending(): number {
+    return this.items.length
+  }
+
+  /**
+   * Load anything left from a previous run and start replaying on reconnect.
+   * Should be called once on app startup.
+   */
+  initialize() {
+    if (this.netInfoSubscription) return
+    this.netInfoSubscription = NetInfo.addEventListener(this.handleNetInfoChange)
+    NetInfo.fetch().then(this.handleNetInfoChange)
+    void this.flush()
+  }
+
+  destroy() {
+    this.netInfoSubscription?.()
+    this.netInfoSubscription = null
+  }
+
+  /**
+   * Queue a write. It is stored before this resolves and replayed straight
+   * away if the device is online.
+   */
+  async enqueue(write: SyncWrite): Promise<string> {
+    await this.load()
+
+    const key = TABLE_KEYS[write.table] ?? 'id'
+    const recordId = write.data[key]
+    const item: PendingSync = {
+      id: uuid.v4() as string,
+      device_id: write.deviceId,
+      operation: write.operation,
+      table_name: write.table,
+      record_id: key === 'id' && typeof recordId === 'string' ? recordId : undefined,
+      record_data: write.data,
+      status: 'pending',
+      conflict_resolution: write.resolution,
+      retry_count: 0,
+      max_retries: DEFAULT_MAX_RETRIES,
+      created_at: new Date().toISOString(),
+    }
+    this.items.push(item)
+    await this.persist()
+
+    sessionLogger.info('sync_queued', {
+      table: write.table,
+      operation: write.operation,
+      online: this.online,
+      queueLength: this.items.length,
+    })
+    void this.flush()
+    return item.id
+  }
+
+  /**
+   * Ids of queued rows in `table` whose values match, e.g. the frames of a burst
+   */
+  pendingRecordIds(table: string, match: (data: Record<string, unknown>) => boolean): string[] {
+    return this.items
+      .filter(item => item.table_name === table && item.record_id && match(item.record_data))
+      .map(item => item.record_id!)
+  }
+
+  /**
+   * Resolves once no write to these rows is left in the queue: true if they
+   * all synced, false if one was parked instead or `timeoutMs` ran out.
+   * Rows with nothing queued count as synced.
+   */
+  async waitForSync(table: string, recordIds: string[], timeoutMs?: number): Promise<boolean> {
+    await this.load()
+    const keys = new Set(
+      recordIds
+        .map(recordId => rowKey({ table_name: table, record_id: recordId }))
+        .filter(key => this.items.some(item => rowKey(item) === key))
+    )
+    if (keys.size === 0) return true
+
+    return new Promise(resolve => {
+      const timer = timeoutMs !== undefined ? setTimeout(() => waiter.done(false), timeoutMs) : null
+      const waiter: SyncWaiter = {
+        keys,
+        parked: false,
+        done: (synced) => {
+          if (timer) clearTimeout(timer)
+          this.waiters = this.waiters.filter(other => other !== waiter)
+          resolve(synced)
+        },
+      }
+      this.waiters.push(waiter)
+    })
+  }
+
+  /**
+   * Replay queued writes in order. Stops at the first one that can't get
+   * through, so later writes to the same row never overtake it.
+   */
+  async flush(): Promise<void> {
+    await this.load()
+    if (this.isFlushing || !this.online || this.items.length === 0) return
+    this.isFlushing = true
+
+    let synced = 0
+    try {
+      while (this.items.length > 0) {
+        const item = this.items[0]
+        try {
+          if (item.status !== 'conflict' && item.status !== 'failed') {
+            item.status = 'syncing'
+            // eslint-disable-next-line no-await-in-loop
+            const outcome = await this.apply(item)
+            if (outcome === 'synced') {
+              this.items.shift()
+              synced++
+              this.settle(item, true)
+              continue
+            }
+            item.status = 'conflict'
+          }
+
+          // Given up on - only leaves the queue once pending_sync has it
+          // eslint-disable-next-line no-await-in-loop
+          await this.park(item)
+          this.items.shift()
+          this.settle(item, false)
+        } catch (error) {
+          if (isNetworkError(error)) {
+            if (item.status === 'syncing') item.status = 'pending'
+            break
+          }
+          if (item.status === 'syncing') {
+            item.status = 'pending'
+            item.retry_count++
+            item.last_error = error instanceof Error ? error.message : String(error)
+            sessionLogger.warn('sync_write_failed', {
+              table: item.table_name,
+              operation: item.operation,
+              attempt: item.retry_count,
+              error: item.last_error,
+            })
+            if (item.retry_count < item.max_retries) break
+            // Parked on the next pass
+            item.status = 'failed'
+          } else {
+            // The server won't take it in pending_sync either - nothing more to try
+            sessionLogger.warn('sync_park_failed', {
+              table: item.table_name,
+              error: error instanceof Error ? error.message : String(error),
+            })
+            this.items.shift()
+            this.settle(item, false)
+          }
+        } finally {
+          // eslint-disable-next-line no-await-in-loop
+          await this.persist()
+        }
+      }
+    } finally {
+      this.isFlushing = false
+    }
+
+    if (synced > 0) {
+      sessionLogger.info('sync_flushed', { synced, remaining: this.items.length })
+    }
+  }
+
+  private handleNetInfoChange = (state: NetInfoState): void => {
+    const wasOnline = this.online
+    this.online = state.isConnected !== false && state.isInternetReachable !== false
+    if (!wasOnline && this.online) {
+      sessionLogger.info('sync_network_recovered', { pending: this.items.length })
+      void this.flush()
+    }
+  }
+
+  /**
+   * Write one queued item, settling any conflict with the server row.
+   * Throws if the write didn't go through.
+   */
+  private async apply(item: PendingSync): Promise<SyncOutcome> {
+    const table = item.table_name
+    const key = TABLE_KEYS[table] ?? 'id'
+    const keyValue = item.record_data[key] ?? item.record_id
+
+    if (item.operation === 'delete') {
+      const { error } = await supabase.from(table).delete().eq(key, keyValue)
+      if (error) throw error
+      return 'synced'
+    }
+
+    const incrementFunction = INCREMENT_FUNCTIONS[table]
+    if (item.conflict_resolution === 'merge' && incrementFunction) {
+      // The queued write's id makes a replay a no-op on the server
+      const { error } = await supabase.rpc(incrementFunction, {
+        p_op_id: item.id,
+        p_key: keyValue,
+        p_increments: counterIncrements(table, item.record_data),
+      })
+      if (error) throw error
+      return 'synced'
+    }
+
+    const { data: server, error: fetchError } = await supabase
+      .from(table)
+      .select('*')
+      .eq(key, keyValue)
+      .maybeSingle()
+    if (fetchError) throw fetchError
+
+    let record = item.record_data
+    if (server) {
+      const serverUpdatedAt = typeof server.updated_at === 'string' ? Date.parse(server.updated_at) : 0
+      const changedSinceQueued = serverUpdatedAt > Date.parse(item.created_at)
+
+      switch (item.conflict_resolution) {
+        case 'server_wins':
+          // An insert that's already there went through before we lost the response
+          if (item.operation === 'insert') return 'synced'
+          if (changedSinceQueued) {
+            item.conflict_data = server
+            return 'conflict'
+          }
+          break
+        case 'merge':
+          record = mergeRecords(table, server, record)
+          break
+        case 'client_wins':
+        default:
+          break
+      }
+    } else if (item.conflict_resolution === 'merge') {
+      record = mergeRecords(table, null, record)
+    }
+
+    const { error } = await supabase.from(table).upsert(record, { onConflict: key })
+    if (error) throw error
+    return 'synced'
+  }
+
+  /**
+   * Keep a write we gave up on in the server's pending_sync table.
+   * Throws if it didn't get there. A replay after a lost response is fine -
+   * the row keeps the queued write's id.
+   */
+  private async park(item: PendingSync) {
+    sessionLogger.warn('sync_write_parked', {
+      table: item.table_name,
+      operation: item.operation,
+      status: item.status,
+      error: item.last_error,
+    })
+    const { error } = await supabase.from('pending_sync').upsert(item, { onConflict: 'id', ignoreDuplicates: true })
+    if (error) throw error
+  }
+
+  /** Tell waiters a row's write left the queue, once nothing else for it is queued */
+  private settle(item: PendingSync, synced: boolean) {
+    if (!item.record_id) return
+    const key = rowKey(item)
+    if (this.items.some(other => rowKey(other) === key)) return
+
+    for (const waiter of [...this.waiters]) {
+      if (!waiter.keys.delete(key)) continue
+      if (!synced) waiter.parked = true
+      if (waiter.keys.size === 0) waiter.done(!waiter.parked)
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(STORAGE_KEY)
+          const saved: PendingSync[] = stored ? JSON.parse(stored) : []
+          // Anything mid-sync when the app was killed is retried - writes
+          // waiting to be parked stay that way
+          const restored = saved.map(item => (item.status === 'syncing' ? { ...item, status: 'pending' as const } : item))
+          this.items = [...restored, ...this.items]
+          if (restored.length > 0) {
+            sessionLogger.info('sync_queue_restored', { pending: restored.length })
+          }
+        } catch (error) {
+          sessionLogger.warn('sync_queue_load_failed', { error: String(error) })
+        }
+      })()
+    }
+    return this.loading
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.items))
+    } catch (error) {
+      sessionLogger.warn('sync_queue_persist_failed', { error: String(error) })
+    }
+  }
+}
+
+export const syncQueue = new SyncQueue()
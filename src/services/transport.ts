@@ -0,0 +1,16 @@
+/**
+ * The app's media transport - WebRTC and LiveKit in the order the build
+ * config asks for (see src/config/transport.ts), behind one FallbackTransport
+ * that agrees any switch with the partner over transportSignaling
+ */
+
+import { getMediaTransportConfig } from '../config/transport'
+import { FallbackTransport, transportOrder } from './mediaTransport'
+import { transportSignaling } from './transportSignaling'
+import { webrtcService } from './webrtc'
+import { livekitService } from './livekit'
+
+export const mediaTransport = new FallbackTransport(
+  transportOrder(getMediaTransportConfig(), [webrtcService, livekitService]),
+  transportSignaling
+)
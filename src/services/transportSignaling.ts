@@ -0,0 +1,84 @@
+/**
+ * Transport Signaling
+ *
+ * The Supabase Realtime channel FallbackTransport (mediaTransport.ts) uses to
+ * agree on a transport switch with the partner. It belongs to neither
+ * transport, since the one being left may be the one that can't get through.
+ */
+
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { sessionLogger } from './sessionLogger'
+import type {
+  TransportSignaling,
+  TransportSignalingSession,
+  TransportSwitchMessage,
+} from './mediaTransport'
+
+const SWITCH_EVENT = 'transport_switch'
+const SUBSCRIBE_TIMEOUT_MS = 10000
+
+class RealtimeTransportSignaling implements TransportSignaling {
+  private channel: RealtimeChannel | null = null
+  private session: TransportSignalingSession | null = null
+
+  /**
+   * Join the session's channel. Resolves once subscribed - or after
+   * SUBSCRIBE_TIMEOUT_MS, so a slow channel doesn't hold up the video.
+   */
+  async open(session: TransportSignalingSession, onMessage: (message: TransportSwitchMessage) => void): Promise<void> {
+    await this.close()
+
+    const channelName = `transport:${session.sessionId}`
+    const channel = supabase.channel(channelName)
+    this.channel = channel
+    this.session = session
+
+    channel.on('broadcast', { event: SWITCH_EVENT }, ({ payload }) => {
+      const { to, message } = (payload ?? {}) as { to?: string; message?: TransportSwitchMessage }
+      if (this.channel !== channel || to !== session.deviceId || !message) return
+      onMessage(message)
+    })
+
+    await new Promise<void>((resolve) => {
+      const timeout = setTimeout(() => {
+        sessionLogger.warn('transport_signaling_subscription_timeout', { channelName })
+        resolve()
+      }, SUBSCRIBE_TIMEOUT_MS)
+
+      channel.subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          clearTimeout(timeout)
+          resolve()
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          clearTimeout(timeout)
+          sessionLogger.warn('transport_signaling_subscription_failed', { channelName, status })
+          resolve()
+        }
+      })
+    })
+  }
+
+  async send(message: TransportSwitchMessage): Promise<void> {
+    if (!this.channel || !this.session) return
+
+    await this.channel.send({
+      type: 'broadcast',
+      event: SWITCH_EVENT,
+      payload: {
+        from: this.session.deviceId,
+        to: this.session.peerDeviceId,
+        message,
+      },
+    })
+  }
+
+  async close(): Promise<void> {
+    const channel = this.channel
+    this.channel = null
+    this.session = null
+    if (channel) await supabase.removeChannel(channel)
+  }
+}
+
+export const transportSignaling = new RealtimeTransportSignaling()
@@ -10,11 +10,49 @@
  * 4. Connection established → video streams P2P
  * 
  * NOTE: WebRTC requires a development build - it does NOT work in Expo Go!
+ *
+ * One of the two MediaTransports (see mediaTransport.ts) - the screens reach
+ * it through `mediaTransport` (transport.ts) unless they need WebRTC-only features.
  */
 
 import { supabase } from './supabase'
+import type {
+  MediaHandle,
+  MediaTransport,
+  TransportCallbacks,
+  TransportCommandHandler,
+  TransportFeatures,
+} from './mediaTransport'
 import { sessionLogger, CAMERA_ERROR_MESSAGES } from './sessionLogger'
+import { BitrateController, STREAM_PRESETS, type EncodingPlan, type StreamQuality } from './adaptiveBitrate'
+import {
+  filterCandidates,
+  listVideoCodecs,
+  parseCandidate,
+  parseFmtp,
+  preferVideoCodec,
+  resolveVideoCodec,
+  sessionOrigin,
+  setVideoBandwidth,
+  videoCodecOf,
+  videoCodecsFromCapabilities,
+  type VideoCodec,
+} from './sdp'
+import {
+  buildIceConfig,
+  FALLBACK_ICE_CONFIG,
+  IceServerCache,
+  mergeIceServers,
+  summarizeIceServers,
+  type IceConfig,
+} from './iceServers'
+import { createIceProvider, type IceRequestContext } from './iceProviders'
+import { getIceProviderConfig } from '../config/ice'
+import { connectionHistoryApi } from './api'
+import { useSettingsStore } from '../stores/settingsStore'
 import type { RealtimeChannel } from '@supabase/supabase-js'
+import type { QualitySample } from '../types'
+import type { StreamPreference } from '../schemas/commands'
 
 function withTimeout<T>(promise: Promise<T>, timeoutMs: number, name = 'TimeoutError'): Promise<T> {
   let timeoutId: ReturnType<typeof setTimeout> | null = null
@@ -31,6 +69,18 @@ function withTimeout<T>(promise: Promise<T>, timeoutMs: number, name = 'TimeoutE
   })
 }
 
+/**
+ * 0-10 connection score: round trips over 150ms, lost packets and
+ * a frame rate under 15 each take points off
+ */
+function scoreQuality(rttMs: number | null, packetLossPct: number | null, fps: number | null): number {
+  let score = 10
+  if (rttMs !== null) score -= Math.min(4, Math.max(0, (rttMs - 150) / 100))
+  if (packetLossPct !== null) score -= Math.min(5, packetLossPct / 2)
+  if (fps !== null) score -= Math.min(2, Math.max(0, (15 - fps) / 5))
+  return Math.round(Math.max(0, score) * 10) / 10
+}
+
 // Helper to parse media errors
 function parseMediaError(error: Error | unknown): string {
   if (!(error instanceof Error)) return 'UnknownError'
@@ -69,15 +119,19 @@ let RTCSessionDescription: any
 let RTCIceCandidate: any
 let mediaDevices: any
 let MediaStream: any
+let RTCRtpSender: any
+let RTCRtpReceiver: any
 let isWebRTCAvailable = false
 
 try {
-  const webrtc = require('react-native-webrtc')
+  const webrtc = require('@livekit/react-native-webrtc')
   RTCPeerConnection = webrtc.RTCPeerConnection
   RTCSessionDescription = webrtc.RTCSessionDescription
   RTCIceCandidate = webrtc.RTCIceCandidate
   mediaDevices = webrtc.mediaDevices
   MediaStream = webrtc.MediaStream
+  RTCRtpSender = webrtc.RTCRtpSender
+  RTCRtpReceiver = webrtc.RTCRtpReceiver
   isWebRTCAvailable = true
 } catch (error) {
   console.warn('[WebRTC] Native module not available - requires development build')
@@ -87,148 +141,95 @@ try {
 // Export availability check
 export const webrtcAvailable = isWebRTCAvailable
 
-// Metered TURN server API configuration
-// Get your API key from https://www.metered.ca/stun-turn
-// NOTE: EXPO_PUBLIC_ vars require native rebuild - OTA won't update them
-// Using fallback for testing until native rebuild
-const METERED_API_KEY = process.env.EXPO_PUBLIC_METERED_API_KEY || ''
-const METERED_API_URL = process.env.EXPO_PUBLIC_METERED_API_URL || 'https://kenji.metered.live/api/v1/turn/credentials'
-
-// STUN servers (for NAT traversal discovery - always included)
-const STUN_SERVERS = [
-  { urls: 'stun:stun.l.google.com:19302' },
-  { urls: 'stun:stun1.l.google.com:19302' },
-  { urls: 'stun:stun2.l.google.com:19302' },
-  { urls: 'stun:stun.cloudflare.com:3478' },
-]
-
-// Free public TURN servers (always included as fallback even if Metered works)
-// These are free relay servers for when direct P2P fails
-const FREE_TURN_SERVERS = [
-  // OpenRelay by Metered (free public TURN)
-  {
-    urls: 'turn:openrelay.metered.ca:80',
-    username: 'openrelayproject',
-    credential: 'openrelayproject',
-  },
-  {
-    urls: 'turn:openrelay.metered.ca:443',
-    username: 'openrelayproject',
-    credential: 'openrelayproject',
-  },
-  {
-    urls: 'turn:openrelay.metered.ca:443?transport=tcp',
-    username: 'openrelayproject',
-    credential: 'openrelayproject',
-  },
-  // Twilio free STUN (no TURN without account)
-  { urls: 'stun:global.stun.twilio.com:3478' },
-]
-
-// Full fallback config (used if Metered API fails)
-const FALLBACK_ICE_SERVERS = {
-  iceServers: [...STUN_SERVERS, ...FREE_TURN_SERVERS],
-  iceCandidatePoolSize: 10,
-}
+// Where TURN servers come from - picked at build time in app.config.ts extras
+const iceProviderConfig = getIceProviderConfig()
+const iceProvider = createIceProvider(iceProviderConfig)
 
-// Cache for TURN credentials (they expire, so we refresh periodically)
-let cachedIceServers: RTCConfiguration | null = null
-let cacheTimestamp = 0
-const CACHE_DURATION_MS = 5 * 60 * 1000 // 5 minutes (credentials typically expire in 1 hour)
+// TURN credentials are refreshed every few minutes (they expire)
+const iceServerCache = new IceServerCache()
 
 /**
- * Fetch TURN server credentials from Metered API
- * Returns cached credentials if still valid
+ * Fetch ICE servers from the configured provider, merged with the public fallbacks
+ * Returns cached servers if still valid
  */
-async function getIceServers(): Promise<RTCConfiguration> {
+async function getIceServers(context: IceRequestContext): Promise<IceConfig> {
+  const { publicFallback } = iceProviderConfig
+  // Without the public servers there is nothing to fall back to - host candidates only
+  const fallback = publicFallback ? FALLBACK_ICE_CONFIG : buildIceConfig([])
+
   // Return cached if still valid
-  const now = Date.now()
-  if (cachedIceServers && (now - cacheTimestamp) < CACHE_DURATION_MS) {
+  const cached = iceServerCache.get()
+  if (cached) {
     sessionLogger.logWebRTC('using_cached_ice_servers', { 
-      age: Math.round((now - cacheTimestamp) / 1000) + 's' 
+      age: Math.round(iceServerCache.ageMs() / 1000) + 's' 
     })
-    return cachedIceServers
+    return cached
   }
 
-  // If no API key configured, use fallback STUN-only
-  if (!METERED_API_KEY) {
-    sessionLogger.warn('no_metered_api_key', {
-      message: 'EXPO_PUBLIC_METERED_API_KEY not set, using STUN-only (may fail on mobile networks)',
+  // Provider missing its API key / server list - use the fallback
+  if (!iceProvider.isConfigured()) {
+    sessionLogger.warn('ice_provider_not_configured', {
+      provider: iceProvider.name,
+      publicFallback,
+      message: iceProvider.name === 'metered'
+        ? 'EXPO_PUBLIC_METERED_API_KEY not set, using public servers only (may fail on mobile networks)'
+        : 'EXPO_PUBLIC_ICE_SERVERS not set, using public servers only (may fail on mobile networks)',
     })
-    return FALLBACK_ICE_SERVERS
+    return fallback
   }
 
   try {
-    sessionLogger.logWebRTC('fetching_turn_credentials', { 
-      url: METERED_API_URL.replace(METERED_API_KEY, '***') 
-    })
-
-    // Avoid hanging init on slow/captive networks (common on Android).
-    const controller = new AbortController()
-    const abortId = setTimeout(() => controller.abort(), 8000)
-    const response = await fetch(`${METERED_API_URL}?apiKey=${METERED_API_KEY}`, {
-      signal: controller.signal,
-    }).finally(() => clearTimeout(abortId))
+    const providerServers = await iceProvider.getIceServers(context)
     
-    if (!response.ok) {
-      throw new Error(`Metered API error: ${response.status} ${response.statusText}`)
-    }
-
-    const meteredServers = await response.json()
-    
-    // Merge Metered servers with STUN and free TURN as backup
-    // This ensures we always have fallback relay servers
-    const mergedServers = [
-      ...STUN_SERVERS,           // Google/Cloudflare STUN
-      ...meteredServers,         // Metered TURN (primary)
-      ...FREE_TURN_SERVERS,      // Free TURN (backup)
-    ]
+    // Provider's TURN is primary, with STUN in front and free TURN as backup
+    const mergedServers = mergeIceServers(providerServers, { publicFallback })
     
     sessionLogger.logWebRTC('turn_credentials_fetched', {
-      meteredCount: meteredServers?.length ?? 0,
-      totalCount: mergedServers.length,
-      hasSTUN: mergedServers.some((s: { urls: string | string[] }) => 
-        (Array.isArray(s.urls) ? s.urls : [s.urls]).some((u: string) => u.startsWith('stun:'))
-      ),
-      hasTURN: mergedServers.some((s: { urls: string | string[] }) => 
-        (Array.isArray(s.urls) ? s.urls : [s.urls]).some((u: string) => u.startsWith('turn:'))
-      ),
+      provider: iceProvider.name,
+      providerCount: providerServers.length,
+      publicFallback,
+      ...summarizeIceServers(mergedServers),
     })
 
-    // Cache the merged result
-    cachedIceServers = {
-      iceServers: mergedServers,
-      iceCandidatePoolSize: 10,
-    }
-    cacheTimestamp = now
-
-    return cachedIceServers
+    const config = buildIceConfig(mergedServers)
+    iceServerCache.set(config)
+    return config
   } catch (error) {
     sessionLogger.error('turn_credentials_fetch_failed', error, {
-      fallback: 'using STUN-only servers',
+      provider: iceProvider.name,
+      fallback: publicFallback ? 'using public servers' : 'no ICE servers',
     })
     
-    // Return fallback STUN servers
-    return FALLBACK_ICE_SERVERS
+    return fallback
   }
 }
 
 export type WebRTCRole = 'camera' | 'director'
 
 interface SignalMessage {
-  type: 'offer' | 'answer' | 'ice-candidate'
-  data: RTCSessionDescriptionInit | RTCIceCandidateInit
+  /** renegotiate: director asks the camera (the offerer) for a fresh offer */
+  type: 'offer' | 'answer' | 'ice-candidate' | 'renegotiate'
+  data?: RTCSessionDescriptionInit | RTCIceCandidateInit
 }
 
-interface WebRTCCallbacks {
+interface WebRTCCallbacks extends TransportCallbacks {
   onRemoteStream?: (stream: MediaStream) => void
-  onConnectionStateChange?: (state: RTCPeerConnectionState) => void
-  onError?: (error: Error) => void
 }
 
-class WebRTCService {
+class WebRTCService implements MediaTransport {
+  readonly kind = 'webrtc' as const
+  readonly features: TransportFeatures = {
+    voice: true,
+    streamProfile: true,
+  }
+
   private peerConnection: RTCPeerConnection | null = null
   private localStream: MediaStream | null = null
+  // Push-to-talk microphone - separate from localStream so voice can come and go mid-session
+  private voiceStream: MediaStream | null = null
+  private voiceTrack: MediaStreamTrack | null = null
+  // Camera side: the director wants an audio m-line for its push-to-talk
+  private voiceRequested = false
   private remoteStream: MediaStream | null = null
   private channel: RealtimeChannel | null = null
   
@@ -245,9 +246,14 @@ class WebRTCService {
   // Mutex for cleanup operations - prevents concurrent init/destroy race conditions
   private cleanupPromise: Promise<void> | null = null
   
-  // Guard against handling duplicate offers (race condition fix)
-  private isHandlingOffer = false
-  private lastOfferTime = 0
+  // Offers are made and answered one at a time. The director is the polite
+  // side: when offers collide it rolls its own back, the camera ignores the director's
+  private offerQueue: Promise<void> = Promise.resolve()
+  private remoteOfferQueue: Promise<void> = Promise.resolve()
+  private makingOffer = false
+  private lastRemoteOfferOrigin: string | null = null
+  private stableWaiters: (() => void)[] = []
+  private readonly ANSWER_WAIT_MS = 5000
   
   // ICE timeout monitoring - detects stuck "checking" state
   private iceCheckingStartTime: number | null = null
@@ -258,6 +264,23 @@ class WebRTCService {
   private healthCheckTimer: ReturnType<typeof setInterval> | null = null
   private lastStatsTime: number = 0
   private consecutiveFailedStatsChecks = 0
+  /** Video packet counters at the previous quality sample, for loss over the interval */
+  private lastQualityPackets: { total: number; lost: number } | null = null
+
+  // Adaptive bitrate (camera side) - keeps the stream within what the link carries
+  private bitrateController = new BitrateController()
+  private adaptationTimer: ReturnType<typeof setInterval> | null = null
+  private readonly ADAPTATION_INTERVAL_MS = 2000
+
+  // Video codec - from the settings policy, what both phones support and what last worked with this partner
+  private rememberedCodec: VideoCodec | null = null
+  private rememberedCodecLoad: Promise<void> = Promise.resolve()
+  private codecRecorded = false
+  /** How long an offer or answer waits for the remembered codec before going without it */
+  private readonly REMEMBERED_CODEC_WAIT_MS = 1500
+
+  // Relay-only (privacy setting) - the partner only ever sees TURN addresses
+  private relayOnly = false
 
   /**
    * Check if WebRTC is available
@@ -340,6 +363,7 @@ class WebRTCService {
       this.sessionId = sessionId
       this.role = role
       this.callbacks = callbacks
+      this.loadRememberedCodec(deviceId, peerDeviceId)
 
       sessionLogger.logWebRTC('init', { 
         role,
@@ -349,9 +373,9 @@ class WebRTCService {
         initId: currentInitId,
       })
 
-      // Fetch TURN credentials from Metered API
+      // Fetch TURN credentials from the configured ICE provider
       sessionLogger.logWebRTC('fetching_ice_servers', { role, initId: currentInitId })
-      const iceServersConfig = await getIceServers()
+      const iceServersConfig = await getIceServers({ deviceId, sessionId })
       
       sessionLogger.logWebRTC('ice_servers_received', { 
         role, 
@@ -365,17 +389,28 @@ class WebRTCService {
         return
       }
 
+      // Relay-only: gather TURN candidates only, so this phone's own addresses
+      // never reach the partner. Without a TURN server it can't connect at all.
+      this.relayOnly = useSettingsStore.getState().settings.relayOnly
+      if (this.relayOnly && !summarizeIceServers(iceServersConfig.iceServers).hasTURN) {
+        sessionLogger.warn('relay_only_without_turn', { role, initId: currentInitId })
+      }
+      const rtcConfig: IceConfig = this.relayOnly
+        ? { ...iceServersConfig, iceTransportPolicy: 'relay' }
+        : iceServersConfig
+
       // ANDROID FIX: Wrap RTCPeerConnection creation in explicit try/catch.
       // On some Android devices/builds, the constructor can throw or cause native crash.
       sessionLogger.logWebRTC('creating_peer_connection', { 
         role, 
         initId: currentInitId,
         iceServerCount: iceServersConfig.iceServers?.length ?? 0,
+        relayOnly: this.relayOnly,
       })
       
       let peerConnection: RTCPeerConnection | null = null
       try {
-        peerConnection = new RTCPeerConnection(iceServersConfig)
+        peerConnection = new RTCPeerConnection(rtcConfig)
       } catch (pcError) {
         sessionLogger.error('rtc_peer_connection_constructor_failed', pcError, {
           role,
@@ -621,10 +656,58 @@ class WebRTCService {
 
   /**
    * Create and send offer (camera side)
-   * IMPORTANT: On Android, H.264 can cause black screens if hardware encoder unavailable
-   * We prefer VP8 which has software fallback
+   * IMPORTANT: On Android, H.264 can cause black screens if hardware encoder unavailable -
+   * the codec policy ('auto' by default) prefers VP8, which has a software fallback
+   */
+  private createOffer(): Promise<void> {
+    return this.queueOffer(() => this.sendOffer())
+  }
+
+  /**
+   * Run offers one at a time. Each waits (up to ANSWER_WAIT_MS) for the answer
+   * to the one before, so a renegotiation never overtakes an offer in flight.
+   * A restart for a new peer connection skips the wait - no answer is coming.
    */
-  private async createOffer() {
+  private queueOffer(make: () => Promise<void>, waitForAnswer = true): Promise<void> {
+    const peerConnection = this.peerConnection
+    const run = this.offerQueue.then(async () => {
+      if (waitForAnswer) await this.waitForStable()
+      // Torn down or re-initialised while queued
+      if (!peerConnection || this.peerConnection !== peerConnection) return
+
+      this.makingOffer = true
+      try {
+        await make()
+      } finally {
+        this.makingOffer = false
+      }
+    })
+    this.offerQueue = run.catch(() => {})
+    return run
+  }
+
+  private waitForStable(): Promise<void> {
+    if (!this.peerConnection || this.peerConnection.signalingState === 'stable') {
+      return Promise.resolve()
+    }
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer)
+        this.stableWaiters = this.stableWaiters.filter(waiter => waiter !== done)
+        resolve()
+      }
+      const timer = setTimeout(done, this.ANSWER_WAIT_MS)
+      this.stableWaiters.push(done)
+    })
+  }
+
+  private releaseStableWaiters() {
+    const waiters = this.stableWaiters
+    this.stableWaiters = []
+    waiters.forEach(done => done())
+  }
+
+  private async sendOffer() {
     if (!this.peerConnection) {
       sessionLogger.error('webrtc_create_offer_no_peer_connection', new Error('No peer connection'))
       return
@@ -637,14 +720,19 @@ class WebRTCService {
     })
 
     try {
+      this.prepareVoiceTransceiver()
+      await this.attachVoiceTrack()
+
+      await this.waitForRememberedCodec()
+      if (!this.peerConnection) return
       const offer = await this.peerConnection.createOffer({
         offerToReceiveVideo: true,
-        offerToReceiveAudio: false,
+        // Legacy option - false would turn an existing voice transceiver send-only
+        offerToReceiveAudio: !!this.getAudioTransceiver(),
       })
 
-      // Prefer VP8 codec over H.264 - H.264 causes black screen on many Android devices
-      // because not all have hardware H.264 encoder and there's no software fallback
-      const modifiedSdp = this.preferVP8Codec(offer.sdp)
+      // Put the policy's codec first - see applyCodecPolicy
+      const modifiedSdp = this.withoutHiddenCandidates(this.applyCodecPolicy(offer.sdp))
       const modifiedOffer = {
         type: offer.type,
         sdp: modifiedSdp,
@@ -662,7 +750,6 @@ class WebRTCService {
         role: this.role,
         offerType: offer.type,
         hasSdp: !!offer.sdp,
-        codecPreference: 'VP8',
       })
     } catch (error) {
       sessionLogger.error('webrtc_offer_failed', error, { role: this.role })
@@ -671,115 +758,185 @@ class WebRTCService {
   }
 
   /**
-   * Modify SDP to prefer VP8 codec over H.264
-   * H.264 hardware encoders are unreliable on Android devices
+   * Put the video codec we want first in a local offer or answer.
+   * Answers pass the partner's offer so only codecs both phones have are considered.
    */
-  private preferVP8Codec(sdp: string | undefined): string {
+  private applyCodecPolicy(sdp: string | undefined, remoteSdp?: string): string {
     if (!sdp) return sdp || ''
-    
-    try {
-      // Find video m-line and reorder codecs to prefer VP8
-      const lines = sdp.split('\r\n')
-      const mLineIndex = lines.findIndex(line => line.startsWith('m=video'))
-      
-      if (mLineIndex === -1) return sdp
-
-      const mLine = lines[mLineIndex]
-      const parts = mLine.split(' ')
-      
-      // parts[3...] are codec payload types
-      // Find VP8 payload type from a=rtpmap lines
-      let vp8Payload: string | null = null
-      for (const line of lines) {
-        if (line.includes('a=rtpmap:') && line.toLowerCase().includes('vp8')) {
-          const match = line.match(/a=rtpmap:(\d+)/)
-          if (match) {
-            vp8Payload = match[1]
-            break
-          }
-        }
-      }
 
-      if (vp8Payload && parts.length > 3) {
-        // Remove VP8 from its current position
-        const payloadIndex = parts.indexOf(vp8Payload, 3)
-        if (payloadIndex > 3) {
-          parts.splice(payloadIndex, 1)
-          // Insert VP8 as first codec preference
-          parts.splice(3, 0, vp8Payload)
-          lines[mLineIndex] = parts.join(' ')
-          
-          sessionLogger.logWebRTC('codec_preference_modified', {
-            vp8Payload,
-            message: 'VP8 set as preferred video codec',
-          })
-        }
-      }
+    try {
+      const policy = useSettingsStore.getState().settings.videoCodec
+      const local = this.probeVideoCodecs(sdp)
+      const remote = remoteSdp ? listVideoCodecs(remoteSdp) : undefined
+      const codec = resolveVideoCodec(policy, { local, remote, remembered: this.rememberedCodec })
 
-      return lines.join('\r\n')
+      sessionLogger.logWebRTC('codec_preference_applied', {
+        role: this.role,
+        policy,
+        codec,
+        local,
+        remote,
+        remembered: this.rememberedCodec,
+      })
+      return preferVideoCodec(sdp, codec)
     } catch (error) {
       sessionLogger.warn('codec_preference_failed', { error: (error as Error)?.message })
       return sdp
     }
   }
 
+  /**
+   * In relay-only mode, strip any non-relay candidates from a local description
+   * (iceTransportPolicy should already keep them out - this makes sure)
+   */
+  private withoutHiddenCandidates(sdp: string): string {
+    return this.relayOnly ? filterCandidates(sdp, candidate => candidate.type === 'relay') : sdp
+  }
+
+  /**
+   * Codecs this phone can send (camera) or receive (director), from the
+   * native capabilities - or from our own SDP where those aren't available
+   */
+  private probeVideoCodecs(localSdp: string): VideoCodec[] {
+    try {
+      const capabilities = (this.role === 'camera' ? RTCRtpSender : RTCRtpReceiver)?.getCapabilities?.('video')
+      const probed = capabilities?.codecs ? videoCodecsFromCapabilities(capabilities.codecs) : []
+      if (probed.length > 0) return probed
+    } catch {
+      // Older native module - fall through to the SDP
+    }
+    return listVideoCodecs(localSdp)
+  }
+
+  private loadRememberedCodec(deviceId: string, peerDeviceId: string) {
+    this.rememberedCodec = null
+    this.rememberedCodecLoad = connectionHistoryApi.getVideoCodec(deviceId, peerDeviceId).then(({ videoCodec }) => {
+      // The service may have moved on to another partner meanwhile
+      if (videoCodec && this.peerDeviceId === peerDeviceId) {
+        this.rememberedCodec = videoCodec
+        sessionLogger.logWebRTC('codec_remembered', { codec: videoCodec })
+      }
+    }).catch(() => {})
+  }
+
+  /**
+   * Let the remembered codec arrive before an offer or answer picks one -
+   * a slow or unreachable server only costs REMEMBERED_CODEC_WAIT_MS
+   */
+  private async waitForRememberedCodec() {
+    try {
+      await withTimeout(this.rememberedCodecLoad, this.REMEMBERED_CODEC_WAIT_MS)
+    } catch {
+      sessionLogger.warn('codec_remembered_timeout', { role: this.role })
+    }
+  }
+
+  /**
+   * Once the connection is up and video is flowing, note which codec carries
+   * it so the next session with this partner starts with it
+   */
+  private recordNegotiatedCodec(stats: RTCStatsReport) {
+    if (this.peerConnection?.connectionState !== 'connected') return
+
+    const rtpType = this.role === 'camera' ? 'outbound-rtp' : 'inbound-rtp'
+    let codecId: string | null = null
+    stats.forEach((report: any) => {
+      if (report.type !== rtpType || (report.kind !== 'video' && report.mediaType !== 'video')) return
+      const frames = this.role === 'camera' ? report.framesEncoded : report.framesDecoded
+      if (frames > 0 && report.codecId) codecId = report.codecId
+    })
+    if (!codecId) return
+
+    let codec: VideoCodec | null = null
+    stats.forEach((report: any) => {
+      if (report.type === 'codec' && report.id === codecId && typeof report.mimeType === 'string') {
+        codec = videoCodecOf(report.mimeType.replace(/^video\//i, ''), parseFmtp(report.sdpFmtpLine ?? ''))
+      }
+    })
+
+    this.codecRecorded = true
+    if (!codec || !this.deviceId || !this.peerDeviceId) return
+    this.rememberedCodec = codec
+    sessionLogger.logWebRTC('codec_negotiated', { role: this.role, codec })
+    connectionHistoryApi.recordVideoCodec(this.deviceId, this.peerDeviceId, codec).catch(() => {})
+  }
+
   /**
    * Handle received offer (director side)
    * 
-   * RACE CONDITION FIX: Guards against duplicate offers that can arrive
-   * when the camera sends multiple offers in quick succession
+   * Offers are answered one at a time, in the order they arrive
    */
-  private async handleOffer(offer: RTCSessionDescriptionInit) {
+  private handleOffer(offer: RTCSessionDescriptionInit): Promise<void> {
+    const run = this.remoteOfferQueue.then(() => this.answerOffer(offer))
+    this.remoteOfferQueue = run.catch(() => {})
+    return run
+  }
+
+  /**
+   * RACE CONDITION FIX: The same offer can arrive twice (a resend, or a
+   * director_ready restart racing the first offer). Only an offer with the
+   * session version already answered is dropped - a renegotiation or ICE
+   * restart bumps the version and always goes through.
+   */
+  private async answerOffer(offer: RTCSessionDescriptionInit) {
     if (!this.peerConnection) {
       sessionLogger.error('webrtc_handle_offer_no_peer_connection', new Error('No peer connection'))
       return
     }
 
     const signalingState = this.peerConnection.signalingState
-    const now = Date.now()
-    
-    // RACE CONDITION FIX: Ignore duplicate offers
-    // - If we're already handling an offer, skip this one
-    // - If signaling state is 'stable' and we received an offer < 2s ago, skip (duplicate)
-    // - If signaling state is 'have-remote-offer', we're mid-negotiation
-    if (this.isHandlingOffer) {
+    const origin = offer.sdp ? sessionOrigin(offer.sdp) : null
+
+    if (origin && origin === this.lastRemoteOfferOrigin) {
       sessionLogger.warn('ignoring_duplicate_offer', {
-        reason: 'already_handling_offer',
+        reason: 'session_version_already_answered',
         signalingState,
-        timeSinceLastOffer: now - this.lastOfferTime,
+        origin,
       })
       return
     }
-    
-    if (signalingState === 'stable' && this.lastOfferTime > 0 && (now - this.lastOfferTime) < 2000) {
-      sessionLogger.warn('ignoring_duplicate_offer', {
-        reason: 'recent_offer_already_processed',
-        signalingState,
-        timeSinceLastOffer: now - this.lastOfferTime,
-      })
+
+    // Glare - our own offer is in flight. The camera (impolite) keeps its
+    // offer, the director (polite) rolls its back and answers
+    const collision = this.makingOffer || signalingState !== 'stable'
+    if (collision && this.role !== 'director') {
+      sessionLogger.warn('ignoring_colliding_offer', { role: this.role, signalingState })
       return
     }
 
-    this.isHandlingOffer = true
-    this.lastOfferTime = now
-
     sessionLogger.logWebRTC('handling_offer', { 
       role: this.role,
       offerType: offer.type,
       hasSdp: !!offer.sdp,
       signalingState,
+      collision,
     })
 
     try {
+      if (collision && signalingState === 'have-local-offer') {
+        await this.peerConnection.setLocalDescription({ type: 'rollback' } as RTCSessionDescriptionInit)
+        sessionLogger.logWebRTC('local_offer_rolled_back', { role: this.role })
+      }
+
       await this.peerConnection.setRemoteDescription(
         new RTCSessionDescription(offer)
       )
       sessionLogger.logWebRTC('remote_description_set', { role: this.role })
 
+      // Answer with our push-to-talk mic on the camera's audio transceiver, if voice is on
+      await this.attachVoiceTrack()
+
+      await this.waitForRememberedCodec()
+      if (!this.peerConnection) return
       const answer = await this.peerConnection.createAnswer()
       
-      // Also prefer VP8 in answer for consistency
-      const modifiedSdp = this.preferVP8Codec(answer.sdp)
+      // The answer's order decides what the camera encodes with, and its b=AS
+      // caps the camera at the director's preset until stream_quality arrives
+      const { streamQuality } = useSettingsStore.getState().settings
+      const modifiedSdp = this.withoutHiddenCandidates(setVideoBandwidth(
+        this.applyCodecPolicy(answer.sdp, offer.sdp),
+        STREAM_PRESETS[streamQuality].maxBitrateBps
+      ))
       const modifiedAnswer = {
         type: answer.type,
         sdp: modifiedSdp,
@@ -791,11 +948,12 @@ class WebRTCService {
         type: 'answer',
         data: modifiedAnswer,
       })
+      this.lastRemoteOfferOrigin = origin
 
       sessionLogger.logWebRTC('answer_created', { 
         role: this.role,
         answerType: answer.type,
-        codecPreference: 'VP8',
+        origin,
       })
     } catch (error) {
       sessionLogger.error('webrtc_answer_failed', error, { 
@@ -806,8 +964,6 @@ class WebRTCService {
       if (!(error as Error)?.message?.includes('wrong state')) {
         this.callbacks.onError?.(error as Error)
       }
-    } finally {
-      this.isHandlingOffer = false
     }
   }
 
@@ -822,6 +978,7 @@ class WebRTCService {
         new RTCSessionDescription(answer)
       )
       sessionLogger.logWebRTC('answer_received')
+      this.releaseStableWaiters()
     } catch (error) {
       sessionLogger.error('webrtc_set_answer_failed', error)
     }
@@ -856,22 +1013,27 @@ class WebRTCService {
       if (event.candidate) {
         // Candidate types: 'host' (local), 'srflx' (STUN), 'relay' (TURN)
         // If all candidates are host/srflx and no 'relay', TURN is not working
-        const candidateType = event.candidate.type || 'unknown'
+        // react-native-webrtc only gives the candidate string, so read type etc. from it
+        const parsed = parseCandidate(event.candidate.candidate ?? '')
+        const candidateType = parsed?.type ?? 'unknown'
         const isRelay = candidateType === 'relay'
         
         sessionLogger.logWebRTC('ice_candidate_generated', {
           candidateType,           // 'host', 'srflx', 'relay'
           isRelay,                 // true = TURN is working
-          protocol: event.candidate.protocol || 'unknown',
-          address: event.candidate.address?.substring(0, 10) + '...',
+          protocol: parsed?.protocol ?? 'unknown',
+          address: parsed ? parsed.address.substring(0, 10) + '...' : 'unknown',
         })
         
         // Log specifically when we get a TURN relay candidate (good sign!)
         if (isRelay) {
           sessionLogger.info('turn_relay_candidate_found', {
             message: 'TURN server is working - relay candidate available',
-            protocol: event.candidate.protocol,
+            protocol: parsed?.protocol,
           })
+        } else if (this.relayOnly) {
+          // Relay-only - never send the partner this phone's own address
+          return
         }
         
         this.sendSignal({
@@ -1004,6 +1166,12 @@ class WebRTCService {
         streamsCount: event.streams?.length ?? 0,
       })
 
+      // Push-to-talk audio - keep it out of remoteStream so it can't replace the video
+      if (event.track.kind === 'audio') {
+        this.callbacks.onRemoteVoice?.()
+        return
+      }
+
       // IMPORTANT: Use event.streams[0] directly, don't create new MediaStream
       // Creating new MediaStream can cause blank video issues
       if (event.streams && event.streams.length > 0) {
@@ -1033,7 +1201,7 @@ class WebRTCService {
         }
 
         this.remoteStream = stream
-        this.callbacks.onRemoteStream?.(stream)
+        this.emitRemoteStream(stream)
       } else {
         // Fallback: create MediaStream from track (less reliable)
         sessionLogger.warn('no_streams_in_track_event', {
@@ -1050,7 +1218,7 @@ class WebRTCService {
           this.remoteStream = new MediaStream()
         }
         ;(this.remoteStream as any).addTrack?.(event.track)
-        this.callbacks.onRemoteStream?.(this.remoteStream as any)
+        this.emitRemoteStream(this.remoteStream as any)
       }
     }
 
@@ -1114,6 +1282,14 @@ class WebRTCService {
     this.healthCheckTimer = setInterval(() => {
       this.checkConnectionHealth()
     }, 10000)
+
+    // Only the camera sends video, so only it has an encoder to adapt
+    if (this.role === 'camera') {
+      void this.applyEncodingPlan(this.bitrateController.plan)
+      this.adaptationTimer = setInterval(() => {
+        this.adaptStream()
+      }, this.ADAPTATION_INTERVAL_MS)
+    }
     
     sessionLogger.logWebRTC('health_monitoring_started', { role: this.role })
   }
@@ -1126,6 +1302,10 @@ class WebRTCService {
       clearInterval(this.healthCheckTimer)
       this.healthCheckTimer = null
     }
+    if (this.adaptationTimer) {
+      clearInterval(this.adaptationTimer)
+      this.adaptationTimer = null
+    }
   }
 
   /**
@@ -1152,6 +1332,10 @@ class WebRTCService {
       
       if (hasActiveConnection) {
         this.consecutiveFailedStatsChecks = 0
+
+        if (!this.codecRecorded) {
+          this.recordNegotiatedCodec(stats)
+        }
         
         // Log stats periodically (every 30 seconds)
         if (now - this.lastStatsTime > 30000) {
@@ -1181,6 +1365,82 @@ class WebRTCService {
     }
   }
 
+  /**
+   * Set the stream quality preset and what to give up first when bandwidth
+   * runs short. Applied straight away if streaming, kept for the next connection otherwise.
+   */
+  async setStreamProfile(quality: StreamQuality, preference: StreamPreference): Promise<void> {
+    const plan = this.bitrateController.configure(quality, preference)
+    sessionLogger.logWebRTC('stream_profile_set', { quality, preference })
+    if (this.adaptationTimer) {
+      await this.applyEncodingPlan(plan)
+    }
+  }
+
+  /**
+   * Read RTT, loss and available bitrate and let the controller adjust the encoder
+   */
+  private async adaptStream() {
+    if (!this.peerConnection || this.peerConnection.connectionState !== 'connected') return
+
+    try {
+      const stats = await this.peerConnection.getStats()
+      let rttMs: number | null = null
+      let availableOutgoingBitrateBps: number | null = null
+      let packetsSent = 0
+      let packetsLost = 0
+
+      stats.forEach((report: any) => {
+        if (report.type === 'candidate-pair' && report.state === 'succeeded') {
+          if (typeof report.currentRoundTripTime === 'number') rttMs = Math.round(report.currentRoundTripTime * 1000)
+          if (typeof report.availableOutgoingBitrate === 'number') availableOutgoingBitrateBps = report.availableOutgoingBitrate
+        }
+        if (report.kind !== 'video' && report.mediaType !== 'video') return
+        if (report.type === 'outbound-rtp') {
+          packetsSent += report.packetsSent || 0
+        } else if (report.type === 'remote-inbound-rtp') {
+          packetsLost += Math.max(0, report.packetsLost || 0)
+        }
+      })
+
+      const plan = this.bitrateController.update({ rttMs, packetsSent, packetsLost, availableOutgoingBitrateBps })
+      if (plan && await this.applyEncodingPlan(plan)) {
+        sessionLogger.logWebRTC('stream_adapted', { rttMs, availableOutgoingBitrateBps, ...plan })
+      }
+    } catch (error) {
+      sessionLogger.warn('stream_adaptation_error', { error: (error as Error)?.message })
+    }
+  }
+
+  /**
+   * Push encoder settings to the video sender. Only a plan the sender took
+   * counts as applied - otherwise the next adaptation tick tries again.
+   */
+  private async applyEncodingPlan(plan: EncodingPlan): Promise<boolean> {
+    const sender = this.peerConnection?.getSenders().find((s: RTCRtpSender) => s.track?.kind === 'video')
+    if (!sender) return false
+
+    try {
+      const parameters = sender.getParameters() as RTCRtpSendParameters & {
+        degradationPreference?: EncodingPlan['degradationPreference']
+      }
+      // Not negotiated yet
+      if (!parameters.encodings?.length) return false
+
+      const encoding = parameters.encodings[0]
+      encoding.maxBitrate = plan.maxBitrateBps
+      encoding.maxFramerate = plan.maxFramerate
+      encoding.scaleResolutionDownBy = plan.scaleResolutionDownBy
+      parameters.degradationPreference = plan.degradationPreference
+      await sender.setParameters(parameters)
+      this.bitrateController.markApplied(plan)
+      return true
+    } catch (error) {
+      sessionLogger.warn('stream_encoding_apply_failed', { error: (error as Error)?.message })
+      return false
+    }
+  }
+
   /**
    * ANDROID FIX: Poll for remote stream when ontrack doesn't fire
    * Some Android devices/builds have a bug where ontrack never fires
@@ -1235,7 +1495,7 @@ class WebRTCService {
                   videoTracks: stream.getVideoTracks().length,
                 })
                 
-                this.callbacks.onRemoteStream?.(stream)
+                this.emitRemoteStream(stream)
                 return
               }
             }
@@ -1272,20 +1532,23 @@ class WebRTCService {
 
     sessionLogger.logWebRTC('attempting_ice_restart', { role: this.role })
 
-    try {
-      // Only camera (offerer) should initiate ICE restart
-      const offer = await this.peerConnection.createOffer({ iceRestart: true })
-      await this.peerConnection.setLocalDescription(offer)
-      
-      await this.sendSignal({
-        type: 'offer',
-        data: offer,
-      })
+    await this.queueOffer(async () => {
+      if (!this.peerConnection) return
+      try {
+        // Only camera (offerer) should initiate ICE restart
+        const offer = await this.peerConnection.createOffer({ iceRestart: true })
+        await this.peerConnection.setLocalDescription(offer)
+        
+        await this.sendSignal({
+          type: 'offer',
+          data: offer,
+        })
 
-      sessionLogger.logWebRTC('ice_restart_offer_sent', { role: this.role })
-    } catch (error) {
-      sessionLogger.error('ice_restart_failed', error)
-    }
+        sessionLogger.logWebRTC('ice_restart_offer_sent', { role: this.role })
+      } catch (error) {
+        sessionLogger.error('ice_restart_failed', error)
+      }
+    })
   }
 
   /**
@@ -1333,6 +1596,12 @@ class WebRTCService {
             case 'ice-candidate':
               this.handleIceCandidate(signal.data as RTCIceCandidateInit)
               break
+            case 'renegotiate':
+              if (this.role === 'camera') {
+                this.voiceRequested = true
+                this.createOffer()
+              }
+              break
           }
         })
         // Listen for director_ready signal to re-negotiate when director switches roles
@@ -1379,31 +1648,40 @@ class WebRTCService {
 
     sessionLogger.logWebRTC('handling_director_ready', { role: this.role })
 
-    try {
-      // Create a new offer to send to the director's new peer connection
-      const offer = await this.peerConnection.createOffer({
-        offerToReceiveVideo: true,
-        offerToReceiveAudio: false,
-        iceRestart: true, // Force ICE restart for new connection
-      })
+    // The director's new peer connection won't answer an offer made for the old one
+    await this.queueOffer(async () => {
+      if (!this.peerConnection) return
+      try {
+        // Create a new offer to send to the director's new peer connection
+        this.prepareVoiceTransceiver()
+        await this.attachVoiceTrack()
+        await this.waitForRememberedCodec()
+        if (!this.peerConnection) return
+
+        const offer = await this.peerConnection.createOffer({
+          offerToReceiveVideo: true,
+          offerToReceiveAudio: !!this.getAudioTransceiver(),
+          iceRestart: true, // Force ICE restart for new connection
+        })
 
-      const modifiedSdp = this.preferVP8Codec(offer.sdp)
-      const modifiedOffer = { type: offer.type, sdp: modifiedSdp }
+        const modifiedSdp = this.withoutHiddenCandidates(this.applyCodecPolicy(offer.sdp))
+        const modifiedOffer = { type: offer.type, sdp: modifiedSdp }
 
-      await this.peerConnection.setLocalDescription(modifiedOffer as RTCSessionDescriptionInit)
+        await this.peerConnection.setLocalDescription(modifiedOffer as RTCSessionDescriptionInit)
 
-      await this.sendSignal({
-        type: 'offer',
-        data: modifiedOffer,
-      })
+        await this.sendSignal({
+          type: 'offer',
+          data: modifiedOffer,
+        })
 
-      sessionLogger.logWebRTC('director_ready_offer_sent', { 
-        role: this.role,
-        offerType: offer.type,
-      })
-    } catch (error) {
-      sessionLogger.error('director_ready_offer_failed', error, { role: this.role })
-    }
+        sessionLogger.logWebRTC('director_ready_offer_sent', { 
+          role: this.role,
+          offerType: offer.type,
+        })
+      } catch (error) {
+        sessionLogger.error('director_ready_offer_failed', error, { role: this.role })
+      }
+    }, false)
   }
 
   /**
@@ -1478,7 +1756,7 @@ class WebRTCService {
   /**
    * Subscribe to commands from peer
    */
-  onCommand(callback: (command: string, data?: Record<string, unknown>) => void) {
+  onCommand(callback: TransportCommandHandler) {
     if (!this.channel) return
 
     this.channel.on('broadcast', { event: 'command' }, (payload) => {
@@ -1503,6 +1781,154 @@ class WebRTCService {
     return this.localStream
   }
 
+  getLocalMedia(): MediaHandle | null {
+    return this.localStream ? { kind: 'webrtc', stream: this.localStream } : null
+  }
+
+  /**
+   * Connection quality of the video stream since the previous call,
+   * from whichever side's stats this device has. Null when not connected.
+   */
+  async getQualitySample(): Promise<QualitySample | null> {
+    if (!this.peerConnection || this.peerConnection.connectionState !== 'connected') return null
+
+    try {
+      const stats = await this.peerConnection.getStats()
+      let rttMs: number | null = null
+      let fps: number | null = null
+      let total = 0
+      let lost = 0
+
+      stats.forEach((report: any) => {
+        if (report.type === 'candidate-pair' && report.state === 'succeeded' && typeof report.currentRoundTripTime === 'number') {
+          rttMs = Math.round(report.currentRoundTripTime * 1000)
+        }
+        if (report.kind !== 'video' && report.mediaType !== 'video') return
+        if (report.type === 'outbound-rtp') {
+          total += report.packetsSent || 0
+          if (typeof report.framesPerSecond === 'number') fps = report.framesPerSecond
+        } else if (report.type === 'remote-inbound-rtp') {
+          lost += Math.max(0, report.packetsLost || 0)
+        } else if (report.type === 'inbound-rtp') {
+          total += (report.packetsReceived || 0) + Math.max(0, report.packetsLost || 0)
+          lost += Math.max(0, report.packetsLost || 0)
+          if (typeof report.framesPerSecond === 'number') fps = report.framesPerSecond
+        }
+      })
+
+      const previous = this.lastQualityPackets
+      this.lastQualityPackets = { total, lost }
+      const totalDelta = previous ? total - previous.total : 0
+      const packetLossPct = previous && totalDelta > 0
+        ? Math.round(((lost - previous.lost) / totalDelta) * 1000) / 10
+        : null
+
+      return { score: scoreQuality(rttMs, packetLossPct, fps), rttMs, packetLossPct, fps }
+    } catch (error) {
+      sessionLogger.warn('quality_sample_error', { error: (error as Error)?.message })
+      return null
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────────
+  // Push-to-talk voice
+  // ─────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * Open the microphone and add it to the session, muted until setVoiceTalking(true).
+   * The peer connection is renegotiated in place - video keeps flowing.
+   */
+  async enableVoice(): Promise<void> {
+    if (this.voiceTrack) return
+    if (!isWebRTCAvailable) {
+      throw new Error('WebRTC not available')
+    }
+
+    const stream = await withTimeout<MediaStream>(
+      mediaDevices.getUserMedia({ audio: true, video: false }),
+      10000,
+      'TimeoutError'
+    )
+    const track = stream.getAudioTracks()[0]
+    if (!track) {
+      stream.getTracks().forEach(t => t.stop())
+      throw new Error('No microphone track')
+    }
+    track.enabled = false
+    this.voiceStream = stream
+    this.voiceTrack = track
+    sessionLogger.logWebRTC('voice_enabled', { role: this.role })
+
+    if (!this.peerConnection) return // Attached on the next offer / answer
+    if (this.role === 'camera') {
+      await this.createOffer()
+    } else {
+      // Only the camera makes offers - ask it for one that includes audio
+      await this.attachVoiceTrack()
+      await this.sendSignal({ type: 'renegotiate' })
+    }
+  }
+
+  /**
+   * Close the microphone. The audio transceiver stays negotiated but silent,
+   * so turning voice off needs no renegotiation.
+   */
+  async disableVoice(): Promise<void> {
+    if (!this.voiceTrack) return
+    try {
+      await this.getAudioTransceiver()?.sender.replaceTrack(null)
+    } catch (error) {
+      sessionLogger.warn('voice_detach_failed', { error: (error as Error)?.message })
+    }
+    this.stopVoiceTrack()
+    sessionLogger.logWebRTC('voice_disabled', { role: this.role })
+  }
+
+  /**
+   * Unmute while the talk button is held
+   */
+  setVoiceTalking(talking: boolean) {
+    if (this.voiceTrack) {
+      this.voiceTrack.enabled = talking
+    }
+  }
+
+  isVoiceEnabled(): boolean {
+    return !!this.voiceTrack
+  }
+
+  private getAudioTransceiver(): RTCRtpTransceiver | null {
+    const transceivers = this.peerConnection?.getTransceivers?.() ?? []
+    return transceivers.find(t => t.receiver.track?.kind === 'audio') ?? null
+  }
+
+  /**
+   * Camera side: make sure the next offer carries an audio m-line, so the
+   * director can talk even when the camera's own mic is off
+   */
+  private prepareVoiceTransceiver() {
+    if (this.role !== 'camera' || !this.peerConnection || this.getAudioTransceiver()) return
+    if (!this.voiceTrack && !this.voiceRequested) return
+    this.peerConnection.addTransceiver('audio', { direction: 'sendrecv' })
+  }
+
+  private async attachVoiceTrack() {
+    const transceiver = this.getAudioTransceiver()
+    if (!transceiver || !this.voiceTrack) return
+    await transceiver.sender.replaceTrack(this.voiceTrack)
+    transceiver.direction = 'sendrecv'
+  }
+
+  private stopVoiceTrack() {
+    try {
+      this.voiceStream?.getTracks().forEach(track => track.stop())
+    } catch {
+      // Track may already be stopped
+    }
+    this.voiceStream = null
+    this.voiceTrack = null
+  }
+
   /**
    * Get remote stream
    */
@@ -1510,6 +1936,15 @@ class WebRTCService {
     return this.remoteStream
   }
 
+  getRemoteMedia(): MediaHandle | null {
+    return this.remoteStream ? { kind: 'webrtc', stream: this.remoteStream } : null
+  }
+
+  private emitRemoteStream(stream: MediaStream) {
+    this.callbacks.onRemoteStream?.(stream)
+    this.callbacks.onRemoteMedia?.({ kind: 'webrtc', stream })
+  }
+
   /**
    * Internal cleanup (doesn't reset initialization state)
    * Made defensive to handle concurrent calls safely
@@ -1527,14 +1962,20 @@ class WebRTCService {
     })
     
     // Reset offer handling state
-    this.isHandlingOffer = false
-    this.lastOfferTime = 0
+    this.offerQueue = Promise.resolve()
+    this.remoteOfferQueue = Promise.resolve()
+    this.makingOffer = false
+    this.lastRemoteOfferOrigin = null
+    this.releaseStableWaiters()
     
     // Clear ICE timeout and health monitoring
     this.clearIceTimeout()
     this.stopHealthMonitoring()
     this.iceCheckingStartTime = null
     this.consecutiveFailedStatsChecks = 0
+    this.lastQualityPackets = null
+    this.bitrateController.reset()
+    this.codecRecorded = false
     
     // Stop local tracks
     try {
@@ -1553,6 +1994,8 @@ class WebRTCService {
       sessionLogger.warn('cleanup_stop_tracks_error', { error: (e as Error)?.message })
     }
     this.localStream = null
+    this.stopVoiceTrack()
+    this.voiceRequested = false
 
     // ANDROID FIX: Clear event handlers BEFORE closing to prevent stale callbacks
     // from the old connection interfering with the new one
@@ -5,6 +5,7 @@
 
 import { create } from 'zustand'
 import AsyncStorage from '@react-native-async-storage/async-storage'
+import type { ConnectionMode } from '../types'
 
 // Connection history item
 export interface ConnectionHistoryItem {
@@ -32,6 +33,8 @@ interface PairingState {
   partnerLastSeenAt: string | null
   sessionId: string | null
   role: 'camera' | 'viewer' | null
+  // 'lan' pairs and connects over local Wi-Fi only, without Supabase
+  connectionMode: ConnectionMode
   isPaired: boolean
   hasSetupProfile: boolean
   // Connection history (multi-session support)
@@ -46,6 +49,7 @@ interface PairingState {
   setPartnerPresence: (isOnline: boolean) => void
   setSessionId: (id: string | null) => Promise<void>
   setRole: (role: 'camera' | 'viewer') => Promise<void>
+  setConnectionMode: (mode: ConnectionMode) => Promise<void>
   setHasSetupProfile: (value: boolean) => Promise<void>
   clearPairing: () => Promise<void>
   loadFromStorage: () => Promise<void>
@@ -67,6 +71,7 @@ export const usePairingStore = create<PairingState>((set, get) => ({
   partnerLastSeenAt: null,
   sessionId: null,
   role: null,
+  connectionMode: 'cloud',
   isPaired: false,
   hasSetupProfile: false,
   connectionHistory: [],
@@ -124,6 +129,11 @@ export const usePairingStore = create<PairingState>((set, get) => ({
     set({ role })
   },
 
+  setConnectionMode: async (mode) => {
+    await AsyncStorage.setItem('connectionMode', mode)
+    set({ connectionMode: mode })
+  },
+
   setHasSetupProfile: async (value) => {
     await AsyncStorage.setItem('hasSetupProfile', value ? 'true' : 'false')
     set({ hasSetupProfile: value })
@@ -148,11 +158,12 @@ export const usePairingStore = create<PairingState>((set, get) => ({
       set({ connectionHistory: updatedHistory })
     }
     
-    await AsyncStorage.multiRemove(['pairedDeviceId', 'sessionId', 'role'])
+    await AsyncStorage.multiRemove(['pairedDeviceId', 'sessionId', 'role', 'connectionMode'])
     set({ 
       pairedDeviceId: null, 
       sessionId: null, 
       role: null, 
+      connectionMode: 'cloud',
       isPaired: false,
       partnerDisplayName: null,
       partnerAvatar: '👤',
@@ -164,13 +175,14 @@ export const usePairingStore = create<PairingState>((set, get) => ({
 
   loadFromStorage: async () => {
     try {
-      const [myDeviceId, myDisplayName, myAvatar, pairedDeviceId, sessionId, role, hasSetupProfile, connectionHistoryStr] = await AsyncStorage.multiGet([
+      const [myDeviceId, myDisplayName, myAvatar, pairedDeviceId, sessionId, role, connectionMode, hasSetupProfile, connectionHistoryStr] = await AsyncStorage.multiGet([
         'myDeviceId',
         'myDisplayName',
         'myAvatar',
         'pairedDeviceId',
         'sessionId',
         'role',
+        'connectionMode',
         'hasSetupProfile',
         'connectionHistory',
       ])
@@ -191,6 +203,7 @@ export const usePairingStore = create<PairingState>((set, get) => ({
         pairedDeviceId: pairedDeviceId[1],
         sessionId: sessionId[1],
         role: role[1] as 'camera' | 'viewer' | null,
+        connectionMode: connectionMode[1] === 'lan' ? 'lan' : 'cloud',
         isPaired: !!pairedDeviceId[1],
         hasSetupProfile: hasSetupProfile[1] === 'true',
         connectionHistory,
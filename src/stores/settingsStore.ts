@@ -4,12 +4,34 @@
 
 import { create } from 'zustand'
 import AsyncStorage from '@react-native-async-storage/async-storage'
+import type { CompositionOverlay, SpiralRotation, StreamPreference } from '../schemas/commands'
+import type { CameraSettings } from '../types'
+import type { CodecPolicy } from '../services/sdp'
+
+/** How many of their own quick phrases a director can save */
+export const MAX_CUSTOM_PHRASES = 12
 
 interface Settings {
   showGrid: boolean
+  /** Which overlay `showGrid` shows */
+  compositionOverlay: CompositionOverlay
+  spiralRotation: SpiralRotation
   flash: boolean
   sound: boolean
   autoSave: boolean
+  /** Hold-to-talk voice to the partner - off by default, the mic stays closed until enabled */
+  pushToTalk: boolean
+  /** Read incoming directions aloud on the photographer's phone */
+  spokenDirections: boolean
+  /** Director's own quick phrases, shown after the presets */
+  customPhrases: string[]
+  /** Live stream preset the director asks the camera for */
+  streamQuality: CameraSettings['quality']
+  streamPreference: StreamPreference
+  /** Video codec to put first when connecting - 'auto' picks from what both phones support */
+  videoCodec: CodecPolicy
+  /** Connect through TURN relays only, so the partner never sees this phone's IP address */
+  relayOnly: boolean
   // Accessibility settings
   reduceMotion: boolean
   reduceHaptics: boolean
@@ -23,9 +45,18 @@ interface SettingsState {
 
 const defaultSettings: Settings = {
   showGrid: true,
+  compositionOverlay: 'thirds',
+  spiralRotation: 0,
   flash: false,
   sound: true,
   autoSave: true,
+  pushToTalk: false,
+  spokenDirections: false,
+  customPhrases: [],
+  streamQuality: 'medium',
+  streamPreference: 'smoothness',
+  videoCodec: 'auto',
+  relayOnly: false,
   // Accessibility - defaults to system preference where possible
   reduceMotion: false,
   reduceHaptics: false,
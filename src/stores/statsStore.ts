@@ -49,10 +49,10 @@ export const useStatsStore = create<StatsState>((set, get) => ({
     await AsyncStorage.setItem('stats', JSON.stringify(newStats))
     set({ stats: newStats })
     
-    // Sync to Supabase in background
+    // Sync to Supabase in background (queued while offline)
     const { deviceId } = get()
     if (deviceId) {
-      statsApi.incrementPhotos(deviceId, 'taken').catch(() => {})
+      void statsApi.incrementPhotos(deviceId, 'taken')
     }
   },
 
@@ -65,10 +65,10 @@ export const useStatsStore = create<StatsState>((set, get) => ({
     await AsyncStorage.setItem('stats', JSON.stringify(newStats))
     set({ stats: newStats })
     
-    // Sync to Supabase in background
+    // Sync to Supabase in background (queued while offline)
     const { deviceId } = get()
     if (deviceId) {
-      statsApi.addXP(deviceId, 10).catch(() => {})
+      void statsApi.addXP(deviceId, 10)
     }
   },
 
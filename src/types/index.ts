@@ -2,6 +2,8 @@
  * Core types for the app
  */
 
+import type { CompositionOverlay, SpiralRotation } from '../schemas/commands'
+
 export type DeviceRole = 'camera' | 'viewer'
 
 export type ConnectionStatus = 
@@ -54,11 +56,50 @@ export interface ApiError {
   error: string | { fieldErrors?: Record<string, string[]>; formErrors?: string[] }
 }
 
+/** Manual controls the camera can apply with its current preview source */
+export interface CameraControlSupport {
+  zoom: boolean
+  lens: boolean
+}
+
 export interface CameraSettings {
   quality: 'low' | 'medium' | 'high'
   fps: 10 | 15 | 30
   flashMode: 'off' | 'on' | 'auto'
   cameraPosition: 'front' | 'back'
+  /** 0 (widest) - 1 (maximum zoom of the active lens) */
+  zoom: number
+  /** Selected back lens as named by the device; null = system default */
+  lens: string | null
+  availableLenses: string[]
+  supported: CameraControlSupport
+}
+
+/** Manual controls the camera reports back so the director's controls show what was applied */
+export type CameraControlState = Pick<
+  CameraSettings,
+  'zoom' | 'lens' | 'availableLenses' | 'supported'
+>
+
+export type DeviceOrientation = 'portrait' | 'landscape'
+
+/** What the camera is actually doing - published on every change and on a heartbeat */
+export interface CameraStateSnapshot extends CameraControlState {
+  facing: CameraSettings['cameraPosition']
+  flashMode: CameraSettings['flashMode']
+  grid: {
+    visible: boolean
+    overlay: CompositionOverlay
+    spiralRotation: SpiralRotation
+  }
+  /** 0 - 1, null when the device doesn't report it */
+  batteryLevel: number | null
+  /** Free space for photos in MB, null when unknown */
+  storageFreeMb: number | null
+  /** How the photographer is holding the phone, null while it lies flat */
+  orientation: DeviceOrientation | null
+  /** Degrees off level, whole degrees - only reported while the level overlay is on */
+  roll: number | null
 }
 
 export interface StreamSettings {
@@ -76,22 +117,116 @@ export type P2PMessageType =
   | 'capture_response'
   | 'settings_update'
   | 'disconnect'
+  | 'command'
+  | 'pair_request'
+  | 'pair_response'
+  | 'pair_confirm'
+  | 'pair_result'
+  | 'ack'
 
 export interface P2PMessage<T = unknown> {
   type: P2PMessageType
   payload: T
   timestamp: number
   sequence: number
+  /** Sender's socket session - `sequence` restarts when it changes */
+  epoch?: string
+  /** Present on messages sent through the reliable channel */
+  reliable?: P2PReliableHeader
+}
+
+export interface P2PReliableHeader {
+  epoch: string
+  seq: number
+  first: number
+}
+
+/** Payload of an 'ack' message */
+export interface P2PAck {
+  epoch: string
+  ack: number
+  sack: number[]
 }
 
 export interface CaptureRequest {
   requestId: string
 }
 
+/** How a paired couple's phones reach each other */
+export type ConnectionMode = 'cloud' | 'lan'
+
+/**
+ * LAN pairing, joining phone -> showing phone: its SPAKE2 share (lanAuth.ts).
+ * The code itself is never sent.
+ */
+export interface LanPairRequest {
+  deviceId: string
+  share: string
+  displayName?: string
+  avatar?: string
+}
+
+/** Showing phone's share and proof it showed the code - or why it won't pair */
+export interface LanPairResponse {
+  deviceId?: string
+  sessionId?: string
+  share?: string
+  confirm?: string
+  displayName?: string
+  avatar?: string
+  reason?: 'locked'
+}
+
+/** Joining phone's proof it typed the code - `share` names the exchange */
+export interface LanPairConfirm {
+  deviceId: string
+  share: string
+  confirm: string
+}
+
+/** Whether the showing phone took the joining phone's proof */
+export interface LanPairResult {
+  accepted: boolean
+  reason?: 'wrong_code' | 'locked'
+}
+
+/** A remote command carried over the LAN socket - same shape as the WebRTC channel's */
+export interface LanCommandMessage {
+  command: string
+  data?: Record<string, unknown>
+}
+
 export interface CaptureResponse {
   requestId: string
   success: boolean
   savedPath?: string
+  /** Row id in the captures table, when the photo was recorded there */
+  captureId?: string
+  /** Set for burst captures - captureId is then the default best frame */
+  burstId?: string
+  frameCount?: number
   error?: string
 }
 
+
+/** One connection quality reading from the live stream's stats */
+export interface QualitySample {
+  /** 0 (unusable) - 10 (perfect) */
+  score: number
+  rttMs: number | null
+  /** Share of video packets lost since the previous sample, 0 - 100 */
+  packetLossPct: number | null
+  fps: number | null
+}
+
+/**
+ * Entry in a session recording's timeline, stored as session_recordings.events.
+ * Command details are the command's own fields (direction, magnitude, phrase...).
+ */
+export type SessionTimelineEvent =
+  | { timestamp: string; type: 'command'; data: { command: string } & Record<string, string | number | boolean> }
+  /** `localId` is set for every capture; `captureId` only once a captures row was saved */
+  | { timestamp: string; type: 'capture'; data: { localId?: string; captureId?: string; frameCount?: number } }
+  | { timestamp: string; type: 'disconnect'; data: { state: string } }
+  | { timestamp: string; type: 'reconnect'; data: Record<string, never> }
+  | { timestamp: string; type: 'quality'; data: QualitySample }
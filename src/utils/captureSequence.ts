@@ -0,0 +1,55 @@
+/**
+ * Capture Sequence Planning
+ *
+ * Turns a capture mode into the list of frames the camera should take.
+ * - single: one frame
+ * - burst: N frames at a fixed interval, so one of them catches open eyes
+ *
+ * There is no exposure bracket: expo-camera can't set exposure compensation
+ * per shot, so every frame is taken with auto-exposure.
+ */
+
+import type { CaptureMode } from '../schemas/commands'
+
+export interface CaptureFrame {
+  index: number
+  /** Wait before taking this frame (0 for the first) */
+  delayMs: number
+}
+
+export interface CapturePlan {
+  mode: CaptureMode
+  frames: CaptureFrame[]
+  /** Frame pre-selected as best before the user picks one */
+  defaultBestIndex: number
+}
+
+export const DEFAULT_BURST_FRAMES = 5
+export const DEFAULT_BURST_INTERVAL_MS = 200
+
+/** Choices offered on the director's screen - all within the command schema's limits */
+export const BURST_FRAME_OPTIONS = [3, 5, 8, 10] as const
+export const BURST_INTERVAL_OPTIONS_MS = [100, 200, 500, 1000] as const
+
+export function planCaptureSequence(options: {
+  mode?: CaptureMode
+  frames?: number
+  intervalMs?: number
+}): CapturePlan {
+  const mode = options.mode ?? 'single'
+
+  if (mode === 'burst') {
+    const count = options.frames ?? DEFAULT_BURST_FRAMES
+    const interval = options.intervalMs ?? DEFAULT_BURST_INTERVAL_MS
+    return {
+      mode,
+      frames: Array.from({ length: count }, (_, index) => ({
+        index,
+        delayMs: index === 0 ? 0 : interval,
+      })),
+      defaultBestIndex: 0,
+    }
+  }
+
+  return { mode: 'single', frames: [{ index: 0, delayMs: 0 }], defaultBestIndex: 0 }
+}
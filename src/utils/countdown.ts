@@ -0,0 +1,32 @@
+/**
+ * Countdown Timing
+ *
+ * Self-timer countdowns are scheduled against a shared start timestamp:
+ * the director sends `startAt` once, and each device derives every tick
+ * locally from it. Nothing is sent per tick, so network jitter only
+ * affects when the countdown appears, not when it ends.
+ */
+
+/** Head start for the command to reach the camera before the first tick */
+export const COUNTDOWN_LEAD_MS = 500
+
+/**
+ * Device clocks further apart than this are treated as unsynced -
+ * the receiver then counts from the moment the command arrived.
+ */
+export const MAX_CLOCK_SKEW_MS = 5000
+
+/**
+ * Epoch ms at which the countdown reaches zero on this device
+ */
+export function resolveFireAt(startAt: number, seconds: number, now = Date.now()): number {
+  const start = Math.abs(startAt - now) > MAX_CLOCK_SKEW_MS ? now : startAt
+  return start + seconds * 1000
+}
+
+/**
+ * Whole seconds left to display - 0 once the countdown has fired
+ */
+export function getRemainingSeconds(fireAt: number, now = Date.now()): number {
+  return Math.max(0, Math.ceil((fireAt - now) / 1000))
+}
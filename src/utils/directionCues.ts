@@ -0,0 +1,59 @@
+/**
+ * Direction cues for the photographer, who is usually looking at the subject
+ * rather than the screen: a distinct haptic pattern per direction, and the
+ * direction read aloud in the app's language when spoken directions are on.
+ */
+
+import * as Speech from 'expo-speech'
+import { useSettingsStore } from '../stores/settingsStore'
+import { useLanguageStore } from '../stores/languageStore'
+import type { Language } from '../i18n/translations'
+import { DEFAULT_DIRECTION_MAGNITUDE } from '../schemas/commands'
+import { directionHaptic, type DirectionCue } from './haptics'
+
+/** Magnitude bands that change the wording - in between is a normal step */
+export type MagnitudeLevel = 'tiny' | 'normal' | 'large'
+
+const TINY_MAGNITUDE = 0.3
+const LARGE_MAGNITUDE = 0.75
+
+export function magnitudeLevel(magnitude: number = DEFAULT_DIRECTION_MAGNITUDE): MagnitudeLevel {
+  if (magnitude < TINY_MAGNITUDE) return 'tiny'
+  if (magnitude > LARGE_MAGNITUDE) return 'large'
+  return 'normal'
+}
+
+/** Text-to-speech voice locale for each app language */
+const SPEECH_LOCALES: Record<Language, string> = {
+  en: 'en-US',
+  th: 'th-TH',
+  zh: 'zh-CN',
+  ja: 'ja-JP',
+}
+
+/**
+ * Read a prompt aloud. A new prompt cuts off one still being read -
+ * the latest direction is the one that matters.
+ */
+export function speakPrompt(text: string, language: Language) {
+  void Speech.stop()
+  Speech.speak(text, { language: SPEECH_LOCALES[language], rate: 1.05 })
+}
+
+/**
+ * Haptic pattern plus (if enabled) the spoken prompt for a direction,
+ * with "just a tiny bit" / "a lot" added for small and large magnitudes
+ */
+export function cueDirection(cue: DirectionCue, magnitude?: number) {
+  void directionHaptic(cue)
+
+  const { settings } = useSettingsStore.getState()
+  if (!settings.spokenDirections) return
+
+  const { language, t } = useLanguageStore.getState()
+  const level = cue === 'hold' ? 'normal' : magnitudeLevel(magnitude)
+  const prompt = level === 'normal'
+    ? t.camera.spoken[cue]
+    : `${t.camera.spoken[cue]}, ${t.camera.spokenAmount[level]}`
+  speakPrompt(prompt, language)
+}
@@ -11,6 +11,7 @@
 
 import * as Haptics from 'expo-haptics'
 import { useSettingsStore } from '../stores/settingsStore'
+import type { Direction } from '../schemas/commands'
 
 export type HapticType = 
   | 'selection'    // Light tap for selections, toggles
@@ -133,3 +134,63 @@ export async function selectionTick(): Promise<void> {
   }
 }
 
+/** Incoming directions, plus "hold it" when the shot is about to be taken */
+export type DirectionCue = Direction | 'hold'
+
+type HapticPulse = 'light' | 'medium' | 'heavy'
+
+/**
+ * One pattern per direction, so the photographer can tell them apart
+ * without looking: sideways = light taps (2 left, 3 right), vertical = heavy
+ * thumps (1 up, 2 down), distance = a ramp (rising closer, falling back).
+ * Tilt = medium thumps (1 up, 2 down), rotation = a medium tap leading
+ * (clockwise) or trailing (counter-clockwise), height = a two-step ramp
+ */
+const DIRECTION_PATTERNS: Record<Direction, HapticPulse[]> = {
+  left: ['light', 'light'],
+  right: ['light', 'light', 'light'],
+  up: ['heavy'],
+  down: ['heavy', 'heavy'],
+  closer: ['light', 'medium', 'heavy'],
+  back: ['heavy', 'medium', 'light'],
+  tilt_up: ['medium'],
+  tilt_down: ['medium', 'medium'],
+  rotate_cw: ['medium', 'light', 'light'],
+  rotate_ccw: ['light', 'light', 'medium'],
+  raise: ['medium', 'heavy'],
+  lower: ['heavy', 'medium'],
+}
+
+const PULSE_GAP_MS = 120
+
+/**
+ * Direction pattern - distinct per direction, success buzz for "hold"
+ */
+export async function directionHaptic(cue: DirectionCue): Promise<void> {
+  const { settings } = useSettingsStore.getState()
+  if (settings.reduceHaptics) return
+
+  try {
+    if (cue === 'hold') {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success)
+      return
+    }
+
+    const styles = {
+      light: Haptics.ImpactFeedbackStyle.Light,
+      medium: Haptics.ImpactFeedbackStyle.Medium,
+      heavy: Haptics.ImpactFeedbackStyle.Heavy,
+    }
+    const pattern = DIRECTION_PATTERNS[cue]
+    for (let i = 0; i < pattern.length; i++) {
+      if (i > 0) {
+        // eslint-disable-next-line no-await-in-loop
+        await new Promise<void>((resolve) => setTimeout(resolve, PULSE_GAP_MS))
+      }
+      // eslint-disable-next-line no-await-in-loop
+      await Haptics.impactAsync(styles[pattern[i]])
+    }
+  } catch {
+    // Silent fail
+  }
+}
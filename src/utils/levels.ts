@@ -0,0 +1,6 @@
+/**
+ * Experience level curve: level 2 at 100 XP, 3 at 400, 4 at 900...
+ */
+export function levelForXP(experiencePoints: number): number {
+  return Math.floor(Math.sqrt(Math.max(0, experiencePoints) / 100)) + 1
+}
@@ -0,0 +1,224 @@
+/**
+ * TURN Credentials Edge Function
+ *
+ * Mints time-limited credentials for a self-hosted coturn server, using its
+ * REST API scheme (`use-auth-secret` + `static-auth-secret` in turnserver.conf):
+ * username is "<expiry unix time>:<deviceId>", password is
+ * base64(HMAC-SHA1(shared secret, username)). coturn checks both itself, so
+ * the secret never leaves the server.
+ *
+ * Only devices in a paired session get credentials.
+ *
+ * POST /functions/v1/turn-credentials
+ * Body: { deviceId: string, sessionId: string }
+ * Returns: { success: true, iceServers: [{ urls, username, credential }], ttl: number, expiresAt: string }
+ *
+ * Secrets:
+ * - TURN_SHARED_SECRET: coturn's static-auth-secret
+ * - TURN_URLS: comma-separated, e.g. "turn:turn.example.com:3478,turns:turn.example.com:5349?transport=tcp"
+ * - TURN_CREDENTIAL_TTL: seconds the credentials stay valid (default 3600)
+ */
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// CORS Headers
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+const DEFAULT_TTL_SECONDS = 3600
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Validation
+// ─────────────────────────────────────────────────────────────────────────────────
+
+function isValidUUID(str: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+  return uuidRegex.test(str)
+}
+
+interface TurnCredentialsInput {
+  deviceId: string
+  sessionId: string
+}
+
+function validateInput(data: unknown): { valid: true; data: TurnCredentialsInput } | { valid: false; error: string } {
+  if (!data || typeof data !== 'object') {
+    return { valid: false, error: 'Invalid request body' }
+  }
+
+  const body = data as Record<string, unknown>
+
+  if (typeof body.deviceId !== 'string' || !isValidUUID(body.deviceId)) {
+    return { valid: false, error: 'Invalid deviceId: must be a valid UUID' }
+  }
+
+  if (typeof body.sessionId !== 'string' || !isValidUUID(body.sessionId)) {
+    return { valid: false, error: 'Invalid sessionId: must be a valid UUID' }
+  }
+
+  return {
+    valid: true,
+    data: {
+      deviceId: body.deviceId,
+      sessionId: body.sessionId,
+    },
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Rate Limiting (simple in-memory)
+// ─────────────────────────────────────────────────────────────────────────────────
+
+const rateLimitStore = new Map<string, { count: number; resetAt: number }>()
+
+function checkRateLimit(identifier: string, maxRequests = 10, windowMs = 60000): boolean {
+  const now = Date.now()
+  const entry = rateLimitStore.get(identifier)
+
+  if (!entry || entry.resetAt < now) {
+    rateLimitStore.set(identifier, { count: 1, resetAt: now + windowMs })
+    return true
+  }
+
+  if (entry.count >= maxRequests) {
+    return false
+  }
+
+  entry.count++
+  return true
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Credentials
+// ─────────────────────────────────────────────────────────────────────────────────
+
+async function hmacSha1Base64(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message))
+  return btoa(String.fromCharCode(...new Uint8Array(signature)))
+}
+
+// ─────────────────────────────────────────────────────────────────────────────────
+// Main Handler
+// ─────────────────────────────────────────────────────────────────────────────────
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  // Only accept POST
+  if (req.method !== 'POST') {
+    return new Response(
+      JSON.stringify({ success: false, error: 'Method not allowed' }),
+      { status: 405, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+
+  try {
+    const sharedSecret = Deno.env.get('TURN_SHARED_SECRET')
+    const turnUrls = (Deno.env.get('TURN_URLS') ?? '')
+      .split(',')
+      .map(url => url.trim())
+      .filter(Boolean)
+    const ttl = Number(Deno.env.get('TURN_CREDENTIAL_TTL')) || DEFAULT_TTL_SECONDS
+
+    if (!sharedSecret || turnUrls.length === 0) {
+      console.error('TURN not configured:', { hasSecret: !!sharedSecret, urlCount: turnUrls.length })
+      return new Response(
+        JSON.stringify({ success: false, error: 'TURN not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Parse body
+    const body = await req.json()
+
+    // Validate input
+    const validation = validateInput(body)
+    if (!validation.valid) {
+      return new Response(
+        JSON.stringify({ success: false, error: validation.error }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { deviceId, sessionId } = validation.data
+
+    // Rate limiting by device
+    if (!checkRateLimit(deviceId)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Rate limit exceeded. Try again later.' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseKey) {
+      console.error('Missing env vars:', { hasUrl: !!supabaseUrl, hasKey: !!supabaseKey })
+      return new Response(
+        JSON.stringify({ success: false, error: 'Server configuration error' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    // The device must be one of the two phones in a paired session
+    const { data: session } = await supabase
+      .from('pairing_sessions')
+      .select('id')
+      .eq('id', sessionId)
+      .eq('status', 'paired')
+      .or(`device_id.eq.${deviceId},partner_device_id.eq.${deviceId}`)
+      .maybeSingle()
+
+    if (!session) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Not in a paired session' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const expiresAtSeconds = Math.floor(Date.now() / 1000) + ttl
+    const username = `${expiresAtSeconds}:${deviceId}`
+    const credential = await hmacSha1Base64(sharedSecret, username)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        iceServers: [{ urls: turnUrls, username, credential }],
+        ttl,
+        expiresAt: new Date(expiresAtSeconds * 1000).toISOString(),
+      }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (error) {
+    console.error('TURN credentials error:', error)
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
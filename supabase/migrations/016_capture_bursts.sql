@@ -0,0 +1,16 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Capture Bursts
+-- Burst captures are stored as one row per frame,
+-- grouped by burst_id. One frame per burst is marked as the best frame
+-- and shown in the gallery grid.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE captures ADD COLUMN IF NOT EXISTS burst_id UUID;
+ALTER TABLE captures ADD COLUMN IF NOT EXISTS burst_index SMALLINT;
+ALTER TABLE captures ADD COLUMN IF NOT EXISTS is_best_frame BOOLEAN DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_captures_burst ON captures(burst_id, burst_index) WHERE burst_id IS NOT NULL;
+
+-- Only one best frame per burst
+CREATE UNIQUE INDEX IF NOT EXISTS idx_captures_burst_best
+  ON captures(burst_id) WHERE burst_id IS NOT NULL AND is_best_frame = true;
@@ -0,0 +1,19 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Capture Delivery
+-- Photos taken on the camera are uploaded to storage and delivered to the
+-- director's gallery. The director listens for captures addressed to it
+-- (viewer_device_id) through Realtime, so the table must be published.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+CREATE INDEX IF NOT EXISTS idx_captures_viewer ON captures(viewer_device_id, created_at DESC)
+  WHERE viewer_device_id IS NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'captures'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE captures;
+  END IF;
+END $$;
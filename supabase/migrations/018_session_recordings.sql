@@ -0,0 +1,15 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Session Recordings
+-- The camera keeps a timeline of each session (commands received, captures,
+-- disconnects, connection quality samples) and writes one session_recordings
+-- row when the session ends. Both partners can list their recordings for the
+-- replay screen, so lookups go by either device.
+--
+-- The per-direction columns from 014 only cover the original six directions;
+-- counts for every direction (tilt, rotate, raise/lower...) go in direction_counts.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE session_recordings ADD COLUMN IF NOT EXISTS direction_counts JSONB DEFAULT '{}'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_recordings_viewer ON session_recordings(viewer_device_id);
+CREATE INDEX IF NOT EXISTS idx_recordings_started ON session_recordings(started_at DESC);
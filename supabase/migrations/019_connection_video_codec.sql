@@ -0,0 +1,12 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Remembered Video Codec
+-- Each phone writes the video codec that actually carried frames onto its
+-- connection_history row. The next session between the same two phones
+-- starts with that codec when the codec policy is 'auto'.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+ALTER TABLE connection_history ADD COLUMN IF NOT EXISTS video_codec TEXT
+    CHECK (video_codec IN ('vp8', 'vp9', 'h264_baseline', 'h264_high'));
+
+CREATE INDEX IF NOT EXISTS idx_connection_history_pair
+    ON connection_history(device_id, partner_device_id, connected_at DESC);
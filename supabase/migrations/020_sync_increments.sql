@@ -0,0 +1,55 @@
+-- ═══════════════════════════════════════════════════════════════════════════════
+-- Idempotent Sync Increments
+-- Counters queued offline (photos taken, experience points) are added on the
+-- server rather than read, added to and written back by the phone. Each queued
+-- write carries its own id; a write replayed after its response was lost finds
+-- its id already in applied_sync_ops and adds nothing.
+-- ═══════════════════════════════════════════════════════════════════════════════
+
+CREATE TABLE IF NOT EXISTS applied_sync_ops (
+  id UUID PRIMARY KEY,                       -- the queued write's id
+  device_id VARCHAR(255) NOT NULL,
+  applied_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_applied_sync_ops_applied ON applied_sync_ops(applied_at);
+
+ALTER TABLE applied_sync_ops ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "applied_sync_ops_policy" ON applied_sync_ops;
+CREATE POLICY "applied_sync_ops_policy" ON applied_sync_ops FOR ALL USING (true) WITH CHECK (true);
+
+-- Add a queued write's counters to user_stats, once per op id.
+-- Returns false when the op was already applied.
+CREATE OR REPLACE FUNCTION apply_user_stats_increment(
+  p_op_id UUID,
+  p_key VARCHAR,
+  p_increments JSONB
+) RETURNS BOOLEAN AS $$
+BEGIN
+  INSERT INTO applied_sync_ops (id, device_id)
+  VALUES (p_op_id, p_key)
+  ON CONFLICT (id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO user_stats (device_id)
+  VALUES (p_key)
+  ON CONFLICT (device_id) DO NOTHING;
+
+  UPDATE user_stats SET
+    photos_taken = COALESCE(photos_taken, 0) + COALESCE((p_increments->>'photos_taken')::INTEGER, 0),
+    photos_helped = COALESCE(photos_helped, 0) + COALESCE((p_increments->>'photos_helped')::INTEGER, 0),
+    photos_received = COALESCE(photos_received, 0) + COALESCE((p_increments->>'photos_received')::INTEGER, 0),
+    experience_points = COALESCE(experience_points, 0) + COALESCE((p_increments->>'experience_points')::INTEGER, 0),
+    updated_at = NOW()
+  WHERE device_id = p_key;
+
+  UPDATE user_stats SET level = calculate_level(experience_points)
+  WHERE device_id = p_key;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql;